@@ -9,7 +9,10 @@ export enum AuditLogObjectType {
   ProblemTag = "ProblemTag",
   Submission = "Submission",
   Discussion = "Discussion",
-  DiscussionReply = "DiscussionReply"
+  DiscussionReply = "DiscussionReply",
+  Contest = "Contest",
+  Hack = "Hack",
+  JudgeClient = "JudgeClient"
 }
 
 @Entity("audit_log")
@@ -23,7 +26,10 @@ export class AuditLogEntity {
   @JoinColumn()
   user: Promise<UserEntity>;
 
-  @Column()
+  /**
+   * null for events not triggered by a user, e.g. a rejected judge client connection
+   */
+  @Column({ nullable: true })
   @Index()
   userId: number;
 
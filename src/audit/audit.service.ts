@@ -130,6 +130,29 @@ export class AuditService {
     await this.auditLogRepository.save(auditLog);
   }
 
+  /**
+   * Log an event not triggered by a user's HTTP request, e.g. in a WebSocket gateway, where the
+   * current request is not available. The IP address should be passed explicitly.
+   */
+  async logWithoutUser(
+    ip: string,
+    action: string,
+    objectType: AuditLogObjectType,
+    objectId: number,
+    details?: unknown
+  ): Promise<void> {
+    const auditLog = new AuditLogEntity();
+    auditLog.userId = null;
+    auditLog.ip = ip;
+    auditLog.time = new Date();
+    auditLog.action = action;
+    auditLog.firstObjectType = objectType;
+    auditLog.firstObjectId = objectId;
+    auditLog.details = details ?? null;
+
+    await this.auditLogRepository.save(auditLog);
+  }
+
   // TODO: add time query
   async query(
     userId: number,
@@ -3,3 +3,8 @@ export const DELAY_FOR_SECURITY = 2000;
 export function delay(ms: number) {
   return new Promise(resolve => setTimeout(resolve, ms));
 }
+
+// Let the pending I/O callbacks run in the middle of a long computation
+export function yieldToEventLoop() {
+  return new Promise(resolve => setImmediate(resolve));
+}
@@ -7,6 +7,7 @@ import {
   IsIn,
   IsBoolean,
   IsInt,
+  IsNumber,
   Min,
   IsEmail,
   IsOptional,
@@ -384,6 +385,45 @@ class PreferenceConfigServerSideOnly {
 
   @IsBoolean()
   dynamicTaskPriority: boolean;
+
+  // In seconds. A consumed judge task is repushed if no progress is reported within the lease time
+  @IsInt()
+  @Min(1)
+  judgeTaskLeaseTime: number;
+
+  // A judge task consumed more than this number of times is marked as system error
+  @IsInt()
+  @Min(1)
+  judgeTaskMaxAttempts: number;
+
+  // In seconds. Changes to a problem's testdata or judge info within this time trigger only one automatic rejudge
+  @IsInt()
+  @Min(0)
+  autoRejudgeDebounceTime: number;
+
+  // In days. Used by the rejudge policy to automatically rejudge recent submissions
+  @IsInt()
+  @Min(1)
+  autoRejudgeRecentDays: number;
+
+  // Finish a submission with the result of an identical submission (same code, options, judge info and testdata)
+  // without judging it again. Problems could opt out of this
+  @IsBoolean()
+  reuseJudgeResults: boolean;
+
+  // In seconds. The computed difficulties of all problems are recomputed once per interval
+  @IsInt()
+  @Min(1)
+  problemDifficultyRecomputeInterval: number;
+
+  // A problem attempted by fewer users has no computed difficulty
+  @IsInt()
+  @Min(1)
+  problemDifficultyMinAttemptedUsers: number;
+
+  // A problem with a validator could be made public only if its input files passed the latest validation
+  @IsBoolean()
+  requireInputValidationBeforePublic: boolean;
 }
 
 // These config items will be sent to client
@@ -412,6 +452,35 @@ export class PreferenceConfig {
   serverSideOnly: PreferenceConfigServerSideOnly;
 }
 
+// Omit a limit to disable it, the limits could be overridden per group
+// The submissions are counted in fixed windows of a minute / an hour, up to twice of a limit could be submitted across
+// the boundary of two windows
+class ResourceLimitConfigSubmissionQuota {
+  // Max submissions of a user in a minute
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  readonly perMinute: number;
+
+  // Max submissions of a user in an hour
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  readonly perHour: number;
+
+  // Min seconds between a user's two submissions to the same problem
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  readonly problemCooldown: number;
+
+  // Max pending submissions of a user
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  readonly maxPending: number;
+}
+
 class ResourceLimitConfig {
   @IsInt()
   @Min(0)
@@ -448,6 +517,30 @@ class ResourceLimitConfig {
   @IsInt()
   @Min(0)
   readonly submissionFileSize: number;
+
+  @IsInt()
+  @Min(0)
+  readonly customTestInputSize: number;
+
+  @IsInt()
+  @Min(0)
+  readonly hackInputSize: number;
+
+  // The latest accepted submission of each user is checked, a job with more submissions is rejected
+  @IsInt()
+  @Min(2)
+  readonly plagiarismCheckSubmissions: number;
+
+  // The oldest revisions of a problem are deleted when exceeded
+  @IsInt()
+  @Min(1)
+  readonly problemRevisions: number;
+
+  // Also limits custom tests, counted separately. Not limited if not set
+  @ValidateNested()
+  @Type(() => ResourceLimitConfigSubmissionQuota)
+  @IsOptional()
+  readonly submissionQuota: ResourceLimitConfigSubmissionQuota;
 }
 
 class QueryLimitConfig {
@@ -479,6 +572,10 @@ class QueryLimitConfig {
   @Min(1)
   readonly userAuditLogs: number;
 
+  @IsInt()
+  @Min(1)
+  readonly problemRevisions: number;
+
   @IsInt()
   @Min(1)
   @ApiProperty()
@@ -488,6 +585,36 @@ class QueryLimitConfig {
   @Min(1)
   @ApiProperty()
   readonly discussionReplies: number;
+
+  @IsInt()
+  @Min(1)
+  @ApiProperty()
+  readonly judgeQueueTasks: number;
+
+  @IsInt()
+  @Min(1)
+  @ApiProperty()
+  readonly plagiarismCheckPairs: number;
+
+  @IsInt()
+  @Min(1)
+  @ApiProperty()
+  readonly exportSubmissions: number;
+
+  @IsInt()
+  @Min(1)
+  @ApiProperty()
+  readonly rejudgeSubmissions: number;
+
+  @IsInt()
+  @Min(1)
+  @ApiProperty()
+  readonly rejudgeJobChangedSubmissions: number;
+
+  @IsInt()
+  @Min(2)
+  @ApiProperty()
+  readonly ratingStandingsParticipants: number;
 }
 
 class JudgeLimitConfig {
@@ -512,10 +639,30 @@ class JudgeLimitConfig {
   stderrDisplay: number;
 }
 
+// The suggested limits are the slowest / largest reference run multiplied by the multipliers
+class JudgeLimitRecommendationConfig {
+  @IsNumber()
+  @Min(1)
+  timeMultiplier: number;
+
+  @IsNumber()
+  @Min(1)
+  memoryMultiplier: number;
+
+  // The fastest accepted submissions of different users are used if no reference submissions are marked
+  @IsInt()
+  @Min(1)
+  acceptedSubmissions: number;
+}
+
 class JudgeConfig {
   @ValidateNested()
   @Type(() => JudgeLimitConfig)
   readonly limit: JudgeLimitConfig;
+
+  @ValidateNested()
+  @Type(() => JudgeLimitRecommendationConfig)
+  readonly limitRecommendation: JudgeLimitRecommendationConfig;
 }
 
 class EventReportConfig {
@@ -0,0 +1,35 @@
+import { Entity, PrimaryGeneratedColumn, Index, ManyToOne, Column, JoinColumn } from "typeorm";
+
+import { UserEntity } from "@/user/user.entity";
+
+import { ContestEntity } from "./contest.entity";
+
+@Entity("contest_participant")
+@Index(["contestId", "userId"], { unique: true })
+export class ContestParticipantEntity {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @ManyToOne(() => ContestEntity, {
+    onDelete: "CASCADE"
+  })
+  @JoinColumn()
+  contest: Promise<ContestEntity>;
+
+  @Column()
+  @Index()
+  contestId: number;
+
+  @ManyToOne(() => UserEntity, {
+    onDelete: "CASCADE"
+  })
+  @JoinColumn()
+  user: Promise<UserEntity>;
+
+  @Column()
+  @Index()
+  userId: number;
+
+  @Column({ type: "datetime" })
+  registrationTime: Date;
+}
@@ -0,0 +1,37 @@
+import { Entity, PrimaryGeneratedColumn, Index, ManyToOne, Column, JoinColumn } from "typeorm";
+
+import { ProblemEntity } from "@/problem/problem.entity";
+
+import { ContestEntity } from "./contest.entity";
+
+@Entity("contest_problem")
+@Index(["contestId", "problemId"], { unique: true })
+@Index(["contestId", "orderId"], { unique: true })
+export class ContestProblemEntity {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @ManyToOne(() => ContestEntity, {
+    onDelete: "CASCADE"
+  })
+  @JoinColumn()
+  contest: Promise<ContestEntity>;
+
+  @Column()
+  @Index()
+  contestId: number;
+
+  @ManyToOne(() => ProblemEntity, {
+    onDelete: "CASCADE"
+  })
+  @JoinColumn()
+  problem: Promise<ProblemEntity>;
+
+  @Column()
+  @Index()
+  problemId: number;
+
+  // The 0-based position of the problem in the contest's problem list (i.e. A, B, C, ...)
+  @Column({ type: "integer" })
+  orderId: number;
+}
@@ -0,0 +1,38 @@
+export interface ContestScoreboardProblemResult {
+  problemId: number;
+
+  // The number of judged submissions (not including the ignored ones, e.g. compilation errors)
+  attempts: number;
+
+  // The number of submissions not judged yet or hidden by the scoreboard freezing
+  pendingAttempts: number;
+
+  accepted: boolean;
+
+  // ICPC: the minutes since the contest started of the first accepted submission
+  acceptedTime?: number;
+
+  // OI / IOI: the score counted in the total score
+  score?: number;
+}
+
+export interface ContestScoreboardRow {
+  rank: number;
+  userId: number;
+
+  // ICPC: the number of solved problems
+  // OI / IOI: the total score
+  score: number;
+
+  // ICPC only
+  penalty?: number;
+
+  problemResults: ContestScoreboardProblemResult[];
+}
+
+export interface ContestScoreboard {
+  // If the scoreboard is frozen for the user viewing it
+  frozen: boolean;
+
+  rows: ContestScoreboardRow[];
+}
@@ -0,0 +1,8 @@
+export enum ContestType {
+  // Ranked by the number of solved problems, then by the penalty time
+  ICPC = "ICPC",
+  // Ranked by the sum of the scores of the LAST submission to each problem
+  OI = "OI",
+  // Ranked by the sum of the MAXIMUM score of the submissions to each problem
+  IOI = "IOI"
+}
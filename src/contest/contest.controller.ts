@@ -0,0 +1,380 @@
+import { Controller, Post, Body } from "@nestjs/common";
+import { ApiOperation, ApiBearerAuth, ApiTags } from "@nestjs/swagger";
+
+import { CurrentUser } from "@/common/user.decorator";
+import { UserEntity } from "@/user/user.entity";
+import { UserService } from "@/user/user.service";
+import { AuditLogObjectType, AuditService } from "@/audit/audit.service";
+import { ProblemPermissionType, ProblemService } from "@/problem/problem.service";
+import { GroupEntity } from "@/group/group.entity";
+import { GroupService } from "@/group/group.service";
+
+import { ContestService, ContestPermissionType, ContestPermissionLevel } from "./contest.service";
+
+import {
+  CreateContestRequestDto,
+  CreateContestResponseDto,
+  CreateContestResponseError,
+  GetContestRequestDto,
+  GetContestResponseDto,
+  GetContestResponseError,
+  GetContestResponseProblemDto,
+  RegisterContestRequestDto,
+  RegisterContestResponseDto,
+  RegisterContestResponseError,
+  GetScoreboardRequestDto,
+  GetScoreboardResponseDto,
+  GetScoreboardResponseError,
+  GetContestPermissionsRequestDto,
+  GetContestPermissionsResponseDto,
+  GetContestPermissionsResponseError,
+  SetContestPermissionsRequestDto,
+  SetContestPermissionsResponseDto,
+  SetContestPermissionsResponseError
+} from "./dto";
+
+@ApiTags("Contest")
+@Controller("contest")
+export class ContestController {
+  constructor(
+    private readonly contestService: ContestService,
+    private readonly problemService: ProblemService,
+    private readonly userService: UserService,
+    private readonly groupService: GroupService,
+    private readonly auditService: AuditService
+  ) {}
+
+  @Post("createContest")
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: "Create a new contest."
+  })
+  async createContest(
+    @CurrentUser() currentUser: UserEntity,
+    @Body() request: CreateContestRequestDto
+  ): Promise<CreateContestResponseDto> {
+    if (!(await this.contestService.userHasCreateContestPermission(currentUser)))
+      return {
+        error: CreateContestResponseError.PERMISSION_DENIED
+      };
+
+    const startTime = new Date(request.startTime);
+    const endTime = new Date(request.endTime);
+    const freezeTime = request.freezeTime ? new Date(request.freezeTime) : null;
+    const unfreezeTime = request.unfreezeTime ? new Date(request.unfreezeTime) : null;
+    if (
+      startTime >= endTime ||
+      (freezeTime && (freezeTime < startTime || freezeTime > endTime)) ||
+      (unfreezeTime && (!freezeTime || unfreezeTime < endTime))
+    )
+      return {
+        error: CreateContestResponseError.INVALID_TIME
+      };
+
+    const problems = await this.problemService.findProblemsByExistingIds(request.problemIds);
+    for (const i of request.problemIds.keys())
+      if (
+        !problems[i] ||
+        // eslint-disable-next-line no-await-in-loop
+        !(await this.problemService.userHasPermission(currentUser, problems[i], ProblemPermissionType.View))
+      )
+        return {
+          error: CreateContestResponseError.NO_SUCH_PROBLEM,
+          errorObjectId: request.problemIds[i]
+        };
+
+    const contest = await this.contestService.createContest(
+      currentUser,
+      request.title,
+      request.description,
+      request.type,
+      startTime,
+      endTime,
+      freezeTime,
+      unfreezeTime,
+      request.isPublic,
+      problems
+    );
+
+    await this.auditService.log("contest.create", AuditLogObjectType.Contest, contest.id);
+
+    return {
+      contestId: contest.id
+    };
+  }
+
+  @Post("getContest")
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: "Get the meta, description and problems of a contest."
+  })
+  async getContest(
+    @CurrentUser() currentUser: UserEntity,
+    @Body() request: GetContestRequestDto
+  ): Promise<GetContestResponseDto> {
+    const contest = await this.contestService.findContestById(request.id);
+    if (!contest)
+      return {
+        error: GetContestResponseError.NO_SUCH_CONTEST
+      };
+
+    const permissions = await this.contestService.getUserPermissionsOfContest(currentUser, contest);
+    if (!permissions.includes(ContestPermissionType.View))
+      return {
+        error: GetContestResponseError.PERMISSION_DENIED
+      };
+
+    // Hide the problems before the contest starts
+    const problems =
+      this.contestService.isContestStarted(contest) || permissions.includes(ContestPermissionType.Modify)
+        ? await Promise.all(
+            (
+              await this.problemService.findProblemsByExistingIds(
+                await this.contestService.getContestProblemIds(contest)
+              )
+            ).map(async problem => {
+              const titleLocale = problem.locales.includes(request.locale) ? request.locale : problem.locales[0];
+              return <GetContestResponseProblemDto>{
+                meta: await this.problemService.getProblemMeta(problem),
+                title: await this.problemService.getProblemLocalizedTitle(problem, titleLocale),
+                titleLocale
+              };
+            })
+          )
+        : null;
+
+    const [meta, owner, participantCount, isRegistered] = await Promise.all([
+      this.contestService.getContestMeta(contest),
+      this.userService.findUserById(contest.ownerId),
+      this.contestService.getParticipantCount(contest),
+      this.contestService.userIsRegistered(currentUser, contest)
+    ]);
+
+    return {
+      meta,
+      description: contest.description,
+      owner: await this.userService.getUserMeta(owner, currentUser),
+      problems,
+      participantCount,
+      isRegistered,
+      permissions
+    };
+  }
+
+  @Post("registerContest")
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: "Register the current user for a contest."
+  })
+  async registerContest(
+    @CurrentUser() currentUser: UserEntity,
+    @Body() request: RegisterContestRequestDto
+  ): Promise<RegisterContestResponseDto> {
+    if (!currentUser)
+      return {
+        error: RegisterContestResponseError.PERMISSION_DENIED
+      };
+
+    return await this.contestService.lockContestById<RegisterContestResponseDto>(
+      request.contestId,
+      "Read",
+      async contest => {
+        if (!contest)
+          return {
+            error: RegisterContestResponseError.NO_SUCH_CONTEST
+          };
+
+        if (!(await this.contestService.userHasPermission(currentUser, contest, ContestPermissionType.View)))
+          return {
+            error: RegisterContestResponseError.PERMISSION_DENIED
+          };
+
+        if (this.contestService.isContestEnded(contest))
+          return {
+            error: RegisterContestResponseError.CONTEST_ENDED
+          };
+
+        if (!(await this.contestService.registerContest(currentUser, contest)))
+          return {
+            error: RegisterContestResponseError.ALREADY_REGISTERED
+          };
+
+        return {};
+      }
+    );
+  }
+
+  @Post("getScoreboard")
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: "Get the scoreboard of a contest.",
+    description:
+      "The scoreboard is frozen during the freeze period unless the user has permission to modify the contest."
+  })
+  async getScoreboard(
+    @CurrentUser() currentUser: UserEntity,
+    @Body() request: GetScoreboardRequestDto
+  ): Promise<GetScoreboardResponseDto> {
+    const contest = await this.contestService.findContestById(request.contestId);
+    if (!contest)
+      return {
+        error: GetScoreboardResponseError.NO_SUCH_CONTEST
+      };
+
+    if (!(await this.contestService.userHasPermission(currentUser, contest, ContestPermissionType.View)))
+      return {
+        error: GetScoreboardResponseError.PERMISSION_DENIED
+      };
+
+    const frozen =
+      this.contestService.isScoreboardFrozen(contest) &&
+      !(await this.contestService.userHasPermission(currentUser, contest, ContestPermissionType.Modify));
+    const scoreboard = await this.contestService.getScoreboard(contest, frozen);
+
+    const users = await this.userService.findUsersByExistingIds(scoreboard.rows.map(row => row.userId));
+    return {
+      frozen: scoreboard.frozen,
+      rows: await Promise.all(
+        scoreboard.rows.map(async (row, i) => ({
+          rank: row.rank,
+          user: await this.userService.getUserMeta(users[i], currentUser),
+          score: row.score,
+          penalty: row.penalty,
+          problemResults: row.problemResults
+        }))
+      )
+    };
+  }
+
+  @Post("getContestPermissions")
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: "Get which users and groups have which permissions of the contest."
+  })
+  async getContestPermissions(
+    @CurrentUser() currentUser: UserEntity,
+    @Body() request: GetContestPermissionsRequestDto
+  ): Promise<GetContestPermissionsResponseDto> {
+    const contest = await this.contestService.findContestById(request.id);
+    if (!contest)
+      return {
+        error: GetContestPermissionsResponseError.NO_SUCH_CONTEST
+      };
+
+    if (!(await this.contestService.userHasPermission(currentUser, contest, ContestPermissionType.Modify)))
+      return {
+        error: GetContestPermissionsResponseError.PERMISSION_DENIED
+      };
+
+    const [userPermissions, groupPermissions] = await this.contestService.getContestPermissions(contest);
+
+    return {
+      permissions: {
+        userPermissions: await Promise.all(
+          userPermissions.map(async ([user, permissionLevel]) => ({
+            user: await this.userService.getUserMeta(user, currentUser),
+            permissionLevel
+          }))
+        ),
+        groupPermissions: await Promise.all(
+          groupPermissions.map(async ([group, permissionLevel]) => ({
+            group: await this.groupService.getGroupMeta(group),
+            permissionLevel
+          }))
+        )
+      },
+      haveManagePermissionsPermission: await this.contestService.userHasPermission(
+        currentUser,
+        contest,
+        ContestPermissionType.ManagePermission
+      )
+    };
+  }
+
+  @Post("setContestPermissions")
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: "Set who and which groups have permission to read / write this contest."
+  })
+  async setContestPermissions(
+    @CurrentUser() currentUser: UserEntity,
+    @Body() request: SetContestPermissionsRequestDto
+  ): Promise<SetContestPermissionsResponseDto> {
+    if (!currentUser)
+      return {
+        error: SetContestPermissionsResponseError.PERMISSION_DENIED
+      };
+
+    return await this.contestService.lockContestById<SetContestPermissionsResponseDto>(
+      request.contestId,
+      "Read",
+      async contest => {
+        if (!contest)
+          return {
+            error: SetContestPermissionsResponseError.NO_SUCH_CONTEST,
+            errorObjectId: request.contestId
+          };
+
+        if (
+          !(await this.contestService.userHasPermission(currentUser, contest, ContestPermissionType.ManagePermission))
+        )
+          return {
+            error: SetContestPermissionsResponseError.PERMISSION_DENIED
+          };
+
+        const users = await this.userService.findUsersByExistingIds(
+          request.userPermissions.map(userPermission => userPermission.userId)
+        );
+        const userPermissions: [UserEntity, ContestPermissionLevel][] = [];
+        for (const i of request.userPermissions.keys()) {
+          const { userId, permissionLevel } = request.userPermissions[i];
+          if (!users[i])
+            return {
+              error: SetContestPermissionsResponseError.NO_SUCH_USER,
+              errorObjectId: userId
+            };
+
+          userPermissions.push([users[i], permissionLevel]);
+        }
+
+        const groups = await this.groupService.findGroupsByExistingIds(
+          request.groupPermissions.map(groupPermission => groupPermission.groupId)
+        );
+        const groupPermissions: [GroupEntity, ContestPermissionLevel][] = [];
+        for (const i of request.groupPermissions.keys()) {
+          const { groupId, permissionLevel } = request.groupPermissions[i];
+          if (!groups[i])
+            return {
+              error: SetContestPermissionsResponseError.NO_SUCH_GROUP,
+              errorObjectId: groupId
+            };
+
+          groupPermissions.push([groups[i], permissionLevel]);
+        }
+
+        const oldPermissions = await this.contestService.getContestPermissionsWithId(contest);
+
+        await this.contestService.setContestPermissions(contest, userPermissions, groupPermissions);
+
+        await this.auditService.log("contest.set_permissions", AuditLogObjectType.Contest, contest.id, {
+          oldPermissions: {
+            userPermissions: oldPermissions[0].map(([userId, permissionLevel]) => ({
+              userId,
+              permissionLevel
+            })),
+            groupPermissions: oldPermissions[1].map(([groupId, permissionLevel]) => ({
+              groupId,
+              permissionLevel
+            }))
+          },
+          newPermissions: {
+            userPermissions: request.userPermissions,
+            groupPermissions: request.groupPermissions
+          }
+        });
+
+        return {};
+      }
+    );
+  }
+}
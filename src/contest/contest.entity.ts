@@ -0,0 +1,49 @@
+import { Entity, PrimaryGeneratedColumn, Index, ManyToOne, Column, JoinColumn } from "typeorm";
+
+import { UserEntity } from "@/user/user.entity";
+
+import { ContestType } from "./contest-type.enum";
+
+@Entity("contest")
+@Index(["isPublic", "startTime"])
+export class ContestEntity {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column({ type: "varchar", length: 80 })
+  title: string;
+
+  @Column({ type: "mediumtext" })
+  description: string;
+
+  @Column({ type: "enum", enum: ContestType })
+  type: ContestType;
+
+  @Column({ type: "datetime" })
+  @Index()
+  startTime: Date;
+
+  @Column({ type: "datetime" })
+  @Index()
+  endTime: Date;
+
+  // Submissions submitted after the freeze time are hidden from the scoreboard until the unfreeze time
+  // `null` for never freeze the scoreboard
+  @Column({ type: "datetime", nullable: true })
+  freezeTime: Date;
+
+  // `null` for unfreezing the scoreboard when the contest ends
+  @Column({ type: "datetime", nullable: true })
+  unfreezeTime: Date;
+
+  @Column({ type: "boolean" })
+  isPublic: boolean;
+
+  @ManyToOne(() => UserEntity)
+  @JoinColumn()
+  owner: Promise<UserEntity>;
+
+  @Column()
+  @Index()
+  ownerId: number;
+}
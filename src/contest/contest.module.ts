@@ -0,0 +1,33 @@
+import { Module, forwardRef } from "@nestjs/common";
+import { TypeOrmModule } from "@nestjs/typeorm";
+
+import { UserModule } from "@/user/user.module";
+import { AuditModule } from "@/audit/audit.module";
+import { PermissionModule } from "@/permission/permission.module";
+import { RedisModule } from "@/redis/redis.module";
+import { GroupModule } from "@/group/group.module";
+import { ProblemModule } from "@/problem/problem.module";
+
+import { ContestService } from "./contest.service";
+import { ContestController } from "./contest.controller";
+import { ContestEntity } from "./contest.entity";
+import { ContestProblemEntity } from "./contest-problem.entity";
+import { ContestParticipantEntity } from "./contest-participant.entity";
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([ContestEntity]),
+    TypeOrmModule.forFeature([ContestProblemEntity]),
+    TypeOrmModule.forFeature([ContestParticipantEntity]),
+    forwardRef(() => UserModule),
+    forwardRef(() => GroupModule),
+    forwardRef(() => AuditModule),
+    forwardRef(() => PermissionModule),
+    forwardRef(() => ProblemModule),
+    forwardRef(() => RedisModule)
+  ],
+  providers: [ContestService],
+  controllers: [ContestController],
+  exports: [ContestService]
+})
+export class ContestModule {}
@@ -0,0 +1,495 @@
+import { Injectable, Inject, forwardRef } from "@nestjs/common";
+import { InjectRepository, InjectDataSource } from "@nestjs/typeorm";
+
+import { Repository, DataSource } from "typeorm";
+
+import { UserService } from "@/user/user.service";
+import { UserEntity } from "@/user/user.entity";
+import { AuditLogObjectType, AuditService } from "@/audit/audit.service";
+import { UserPrivilegeService, UserPrivilegeType } from "@/user/user-privilege.service";
+import { PermissionObjectType, PermissionService } from "@/permission/permission.service";
+import { GroupEntity } from "@/group/group.entity";
+import { GroupService } from "@/group/group.service";
+import { ProblemEntity } from "@/problem/problem.entity";
+import { LockService } from "@/redis/lock.service";
+import { SubmissionEntity } from "@/submission/submission.entity";
+import { SubmissionStatus } from "@/submission/submission-status.enum";
+
+import { ContestEntity } from "./contest.entity";
+import { ContestProblemEntity } from "./contest-problem.entity";
+import { ContestParticipantEntity } from "./contest-participant.entity";
+import { ContestType } from "./contest-type.enum";
+import {
+  ContestScoreboard,
+  ContestScoreboardProblemResult,
+  ContestScoreboardRow
+} from "./contest-scoreboard.interface";
+
+import { ContestMetaDto } from "./dto";
+
+export enum ContestPermissionType {
+  View = "View",
+  Modify = "Modify",
+  ManagePermission = "ManagePermission"
+}
+
+export enum ContestPermissionLevel {
+  Read = 1,
+  Write = 2
+}
+
+// The penalty time (in minutes) for each rejected submission before the first accepted one in an ICPC contest
+const ICPC_PENALTY_PER_REJECTED_SUBMISSION = 20;
+
+// Submissions with these statuses are not counted into the scoreboard
+const IGNORED_SUBMISSION_STATUSES = [
+  SubmissionStatus.Canceled,
+  SubmissionStatus.CompilationError,
+  SubmissionStatus.ConfigurationError,
+  SubmissionStatus.SystemError,
+  SubmissionStatus.JudgementFailed
+];
+
+interface ContestScoreboardSubmission {
+  problemId: number;
+  submitterId: number;
+  status: SubmissionStatus;
+  score: number;
+  submitTime: Date;
+}
+
+@Injectable()
+export class ContestService {
+  constructor(
+    @InjectDataSource()
+    private readonly connection: DataSource,
+    @InjectRepository(ContestEntity)
+    private readonly contestRepository: Repository<ContestEntity>,
+    @InjectRepository(ContestProblemEntity)
+    private readonly contestProblemRepository: Repository<ContestProblemEntity>,
+    @InjectRepository(ContestParticipantEntity)
+    private readonly contestParticipantRepository: Repository<ContestParticipantEntity>,
+    @Inject(forwardRef(() => UserService))
+    private readonly userService: UserService,
+    private readonly groupService: GroupService,
+    private readonly auditService: AuditService,
+    private readonly userPrivilegeService: UserPrivilegeService,
+    private readonly permissionService: PermissionService,
+    private readonly lockService: LockService
+  ) {
+    this.auditService.registerObjectTypeQueryHandler(AuditLogObjectType.Contest, async contestId => {
+      const contest = await this.findContestById(contestId);
+      return !contest ? null : await this.getContestMeta(contest);
+    });
+  }
+
+  async findContestById(id: number): Promise<ContestEntity> {
+    return await this.contestRepository.findOneBy({ id });
+  }
+
+  async getContestMeta(contest: ContestEntity): Promise<ContestMetaDto> {
+    return {
+      id: contest.id,
+      title: contest.title,
+      type: contest.type,
+      startTime: contest.startTime,
+      endTime: contest.endTime,
+      freezeTime: contest.freezeTime,
+      unfreezeTime: contest.unfreezeTime,
+      isPublic: contest.isPublic,
+      ownerId: contest.ownerId
+    };
+  }
+
+  isContestStarted(contest: ContestEntity, now = new Date()): boolean {
+    return now >= contest.startTime;
+  }
+
+  isContestEnded(contest: ContestEntity, now = new Date()): boolean {
+    return now >= contest.endTime;
+  }
+
+  isContestRunning(contest: ContestEntity, now = new Date()): boolean {
+    return this.isContestStarted(contest, now) && !this.isContestEnded(contest, now);
+  }
+
+  /**
+   * The scoreboard is frozen from the freeze time to the unfreeze time (or the end time if not set).
+   */
+  isScoreboardFrozen(contest: ContestEntity, now = new Date()): boolean {
+    if (!contest.freezeTime) return false;
+    return now >= contest.freezeTime && now < (contest.unfreezeTime || contest.endTime);
+  }
+
+  async userHasPermission(user: UserEntity, contest: ContestEntity, type: ContestPermissionType): Promise<boolean> {
+    switch (type) {
+      // Everyone can view a public contest
+      // Owner, admins and those who has read permission can view a non-public contest
+      case ContestPermissionType.View:
+        if (contest.isPublic) return true;
+        if (!user) return false;
+        if (user.id === contest.ownerId) return true;
+        if (await this.userPrivilegeService.userHasPrivilege(user, UserPrivilegeType.ManageContest)) return true;
+        return await this.permissionService.userOrItsGroupsHavePermission(
+          user,
+          contest.id,
+          PermissionObjectType.Contest,
+          ContestPermissionLevel.Read
+        );
+
+      // Owner, admins and those who has write permission can modify a contest
+      case ContestPermissionType.Modify:
+        if (!user) return false;
+        if (user.id === contest.ownerId) return true;
+        if (await this.userPrivilegeService.userHasPrivilege(user, UserPrivilegeType.ManageContest)) return true;
+        return await this.permissionService.userOrItsGroupsHavePermission(
+          user,
+          contest.id,
+          PermissionObjectType.Contest,
+          ContestPermissionLevel.Write
+        );
+
+      // Owner and admins can manage a contest's permission
+      case ContestPermissionType.ManagePermission:
+        if (!user) return false;
+        if (user.id === contest.ownerId) return true;
+        return await this.userPrivilegeService.userHasPrivilege(user, UserPrivilegeType.ManageContest);
+
+      default:
+        return false;
+    }
+  }
+
+  async getUserPermissionsOfContest(user: UserEntity, contest: ContestEntity): Promise<ContestPermissionType[]> {
+    if (!user) return contest.isPublic ? [ContestPermissionType.View] : [];
+    if (
+      user.id === contest.ownerId ||
+      (await this.userPrivilegeService.userHasPrivilege(user, UserPrivilegeType.ManageContest))
+    )
+      return Object.values(ContestPermissionType);
+
+    const permissionLevel = await this.permissionService.getUserOrItsGroupsMaxPermissionLevel<ContestPermissionLevel>(
+      user,
+      contest.id,
+      PermissionObjectType.Contest
+    );
+    const result: ContestPermissionType[] = [];
+    if (contest.isPublic || permissionLevel >= ContestPermissionLevel.Read) result.push(ContestPermissionType.View);
+    if (permissionLevel >= ContestPermissionLevel.Write) result.push(ContestPermissionType.Modify);
+
+    return result;
+  }
+
+  async userHasCreateContestPermission(user: UserEntity): Promise<boolean> {
+    if (!user) return false;
+    return await this.userPrivilegeService.userHasPrivilege(user, UserPrivilegeType.ManageContest);
+  }
+
+  /**
+   * @param problems The ordered problem list of the contest.
+   */
+  async createContest(
+    owner: UserEntity,
+    title: string,
+    description: string,
+    type: ContestType,
+    startTime: Date,
+    endTime: Date,
+    freezeTime: Date,
+    unfreezeTime: Date,
+    isPublic: boolean,
+    problems: ProblemEntity[]
+  ): Promise<ContestEntity> {
+    return await this.connection.transaction("READ COMMITTED", async transactionalEntityManager => {
+      const contest = new ContestEntity();
+      contest.title = title;
+      contest.description = description;
+      contest.type = type;
+      contest.startTime = startTime;
+      contest.endTime = endTime;
+      contest.freezeTime = freezeTime || null;
+      contest.unfreezeTime = unfreezeTime || null;
+      contest.isPublic = isPublic;
+      contest.ownerId = owner.id;
+      await transactionalEntityManager.save(contest);
+
+      await transactionalEntityManager.save(
+        problems.map((problem, i) => {
+          const contestProblem = new ContestProblemEntity();
+          contestProblem.contestId = contest.id;
+          contestProblem.problemId = problem.id;
+          contestProblem.orderId = i;
+          return contestProblem;
+        })
+      );
+
+      return contest;
+    });
+  }
+
+  /**
+   * @return The problem IDs of the contest, ordered by their positions in the contest.
+   */
+  async getContestProblemIds(contest: ContestEntity): Promise<number[]> {
+    const contestProblems = await this.contestProblemRepository.find({
+      where: { contestId: contest.id },
+      order: { orderId: "ASC" }
+    });
+    return contestProblems.map(contestProblem => contestProblem.problemId);
+  }
+
+  async problemIsInContest(contest: ContestEntity, problem: ProblemEntity): Promise<boolean> {
+    return (await this.contestProblemRepository.countBy({ contestId: contest.id, problemId: problem.id })) !== 0;
+  }
+
+  async userIsRegistered(user: UserEntity, contest: ContestEntity): Promise<boolean> {
+    if (!user) return false;
+    return (await this.contestParticipantRepository.countBy({ contestId: contest.id, userId: user.id })) !== 0;
+  }
+
+  /**
+   * Registered participants of a contest can view its problems once it starts, even if they're not public.
+   */
+  async userIsParticipantOfStartedContestWithProblem(user: UserEntity, problem: ProblemEntity): Promise<boolean> {
+    if (!user) return false;
+    return (
+      (await this.contestProblemRepository
+        .createQueryBuilder("contestProblem")
+        .innerJoin(ContestEntity, "contest", "contest.id = contestProblem.contestId")
+        .innerJoin(
+          ContestParticipantEntity,
+          "participant",
+          "participant.contestId = contestProblem.contestId AND participant.userId = :userId",
+          { userId: user.id }
+        )
+        .where("contestProblem.problemId = :problemId", { problemId: problem.id })
+        .andWhere("contest.startTime <= :now", { now: new Date() })
+        .getCount()) !== 0
+    );
+  }
+
+  async getParticipantCount(contest: ContestEntity): Promise<number> {
+    return await this.contestParticipantRepository.countBy({ contestId: contest.id });
+  }
+
+  /**
+   * @return `false` if the user has already registered.
+   */
+  async registerContest(user: UserEntity, contest: ContestEntity): Promise<boolean> {
+    const result = await this.contestParticipantRepository
+      .createQueryBuilder()
+      .insert()
+      .values({
+        contestId: contest.id,
+        userId: user.id,
+        registrationTime: new Date()
+      })
+      .orIgnore()
+      .execute();
+    return result.raw.affectedRows !== 0;
+  }
+
+  /**
+   * Lock a contest by ID with Read/Write Lock.
+   * @param type `"Read"` to ensure the contest exists while holding the lock, `"Write"` is for deleting the contest.
+   */
+  async lockContestById<T>(
+    id: number,
+    type: "Read" | "Write",
+    callback: (contest: ContestEntity) => Promise<T>
+  ): Promise<T> {
+    return await this.lockService.lockReadWrite(
+      `AcquireContest_${id}`,
+      type,
+      async () => await callback(await this.findContestById(id))
+    );
+  }
+
+  async setContestPermissions(
+    contest: ContestEntity,
+    userPermissions: [user: UserEntity, permission: ContestPermissionLevel][],
+    groupPermissions: [group: GroupEntity, permission: ContestPermissionLevel][]
+  ): Promise<void> {
+    await this.permissionService.replaceUsersAndGroupsPermissionForObject(
+      contest.id,
+      PermissionObjectType.Contest,
+      userPermissions,
+      groupPermissions
+    );
+  }
+
+  async getContestPermissionsWithId(
+    contest: ContestEntity
+  ): Promise<
+    [[userId: number, permission: ContestPermissionLevel][], [groupId: number, permission: ContestPermissionLevel][]]
+  > {
+    return await this.permissionService.getUserAndGroupPermissionListOfObject<ContestPermissionLevel>(
+      contest.id,
+      PermissionObjectType.Contest
+    );
+  }
+
+  async getContestPermissions(
+    contest: ContestEntity
+  ): Promise<
+    [
+      [user: UserEntity, permission: ContestPermissionLevel][],
+      [group: GroupEntity, permission: ContestPermissionLevel][]
+    ]
+  > {
+    const [userPermissionList, groupPermissionList] = await this.getContestPermissionsWithId(contest);
+    return [
+      await Promise.all(
+        userPermissionList.map(
+          async ([userId, permission]): Promise<[user: UserEntity, permission: ContestPermissionLevel]> => [
+            await this.userService.findUserById(userId),
+            permission
+          ]
+        )
+      ),
+      await Promise.all(
+        groupPermissionList.map(
+          async ([groupId, permission]): Promise<[group: GroupEntity, permission: ContestPermissionLevel]> => [
+            await this.groupService.findGroupById(groupId),
+            permission
+          ]
+        )
+      )
+    ];
+  }
+
+  /**
+   * Calculate the scoreboard of a contest from the submissions submitted during the contest.
+   *
+   * @param frozen If `true`, the results of the submissions submitted after the freeze time are hidden.
+   */
+  async getScoreboard(contest: ContestEntity, frozen: boolean): Promise<ContestScoreboard> {
+    const [problemIds, participants, submissions] = await Promise.all([
+      this.getContestProblemIds(contest),
+      this.contestParticipantRepository.find({
+        where: { contestId: contest.id },
+        order: { registrationTime: "ASC" }
+      }),
+      this.connection
+        .createQueryBuilder()
+        .select("submission.problemId", "problemId")
+        .addSelect("submission.submitterId", "submitterId")
+        .addSelect("submission.status", "status")
+        .addSelect("submission.score", "score")
+        .addSelect("submission.submitTime", "submitTime")
+        .from(SubmissionEntity, "submission")
+        .where("submission.contestId = :contestId", { contestId: contest.id })
+        .andWhere("submission.submitTime >= :startTime", { startTime: contest.startTime })
+        .andWhere("submission.submitTime < :endTime", { endTime: contest.endTime })
+        .andWhere("submission.status NOT IN (:...ignoredStatuses)", { ignoredStatuses: IGNORED_SUBMISSION_STATUSES })
+        .orderBy("submission.id", "ASC")
+        .getRawMany<ContestScoreboardSubmission>()
+    ]);
+
+    const submissionsByUser = new Map<number, ContestScoreboardSubmission[]>(
+      participants.map(participant => [participant.userId, []])
+    );
+    for (const submission of submissions) submissionsByUser.get(submission.submitterId)?.push(submission);
+
+    const rows = Array.from(submissionsByUser.entries()).map(([userId, userSubmissions]) => {
+      const problemResults = problemIds.map(problemId =>
+        this.calculateProblemResult(
+          contest,
+          problemId,
+          userSubmissions.filter(submission => submission.problemId === problemId),
+          frozen
+        )
+      );
+
+      const row: ContestScoreboardRow = {
+        rank: null,
+        userId,
+        score: null,
+        problemResults
+      };
+      if (contest.type === ContestType.ICPC) {
+        const acceptedResults = problemResults.filter(result => result.accepted);
+        row.score = acceptedResults.length;
+        row.penalty = acceptedResults.reduce(
+          (sum, result) => sum + result.acceptedTime + result.attempts * ICPC_PENALTY_PER_REJECTED_SUBMISSION,
+          0
+        );
+      } else row.score = problemResults.reduce((sum, result) => sum + (result.score || 0), 0);
+
+      return row;
+    });
+
+    const compareRows = (a: ContestScoreboardRow, b: ContestScoreboardRow) =>
+      b.score - a.score || (contest.type === ContestType.ICPC ? a.penalty - b.penalty : 0);
+    rows.sort(compareRows);
+    rows.forEach((row, i) => {
+      row.rank = i > 0 && compareRows(rows[i - 1], row) === 0 ? rows[i - 1].rank : i + 1;
+    });
+
+    return {
+      frozen,
+      rows
+    };
+  }
+
+  /**
+   * @param submissions The submissions of a user to a problem, ordered by submission ID.
+   */
+  private calculateProblemResult(
+    contest: ContestEntity,
+    problemId: number,
+    submissions: ContestScoreboardSubmission[],
+    frozen: boolean
+  ): ContestScoreboardProblemResult {
+    const result: ContestScoreboardProblemResult = {
+      problemId,
+      attempts: 0,
+      pendingAttempts: 0,
+      accepted: false
+    };
+
+    const isHidden = (submission: ContestScoreboardSubmission) =>
+      submission.status === SubmissionStatus.Pending || (frozen && submission.submitTime >= contest.freezeTime);
+
+    for (const submission of submissions) {
+      if (isHidden(submission)) {
+        // Submissions after the first accepted one don't matter in ICPC
+        if (!(contest.type === ContestType.ICPC && result.accepted)) result.pendingAttempts++;
+        continue;
+      }
+
+      switch (contest.type) {
+        case ContestType.ICPC:
+          if (result.accepted || result.pendingAttempts > 0) {
+            // A judged submission after a pending one can't be counted before we know the pending one's result
+            if (!result.accepted) result.pendingAttempts++;
+            break;
+          }
+
+          if (submission.status === SubmissionStatus.Accepted) {
+            result.accepted = true;
+            result.acceptedTime = Math.floor((+submission.submitTime - +contest.startTime) / 60000);
+          } else result.attempts++;
+          break;
+
+        case ContestType.OI:
+          // The last submission counts
+          result.attempts++;
+          result.score = submission.score;
+          result.accepted = submission.status === SubmissionStatus.Accepted;
+          break;
+
+        case ContestType.IOI:
+          // The maximum score counts
+          result.attempts++;
+          result.score = Math.max(result.score ?? 0, submission.score ?? 0);
+          result.accepted ||= submission.status === SubmissionStatus.Accepted;
+          break;
+
+        default:
+      }
+    }
+
+    return result;
+  }
+}
@@ -0,0 +1,32 @@
+import { ApiProperty } from "@nestjs/swagger";
+
+import { ContestType } from "../contest-type.enum";
+
+export class ContestMetaDto {
+  @ApiProperty()
+  id: number;
+
+  @ApiProperty()
+  title: string;
+
+  @ApiProperty({ enum: ContestType })
+  type: ContestType;
+
+  @ApiProperty()
+  startTime: Date;
+
+  @ApiProperty()
+  endTime: Date;
+
+  @ApiProperty()
+  freezeTime: Date;
+
+  @ApiProperty()
+  unfreezeTime: Date;
+
+  @ApiProperty()
+  isPublic: boolean;
+
+  @ApiProperty()
+  ownerId: number;
+}
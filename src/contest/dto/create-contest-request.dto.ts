@@ -0,0 +1,60 @@
+import { ApiProperty } from "@nestjs/swagger";
+
+import {
+  IsArray,
+  ArrayMaxSize,
+  ArrayUnique,
+  IsBoolean,
+  IsDateString,
+  IsEnum,
+  IsInt,
+  IsOptional,
+  IsString,
+  Length
+} from "class-validator";
+
+import { ContestType } from "../contest-type.enum";
+
+export class CreateContestRequestDto {
+  @ApiProperty()
+  @IsString()
+  @Length(1, 80)
+  title: string;
+
+  @ApiProperty()
+  @IsString()
+  description: string;
+
+  @ApiProperty({ enum: ContestType })
+  @IsEnum(ContestType)
+  type: ContestType;
+
+  @ApiProperty()
+  @IsDateString()
+  startTime: string;
+
+  @ApiProperty()
+  @IsDateString()
+  endTime: string;
+
+  @ApiProperty()
+  @IsDateString()
+  @IsOptional()
+  freezeTime?: string;
+
+  @ApiProperty()
+  @IsDateString()
+  @IsOptional()
+  unfreezeTime?: string;
+
+  @ApiProperty()
+  @IsBoolean()
+  isPublic: boolean;
+
+  @ApiProperty({ type: [Number], description: "The problem IDs, in the order they're displayed in the contest." })
+  @ArrayMaxSize(26)
+  @ArrayUnique()
+  @IsInt({ each: true })
+  @IsArray()
+  problemIds: number[];
+}
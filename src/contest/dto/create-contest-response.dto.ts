@@ -0,0 +1,18 @@
+import { ApiProperty } from "@nestjs/swagger";
+
+export enum CreateContestResponseError {
+  PERMISSION_DENIED = "PERMISSION_DENIED",
+  NO_SUCH_PROBLEM = "NO_SUCH_PROBLEM",
+  INVALID_TIME = "INVALID_TIME"
+}
+
+export class CreateContestResponseDto {
+  @ApiProperty({ enum: CreateContestResponseError })
+  error?: CreateContestResponseError;
+
+  @ApiProperty()
+  errorObjectId?: number;
+
+  @ApiProperty()
+  contestId?: number;
+}
@@ -0,0 +1,46 @@
+import { ApiProperty } from "@nestjs/swagger";
+
+import { ContestPermissionLevel } from "@/contest/contest.service";
+
+import { UserMetaDto } from "@/user/dto";
+import { GroupMetaDto } from "@/group/dto";
+
+export enum GetContestPermissionsResponseError {
+  PERMISSION_DENIED = "PERMISSION_DENIED",
+  NO_SUCH_CONTEST = "NO_SUCH_CONTEST"
+}
+
+class ContestUserPermissionDto {
+  @ApiProperty()
+  user: UserMetaDto;
+
+  @ApiProperty({ enum: Object.values(ContestPermissionLevel).filter(x => typeof x === "number") })
+  permissionLevel: ContestPermissionLevel;
+}
+
+class ContestGroupPermissionDto {
+  @ApiProperty()
+  group: GroupMetaDto;
+
+  @ApiProperty({ enum: Object.values(ContestPermissionLevel).filter(x => typeof x === "number") })
+  permissionLevel: ContestPermissionLevel;
+}
+
+class ContestPermissionsDto {
+  @ApiProperty({ type: [ContestUserPermissionDto] })
+  userPermissions: ContestUserPermissionDto[];
+
+  @ApiProperty({ type: [ContestGroupPermissionDto] })
+  groupPermissions: ContestGroupPermissionDto[];
+}
+
+export class GetContestPermissionsResponseDto {
+  @ApiProperty({ enum: GetContestPermissionsResponseError })
+  error?: GetContestPermissionsResponseError;
+
+  @ApiProperty()
+  permissions?: ContestPermissionsDto;
+
+  @ApiProperty()
+  haveManagePermissionsPermission?: boolean;
+}
@@ -0,0 +1,15 @@
+import { ApiProperty } from "@nestjs/swagger";
+
+import { IsEnum, IsInt } from "class-validator";
+
+import { Locale } from "@/common/locale.type";
+
+export class GetContestRequestDto {
+  @ApiProperty()
+  @IsInt()
+  id: number;
+
+  @ApiProperty()
+  @IsEnum(Locale)
+  locale: Locale;
+}
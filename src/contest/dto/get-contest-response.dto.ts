@@ -0,0 +1,54 @@
+import { ApiProperty } from "@nestjs/swagger";
+
+import { Locale } from "@/common/locale.type";
+import { ContestPermissionType } from "@/contest/contest.service";
+
+import { ContestMetaDto } from "./contest-meta.dto";
+
+import { ProblemMetaDto } from "@/problem/dto";
+import { UserMetaDto } from "@/user/dto";
+
+export enum GetContestResponseError {
+  PERMISSION_DENIED = "PERMISSION_DENIED",
+  NO_SUCH_CONTEST = "NO_SUCH_CONTEST"
+}
+
+export class GetContestResponseProblemDto {
+  @ApiProperty()
+  meta: ProblemMetaDto;
+
+  @ApiProperty()
+  title: string;
+
+  @ApiProperty()
+  titleLocale: Locale;
+}
+
+export class GetContestResponseDto {
+  @ApiProperty({ enum: GetContestResponseError })
+  error?: GetContestResponseError;
+
+  @ApiProperty()
+  meta?: ContestMetaDto;
+
+  @ApiProperty()
+  description?: string;
+
+  @ApiProperty()
+  owner?: UserMetaDto;
+
+  @ApiProperty({
+    type: [GetContestResponseProblemDto],
+    description: "Only returned after the contest started or to users who have permission to modify the contest."
+  })
+  problems?: GetContestResponseProblemDto[];
+
+  @ApiProperty()
+  participantCount?: number;
+
+  @ApiProperty()
+  isRegistered?: boolean;
+
+  @ApiProperty({ enum: ContestPermissionType, isArray: true })
+  permissions?: ContestPermissionType[];
+}
@@ -0,0 +1,9 @@
+import { ApiProperty } from "@nestjs/swagger";
+
+import { IsInt } from "class-validator";
+
+export class GetScoreboardRequestDto {
+  @ApiProperty()
+  @IsInt()
+  contestId: number;
+}
@@ -0,0 +1,56 @@
+import { ApiProperty } from "@nestjs/swagger";
+
+import { UserMetaDto } from "@/user/dto";
+
+export enum GetScoreboardResponseError {
+  PERMISSION_DENIED = "PERMISSION_DENIED",
+  NO_SUCH_CONTEST = "NO_SUCH_CONTEST"
+}
+
+export class ContestScoreboardProblemResultDto {
+  @ApiProperty()
+  problemId: number;
+
+  @ApiProperty()
+  attempts: number;
+
+  @ApiProperty({ description: "The number of submissions not judged yet or hidden by the scoreboard freezing." })
+  pendingAttempts: number;
+
+  @ApiProperty()
+  accepted: boolean;
+
+  @ApiProperty({ description: "ICPC only. The minutes since the contest started of the first accepted submission." })
+  acceptedTime?: number;
+
+  @ApiProperty({ description: "OI / IOI only." })
+  score?: number;
+}
+
+export class ContestScoreboardRowDto {
+  @ApiProperty()
+  rank: number;
+
+  @ApiProperty()
+  user: UserMetaDto;
+
+  @ApiProperty({ description: "The number of solved problems for ICPC, the total score for OI / IOI." })
+  score: number;
+
+  @ApiProperty({ description: "ICPC only." })
+  penalty?: number;
+
+  @ApiProperty({ type: [ContestScoreboardProblemResultDto] })
+  problemResults: ContestScoreboardProblemResultDto[];
+}
+
+export class GetScoreboardResponseDto {
+  @ApiProperty({ enum: GetScoreboardResponseError })
+  error?: GetScoreboardResponseError;
+
+  @ApiProperty()
+  frozen?: boolean;
+
+  @ApiProperty({ type: [ContestScoreboardRowDto] })
+  rows?: ContestScoreboardRowDto[];
+}
@@ -0,0 +1,19 @@
+export * from "./contest-meta.dto";
+
+export * from "./create-contest-request.dto";
+export * from "./create-contest-response.dto";
+
+export * from "./get-contest-request.dto";
+export * from "./get-contest-response.dto";
+
+export * from "./register-contest-request.dto";
+export * from "./register-contest-response.dto";
+
+export * from "./get-scoreboard-request.dto";
+export * from "./get-scoreboard-response.dto";
+
+export * from "./get-contest-permissions-request.dto";
+export * from "./get-contest-permissions-response.dto";
+
+export * from "./set-contest-permissions-request.dto";
+export * from "./set-contest-permissions-response.dto";
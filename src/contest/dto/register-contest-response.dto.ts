@@ -0,0 +1,13 @@
+import { ApiProperty } from "@nestjs/swagger";
+
+export enum RegisterContestResponseError {
+  PERMISSION_DENIED = "PERMISSION_DENIED",
+  NO_SUCH_CONTEST = "NO_SUCH_CONTEST",
+  CONTEST_ENDED = "CONTEST_ENDED",
+  ALREADY_REGISTERED = "ALREADY_REGISTERED"
+}
+
+export class RegisterContestResponseDto {
+  @ApiProperty({ enum: RegisterContestResponseError })
+  error?: RegisterContestResponseError;
+}
@@ -0,0 +1,42 @@
+import { ApiProperty } from "@nestjs/swagger";
+
+import { Type } from "class-transformer";
+import { IsInt, IsEnum, ValidateNested } from "class-validator";
+
+import { ContestPermissionLevel } from "../contest.service";
+
+class SetContestPermissionsRequestUserPermissionDto {
+  @ApiProperty()
+  @IsInt()
+  userId: number;
+
+  @ApiProperty({ enum: Object.values(ContestPermissionLevel).filter(x => typeof x === "number") })
+  @IsEnum(ContestPermissionLevel)
+  permissionLevel: ContestPermissionLevel;
+}
+
+class SetContestPermissionsRequestGroupPermissionDto {
+  @ApiProperty()
+  @IsInt()
+  groupId: number;
+
+  @ApiProperty({ enum: Object.values(ContestPermissionLevel).filter(x => typeof x === "number") })
+  @IsEnum(ContestPermissionLevel)
+  permissionLevel: ContestPermissionLevel;
+}
+
+export class SetContestPermissionsRequestDto {
+  @ApiProperty()
+  @IsInt()
+  contestId: number;
+
+  @ApiProperty({ type: SetContestPermissionsRequestUserPermissionDto, isArray: true })
+  @ValidateNested({ each: true })
+  @Type(() => SetContestPermissionsRequestUserPermissionDto)
+  userPermissions: SetContestPermissionsRequestUserPermissionDto[];
+
+  @ApiProperty({ type: SetContestPermissionsRequestGroupPermissionDto, isArray: true })
+  @ValidateNested({ each: true })
+  @Type(() => SetContestPermissionsRequestGroupPermissionDto)
+  groupPermissions: SetContestPermissionsRequestGroupPermissionDto[];
+}
@@ -0,0 +1,16 @@
+import { ApiProperty } from "@nestjs/swagger";
+
+export enum SetContestPermissionsResponseError {
+  PERMISSION_DENIED = "PERMISSION_DENIED",
+  NO_SUCH_CONTEST = "NO_SUCH_CONTEST",
+  NO_SUCH_USER = "NO_SUCH_USER",
+  NO_SUCH_GROUP = "NO_SUCH_GROUP"
+}
+
+export class SetContestPermissionsResponseDto {
+  @ApiProperty({ enum: SetContestPermissionsResponseError })
+  error?: SetContestPermissionsResponseError;
+
+  @ApiProperty()
+  errorObjectId?: number;
+}
@@ -1,5 +1,5 @@
 import { URL } from "url";
-import { Readable } from "stream";
+import { Readable, PassThrough } from "stream";
 
 import { Injectable, OnModuleInit } from "@nestjs/common";
 import { InjectRepository } from "@nestjs/typeorm";
@@ -7,6 +7,7 @@ import { InjectRepository } from "@nestjs/typeorm";
 import { Repository, EntityManager, In } from "typeorm";
 import { v4 as UUID } from "uuid";
 import { Client as MinioClient, ClientOptions } from "minio";
+import unzipper from "unzipper";
 
 import { logger } from "@/logger";
 import { ConfigService } from "@/config/config.service";
@@ -17,6 +18,8 @@ import { FileUploadInfoDto, SignedFileUploadRequestDto } from "./dto";
 
 // 10 minutes upload expire time
 const FILE_UPLOAD_EXPIRE_TIME = 10 * 60;
+// 2 hours upload expire time for judge clients, a task may run for a while before uploading its files
+const JUDGE_FILE_UPLOAD_EXPIRE_TIME = 2 * 60 * 60;
 // 20 minutes download expire time
 const FILE_DOWNLOAD_EXPIRE_TIME = 20 * 60 * 60;
 
@@ -242,16 +245,89 @@ export class FileService implements OnModuleInit {
     }
   }
 
+  /**
+   * Upload a file generated by the server (instead of uploaded by the user) and save it to the database.
+   */
+  async createFileFromBuffer(content: Buffer, transactionalEntityManager: EntityManager): Promise<FileEntity> {
+    const file = new FileEntity();
+    file.uuid = UUID();
+    file.size = content.length;
+    file.uploadTime = new Date();
+
+    await this.uploadFile(file.uuid, content);
+    await transactionalEntityManager.save(FileEntity, file);
+
+    return file;
+  }
+
+  /**
+   * Upload a file generated by the server as a stream and save it to the database. The upload is not retried since a
+   * stream can't be consumed twice.
+   */
+  async createFileFromStream(stream: Readable, transactionalEntityManager: EntityManager): Promise<FileEntity> {
+    const file = new FileEntity();
+    file.uuid = UUID();
+
+    await this.uploadFile(file.uuid, stream, 1);
+    file.size = (await this.minioClient.statObject(this.bucket, file.uuid)).size;
+    file.uploadTime = new Date();
+    await transactionalEntityManager.save(FileEntity, file);
+
+    return file;
+  }
+
+  async getFileContent(uuid: string): Promise<Buffer> {
+    const stream = await this.minioClient.getObject(this.bucket, uuid);
+    const chunks: Buffer[] = [];
+    for await (const chunk of stream) chunks.push(chunk);
+    return Buffer.concat(chunks);
+  }
+
+  async getFileStream(uuid: string): Promise<Readable> {
+    return await this.minioClient.getObject(this.bucket, uuid);
+  }
+
+  /**
+   * Sign a upload request for a file generated by a judge client, e.g. an answer file. The alternative MinIO endpoint
+   * for judge will be used in the POST URL.
+   *
+   * The judge client should report the uploaded file's UUID and size back. The file is not saved to the database here.
+   * Since the size is not known when signing, the reported size should be checked with `checkUploadedFileSize`.
+   */
+  async signJudgeUploadRequest(maxSize?: number): Promise<SignedFileUploadRequestDto> {
+    return await this.signUploadRequest(null, maxSize, MinioSignFor.Judge, JUDGE_FILE_UPLOAD_EXPIRE_TIME);
+  }
+
+  /**
+   * Check if the file is uploaded with the reported size.
+   */
+  async checkUploadedFileSize(uploadInfo: FileUploadInfoDto): Promise<"FILE_NOT_UPLOADED" | "FILE_SIZE_MISMATCH"> {
+    let size: number;
+    try {
+      ({ size } = await this.minioClient.statObject(this.bucket, uploadInfo.uuid));
+    } catch (e) {
+      if (e.message === "The specified key does not exist.") return "FILE_NOT_UPLOADED";
+      throw e;
+    }
+
+    return size === uploadInfo.size ? null : "FILE_SIZE_MISMATCH";
+  }
+
   /**
    * Sign a upload request for given size. The alternative MinIO endpoint for user will be used in the POST URL.
    */
-  private async signUploadRequest(minSize?: number, maxSize?: number): Promise<SignedFileUploadRequestDto> {
-    const signer = this.minioSigner[MinioSignFor.UserUpload];
+  private async signUploadRequest(
+    minSize?: number,
+    maxSize?: number,
+    signFor = MinioSignFor.UserUpload,
+    expireTime = FILE_UPLOAD_EXPIRE_TIME
+  ): Promise<SignedFileUploadRequestDto> {
+    const signer = this.minioSigner[signFor];
     const uuid = UUID();
     const policy = signer.client.newPostPolicy();
     policy.setBucket(this.bucket);
     policy.setKey(uuid);
-    policy.setExpires(new Date(Date.now() + FILE_UPLOAD_EXPIRE_TIME * 1000));
+    policy.setExpires(new Date(Date.now() + expireTime * 1000));
     if (minSize != null || maxSize != null) {
       policy.setContentLengthRange(minSize || 0, maxSize || 0);
     }
@@ -309,6 +385,46 @@ export class FileService implements OnModuleInit {
     return uuids.map(uuid => map[uuid].size);
   }
 
+  /**
+   * Open a ZIP archive to read its files. Only the central directory is read on opening, the files are downloaded on
+   * reading.
+   *
+   * @return `null` if the file is not a valid ZIP archive.
+   */
+  async openZipArchive(uuid: string): Promise<unzipper.CentralDirectory> {
+    try {
+      return await unzipper.Open.custom({
+        size: async () => (await this.minioClient.statObject(this.bucket, uuid)).size,
+        stream: (offset, length) => {
+          const stream = new PassThrough();
+          this.minioClient
+            .getPartialObject(this.bucket, uuid, offset, length)
+            .then(objectStream => objectStream.pipe(stream))
+            .catch(e => stream.destroy(e));
+          return stream;
+        }
+      });
+    } catch (e) {
+      logger.warn(`Failed to open ZIP archive ${uuid}: ${e}`);
+      return null;
+    }
+  }
+
+  /**
+   * List the files in a ZIP archive. Only the central directory is read, not the whole archive.
+   *
+   * @return `null` if the file is not a valid ZIP archive.
+   */
+  async listZipArchiveFiles(uuid: string): Promise<{ path: string; size: number; crc32: number }[]> {
+    const directory = await this.openZipArchive(uuid);
+    return (
+      directory &&
+      directory.files
+        .filter(file => file.type === "File")
+        .map(file => ({ path: file.path, size: file.uncompressedSize, crc32: file.crc32 }))
+    );
+  }
+
   async signDownloadLink({
     uuid,
     downloadFilename,
@@ -0,0 +1,186 @@
+/* eslint-disable no-bitwise */
+import { PassThrough, Readable } from "stream";
+import { pipeline } from "stream/promises";
+import { once } from "events";
+import { createGzip } from "zlib";
+
+function toDosDateTime(date: Date): [time: number, date: number] {
+  return [
+    (date.getHours() << 11) | (date.getMinutes() << 5) | (date.getSeconds() >> 1),
+    ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+  ];
+}
+
+// The sizes and CRC-32 of an entry are written in a data descriptor after its data, since it's compressed as a stream
+const FLAG_DATA_DESCRIPTOR = 0x0008;
+const FLAG_UTF8_FILENAME = 0x0800;
+const COMPRESSION_DEFLATE = 8;
+const ZIP_VERSION = 20;
+
+// A gzip stream is raw deflate data wrapped with a 10-byte header and a trailer of CRC-32 and size, so zlib computes
+// the CRC-32 for us
+const GZIP_HEADER_SIZE = 10;
+const GZIP_TRAILER_SIZE = 8;
+
+// Without ZIP64 extensions
+export const ZIP_MAX_ENTRIES = 0xffff;
+const ZIP_MAX_SIZE = 0xffffffff;
+
+interface ZipEntry {
+  filename: Buffer;
+  crc32: number;
+  compressedSize: number;
+  uncompressedSize: number;
+  time: number;
+  date: number;
+  offset: number;
+}
+
+/**
+ * Write a ZIP archive to a stream, entry by entry, so the whole archive is never kept in memory. Each entry is
+ * compressed as a stream too, off the main thread.
+ */
+export class ZipWriter {
+  readonly stream = new PassThrough();
+
+  private readonly entries: ZipEntry[] = [];
+
+  private offset = 0;
+
+  private async write(buffer: Buffer): Promise<void> {
+    this.offset += buffer.length;
+    if (this.offset > ZIP_MAX_SIZE) throw new Error("ZIP archive too large");
+    if (!this.stream.write(buffer)) await once(this.stream, "drain");
+  }
+
+  /**
+   * Compress the content and write it to the archive.
+   *
+   * @return The CRC-32, compressed size and uncompressed size of the content.
+   */
+  private async writeCompressed(content: Readable): Promise<[crc32: number, compressedSize: number, size: number]> {
+    let uncompressedSize = 0;
+    const gzip = createGzip();
+    const compressing = pipeline(
+      content,
+      async function* countSize(source: AsyncIterable<Buffer | string>) {
+        for await (const chunk of source) {
+          const buffer = Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk);
+          uncompressedSize += buffer.length;
+          yield buffer;
+        }
+      },
+      gzip
+    );
+
+    let compressedSize = 0;
+    let headerRemaining = GZIP_HEADER_SIZE;
+    // The last bytes may be the trailer, which are held until the next chunk comes
+    let pending = Buffer.alloc(0);
+    try {
+      for await (let chunk of gzip as AsyncIterable<Buffer>) {
+        if (headerRemaining > 0) {
+          const skipped = Math.min(headerRemaining, chunk.length);
+          chunk = chunk.subarray(skipped);
+          headerRemaining -= skipped;
+        }
+
+        pending = Buffer.concat([pending, chunk]);
+        const dataLength = pending.length - GZIP_TRAILER_SIZE;
+        if (dataLength > 0) {
+          compressedSize += dataLength;
+          // eslint-disable-next-line no-await-in-loop
+          await this.write(pending.subarray(0, dataLength));
+          pending = pending.subarray(dataLength);
+        }
+      }
+      await compressing;
+    } catch (e) {
+      gzip.destroy();
+      await compressing.catch(() => null);
+      throw e;
+    }
+
+    if (uncompressedSize > ZIP_MAX_SIZE) throw new Error("ZIP archive entry too large");
+    return [pending.readUInt32LE(0), compressedSize, uncompressedSize];
+  }
+
+  async addFile(filename: string, content: Buffer | string | Readable, modifiedTime = new Date()): Promise<void> {
+    if (this.entries.length >= ZIP_MAX_ENTRIES) throw new Error("Too many entries in ZIP archive");
+
+    const [time, date] = toDosDateTime(modifiedTime);
+    const entry: ZipEntry = {
+      filename: Buffer.from(filename),
+      crc32: 0,
+      compressedSize: 0,
+      uncompressedSize: 0,
+      time,
+      date,
+      offset: this.offset
+    };
+
+    // The CRC-32 and sizes are 0 in the local header
+    const header = Buffer.alloc(30);
+    header.writeUInt32LE(0x04034b50, 0);
+    header.writeUInt16LE(ZIP_VERSION, 4);
+    header.writeUInt16LE(FLAG_DATA_DESCRIPTOR | FLAG_UTF8_FILENAME, 6);
+    header.writeUInt16LE(COMPRESSION_DEFLATE, 8);
+    header.writeUInt16LE(entry.time, 10);
+    header.writeUInt16LE(entry.date, 12);
+    header.writeUInt16LE(entry.filename.length, 26);
+    header.writeUInt16LE(0, 28);
+
+    await this.write(header);
+    await this.write(entry.filename);
+    [entry.crc32, entry.compressedSize, entry.uncompressedSize] = await this.writeCompressed(
+      content instanceof Readable ? content : Readable.from([Buffer.isBuffer(content) ? content : Buffer.from(content)])
+    );
+
+    const dataDescriptor = Buffer.alloc(16);
+    dataDescriptor.writeUInt32LE(0x08074b50, 0);
+    dataDescriptor.writeUInt32LE(entry.crc32, 4);
+    dataDescriptor.writeUInt32LE(entry.compressedSize, 8);
+    dataDescriptor.writeUInt32LE(entry.uncompressedSize, 12);
+    await this.write(dataDescriptor);
+
+    this.entries.push(entry);
+  }
+
+  /**
+   * Write the central directory and end the stream.
+   */
+  async finish(): Promise<void> {
+    const centralDirectoryOffset = this.offset;
+    for (const entry of this.entries) {
+      const header = Buffer.alloc(46);
+      header.writeUInt32LE(0x02014b50, 0);
+      header.writeUInt16LE(ZIP_VERSION, 4);
+      header.writeUInt16LE(ZIP_VERSION, 6);
+      header.writeUInt16LE(FLAG_DATA_DESCRIPTOR | FLAG_UTF8_FILENAME, 8);
+      header.writeUInt16LE(COMPRESSION_DEFLATE, 10);
+      header.writeUInt16LE(entry.time, 12);
+      header.writeUInt16LE(entry.date, 14);
+      header.writeUInt32LE(entry.crc32, 16);
+      header.writeUInt32LE(entry.compressedSize, 20);
+      header.writeUInt32LE(entry.uncompressedSize, 24);
+      header.writeUInt16LE(entry.filename.length, 28);
+      // Extra field length, comment length, disk number, internal and external attributes are all 0
+      header.writeUInt32LE(entry.offset, 42);
+
+      // eslint-disable-next-line no-await-in-loop
+      await this.write(header);
+      // eslint-disable-next-line no-await-in-loop
+      await this.write(entry.filename);
+    }
+
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(0x06054b50, 0);
+    end.writeUInt16LE(this.entries.length, 8);
+    end.writeUInt16LE(this.entries.length, 10);
+    end.writeUInt32LE(this.offset - centralDirectoryOffset, 12);
+    end.writeUInt32LE(centralDirectoryOffset, 16);
+    await this.write(end);
+
+    this.stream.end();
+  }
+}
@@ -2,6 +2,8 @@ import { ApiProperty } from "@nestjs/swagger";
 
 import { GroupMetaDto } from "./group-meta.dto";
 
+import { SubmissionQuotaDto } from "@/submission/dto";
+
 export enum GetGroupMetaResponseError {
   NO_SUCH_GROUP = "NO_SUCH_GROUP"
 }
@@ -12,4 +14,7 @@ export class GetGroupMetaResponseDto {
 
   @ApiProperty()
   groupMeta?: GroupMetaDto;
+
+  @ApiProperty({ description: "`null` if the group doesn't override the default submission quota." })
+  submissionQuota?: SubmissionQuotaDto;
 }
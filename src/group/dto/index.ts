@@ -28,3 +28,6 @@ export * from "./get-group-member-list-response.dto";
 
 export * from "./rename-group-request.dto";
 export * from "./rename-group-response.dto";
+
+export * from "./set-group-submission-quota-request.dto";
+export * from "./set-group-submission-quota-response.dto";
@@ -0,0 +1,22 @@
+import { ApiProperty } from "@nestjs/swagger";
+
+import { Type } from "class-transformer";
+import { IsInt, IsOptional, ValidateNested } from "class-validator";
+
+import { SubmissionQuotaDto } from "@/submission/dto";
+
+export class SetGroupSubmissionQuotaRequestDto {
+  @ApiProperty()
+  @IsInt()
+  readonly groupId: number;
+
+  @ApiProperty({
+    description:
+      "An omitted limit is not overridden, a `null` limit is unlimited. " +
+      "Pass `null` to remove the override. The most permissive override applies to users in multiple groups."
+  })
+  @ValidateNested()
+  @Type(() => SubmissionQuotaDto)
+  @IsOptional()
+  readonly submissionQuota: SubmissionQuotaDto;
+}
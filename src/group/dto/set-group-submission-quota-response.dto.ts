@@ -0,0 +1,11 @@
+import { ApiProperty } from "@nestjs/swagger";
+
+export enum SetGroupSubmissionQuotaResponseError {
+  PERMISSION_DENIED = "PERMISSION_DENIED",
+  NO_SUCH_GROUP = "NO_SUCH_GROUP"
+}
+
+export class SetGroupSubmissionQuotaResponseDto {
+  @ApiProperty({ enum: SetGroupSubmissionQuotaResponseError })
+  error?: SetGroupSubmissionQuotaResponseError;
+}
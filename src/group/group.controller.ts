@@ -37,7 +37,10 @@ import {
   GetGroupMemberListResponseError,
   RenameGroupRequestDto,
   RenameGroupResponseDto,
-  RenameGroupResponseError
+  RenameGroupResponseError,
+  SetGroupSubmissionQuotaRequestDto,
+  SetGroupSubmissionQuotaResponseDto,
+  SetGroupSubmissionQuotaResponseError
 } from "./dto";
 
 @ApiTags("Group")
@@ -65,7 +68,8 @@ export class GroupController {
       };
 
     return {
-      groupMeta: await this.groupService.getGroupMeta(group)
+      groupMeta: await this.groupService.getGroupMeta(group),
+      submissionQuota: group.submissionQuota
     };
   }
 
@@ -333,6 +337,42 @@ export class GroupController {
     return {};
   }
 
+  @Post("setGroupSubmissionQuota")
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: "Override the default submission quota for a group's members."
+  })
+  async setGroupSubmissionQuota(
+    @CurrentUser() currentUser: UserEntity,
+    @Body() request: SetGroupSubmissionQuotaRequestDto
+  ): Promise<SetGroupSubmissionQuotaResponseDto> {
+    if (
+      !(
+        currentUser &&
+        (await this.userPrivilegeService.userHasPrivilege(currentUser, UserPrivilegeType.ManageUserGroup))
+      )
+    )
+      return {
+        error: SetGroupSubmissionQuotaResponseError.PERMISSION_DENIED
+      };
+
+    const group = await this.groupService.findGroupById(request.groupId);
+    if (!group)
+      return {
+        error: SetGroupSubmissionQuotaResponseError.NO_SUCH_GROUP
+      };
+
+    const oldSubmissionQuota = group.submissionQuota;
+    await this.groupService.setGroupSubmissionQuota(group, request.submissionQuota || null);
+
+    await this.auditService.log("group.set_submission_quota", AuditLogObjectType.Group, group.id, {
+      oldSubmissionQuota,
+      newSubmissionQuota: group.submissionQuota
+    });
+
+    return {};
+  }
+
   @Get("getGroupList")
   @ApiBearerAuth()
   @ApiOperation({
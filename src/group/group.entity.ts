@@ -1,5 +1,7 @@
 import { Entity, PrimaryGeneratedColumn, Index, Column } from "typeorm";
 
+import { SubmissionQuota } from "@/submission/submission-quota.interface";
+
 @Entity("group")
 export class GroupEntity {
   @PrimaryGeneratedColumn()
@@ -11,4 +13,8 @@ export class GroupEntity {
 
   @Column({ type: "integer" })
   memberCount: number;
+
+  // Overrides the default submission quota for the group's members
+  @Column({ type: "json", nullable: true })
+  submissionQuota: SubmissionQuota;
 }
@@ -7,6 +7,7 @@ import { UserService } from "@/user/user.service";
 import { escapeLike } from "@/database/database.utils";
 import { UserEntity } from "@/user/user.entity";
 import { AuditLogObjectType, AuditService } from "@/audit/audit.service";
+import { SubmissionQuota } from "@/submission/submission-quota.interface";
 
 import { GroupMembershipEntity } from "./group-membership.entity";
 import { GroupEntity } from "./group.entity";
@@ -121,6 +122,11 @@ export class GroupService {
     }
   }
 
+  async setGroupSubmissionQuota(group: GroupEntity, submissionQuota: SubmissionQuota): Promise<void> {
+    group.submissionQuota = submissionQuota;
+    await this.groupRepository.save(group);
+  }
+
   async addUserToGroup(userId: number, group: GroupEntity): Promise<AddUserToGroupResponseError> {
     if (!(await this.userService.userExists(userId))) return AddUserToGroupResponseError.NO_SUCH_USER;
 
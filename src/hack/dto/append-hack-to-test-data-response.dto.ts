@@ -0,0 +1,20 @@
+import { ApiProperty } from "@nestjs/swagger";
+
+export enum AppendHackToTestDataResponseError {
+  PERMISSION_DENIED = "PERMISSION_DENIED",
+  NO_SUCH_HACK = "NO_SUCH_HACK",
+  HACK_NOT_SUCCESSFUL = "HACK_NOT_SUCCESSFUL",
+  NO_EXPECTED_OUTPUT = "NO_EXPECTED_OUTPUT",
+  ALREADY_APPENDED = "ALREADY_APPENDED",
+  TOO_MANY_FILES = "TOO_MANY_FILES",
+  TOTAL_SIZE_TOO_LARGE = "TOTAL_SIZE_TOO_LARGE",
+  INVALID_JUDGE_INFO = "INVALID_JUDGE_INFO"
+}
+
+export class AppendHackToTestDataResponseDto {
+  @ApiProperty({ enum: AppendHackToTestDataResponseError })
+  error?: AppendHackToTestDataResponseError;
+
+  @ApiProperty({ type: [String] })
+  judgeInfoError?: string[];
+}
@@ -0,0 +1,13 @@
+import { ApiProperty } from "@nestjs/swagger";
+
+import { IsInt, IsString } from "class-validator";
+
+export class CreateHackRequestDto {
+  @ApiProperty({ description: "The target submission, which must be accepted." })
+  @IsInt()
+  readonly submissionId: number;
+
+  @ApiProperty()
+  @IsString()
+  readonly input: string;
+}
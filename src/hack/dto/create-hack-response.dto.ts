@@ -0,0 +1,17 @@
+import { ApiProperty } from "@nestjs/swagger";
+
+export enum CreateHackResponseError {
+  PERMISSION_DENIED = "PERMISSION_DENIED",
+  NO_SUCH_SUBMISSION = "NO_SUCH_SUBMISSION",
+  PROBLEM_NOT_HACKABLE = "PROBLEM_NOT_HACKABLE",
+  SUBMISSION_NOT_ACCEPTED = "SUBMISSION_NOT_ACCEPTED",
+  INPUT_TOO_LARGE = "INPUT_TOO_LARGE"
+}
+
+export class CreateHackResponseDto {
+  @ApiProperty({ enum: CreateHackResponseError })
+  error?: CreateHackResponseError;
+
+  @ApiProperty()
+  hackId?: number;
+}
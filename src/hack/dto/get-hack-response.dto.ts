@@ -0,0 +1,27 @@
+import { ApiProperty } from "@nestjs/swagger";
+
+import { HackMetaDto } from "./hack-meta.dto";
+
+import { HackProgress } from "../hack-progress.interface";
+
+export enum GetHackResponseError {
+  PERMISSION_DENIED = "PERMISSION_DENIED",
+  NO_SUCH_HACK = "NO_SUCH_HACK"
+}
+
+export class GetHackResponseDto {
+  @ApiProperty({ enum: GetHackResponseError })
+  error?: GetHackResponseError;
+
+  @ApiProperty()
+  meta?: HackMetaDto;
+
+  @ApiProperty()
+  input?: string;
+
+  @ApiProperty({ description: "The output of the reference solution, only available to the problem's managers." })
+  expectedOutput?: string;
+
+  @ApiProperty()
+  result?: HackProgress;
+}
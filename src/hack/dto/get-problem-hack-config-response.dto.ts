@@ -0,0 +1,16 @@
+import { ApiProperty } from "@nestjs/swagger";
+
+import { ProblemHackConfigDto } from "./problem-hack-config.dto";
+
+export enum GetProblemHackConfigResponseError {
+  PERMISSION_DENIED = "PERMISSION_DENIED",
+  NO_SUCH_PROBLEM = "NO_SUCH_PROBLEM"
+}
+
+export class GetProblemHackConfigResponseDto {
+  @ApiProperty({ enum: GetProblemHackConfigResponseError })
+  error?: GetProblemHackConfigResponseError;
+
+  @ApiProperty({ description: "`null` if the problem is not hackable." })
+  hackConfig?: ProblemHackConfigDto;
+}
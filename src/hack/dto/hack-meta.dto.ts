@@ -0,0 +1,26 @@
+import { ApiProperty } from "@nestjs/swagger";
+
+import { HackStatus } from "../hack-status.enum";
+
+export class HackMetaDto {
+  @ApiProperty()
+  id: number;
+
+  @ApiProperty({ enum: HackStatus })
+  status: HackStatus;
+
+  @ApiProperty()
+  submitTime: Date;
+
+  @ApiProperty()
+  submissionId: number;
+
+  @ApiProperty()
+  problemId: number;
+
+  @ApiProperty()
+  hackerId: number;
+
+  @ApiProperty()
+  appendedToTestData: boolean;
+}
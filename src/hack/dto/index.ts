@@ -0,0 +1,17 @@
+export * from "./hack-meta.dto";
+export * from "./problem-hack-config.dto";
+
+export * from "./create-hack-request.dto";
+export * from "./create-hack-response.dto";
+
+export * from "./get-hack-request.dto";
+export * from "./get-hack-response.dto";
+
+export * from "./get-problem-hack-config-request.dto";
+export * from "./get-problem-hack-config-response.dto";
+
+export * from "./set-problem-hack-config-request.dto";
+export * from "./set-problem-hack-config-response.dto";
+
+export * from "./append-hack-to-test-data-request.dto";
+export * from "./append-hack-to-test-data-response.dto";
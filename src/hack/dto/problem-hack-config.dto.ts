@@ -0,0 +1,36 @@
+import { ApiProperty } from "@nestjs/swagger";
+
+import { Type } from "class-transformer";
+import { IsEnum, IsObject, IsOptional, IsString, MaxLength, ValidateNested } from "class-validator";
+
+import { CodeLanguage } from "@/code-language/code-language.type";
+
+import { HackProgram, ProblemHackConfig } from "../problem-hack-config.interface";
+
+export class HackProgramDto implements HackProgram {
+  @ApiProperty({ enum: CodeLanguage })
+  @IsEnum(CodeLanguage)
+  language: CodeLanguage;
+
+  @ApiProperty()
+  @IsObject()
+  compileAndRunOptions: unknown;
+
+  @ApiProperty({ description: "The filename of the program in the problem's testdata." })
+  @IsString()
+  @MaxLength(256)
+  filename: string;
+}
+
+export class ProblemHackConfigDto implements ProblemHackConfig {
+  @ApiProperty({ type: HackProgramDto })
+  @ValidateNested()
+  @Type(() => HackProgramDto)
+  referenceSolution: HackProgramDto;
+
+  @ApiProperty({ type: HackProgramDto })
+  @ValidateNested()
+  @Type(() => HackProgramDto)
+  @IsOptional()
+  validator?: HackProgramDto;
+}
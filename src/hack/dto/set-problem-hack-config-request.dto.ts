@@ -0,0 +1,18 @@
+import { ApiProperty } from "@nestjs/swagger";
+
+import { Type } from "class-transformer";
+import { IsInt, IsOptional, ValidateNested } from "class-validator";
+
+import { ProblemHackConfigDto } from "./problem-hack-config.dto";
+
+export class SetProblemHackConfigRequestDto {
+  @ApiProperty()
+  @IsInt()
+  readonly problemId: number;
+
+  @ApiProperty({ description: "`null` to make the problem not hackable." })
+  @ValidateNested()
+  @Type(() => ProblemHackConfigDto)
+  @IsOptional()
+  readonly hackConfig?: ProblemHackConfigDto;
+}
@@ -0,0 +1,17 @@
+import { ApiProperty } from "@nestjs/swagger";
+
+export enum SetProblemHackConfigResponseError {
+  PERMISSION_DENIED = "PERMISSION_DENIED",
+  NO_SUCH_PROBLEM = "NO_SUCH_PROBLEM",
+  PROBLEM_TYPE_NOT_SUPPORTED = "PROBLEM_TYPE_NOT_SUPPORTED",
+  INVALID_COMPILE_AND_RUN_OPTIONS = "INVALID_COMPILE_AND_RUN_OPTIONS",
+  NO_SUCH_FILE = "NO_SUCH_FILE"
+}
+
+export class SetProblemHackConfigResponseDto {
+  @ApiProperty({ enum: SetProblemHackConfigResponseError })
+  error?: SetProblemHackConfigResponseError;
+
+  @ApiProperty()
+  errorFilename?: string;
+}
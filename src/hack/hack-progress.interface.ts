@@ -0,0 +1,22 @@
+import { JudgeTaskProgress } from "@/judge/judge-task-progress.interface";
+import { SubmissionProgressType, SubmissionTestcaseResult } from "@/submission/submission-progress.interface";
+import { SubmissionResultOmittableString } from "@/submission/submission-testcase-result-omittable-string.interface";
+
+import { HackStatus } from "./hack-status.enum";
+
+export interface HackProgress extends JudgeTaskProgress {
+  progressType: SubmissionProgressType;
+
+  // Below are only valid when finished
+  status?: HackStatus;
+
+  validatorMessage?: SubmissionResultOmittableString;
+
+  // The FULL output of the reference solution, it's used as the answer file if the hack is appended to testdata
+  expectedOutput?: string;
+
+  // The same as the testcase result of the problem's type
+  targetResult?: SubmissionTestcaseResult;
+
+  systemMessage?: SubmissionResultOmittableString;
+}
@@ -0,0 +1,14 @@
+export enum HackStatus {
+  Pending = "Pending",
+
+  // The input is rejected by the problem's validator
+  InvalidInput = "InvalidInput",
+
+  // The target submission failed on the input
+  Success = "Success",
+  // The target submission passed the input
+  Failed = "Failed",
+
+  // e.g. The reference solution failed on the input
+  SystemError = "SystemError"
+}
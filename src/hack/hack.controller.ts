@@ -0,0 +1,290 @@
+import { Controller, Post, Body } from "@nestjs/common";
+import { ApiOperation, ApiBearerAuth, ApiTags } from "@nestjs/swagger";
+
+import { Recaptcha } from "@nestlab/google-recaptcha";
+
+import { CurrentUser } from "@/common/user.decorator";
+import { UserEntity } from "@/user/user.entity";
+import { ConfigService } from "@/config/config.service";
+import { AuditLogObjectType, AuditService } from "@/audit/audit.service";
+import { ProblemService, ProblemPermissionType } from "@/problem/problem.service";
+import { ProblemRevisionService } from "@/problem/problem-revision.service";
+import { ProblemRevisionType } from "@/problem/problem-revision-type.enum";
+import { SubmissionService, SubmissionPermissionType } from "@/submission/submission.service";
+import { SubmissionStatus } from "@/submission/submission-status.enum";
+
+import { HackService, HACKABLE_PROBLEM_TYPES } from "./hack.service";
+import { HackStatus } from "./hack-status.enum";
+
+import {
+  CreateHackRequestDto,
+  CreateHackResponseDto,
+  CreateHackResponseError,
+  GetHackRequestDto,
+  GetHackResponseDto,
+  GetHackResponseError,
+  GetProblemHackConfigRequestDto,
+  GetProblemHackConfigResponseDto,
+  GetProblemHackConfigResponseError,
+  SetProblemHackConfigRequestDto,
+  SetProblemHackConfigResponseDto,
+  SetProblemHackConfigResponseError,
+  AppendHackToTestDataRequestDto,
+  AppendHackToTestDataResponseDto,
+  AppendHackToTestDataResponseError
+} from "./dto";
+
+@ApiTags("Hack")
+@Controller("hack")
+export class HackController {
+  constructor(
+    private readonly hackService: HackService,
+    private readonly problemService: ProblemService,
+    private readonly problemRevisionService: ProblemRevisionService,
+    private readonly submissionService: SubmissionService,
+    private readonly configService: ConfigService,
+    private readonly auditService: AuditService
+  ) {}
+
+  @Recaptcha()
+  @ApiOperation({
+    summary: "Hack an accepted submission with an input.",
+    description:
+      "Recaptcha required. The hacker must have an accepted submission to the problem. The input is validated and " +
+      "run with the problem's reference solution to get the expected output."
+  })
+  @ApiBearerAuth()
+  @Post("createHack")
+  async createHack(
+    @CurrentUser() currentUser: UserEntity,
+    @Body() request: CreateHackRequestDto
+  ): Promise<CreateHackResponseDto> {
+    if (!currentUser)
+      return {
+        error: CreateHackResponseError.PERMISSION_DENIED
+      };
+
+    const submission = await this.submissionService.findSubmissionById(request.submissionId);
+    if (!submission)
+      return {
+        error: CreateHackResponseError.NO_SUCH_SUBMISSION
+      };
+
+    // Hacking one's own submission is meaningless
+    if (
+      submission.submitterId === currentUser.id ||
+      !(await this.submissionService.userHasPermission(currentUser, submission, SubmissionPermissionType.View))
+    )
+      return {
+        error: CreateHackResponseError.PERMISSION_DENIED
+      };
+
+    if (submission.status !== SubmissionStatus.Accepted)
+      return {
+        error: CreateHackResponseError.SUBMISSION_NOT_ACCEPTED
+      };
+
+    const problem = await this.problemService.findProblemById(submission.problemId);
+    if (!HACKABLE_PROBLEM_TYPES.includes(problem.type) || !(await this.hackService.getProblemHackConfig(problem)))
+      return {
+        error: CreateHackResponseError.PROBLEM_NOT_HACKABLE
+      };
+
+    if (!(await this.hackService.userHasAcceptedSubmission(currentUser, problem)))
+      return {
+        error: CreateHackResponseError.PERMISSION_DENIED
+      };
+
+    if (Buffer.byteLength(request.input) > this.configService.config.resourceLimit.hackInputSize)
+      return {
+        error: CreateHackResponseError.INPUT_TOO_LARGE
+      };
+
+    const hack = await this.hackService.createHack(currentUser, submission, problem, request.input);
+
+    await this.auditService.log(
+      "hack.create",
+      AuditLogObjectType.Hack,
+      hack.id,
+      AuditLogObjectType.Submission,
+      submission.id
+    );
+
+    return {
+      hackId: hack.id
+    };
+  }
+
+  @Post("getHack")
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: "Get the input and result of a hack.",
+    description: "Only the hacker and users with permission to view the target submission could view a hack."
+  })
+  async getHack(
+    @CurrentUser() currentUser: UserEntity,
+    @Body() request: GetHackRequestDto
+  ): Promise<GetHackResponseDto> {
+    const hack = await this.hackService.findHackById(request.hackId);
+    if (!hack)
+      return {
+        error: GetHackResponseError.NO_SUCH_HACK
+      };
+
+    const submission = await this.submissionService.findSubmissionById(hack.submissionId);
+    if (
+      !(currentUser && currentUser.id === hack.hackerId) &&
+      !(await this.submissionService.userHasPermission(currentUser, submission, SubmissionPermissionType.View))
+    )
+      return {
+        error: GetHackResponseError.PERMISSION_DENIED
+      };
+
+    const problem = await this.problemService.findProblemById(hack.problemId);
+    const hasModifyPermission = await this.problemService.userHasPermission(
+      currentUser,
+      problem,
+      ProblemPermissionType.Modify
+    );
+
+    return {
+      meta: await this.hackService.getHackMeta(hack),
+      input: hack.input,
+      expectedOutput: hasModifyPermission ? hack.expectedOutput : null,
+      result: hack.result
+    };
+  }
+
+  @Post("getProblemHackConfig")
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: "Get the reference solution and validator used to judge hacks of a problem."
+  })
+  async getProblemHackConfig(
+    @CurrentUser() currentUser: UserEntity,
+    @Body() request: GetProblemHackConfigRequestDto
+  ): Promise<GetProblemHackConfigResponseDto> {
+    const problem = await this.problemService.findProblemById(request.problemId);
+    if (!problem)
+      return {
+        error: GetProblemHackConfigResponseError.NO_SUCH_PROBLEM
+      };
+
+    if (!(await this.problemService.userHasPermission(currentUser, problem, ProblemPermissionType.Modify)))
+      return {
+        error: GetProblemHackConfigResponseError.PERMISSION_DENIED
+      };
+
+    return {
+      hackConfig: (await this.hackService.getProblemHackConfig(problem)) ?? null
+    };
+  }
+
+  @Post("setProblemHackConfig")
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: "Set the reference solution and validator used to judge hacks of a problem.",
+    description: "The programs must be files in the problem's testdata."
+  })
+  async setProblemHackConfig(
+    @CurrentUser() currentUser: UserEntity,
+    @Body() request: SetProblemHackConfigRequestDto
+  ): Promise<SetProblemHackConfigResponseDto> {
+    return await this.problemService.lockProblemById<SetProblemHackConfigResponseDto>(
+      request.problemId,
+      "Read",
+      async problem => {
+        if (!problem)
+          return {
+            error: SetProblemHackConfigResponseError.NO_SUCH_PROBLEM
+          };
+
+        if (!(await this.problemService.userHasPermission(currentUser, problem, ProblemPermissionType.Modify)))
+          return {
+            error: SetProblemHackConfigResponseError.PERMISSION_DENIED
+          };
+
+        if (request.hackConfig && !HACKABLE_PROBLEM_TYPES.includes(problem.type))
+          return {
+            error: SetProblemHackConfigResponseError.PROBLEM_TYPE_NOT_SUPPORTED
+          };
+
+        const oldHackConfig = await this.hackService.getProblemHackConfig(problem);
+
+        const [error, errorFilename] = await this.hackService.setProblemHackConfig(problem, request.hackConfig);
+        if (error)
+          return {
+            error: SetProblemHackConfigResponseError[error],
+            errorFilename
+          };
+
+        await this.auditService.log("hack.set_problem_hack_config", AuditLogObjectType.Problem, problem.id, {
+          oldHackConfig: oldHackConfig ?? null,
+          newHackConfig: request.hackConfig ?? null
+        });
+
+        return {};
+      }
+    );
+  }
+
+  @Post("appendHackToTestData")
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: "Append the input and expected output of a successful hack to the problem's testdata.",
+    description: "If the problem has subtasks configured, the new testcase is added to the last subtask."
+  })
+  async appendHackToTestData(
+    @CurrentUser() currentUser: UserEntity,
+    @Body() request: AppendHackToTestDataRequestDto
+  ): Promise<AppendHackToTestDataResponseDto> {
+    const hack = await this.hackService.findHackById(request.hackId);
+    if (!hack)
+      return {
+        error: AppendHackToTestDataResponseError.NO_SUCH_HACK
+      };
+
+    return await this.problemService.lockProblemById<AppendHackToTestDataResponseDto>(
+      hack.problemId,
+      "Read",
+      async problem => {
+        if (!problem)
+          return {
+            error: AppendHackToTestDataResponseError.NO_SUCH_HACK
+          };
+
+        if (!(await this.problemService.userHasPermission(currentUser, problem, ProblemPermissionType.Modify)))
+          return {
+            error: AppendHackToTestDataResponseError.PERMISSION_DENIED
+          };
+
+        if (hack.status !== HackStatus.Success)
+          return {
+            error: AppendHackToTestDataResponseError.HACK_NOT_SUCCESSFUL
+          };
+
+        const [error, judgeInfoError] = await this.problemRevisionService.recordProblemRevision(
+          problem,
+          currentUser,
+          ProblemRevisionType.TestData,
+          async () => await this.hackService.appendHackToTestData(hack, problem)
+        );
+        if (error)
+          return {
+            error: AppendHackToTestDataResponseError[error],
+            judgeInfoError
+          };
+
+        await this.auditService.log(
+          "hack.append_to_test_data",
+          AuditLogObjectType.Hack,
+          hack.id,
+          AuditLogObjectType.Problem,
+          problem.id
+        );
+
+        return {};
+      }
+    );
+  }
+}
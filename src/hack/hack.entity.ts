@@ -0,0 +1,68 @@
+import { Entity, PrimaryGeneratedColumn, Index, ManyToOne, Column, JoinColumn } from "typeorm";
+
+import { UserEntity } from "@/user/user.entity";
+import { ProblemEntity } from "@/problem/problem.entity";
+import { SubmissionEntity } from "@/submission/submission.entity";
+
+import { HackStatus } from "./hack-status.enum";
+import { HackProgress } from "./hack-progress.interface";
+
+@Entity("hack")
+@Index(["submissionId", "status"])
+@Index(["problemId", "status"])
+export class HackEntity {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  // An uuid to identify the judge task of the hack, cleared on finish judging
+  @Column({ type: "varchar", nullable: true, length: 36 })
+  @Index()
+  taskId: string;
+
+  @Column({ type: "enum", enum: HackStatus })
+  @Index()
+  status: HackStatus;
+
+  @Column({ type: "mediumtext" })
+  input: string;
+
+  // The output of the reference solution
+  @Column({ type: "mediumtext", nullable: true })
+  expectedOutput: string;
+
+  // The finished progress of the hack, without the expected output
+  @Column({ type: "json", nullable: true })
+  result: HackProgress;
+
+  @Column({ type: "boolean" })
+  appendedToTestData: boolean;
+
+  @Column({ type: "datetime" })
+  @Index()
+  submitTime: Date;
+
+  // The target submission
+  @ManyToOne(() => SubmissionEntity, { onDelete: "CASCADE" })
+  @JoinColumn()
+  submission: Promise<SubmissionEntity>;
+
+  @Column()
+  @Index()
+  submissionId: number;
+
+  @ManyToOne(() => ProblemEntity, { onDelete: "CASCADE" })
+  @JoinColumn()
+  problem: Promise<ProblemEntity>;
+
+  @Column()
+  @Index()
+  problemId: number;
+
+  @ManyToOne(() => UserEntity)
+  @JoinColumn()
+  hacker: Promise<UserEntity>;
+
+  @Column()
+  @Index()
+  hackerId: number;
+}
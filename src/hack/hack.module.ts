@@ -0,0 +1,33 @@
+import { Module, forwardRef } from "@nestjs/common";
+import { TypeOrmModule } from "@nestjs/typeorm";
+
+import { RedisModule } from "@/redis/redis.module";
+import { ProblemModule } from "@/problem/problem.module";
+import { ProblemTypeModule } from "@/problem-type/problem-type.module";
+import { SubmissionModule } from "@/submission/submission.module";
+import { JudgeModule } from "@/judge/judge.module";
+import { AuditModule } from "@/audit/audit.module";
+import { CodeLanguageModule } from "@/code-language/code-language.module";
+
+import { HackEntity } from "./hack.entity";
+import { ProblemHackConfigEntity } from "./problem-hack-config.entity";
+import { HackService } from "./hack.service";
+import { HackController } from "./hack.controller";
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([HackEntity]),
+    TypeOrmModule.forFeature([ProblemHackConfigEntity]),
+    forwardRef(() => RedisModule),
+    forwardRef(() => ProblemModule),
+    forwardRef(() => ProblemTypeModule),
+    forwardRef(() => SubmissionModule),
+    forwardRef(() => JudgeModule),
+    forwardRef(() => AuditModule),
+    CodeLanguageModule
+  ],
+  providers: [HackService],
+  controllers: [HackController],
+  exports: [HackService]
+})
+export class HackModule {}
@@ -0,0 +1,308 @@
+import { Injectable, Inject, forwardRef } from "@nestjs/common";
+import { InjectRepository } from "@nestjs/typeorm";
+
+import { Repository, In } from "typeorm";
+import { v4 as uuid } from "uuid";
+
+import { logger } from "@/logger";
+import { UserEntity } from "@/user/user.entity";
+import { ProblemEntity, ProblemType } from "@/problem/problem.entity";
+import { ProblemService } from "@/problem/problem.service";
+import { ProblemFileType } from "@/problem/problem-file.entity";
+import { ProblemJudgeInfo } from "@/problem/problem-judge-info.interface";
+import { ProblemJudgeInfoTraditional } from "@/problem-type/types/traditional/problem-judge-info.interface";
+import { SubmissionService } from "@/submission/submission.service";
+import { SubmissionEntity } from "@/submission/submission.entity";
+import { SubmissionContent } from "@/submission/submission-content.interface";
+import { SubmissionProgressType } from "@/submission/submission-progress.interface";
+import { AuditLogObjectType, AuditService } from "@/audit/audit.service";
+import { CodeLanguageService } from "@/code-language/code-language.service";
+import { ProblemTypeFactoryService } from "@/problem-type/problem-type-factory.service";
+import { LockService } from "@/redis/lock.service";
+import {
+  JudgeQueueService,
+  JudgeTaskType,
+  JudgeTaskPriorityType,
+  JudgeTask,
+  JudgeTaskExtraInfo
+} from "@/judge/judge-queue.service";
+import { JudgeTaskService, JudgeTaskQueueInfo } from "@/judge/judge-task-service.interface";
+
+import { HackEntity } from "./hack.entity";
+import { HackStatus } from "./hack-status.enum";
+import { HackProgress } from "./hack-progress.interface";
+import { ProblemHackConfigEntity } from "./problem-hack-config.entity";
+import { ProblemHackConfig } from "./problem-hack-config.interface";
+
+import { HackMetaDto } from "./dto";
+
+interface HackTaskExtraInfo extends JudgeTaskExtraInfo {
+  problemType: ProblemType;
+  judgeInfo: ProblemJudgeInfo;
+  testData: Record<string, string>; // filename -> uuid
+  hackConfig: ProblemHackConfig;
+  input: string;
+
+  // The content of the target submission
+  submissionContent: SubmissionContent;
+}
+
+// Only problems with input and output files are hackable
+export const HACKABLE_PROBLEM_TYPES = [ProblemType.Traditional];
+
+@Injectable()
+export class HackService implements JudgeTaskService<HackProgress, HackTaskExtraInfo> {
+  constructor(
+    @InjectRepository(HackEntity)
+    private readonly hackRepository: Repository<HackEntity>,
+    @InjectRepository(ProblemHackConfigEntity)
+    private readonly problemHackConfigRepository: Repository<ProblemHackConfigEntity>,
+    @Inject(forwardRef(() => ProblemService))
+    private readonly problemService: ProblemService,
+    @Inject(forwardRef(() => SubmissionService))
+    private readonly submissionService: SubmissionService,
+    private readonly judgeQueueService: JudgeQueueService,
+    private readonly codeLanguageService: CodeLanguageService,
+    private readonly problemTypeFactoryService: ProblemTypeFactoryService,
+    private readonly auditService: AuditService,
+    private readonly lockService: LockService
+  ) {
+    this.judgeQueueService.registerTaskType(JudgeTaskType.Hack, this);
+
+    this.auditService.registerObjectTypeQueryHandler(AuditLogObjectType.Hack, async hackId => {
+      const hack = await this.findHackById(hackId);
+      return !hack ? null : await this.getHackMeta(hack);
+    });
+  }
+
+  async findHackById(id: number): Promise<HackEntity> {
+    return await this.hackRepository.findOneBy({ id });
+  }
+
+  async findHackByTaskId(taskId: string): Promise<HackEntity> {
+    return await this.hackRepository.findOneBy({ taskId });
+  }
+
+  async getHackMeta(hack: HackEntity): Promise<HackMetaDto> {
+    return {
+      id: hack.id,
+      status: hack.status,
+      submitTime: hack.submitTime,
+      submissionId: hack.submissionId,
+      problemId: hack.problemId,
+      hackerId: hack.hackerId,
+      appendedToTestData: hack.appendedToTestData
+    };
+  }
+
+  async getProblemHackConfig(problem: ProblemEntity): Promise<ProblemHackConfig> {
+    const problemHackConfig = await this.problemHackConfigRepository.findOneBy({ problemId: problem.id });
+    return problemHackConfig?.config;
+  }
+
+  /**
+   * @param config `null` to make the problem not hackable.
+   */
+  async setProblemHackConfig(
+    problem: ProblemEntity,
+    config: ProblemHackConfig
+  ): Promise<[error: "INVALID_COMPILE_AND_RUN_OPTIONS" | "NO_SUCH_FILE", errorFilename?: string]> {
+    if (!config) {
+      await this.problemHackConfigRepository.delete({ problemId: problem.id });
+      return [null];
+    }
+
+    const testData = await this.problemService.getProblemFiles(problem, ProblemFileType.TestData);
+    for (const program of [config.referenceSolution, config.validator]) {
+      if (!program) continue;
+      if (this.codeLanguageService.validateCompileAndRunOptions(program.language, program.compileAndRunOptions).length)
+        return ["INVALID_COMPILE_AND_RUN_OPTIONS", program.filename];
+      if (!testData.some(file => file.filename === program.filename)) return ["NO_SUCH_FILE", program.filename];
+    }
+
+    const problemHackConfig = new ProblemHackConfigEntity();
+    problemHackConfig.problemId = problem.id;
+    problemHackConfig.config = config;
+    await this.problemHackConfigRepository.save(problemHackConfig);
+
+    return [null];
+  }
+
+  async userHasAcceptedSubmission(user: UserEntity, problem: ProblemEntity): Promise<boolean> {
+    if (!user) return false;
+    return (await this.submissionService.getUserLatestSubmissionByProblems(user, [problem], true)).has(problem.id);
+  }
+
+  async createHack(
+    hacker: UserEntity,
+    submission: SubmissionEntity,
+    problem: ProblemEntity,
+    input: string
+  ): Promise<HackEntity> {
+    const hack = new HackEntity();
+    hack.taskId = uuid();
+    hack.status = HackStatus.Pending;
+    hack.input = input;
+    hack.expectedOutput = null;
+    hack.result = null;
+    hack.appendedToTestData = false;
+    hack.submitTime = new Date();
+    hack.submissionId = submission.id;
+    hack.problemId = submission.problemId;
+    hack.hackerId = hacker.id;
+    await this.hackRepository.save(hack);
+
+    // The judge client runs the target submission, the checker, the reference solution and the validator
+    const [judgeInfo] = await this.problemService.getProblemJudgeInfo(problem);
+    const submissionDetail = await this.submissionService.getSubmissionDetail(submission);
+    const hackConfig = await this.getProblemHackConfig(problem);
+    const requirements = this.problemTypeFactoryService
+      .type(problem.type)
+      .getJudgeTaskRequirements(judgeInfo, submissionDetail.content);
+    requirements.languages = Array.from(
+      new Set([
+        ...(requirements.languages || []),
+        ...[hackConfig.referenceSolution, hackConfig.validator]
+          .filter(program => program)
+          .map(program => program.language)
+      ])
+    );
+
+    await this.judgeQueueService.pushTask(hack.taskId, JudgeTaskType.Hack, JudgeTaskPriorityType.Medium, requirements);
+
+    return hack;
+  }
+
+  async onTaskProgress(taskId: string, progress: HackProgress): Promise<boolean> {
+    const hack = await this.findHackByTaskId(taskId);
+    if (!hack) {
+      logger.warn(`Invalid task Id ${taskId} of hack progress, maybe the submission is deleted?`);
+      return false;
+    }
+
+    // We don't report the progress of a hack to the user, only the result is stored
+    if (progress.progressType !== SubmissionProgressType.Finished) return true;
+
+    const { expectedOutput, ...result } = progress;
+    hack.taskId = null;
+    hack.status = progress.status;
+    hack.expectedOutput = expectedOutput ?? null;
+    hack.result = result;
+    await this.hackRepository.save(hack);
+
+    return true;
+  }
+
+  async onTaskFailed(taskId: string, systemMessage: string): Promise<void> {
+    await this.onTaskProgress(taskId, {
+      progressType: SubmissionProgressType.Finished,
+      status: HackStatus.SystemError,
+      systemMessage
+    });
+  }
+
+  async getTasksQueueInfo(taskIds: string[]): Promise<Map<string, JudgeTaskQueueInfo>> {
+    const hacks = await this.hackRepository.findBy({ taskId: In(taskIds) });
+    return new Map(
+      hacks.map(hack => [
+        hack.taskId,
+        {
+          submissionId: hack.submissionId,
+          problemId: hack.problemId,
+          userId: hack.hackerId
+        }
+      ])
+    );
+  }
+
+  async getTaskToBeSentToJudgeByTaskId(taskId: string, priority: number): Promise<JudgeTask<HackTaskExtraInfo>> {
+    try {
+      const hack = await this.findHackByTaskId(taskId);
+      if (!hack) return null;
+
+      const submission = await this.submissionService.findSubmissionById(hack.submissionId);
+      const submissionDetail = await this.submissionService.getSubmissionDetail(submission);
+
+      const problem = await this.problemService.findProblemById(hack.problemId);
+      const hackConfig = await this.getProblemHackConfig(problem);
+      if (!hackConfig) {
+        logger.warn(`Hack ${hack.id}'s problem ${problem.id} is no longer hackable`);
+        return null;
+      }
+
+      const [preprocessedJudgeInfo] = await this.problemService.getProblemPreprocessedJudgeInfo(problem);
+      const testData = await this.problemService.getProblemFiles(problem, ProblemFileType.TestData);
+
+      return new JudgeTask<HackTaskExtraInfo>(hack.taskId, JudgeTaskType.Hack, JudgeTaskPriorityType.Medium, priority, {
+        problemType: problem.type,
+        judgeInfo: preprocessedJudgeInfo,
+        testData: Object.fromEntries(testData.map(problemFile => [problemFile.filename, problemFile.uuid])),
+        hackConfig,
+        input: hack.input,
+        submissionContent: submissionDetail.content
+      });
+    } catch (e) {
+      logger.error(`Error in getTaskById("${taskId}"): ${e}`);
+      return null;
+    }
+  }
+
+  /**
+   * Add the hack's input and expected output to the problem's testdata, as a new testcase in the last subtask.
+   * If the problem's subtasks are detected from testdata automatically, it's detected as a new testcase.
+   *
+   * @return The errors of adding the files or updating the judge info.
+   * @error "NO_SUCH_HACK" if the hack is deleted before locked, "NO_EXPECTED_OUTPUT" if the judge didn't report it
+   */
+  async appendHackToTestData(
+    hack: HackEntity,
+    problem: ProblemEntity
+  ): Promise<
+    [
+      (
+        | "NO_SUCH_HACK"
+        | "HACK_NOT_SUCCESSFUL"
+        | "NO_EXPECTED_OUTPUT"
+        | "ALREADY_APPENDED"
+        | "TOO_MANY_FILES"
+        | "TOTAL_SIZE_TOO_LARGE"
+        | "INVALID_JUDGE_INFO"
+      ),
+      string[]?
+    ]
+  > {
+    return await this.lockService.lock(`AppendHackToTestData_${hack.id}`, async () => {
+      // eslint-disable-next-line @typescript-eslint/no-shadow
+      hack = await this.findHackById(hack.id);
+      if (!hack) return ["NO_SUCH_HACK"];
+      if (hack.status !== HackStatus.Success) return ["HACK_NOT_SUCCESSFUL"];
+      if (hack.appendedToTestData) return ["ALREADY_APPENDED"];
+      if (hack.expectedOutput == null) return ["NO_EXPECTED_OUTPUT"];
+
+      const inputFile = `hack${hack.id}.in`;
+      const outputFile = `hack${hack.id}.out`;
+      const [error, judgeInfoError] = await this.problemService.addProblemTestDataFromBuffers(
+        problem,
+        [
+          [inputFile, Buffer.from(hack.input)],
+          [outputFile, Buffer.from(hack.expectedOutput)]
+        ],
+        judgeInfo => {
+          const { subtasks } = judgeInfo as ProblemJudgeInfoTraditional;
+          if (!subtasks || subtasks.length === 0) return false;
+          subtasks[subtasks.length - 1].testcases.push({ inputFile, outputFile });
+          return true;
+        },
+        false
+      );
+      if (error === "NO_SUCH_PROBLEM") throw new Error(`Problem ${problem.id} is deleted while appending the hack`);
+      if (error) return [error, judgeInfoError];
+
+      // Only marked after the files and the judge info are committed
+      hack.appendedToTestData = true;
+      await this.hackRepository.save(hack);
+
+      return [null];
+    });
+  }
+}
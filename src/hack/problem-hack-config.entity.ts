@@ -0,0 +1,19 @@
+import { Entity, PrimaryColumn, OneToOne, Column, JoinColumn } from "typeorm";
+
+import { ProblemEntity } from "@/problem/problem.entity";
+
+import { ProblemHackConfig } from "./problem-hack-config.interface";
+
+// A problem is hackable only if it has a hack config
+@Entity("problem_hack_config")
+export class ProblemHackConfigEntity {
+  @OneToOne(() => ProblemEntity, { onDelete: "CASCADE" })
+  @JoinColumn()
+  problem: Promise<ProblemEntity>;
+
+  @PrimaryColumn()
+  problemId: number;
+
+  @Column({ type: "json" })
+  config: ProblemHackConfig;
+}
@@ -0,0 +1,17 @@
+import { CodeLanguage } from "@/code-language/code-language.type";
+
+export interface HackProgram {
+  language: CodeLanguage;
+  compileAndRunOptions: unknown;
+
+  // A file in the problem's testdata, like the custom checker
+  filename: string;
+}
+
+export interface ProblemHackConfig {
+  // Produces the expected output for the hack input
+  referenceSolution: HackProgram;
+
+  // A testlib-style validator to check the hack input, optional
+  validator?: HackProgram;
+}
@@ -82,20 +82,23 @@ export class HomepageController {
             currentUser,
             problems.filter(problem => !acceptedSubmissions.has(problem.id))
           ));
+        const submissionMetas =
+          currentUser &&
+          (await this.submissionService.getSubmissionBasicMetas(
+            problems.map(problem => acceptedSubmissions.get(problem.id) || nonAcceptedSubmissions.get(problem.id))
+          ));
         return await Promise.all(
-          problems.map(async problem => {
-            const submission =
-              currentUser && (acceptedSubmissions.get(problem.id) || nonAcceptedSubmissions.get(problem.id));
-
-            return <GetHomepageResponseProblemDto>{
-              meta: await this.problemService.getProblemMeta(problem),
-              title: await this.problemService.getProblemLocalizedTitle(
-                problem,
-                problem.locales.includes(request.locale) ? request.locale : problem.locales[0]
-              ),
-              submission: submission && (await this.submissionService.getSubmissionBasicMeta(submission))
-            };
-          })
+          problems.map(
+            async (problem, i) =>
+              <GetHomepageResponseProblemDto>{
+                meta: await this.problemService.getProblemMeta(problem),
+                title: await this.problemService.getProblemLocalizedTitle(
+                  problem,
+                  problem.locales.includes(request.locale) ? request.locale : problem.locales[0]
+                ),
+                submission: submissionMetas && submissionMetas[i]
+              }
+          )
         );
       })()
     ]);
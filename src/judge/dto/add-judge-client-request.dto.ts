@@ -8,7 +8,7 @@ export class AddJudgeClientRequestDto {
   @IsString()
   name: string;
 
-  @ApiProperty()
+  @ApiProperty({ description: "IP addresses or CIDR subnets. An empty list allows all hosts." })
   @IsString({ each: true })
   @IsArray()
   allowedHosts: string[];
@@ -3,7 +3,8 @@ import { ApiProperty } from "@nestjs/swagger";
 import { JudgeClientInfoDto } from "./judge-client-info.dto";
 
 export enum AddJudgeClientResponseError {
-  PERMISSION_DENIED = "PERMISSION_DENIED"
+  PERMISSION_DENIED = "PERMISSION_DENIED",
+  INVALID_ALLOWED_HOSTS = "INVALID_ALLOWED_HOSTS"
 }
 
 export class AddJudgeClientResponseDto {
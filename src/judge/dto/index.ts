@@ -4,7 +4,21 @@ export * from "./add-judge-client-response.dto";
 export * from "./reset-judge-client-key-request.dto";
 export * from "./reset-judge-client-key-response.dto";
 
+export * from "./update-judge-client-allowed-hosts-request.dto";
+export * from "./update-judge-client-allowed-hosts-response.dto";
+
 export * from "./delete-judge-client-request.dto";
 export * from "./delete-judge-client-response.dto";
 
 export * from "./list-judge-clients-response.dto";
+
+export * from "./queued-judge-task.dto";
+
+export * from "./list-queued-judge-tasks-request.dto";
+export * from "./list-queued-judge-tasks-response.dto";
+
+export * from "./set-queued-judge-task-priority-type-request.dto";
+export * from "./set-queued-judge-task-priority-type-response.dto";
+
+export * from "./purge-queued-judge-tasks-request.dto";
+export * from "./purge-queued-judge-tasks-response.dto";
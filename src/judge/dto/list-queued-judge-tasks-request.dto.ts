@@ -0,0 +1,15 @@
+import { ApiProperty } from "@nestjs/swagger";
+
+import { IsInt, Min } from "class-validator";
+
+export class ListQueuedJudgeTasksRequestDto {
+  @ApiProperty()
+  @IsInt()
+  @Min(0)
+  skipCount: number;
+
+  @ApiProperty()
+  @IsInt()
+  @Min(1)
+  takeCount: number;
+}
@@ -0,0 +1,19 @@
+import { ApiProperty } from "@nestjs/swagger";
+
+import { QueuedJudgeTaskDto } from "./queued-judge-task.dto";
+
+export enum ListQueuedJudgeTasksResponseError {
+  PERMISSION_DENIED = "PERMISSION_DENIED",
+  TAKE_TOO_MANY = "TAKE_TOO_MANY"
+}
+
+export class ListQueuedJudgeTasksResponseDto {
+  @ApiProperty()
+  error?: ListQueuedJudgeTasksResponseError;
+
+  @ApiProperty({ type: [QueuedJudgeTaskDto] })
+  tasks?: QueuedJudgeTaskDto[];
+
+  @ApiProperty()
+  count?: number;
+}
@@ -0,0 +1,13 @@
+import { ApiProperty } from "@nestjs/swagger";
+
+export enum PurgeQueuedJudgeTasksResponseError {
+  PERMISSION_DENIED = "PERMISSION_DENIED"
+}
+
+export class PurgeQueuedJudgeTasksResponseDto {
+  @ApiProperty()
+  error?: PurgeQueuedJudgeTasksResponseError;
+
+  @ApiProperty({ type: [String] })
+  purgedTaskIds?: string[];
+}
@@ -0,0 +1,35 @@
+import { ApiProperty } from "@nestjs/swagger";
+
+import { UserMetaDto } from "@/user/dto";
+
+import { JudgeTaskType, JudgeTaskPriorityType } from "../judge-queue.service";
+import { JudgeTaskRequirements } from "../judge-task-requirements.interface";
+
+export class QueuedJudgeTaskDto {
+  @ApiProperty()
+  taskId: string;
+
+  @ApiProperty({ enum: JudgeTaskType })
+  type: JudgeTaskType;
+
+  @ApiProperty()
+  priority: number;
+
+  @ApiProperty({ enum: JudgeTaskPriorityType })
+  priorityType: JudgeTaskPriorityType;
+
+  @ApiProperty()
+  enqueueTime: Date;
+
+  @ApiProperty()
+  requirements?: JudgeTaskRequirements;
+
+  @ApiProperty({ description: "`null` for tasks not related to a submission." })
+  submissionId: number;
+
+  @ApiProperty({ description: "`null` if the task is invalid, e.g. canceled." })
+  problemId: number;
+
+  @ApiProperty({ description: "`null` if the task is invalid, e.g. canceled." })
+  submitter: UserMetaDto;
+}
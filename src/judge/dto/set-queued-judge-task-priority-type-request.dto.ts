@@ -0,0 +1,15 @@
+import { ApiProperty } from "@nestjs/swagger";
+
+import { IsString, IsEnum } from "class-validator";
+
+import { JudgeTaskPriorityType } from "../judge-queue.service";
+
+export class SetQueuedJudgeTaskPriorityTypeRequestDto {
+  @ApiProperty()
+  @IsString()
+  taskId: string;
+
+  @ApiProperty({ enum: JudgeTaskPriorityType })
+  @IsEnum(JudgeTaskPriorityType)
+  priorityType: JudgeTaskPriorityType;
+}
@@ -0,0 +1,11 @@
+import { ApiProperty } from "@nestjs/swagger";
+
+export enum SetQueuedJudgeTaskPriorityTypeResponseError {
+  PERMISSION_DENIED = "PERMISSION_DENIED",
+  NO_SUCH_TASK = "NO_SUCH_TASK"
+}
+
+export class SetQueuedJudgeTaskPriorityTypeResponseDto {
+  @ApiProperty()
+  error?: SetQueuedJudgeTaskPriorityTypeResponseError;
+}
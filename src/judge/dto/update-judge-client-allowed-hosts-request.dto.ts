@@ -0,0 +1,14 @@
+import { ApiProperty } from "@nestjs/swagger";
+
+import { IsInt, IsString, IsArray } from "class-validator";
+
+export class UpdateJudgeClientAllowedHostsRequestDto {
+  @ApiProperty()
+  @IsInt()
+  id: number;
+
+  @ApiProperty({ description: "IP addresses or CIDR subnets. An empty list allows all hosts." })
+  @IsString({ each: true })
+  @IsArray()
+  allowedHosts: string[];
+}
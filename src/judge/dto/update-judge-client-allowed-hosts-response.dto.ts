@@ -0,0 +1,12 @@
+import { ApiProperty } from "@nestjs/swagger";
+
+export enum UpdateJudgeClientAllowedHostsResponseError {
+  PERMISSION_DENIED = "PERMISSION_DENIED",
+  NO_SUCH_JUDGE_CLIENT = "NO_SUCH_JUDGE_CLIENT",
+  INVALID_ALLOWED_HOSTS = "INVALID_ALLOWED_HOSTS"
+}
+
+export class UpdateJudgeClientAllowedHostsResponseDto {
+  @ApiProperty()
+  error?: UpdateJudgeClientAllowedHostsResponseError;
+}
@@ -38,4 +38,7 @@ export interface JudgeClientSystemInfo {
   >;
 
   extraInfo: string;
+
+  // Custom tags to match the judge requirements of problems, e.g. "gpu"
+  tags?: string[];
 }
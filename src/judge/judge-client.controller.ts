@@ -3,6 +3,7 @@ import { ApiOperation, ApiBearerAuth, ApiTags } from "@nestjs/swagger";
 
 import { CurrentUser } from "@/common/user.decorator";
 import { UserEntity } from "@/user/user.entity";
+import { AuditLogObjectType, AuditService } from "@/audit/audit.service";
 
 import { JudgeClientService } from "./judge-client.service";
 
@@ -16,13 +17,16 @@ import {
   ListJudgeClientsResponseDto,
   ResetJudgeClientKeyRequestDto,
   ResetJudgeClientKeyResponseDto,
-  ResetJudgeClientKeyResponseError
+  ResetJudgeClientKeyResponseError,
+  UpdateJudgeClientAllowedHostsRequestDto,
+  UpdateJudgeClientAllowedHostsResponseDto,
+  UpdateJudgeClientAllowedHostsResponseError
 } from "./dto";
 
 @ApiTags("Judge Client")
 @Controller("judgeClient")
 export class JudgeClientController {
-  constructor(private readonly judgeClientService: JudgeClientService) {}
+  constructor(private readonly judgeClientService: JudgeClientService, private readonly auditService: AuditService) {}
 
   @ApiOperation({
     summary: "Add a new judge client."
@@ -38,6 +42,11 @@ export class JudgeClientController {
         error: AddJudgeClientResponseError.PERMISSION_DENIED
       };
 
+    if (!this.judgeClientService.validateAllowedHosts(request.allowedHosts))
+      return {
+        error: AddJudgeClientResponseError.INVALID_ALLOWED_HOSTS
+      };
+
     const judgeClient = await this.judgeClientService.addJudgeClient(request.name, request.allowedHosts);
 
     return {
@@ -70,6 +79,43 @@ export class JudgeClientController {
     return {};
   }
 
+  @ApiOperation({
+    summary: "Update the allowed hosts of a judge client.",
+    description: "The judge client will be disconnected and need to reconnect from an allowed host."
+  })
+  @ApiBearerAuth()
+  @Post("updateJudgeClientAllowedHosts")
+  async updateJudgeClientAllowedHosts(
+    @CurrentUser() user: UserEntity,
+    @Body() request: UpdateJudgeClientAllowedHostsRequestDto
+  ): Promise<UpdateJudgeClientAllowedHostsResponseDto> {
+    if (!user || !user.isAdmin)
+      return {
+        error: UpdateJudgeClientAllowedHostsResponseError.PERMISSION_DENIED
+      };
+
+    const judgeClient = await this.judgeClientService.findJudgeClientById(request.id);
+    if (!judgeClient)
+      return {
+        error: UpdateJudgeClientAllowedHostsResponseError.NO_SUCH_JUDGE_CLIENT
+      };
+
+    if (!this.judgeClientService.validateAllowedHosts(request.allowedHosts))
+      return {
+        error: UpdateJudgeClientAllowedHostsResponseError.INVALID_ALLOWED_HOSTS
+      };
+
+    const oldAllowedHosts = judgeClient.allowedHosts;
+    await this.judgeClientService.updateJudgeClientAllowedHosts(judgeClient, request.allowedHosts);
+
+    await this.auditService.log("judge_client.update_allowed_hosts", AuditLogObjectType.JudgeClient, judgeClient.id, {
+      oldAllowedHosts,
+      newAllowedHosts: request.allowedHosts
+    });
+
+    return {};
+  }
+
   @ApiOperation({
     summary: "Reset the key of a judge client."
   })
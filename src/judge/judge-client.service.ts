@@ -5,8 +5,10 @@ import { InjectRepository } from "@nestjs/typeorm";
 
 import { Repository } from "typeorm";
 import { Redis } from "ioredis";
+import proxyAddr from "proxy-addr";
 
 import { RedisService } from "@/redis/redis.service";
+import { AuditLogObjectType, AuditService } from "@/audit/audit.service";
 
 import { JudgeClientEntity } from "./judge-client.entity";
 import { JudgeClientInfoDto } from "./dto/judge-client-info.dto";
@@ -28,9 +30,15 @@ export class JudgeClientService {
   constructor(
     @InjectRepository(JudgeClientEntity)
     private readonly judgeClientRepository: Repository<JudgeClientEntity>,
-    private readonly redisService: RedisService
+    private readonly redisService: RedisService,
+    private readonly auditService: AuditService
   ) {
     this.redis = this.redisService.getClient();
+
+    this.auditService.registerObjectTypeQueryHandler(AuditLogObjectType.JudgeClient, async judgeClientId => {
+      const judgeClient = await this.findJudgeClientById(judgeClientId);
+      return !judgeClient ? null : await this.getJudgeClientInfo(judgeClient);
+    });
   }
 
   async findJudgeClientById(id: number): Promise<JudgeClientEntity> {
@@ -66,6 +74,38 @@ export class JudgeClientService {
     return judgeClient;
   }
 
+  /**
+   * Each item of the allowed hosts could be an IP address, a CIDR subnet or a preset name of `proxy-addr`
+   * (e.g. "loopback"). An empty list allows all hosts.
+   */
+  validateAllowedHosts(allowedHosts: string[]): boolean {
+    try {
+      proxyAddr.compile(allowedHosts);
+      return true;
+    } catch (e) {
+      return false;
+    }
+  }
+
+  isHostAllowed(judgeClient: JudgeClientEntity, address: string): boolean {
+    if (!judgeClient.allowedHosts || judgeClient.allowedHosts.length === 0) return true;
+
+    try {
+      return proxyAddr.compile(judgeClient.allowedHosts)(address, 0);
+    } catch (e) {
+      // Reject all connections if the stored allowed hosts are malformed
+      return false;
+    }
+  }
+
+  async updateJudgeClientAllowedHosts(judgeClient: JudgeClientEntity, allowedHosts: string[]): Promise<void> {
+    judgeClient.allowedHosts = allowedHosts;
+    await this.judgeClientRepository.save(judgeClient);
+
+    // Make the client reconnect to check the new allowed hosts
+    await this.disconnectJudgeClient(judgeClient);
+  }
+
   async resetJudgeClientKey(judgeClient: JudgeClientEntity): Promise<void> {
     judgeClient.key = generateKey();
     await this.judgeClientRepository.save(judgeClient);
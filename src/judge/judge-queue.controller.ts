@@ -0,0 +1,143 @@
+import { Controller, Post, Body } from "@nestjs/common";
+import { ApiOperation, ApiBearerAuth, ApiTags } from "@nestjs/swagger";
+
+import { CurrentUser } from "@/common/user.decorator";
+import { UserEntity } from "@/user/user.entity";
+import { UserService } from "@/user/user.service";
+import { UserPrivilegeService, UserPrivilegeType } from "@/user/user-privilege.service";
+import { ConfigService } from "@/config/config.service";
+import { AuditLogObjectType, AuditService } from "@/audit/audit.service";
+
+import { JudgeQueueService, JudgeTaskPriorityType } from "./judge-queue.service";
+
+import {
+  ListQueuedJudgeTasksRequestDto,
+  ListQueuedJudgeTasksResponseDto,
+  ListQueuedJudgeTasksResponseError,
+  SetQueuedJudgeTaskPriorityTypeRequestDto,
+  SetQueuedJudgeTaskPriorityTypeResponseDto,
+  SetQueuedJudgeTaskPriorityTypeResponseError,
+  PurgeQueuedJudgeTasksRequestDto,
+  PurgeQueuedJudgeTasksResponseDto,
+  PurgeQueuedJudgeTasksResponseError
+} from "./dto";
+
+@ApiTags("Judge Queue")
+@Controller("judgeQueue")
+export class JudgeQueueController {
+  constructor(
+    private readonly judgeQueueService: JudgeQueueService,
+    private readonly userService: UserService,
+    private readonly userPrivilegeService: UserPrivilegeService,
+    private readonly configService: ConfigService,
+    private readonly auditService: AuditService
+  ) {}
+
+  @ApiOperation({
+    summary: "List the tasks in judge queue, in the order of being consumed.",
+    description: "Judge clients may consume tasks out of order if they don't meet some tasks' requirements."
+  })
+  @ApiBearerAuth()
+  @Post("listQueuedJudgeTasks")
+  async listQueuedJudgeTasks(
+    @CurrentUser() currentUser: UserEntity,
+    @Body() request: ListQueuedJudgeTasksRequestDto
+  ): Promise<ListQueuedJudgeTasksResponseDto> {
+    if (!(await this.userPrivilegeService.userHasPrivilege(currentUser, UserPrivilegeType.ManageJudgeQueue)))
+      return {
+        error: ListQueuedJudgeTasksResponseError.PERMISSION_DENIED
+      };
+
+    if (request.takeCount > this.configService.config.queryLimit.judgeQueueTasks)
+      return {
+        error: ListQueuedJudgeTasksResponseError.TAKE_TOO_MANY
+      };
+
+    const [tasks, count] = await Promise.all([
+      this.judgeQueueService.listQueuedTasks(request.skipCount, request.takeCount),
+      this.judgeQueueService.getQueueLength()
+    ]);
+
+    const queueInfos = await this.judgeQueueService.getTasksQueueInfo(tasks);
+    return {
+      tasks: await Promise.all(
+        tasks.map(async task => {
+          const queueInfo = queueInfos.get(task.taskId);
+          const submitter = queueInfo && (await this.userService.findUserById(queueInfo.userId));
+          return {
+            taskId: task.taskId,
+            type: task.type,
+            priority: task.priority,
+            priorityType: task.priorityType,
+            enqueueTime: new Date(task.enqueueTime),
+            requirements: task.requirements,
+            submissionId: queueInfo?.submissionId ?? null,
+            problemId: queueInfo?.problemId ?? null,
+            submitter: submitter ? await this.userService.getUserMeta(submitter, currentUser) : null
+          };
+        })
+      ),
+      count
+    };
+  }
+
+  @ApiOperation({
+    summary: "Move a queued task to another priority lane.",
+    description: "The task keeps its relative order with the other tasks in the new lane."
+  })
+  @ApiBearerAuth()
+  @Post("setQueuedJudgeTaskPriorityType")
+  async setQueuedJudgeTaskPriorityType(
+    @CurrentUser() currentUser: UserEntity,
+    @Body() request: SetQueuedJudgeTaskPriorityTypeRequestDto
+  ): Promise<SetQueuedJudgeTaskPriorityTypeResponseDto> {
+    if (!(await this.userPrivilegeService.userHasPrivilege(currentUser, UserPrivilegeType.ManageJudgeQueue)))
+      return {
+        error: SetQueuedJudgeTaskPriorityTypeResponseError.PERMISSION_DENIED
+      };
+
+    const task = await this.judgeQueueService.setQueuedTaskPriorityType(request.taskId, request.priorityType);
+    if (!task)
+      return {
+        error: SetQueuedJudgeTaskPriorityTypeResponseError.NO_SUCH_TASK
+      };
+
+    await this.auditService.log("judge_queue.set_task_priority_type", {
+      taskId: task.taskId,
+      type: task.type,
+      oldPriorityType: JudgeTaskPriorityType[task.priorityType],
+      newPriorityType: JudgeTaskPriorityType[request.priorityType]
+    });
+
+    return {};
+  }
+
+  @ApiOperation({
+    summary: "Remove all queued tasks of a problem from judge queue.",
+    description: "The removed tasks are finished with system error. Running tasks are not affected."
+  })
+  @ApiBearerAuth()
+  @Post("purgeQueuedJudgeTasks")
+  async purgeQueuedJudgeTasks(
+    @CurrentUser() currentUser: UserEntity,
+    @Body() request: PurgeQueuedJudgeTasksRequestDto
+  ): Promise<PurgeQueuedJudgeTasksResponseDto> {
+    if (!(await this.userPrivilegeService.userHasPrivilege(currentUser, UserPrivilegeType.ManageJudgeQueue)))
+      return {
+        error: PurgeQueuedJudgeTasksResponseError.PERMISSION_DENIED
+      };
+
+    const purgedTaskIds = await this.judgeQueueService.purgeQueuedTasks(
+      (task, queueInfo) => queueInfo.problemId === request.problemId,
+      "The task is removed from judge queue by an administrator."
+    );
+
+    await this.auditService.log("judge_queue.purge_problem_tasks", AuditLogObjectType.Problem, request.problemId, {
+      purgedTaskIds
+    });
+
+    return {
+      purgedTaskIds
+    };
+  }
+}
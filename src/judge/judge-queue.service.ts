@@ -1,3 +1,6 @@
+import { join } from "path";
+import fs from "fs-extra";
+
 import { Injectable } from "@nestjs/common";
 
 import { Redis } from "ioredis";
@@ -5,9 +8,14 @@ import { Redis } from "ioredis";
 import { logger } from "@/logger";
 import { RedisService } from "@/redis/redis.service";
 import { MetricsService } from "@/metrics/metrics.service";
+import { ConfigService } from "@/config/config.service";
+import { ClusterService } from "@/cluster/cluster.service";
+import { SubmissionProgressType } from "@/submission/submission-progress.interface";
+import { delay } from "@/common/delay";
 
-import { JudgeTaskService } from "./judge-task-service.interface";
+import { JudgeTaskService, JudgeTaskQueueInfo } from "./judge-task-service.interface";
 import { JudgeTaskProgress } from "./judge-task-progress.interface";
+import { JudgeTaskRequirements, JudgeClientCapabilities } from "./judge-task-requirements.interface";
 
 // Smaller means higher priority
 // With the same priority value, the smaller ID means higher priority
@@ -21,7 +29,9 @@ export enum JudgeTaskPriorityType {
 export enum JudgeTaskType {
   Submission = "Submission",
   CustomTest = "CustomTest",
-  Hack = "Hack"
+  Hack = "Hack",
+  InputValidation = "InputValidation",
+  AnswerGeneration = "AnswerGeneration"
 }
 
 export interface JudgeTaskMeta {
@@ -31,6 +41,17 @@ export interface JudgeTaskMeta {
 
 export interface QueuedJudgeTaskMeta extends JudgeTaskMeta {
   enqueueTime: number;
+  requirements?: JudgeTaskRequirements;
+}
+
+export interface QueuedJudgeTask extends QueuedJudgeTaskMeta {
+  priority: number;
+  priorityType: JudgeTaskPriorityType;
+}
+
+// A task's priority is in (priorityType - 1, priorityType], refer to makeSubmissionPriority
+function getPriorityTypeOfPriority(priority: number): JudgeTaskPriorityType {
+  return Math.ceil(priority);
 }
 
 // eslint-disable-next-line @typescript-eslint/no-empty-interface
@@ -43,7 +64,9 @@ export class JudgeTask<ExtraInfo extends JudgeTaskExtraInfo> implements JudgeTas
     public type: JudgeTaskType,
     public priorityType: JudgeTaskPriorityType,
     public priority: number,
-    public extraInfo: ExtraInfo
+    public extraInfo: ExtraInfo,
+    // Filled when consumed from the queue, to repush the task with the same requirements
+    public requirements?: JudgeTaskRequirements
   ) {}
 
   getMeta(): JudgeTaskMeta {
@@ -57,18 +80,128 @@ export class JudgeTask<ExtraInfo extends JudgeTaskExtraInfo> implements JudgeTas
 const REDIS_KEY_JUDGE_QUEUE = "judge-queue";
 const REDIS_CONSUME_TIMEOUT = 10;
 
+// Each queued task is also in the queue of its requirements, so a judge client consuming with capabilities only
+// checks the head of each requirements' queue, instead of scanning the tasks it can't run
+// The requirements are normalized to identify the same requirements, and removed from the set when their queue is empty
+const REDIS_KEY_JUDGE_QUEUE_REQUIREMENTS = "judge-queue-requirements";
+const REDIS_KEY_JUDGE_QUEUE_BY_REQUIREMENTS = "judge-queue-by-requirements:%s";
+
+// Consuming with capabilities can't block so we poll the queues
+const CONSUME_WITH_CAPABILITIES_POLL_INTERVAL = 500;
+
+// The queue is processed in batches when purging (to get the tasks' queue info in one query per batch) or scanning
+const QUEUE_BATCH_SIZE = 1000;
+
+// Getting the tasks' positions reads the whole queue, so the positions of all tasks are cached briefly
+const TASK_POSITIONS_CACHE_TIME = 2000;
+
+// A consumed task holds a lease (with a deadline) until finished, progress reports extend the lease
+// The master process sweeps expired leases and repushes the tasks
+const REDIS_KEY_JUDGE_TASK_LEASES = "judge-task-leases"; // taskId -> deadline
+const REDIS_KEY_JUDGE_TASK_LEASE_INFO = "judge-task-lease-info:%s";
+const REDIS_KEY_JUDGE_TASK_ATTEMPTS = "judge-task-attempts:%s";
+const JUDGE_TASK_LEASE_INFO_TTL = 60 * 60 * 24;
+const JUDGE_TASK_LEASE_SWEEP_INTERVAL = 10 * 1000;
+
+interface JudgeTaskLeaseInfo {
+  type: JudgeTaskType;
+  priority: number;
+  requirements?: JudgeTaskRequirements;
+}
+
+function getRequirementsQueueKey(requirementsJson: string): string {
+  return REDIS_KEY_JUDGE_QUEUE_BY_REQUIREMENTS.format(requirementsJson);
+}
+
+// Refer to scripts/remove-from-requirements-queue.lua
+interface RedisWithJudgeQueueScripts extends Redis {
+  callRemoveFromRequirementsQueue(
+    requirementsKey: string,
+    requirementsQueueKey: string,
+    requirementsJson: string,
+    member: string
+  ): Promise<number>;
+}
+
+/**
+ * Sort the keys and lists and omit the empty ones, so the same requirements have the same JSON. `null` if no
+ * requirements.
+ */
+function normalizeRequirements(requirements: JudgeTaskRequirements): JudgeTaskRequirements {
+  const normalizeList = (list: string[]) => (list?.length > 0 ? Array.from(new Set(list)).sort() : undefined);
+  const normalized: JudgeTaskRequirements = {
+    arch: typeof requirements?.arch === "string" ? requirements.arch : undefined,
+    languages: normalizeList(requirements?.languages),
+    tags: normalizeList(requirements?.tags)
+  };
+  return Object.values(normalized).some(value => value !== undefined) ? normalized : null;
+}
+
+function getQueuedTaskRequirementsJson(member: string): string {
+  return JSON.stringify(normalizeRequirements((JSON.parse(member) as QueuedJudgeTaskMeta).requirements));
+}
+
+function capabilitiesSatisfy(capabilities: JudgeClientCapabilities, requirements: JudgeTaskRequirements): boolean {
+  if (!requirements) return true;
+
+  const containsAll = (list: string[], items: string[]) => !items || items.every(item => list.includes(item));
+  return (
+    (typeof requirements.arch !== "string" || requirements.arch === capabilities.arch) &&
+    containsAll(capabilities.languages, requirements.languages) &&
+    containsAll(capabilities.tags, requirements.tags)
+  );
+}
+
 @Injectable()
 export class JudgeQueueService {
-  private readonly redisForPush: Redis;
+  private readonly redisForPush: RedisWithJudgeQueueScripts;
 
   private readonly redisForConsume: Redis;
 
   private readonly taskServices: Map<JudgeTaskType, JudgeTaskService<JudgeTaskProgress, JudgeTaskExtraInfo>> =
     new Map();
 
-  constructor(private readonly redisService: RedisService, private readonly metricsService: MetricsService) {
-    this.redisForPush = this.redisService.getClient();
+  private taskPositionsCache: { expireTime: number; positions: Promise<Map<string, number>> } = null;
+
+  constructor(
+    private readonly redisService: RedisService,
+    private readonly metricsService: MetricsService,
+    private readonly configService: ConfigService,
+    private readonly clusterService: ClusterService
+  ) {
+    this.redisForPush = this.redisService.getClient() as RedisWithJudgeQueueScripts;
     this.redisForConsume = this.redisService.getClient();
+    this.redisForPush.defineCommand("callRemoveFromRequirementsQueue", {
+      numberOfKeys: 2,
+      lua: fs.readFileSync(join(__dirname, "scripts", "remove-from-requirements-queue.lua")).toString("utf-8")
+    });
+
+    if (this.clusterService.isMaster) {
+      this.indexQueuedTasksByRequirements().catch(e =>
+        logger.error(`Failed to index the queued judge tasks by requirements: ${e}`)
+      );
+      setInterval(
+        () => this.sweepExpiredLeases().catch(e => logger.error(`Failed to sweep expired judge task leases: ${e}`)),
+        JUDGE_TASK_LEASE_SWEEP_INTERVAL
+      );
+    }
+  }
+
+  /**
+   * Add the queued tasks missing in their requirements' queues, e.g. the tasks queued by an older version.
+   */
+  private async indexQueuedTasksByRequirements(): Promise<void> {
+    const queuedTasks = await this.getAllQueuedTasks();
+    if (queuedTasks.length === 0) return;
+
+    const pipeline = this.redisForPush.pipeline();
+    for (const [member, task] of queuedTasks) {
+      const requirementsJson = getQueuedTaskRequirementsJson(member);
+      pipeline
+        .sadd(REDIS_KEY_JUDGE_QUEUE_REQUIREMENTS, requirementsJson)
+        .zadd(getRequirementsQueueKey(requirementsJson), "NX", task.priority, member);
+    }
+    await pipeline.exec();
   }
 
   private readonly metricJudgeTaskQueueTime = this.metricsService.histogram(
@@ -77,36 +210,135 @@ export class JudgeQueueService {
     ["type", "priority_type"]
   );
 
-  registerTaskType<TaskProgress>(
+  private readonly metricJudgeTaskLeasesAcquired = this.metricsService.counter(
+    "syzoj_ng_judge_task_leases_acquired_total",
+    ["type"]
+  );
+
+  private readonly metricJudgeTaskLeasesExpired = this.metricsService.counter(
+    "syzoj_ng_judge_task_leases_expired_total",
+    ["type"]
+  );
+
+  private readonly metricJudgeTaskAttemptsExceeded = this.metricsService.counter(
+    "syzoj_ng_judge_task_attempts_exceeded_total",
+    ["type"]
+  );
+
+  registerTaskType<TaskProgress extends JudgeTaskProgress>(
     taskType: JudgeTaskType,
     service: JudgeTaskService<TaskProgress, JudgeTaskExtraInfo>
   ): void {
     this.taskServices.set(taskType, service);
   }
 
-  async pushTask(taskId: string, type: JudgeTaskType, priority: number, repush = false): Promise<void> {
+  async pushTask(
+    taskId: string,
+    type: JudgeTaskType,
+    priority: number,
+    requirements?: JudgeTaskRequirements,
+    repush = false
+  ): Promise<void> {
     if (repush) logger.verbose(`Repush judge task: { taskId: ${taskId}, type: ${type}, priority: ${priority} }`);
     else logger.verbose(`New judge task: { taskId: ${taskId}, type: ${type}, priority: ${priority} }`);
-    await this.redisForPush.zadd(
-      REDIS_KEY_JUDGE_QUEUE,
-      priority,
-      JSON.stringify({
-        taskId,
-        type,
-        enqueueTime: Date.now()
-      })
+
+    // The repushed task is no longer held by a judge client, don't let the sweeper repush it again
+    if (repush) await this.redisForPush.zrem(REDIS_KEY_JUDGE_TASK_LEASES, taskId);
+
+    const member = JSON.stringify(<QueuedJudgeTaskMeta>{
+      taskId,
+      type,
+      enqueueTime: Date.now(),
+      requirements
+    });
+    const requirementsJson = getQueuedTaskRequirementsJson(member);
+    await this.redisForPush
+      .multi()
+      .sadd(REDIS_KEY_JUDGE_QUEUE_REQUIREMENTS, requirementsJson)
+      .zadd(getRequirementsQueueKey(requirementsJson), priority, member)
+      .zadd(REDIS_KEY_JUDGE_QUEUE, priority, member)
+      .exec();
+  }
+
+  /**
+   * Remove a task popped or removed from the main queue from its requirements' queue, and the requirements if no
+   * more tasks are queued with them.
+   */
+  private async removeFromRequirementsQueue(
+    member: string,
+    requirementsJson = getQueuedTaskRequirementsJson(member)
+  ): Promise<void> {
+    await this.redisForPush.callRemoveFromRequirementsQueue(
+      REDIS_KEY_JUDGE_QUEUE_REQUIREMENTS,
+      getRequirementsQueueKey(requirementsJson),
+      requirementsJson,
+      member
     );
   }
 
-  async consumeTask(): Promise<JudgeTask<JudgeTaskExtraInfo>> {
+  /**
+   * Pop the task with the highest priority among the heads of the queues of the requirements satisfied by the
+   * capabilities. The main queue decides which consumer gets a task.
+   */
+  private async tryPopTaskWithCapabilities(
+    capabilities: JudgeClientCapabilities
+  ): Promise<[element: string, score: string]> {
+    const requirementsJsons = (await this.redisForConsume.smembers(REDIS_KEY_JUDGE_QUEUE_REQUIREMENTS)).filter(
+      requirementsJson => capabilitiesSatisfy(capabilities, JSON.parse(requirementsJson))
+    );
+    if (requirementsJsons.length === 0) return null;
+
+    /* eslint-disable no-await-in-loop */
+    for (;;) {
+      const pipeline = this.redisForConsume.pipeline();
+      for (const requirementsJson of requirementsJsons)
+        pipeline.zrange(getRequirementsQueueKey(requirementsJson), 0, 0, "WITHSCORES");
+      const heads = (await pipeline.exec())
+        .map(([, head], i) => [...(head as string[]), requirementsJsons[i]])
+        .filter(head => head.length === 3)
+        .sort(([member1, score1], [member2, score2]) =>
+          Number(score1) !== Number(score2) ? Number(score1) - Number(score2) : member1 < member2 ? -1 : 1
+        );
+      if (heads.length === 0) return null;
+
+      // The task may be consumed by others at the same time, or removed from the main queue
+      // Remove it from the queue it was read from, an older version may have indexed it with unnormalized requirements
+      const [member, score, requirementsJson] = heads[0];
+      const popped = await this.redisForConsume.zrem(REDIS_KEY_JUDGE_QUEUE, member);
+      await this.removeFromRequirementsQueue(member, requirementsJson);
+      if (popped) return [member, score];
+    }
+    /* eslint-enable no-await-in-loop */
+  }
+
+  /**
+   * Pop the task with the highest priority whose requirements are satisfied by the capabilities.
+   * Wait for at most `REDIS_CONSUME_TIMEOUT` seconds if there're no such tasks.
+   */
+  private async popTaskWithCapabilities(
+    capabilities: JudgeClientCapabilities
+  ): Promise<[key: string, element: string, score: string]> {
+    const startTime = Date.now();
+    /* eslint-disable no-await-in-loop */
+    do {
+      const result = await this.tryPopTaskWithCapabilities(capabilities);
+      if (result) return [REDIS_KEY_JUDGE_QUEUE, ...result];
+
+      await delay(CONSUME_WITH_CAPABILITIES_POLL_INTERVAL);
+    } while (Date.now() - startTime < REDIS_CONSUME_TIMEOUT * 1000);
+    /* eslint-enable no-await-in-loop */
+
+    return null;
+  }
+
+  /**
+   * @param capabilities The capabilities of the judge client. Don't consume before they're advertised, or the judge
+   * client may get a task it can't run.
+   */
+  async consumeTask(capabilities: JudgeClientCapabilities): Promise<JudgeTask<JudgeTaskExtraInfo>> {
     logger.verbose("Consuming task queue");
 
-    // ioredis's definition doesn't have bzpopmin method
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const redisResponse: [key: string, element: string, score: string] = await (this.redisForConsume as any).bzpopmin(
-      REDIS_KEY_JUDGE_QUEUE,
-      REDIS_CONSUME_TIMEOUT
-    );
+    const redisResponse = await this.popTaskWithCapabilities(capabilities);
     if (!redisResponse) {
       logger.verbose("Consuming task queue - timeout or empty");
       return null;
@@ -124,6 +356,23 @@ export class JudgeQueueService {
       return null;
     }
 
+    task.requirements = taskMeta.requirements;
+
+    const attempts = await this.acquireLease(task);
+    const { judgeTaskMaxAttempts } = this.configService.config.preference.serverSideOnly;
+    if (attempts > judgeTaskMaxAttempts) {
+      logger.warn(`Judge task { taskId: ${task.taskId}, type: ${task.type} } consumed too many times, giving up`);
+      this.metricJudgeTaskAttemptsExceeded.inc({ type: task.type });
+      await this.releaseLease(task.taskId);
+      await this.taskServices
+        .get(task.type)
+        .onTaskFailed(
+          task.taskId,
+          `The task has been consumed by judge clients ${judgeTaskMaxAttempts} times but never finished.`
+        );
+      return null;
+    }
+
     if (taskMeta.enqueueTime) {
       this.metricJudgeTaskQueueTime.observe(
         {
@@ -142,10 +391,242 @@ export class JudgeQueueService {
     return task;
   }
 
+  /**
+   * @return The number of times the task has been consumed, including this time.
+   */
+  private async acquireLease(task: JudgeTask<JudgeTaskExtraInfo>): Promise<number> {
+    const leaseInfo: JudgeTaskLeaseInfo = {
+      type: task.type,
+      priority: task.priority,
+      requirements: task.requirements
+    };
+
+    const [[, attempts]] = await this.redisForPush
+      .multi()
+      .incr(REDIS_KEY_JUDGE_TASK_ATTEMPTS.format(task.taskId))
+      .expire(REDIS_KEY_JUDGE_TASK_ATTEMPTS.format(task.taskId), JUDGE_TASK_LEASE_INFO_TTL)
+      .set(
+        REDIS_KEY_JUDGE_TASK_LEASE_INFO.format(task.taskId),
+        JSON.stringify(leaseInfo),
+        "EX",
+        JUDGE_TASK_LEASE_INFO_TTL
+      )
+      .zadd(REDIS_KEY_JUDGE_TASK_LEASES, this.getLeaseDeadline(), task.taskId)
+      .exec();
+    this.metricJudgeTaskLeasesAcquired.inc({ type: task.type });
+
+    return attempts as number;
+  }
+
+  private getLeaseDeadline(): number {
+    return Date.now() + this.configService.config.preference.serverSideOnly.judgeTaskLeaseTime * 1000;
+  }
+
+  private async extendLease(taskId: string): Promise<void> {
+    // Only extend existing leases, a lease may be already expired and swept
+    await this.redisForPush.zadd(REDIS_KEY_JUDGE_TASK_LEASES, "XX", this.getLeaseDeadline(), taskId);
+  }
+
+  private async releaseLease(taskId: string): Promise<void> {
+    await this.redisForPush
+      .multi()
+      .zrem(REDIS_KEY_JUDGE_TASK_LEASES, taskId)
+      .del(REDIS_KEY_JUDGE_TASK_LEASE_INFO.format(taskId))
+      .del(REDIS_KEY_JUDGE_TASK_ATTEMPTS.format(taskId))
+      .exec();
+  }
+
+  /**
+   * Repush the tasks whose leases are expired, e.g. the judge client hangs or the server node holding the
+   * task's judge client connection dies. Running on the master process only.
+   */
+  private async sweepExpiredLeases(): Promise<void> {
+    const taskIds = await this.redisForPush.zrangebyscore(REDIS_KEY_JUDGE_TASK_LEASES, 0, Date.now());
+
+    /* eslint-disable no-await-in-loop */
+    for (const taskId of taskIds) {
+      // Multiple server nodes may sweep at the same time, only the one removed the lease repushes the task
+      if (!(await this.redisForPush.zrem(REDIS_KEY_JUDGE_TASK_LEASES, taskId))) continue;
+
+      const leaseInfoJson = await this.redisForPush.get(REDIS_KEY_JUDGE_TASK_LEASE_INFO.format(taskId));
+      if (!leaseInfoJson) continue;
+
+      const leaseInfo: JudgeTaskLeaseInfo = JSON.parse(leaseInfoJson);
+      logger.warn(`Lease of judge task { taskId: ${taskId}, type: ${leaseInfo.type} } expired, repushing`);
+      this.metricJudgeTaskLeasesExpired.inc({ type: leaseInfo.type });
+      await this.pushTask(taskId, leaseInfo.type, leaseInfo.priority, leaseInfo.requirements, true);
+    }
+    /* eslint-enable no-await-in-loop */
+  }
+
+  private parseQueuedTasks(redisResponse: string[]): [member: string, task: QueuedJudgeTask][] {
+    const result: [string, QueuedJudgeTask][] = [];
+    for (let i = 0; i < redisResponse.length; i += 2) {
+      const member = redisResponse[i];
+      const priority = Number(redisResponse[i + 1]);
+      result.push([
+        member,
+        {
+          ...(JSON.parse(member) as QueuedJudgeTaskMeta),
+          priority,
+          priorityType: getPriorityTypeOfPriority(priority)
+        }
+      ]);
+    }
+    return result;
+  }
+
+  private async getAllQueuedTasks(): Promise<[member: string, task: QueuedJudgeTask][]> {
+    return this.parseQueuedTasks(await this.redisForPush.zrange(REDIS_KEY_JUDGE_QUEUE, 0, -1, "WITHSCORES"));
+  }
+
+  async getQueueLength(): Promise<number> {
+    return await this.redisForPush.zcard(REDIS_KEY_JUDGE_QUEUE);
+  }
+
+  /**
+   * List the queued tasks in the order of being consumed, ignoring the judge clients' capabilities.
+   */
+  async listQueuedTasks(skipCount: number, takeCount: number): Promise<QueuedJudgeTask[]> {
+    return this.parseQueuedTasks(
+      await this.redisForPush.zrange(REDIS_KEY_JUDGE_QUEUE, skipCount, skipCount + takeCount - 1, "WITHSCORES")
+    ).map(([, task]) => task);
+  }
+
+  /**
+   * @return The queue info of each task by task ID, with one query per task type. The tasks no longer valid (e.g.
+   * canceled) are not included.
+   */
+  async getTasksQueueInfo(tasksMeta: JudgeTaskMeta[]): Promise<Map<string, JudgeTaskQueueInfo>> {
+    const taskIdsByType = new Map<JudgeTaskType, string[]>();
+    for (const { taskId, type } of tasksMeta) {
+      if (!taskIdsByType.has(type)) taskIdsByType.set(type, []);
+      taskIdsByType.get(type).push(taskId);
+    }
+
+    const results = await Promise.all(
+      Array.from(taskIdsByType, ([type, taskIds]) => this.taskServices.get(type).getTasksQueueInfo(taskIds))
+    );
+    return new Map(results.flatMap(result => Array.from(result)));
+  }
+
+  /**
+   * @return The 1-based positions of the tasks in queue, may be outdated for up to `TASK_POSITIONS_CACHE_TIME`. Tasks
+   * not in queue are not included.
+   */
+  async getTaskPositions(taskIds: string[]): Promise<Map<string, number>> {
+    if (!this.taskPositionsCache || this.taskPositionsCache.expireTime < Date.now()) {
+      const cache = {
+        expireTime: Date.now() + TASK_POSITIONS_CACHE_TIME,
+        positions: this.getAllQueuedTasks().then(
+          queuedTasks => new Map(queuedTasks.map(([, task], i) => [task.taskId, i + 1]))
+        )
+      };
+      // Don't cache the failure
+      cache.positions.catch(() => {
+        if (this.taskPositionsCache === cache) this.taskPositionsCache = null;
+      });
+      this.taskPositionsCache = cache;
+    }
+
+    const positions = await this.taskPositionsCache.positions;
+    return new Map(taskIds.filter(taskId => positions.has(taskId)).map(taskId => [taskId, positions.get(taskId)]));
+  }
+
+  /**
+   * Find a queued task by matching its ID in Redis, without reading the whole queue.
+   */
+  private async findQueuedTask(taskId: string): Promise<[member: string, task: QueuedJudgeTask]> {
+    // The special characters of glob-style patterns in the task ID are escaped
+    const pattern = `*"taskId":${JSON.stringify(taskId).replace(/[*?[\]\\]/g, "\\$&")}*`;
+    let cursor = "0";
+    /* eslint-disable no-await-in-loop */
+    do {
+      const [nextCursor, reply] = await this.redisForPush.zscan(
+        REDIS_KEY_JUDGE_QUEUE,
+        cursor,
+        "MATCH",
+        pattern,
+        "COUNT",
+        QUEUE_BATCH_SIZE
+      );
+      const queuedTask = this.parseQueuedTasks(reply).find(([, task]) => task.taskId === taskId);
+      if (queuedTask) return queuedTask;
+      cursor = nextCursor;
+    } while (cursor !== "0");
+    /* eslint-enable no-await-in-loop */
+
+    return null;
+  }
+
+  /**
+   * Move a queued task to another priority lane, keeping its relative order in the lane.
+   * @return The task before moved, or `null` if the task is not in queue.
+   */
+  async setQueuedTaskPriorityType(taskId: string, priorityType: JudgeTaskPriorityType): Promise<QueuedJudgeTask> {
+    const queuedTask = await this.findQueuedTask(taskId);
+    if (!queuedTask) return null;
+
+    const [member, task] = queuedTask;
+
+    // The task may be consumed at the same time
+    if (!(await this.redisForPush.zrem(REDIS_KEY_JUDGE_QUEUE, member))) return null;
+
+    const priority = task.priority - task.priorityType + priorityType;
+    const requirementsJson = getQueuedTaskRequirementsJson(member);
+    await this.redisForPush
+      .multi()
+      .sadd(REDIS_KEY_JUDGE_QUEUE_REQUIREMENTS, requirementsJson)
+      .zadd(getRequirementsQueueKey(requirementsJson), priority, member)
+      .zadd(REDIS_KEY_JUDGE_QUEUE, priority, member)
+      .exec();
+
+    logger.log(`Moved judge task { taskId: ${taskId}, type: ${task.type} } to priority ${priority}`);
+    return task;
+  }
+
+  /**
+   * Remove the queued tasks matching the filter from queue. The removed tasks are finished with system error.
+   * @return The IDs of removed tasks.
+   */
+  async purgeQueuedTasks(
+    filter: (task: QueuedJudgeTask, queueInfo: JudgeTaskQueueInfo) => boolean,
+    systemMessage: string
+  ): Promise<string[]> {
+    const purgedTaskIds: string[] = [];
+
+    const queuedTasks = await this.getAllQueuedTasks();
+    /* eslint-disable no-await-in-loop */
+    for (let i = 0; i < queuedTasks.length; i += QUEUE_BATCH_SIZE) {
+      const batch = queuedTasks.slice(i, i + QUEUE_BATCH_SIZE);
+      const queueInfos = await this.getTasksQueueInfo(batch.map(([, task]) => task));
+      for (const [member, task] of batch) {
+        const queueInfo = queueInfos.get(task.taskId);
+        if (!queueInfo || !filter(task, queueInfo)) continue;
+
+        // The task may be consumed at the same time
+        if (!(await this.redisForPush.zrem(REDIS_KEY_JUDGE_QUEUE, member))) continue;
+        await this.removeFromRequirementsQueue(member);
+
+        await this.taskServices.get(task.type).onTaskFailed(task.taskId, systemMessage);
+        purgedTaskIds.push(task.taskId);
+      }
+    }
+    /* eslint-enable no-await-in-loop */
+
+    return purgedTaskIds;
+  }
+
   /**
    * @return `false` means the task is canceled.
    */
   async onTaskProgress(taskMeta: JudgeTaskMeta, progress: JudgeTaskProgress): Promise<boolean> {
-    return await this.taskServices.get(taskMeta.type).onTaskProgress(taskMeta.taskId, progress);
+    const notCanceled = await this.taskServices.get(taskMeta.type).onTaskProgress(taskMeta.taskId, progress);
+
+    if (!notCanceled || progress.progressType === SubmissionProgressType.Finished)
+      await this.releaseLease(taskMeta.taskId);
+    else await this.extendLease(taskMeta.taskId);
+
+    return notCanceled;
   }
 }
@@ -1,2 +1,6 @@
-// eslint-disable-next-line @typescript-eslint/no-empty-interface
-export interface JudgeTaskProgress {}
+import { SubmissionProgressType } from "@/submission/submission-progress.interface";
+
+// All types of judge tasks share the progress types of submissions
+export interface JudgeTaskProgress {
+  progressType: SubmissionProgressType;
+}
@@ -0,0 +1,23 @@
+/**
+ * What a judge client must have to run a task. A task is only dispatched to the judge clients whose
+ * capabilities satisfy all of its requirements.
+ */
+export interface JudgeTaskRequirements {
+  // All code languages used to judge the task, e.g. the submission's language and the custom checker's
+  languages?: string[];
+
+  // e.g. x64
+  arch?: string;
+
+  // Custom tags, e.g. "gpu"
+  tags?: string[];
+}
+
+/**
+ * What a judge client could run, advertised with its system info.
+ */
+export interface JudgeClientCapabilities {
+  languages: string[];
+  arch: string;
+  tags: string[];
+}
@@ -1,6 +1,15 @@
 import { JudgeTaskProgress } from "./judge-task-progress.interface";
 import { JudgeTaskExtraInfo, JudgeTask } from "./judge-queue.service";
 
+/**
+ * The objects related to a judge task, used to inspect the judge queue.
+ */
+export interface JudgeTaskQueueInfo {
+  submissionId?: number;
+  problemId: number;
+  userId: number;
+}
+
 export interface JudgeTaskService<TaskProgress extends JudgeTaskProgress, ExtraInfo extends JudgeTaskExtraInfo> {
   onTaskProgress(taskId: string, progress: TaskProgress): Promise<boolean>;
 
@@ -8,4 +17,15 @@ export interface JudgeTaskService<TaskProgress extends JudgeTaskProgress, ExtraI
    * @param priority We need to store the `priority` in judge task as we may repush the task back to queue
    */
   getTaskToBeSentToJudgeByTaskId(taskId: string, priority: number): Promise<JudgeTask<ExtraInfo>>;
+
+  /**
+   * Called when the task has been consumed too many times but never finished (e.g. the judge clients hang).
+   * The task should be finished with a system error.
+   */
+  onTaskFailed(taskId: string, systemMessage: string): Promise<void>;
+
+  /**
+   * @return The queue info of each task by task ID. The tasks no longer valid (e.g. canceled) are not included.
+   */
+  getTasksQueueInfo(taskIds: string[]): Promise<Map<string, JudgeTaskQueueInfo>>;
 }
@@ -21,15 +21,21 @@ import { ConfigService } from "@/config/config.service";
 import { EventReportService, EventReportType } from "@/event-report/event-report.service";
 import { RedisService } from "@/redis/redis.service";
 import { LockService } from "@/redis/lock.service";
+import { AuditLogObjectType, AuditService } from "@/audit/audit.service";
+import { delay } from "@/common/delay";
 
 import { JudgeClientService } from "./judge-client.service";
 import { JudgeClientEntity } from "./judge-client.entity";
 import { JudgeQueueService, JudgeTask, JudgeTaskMeta, JudgeTaskExtraInfo } from "./judge-queue.service";
 import { JudgeClientSystemInfo } from "./judge-client-system-info.interface";
+import { JudgeClientCapabilities } from "./judge-task-requirements.interface";
 
 interface JudgeClientState {
   judgeClient: JudgeClientEntity;
   pendingTasks: Set<JudgeTask<JudgeTaskExtraInfo>>;
+
+  // Advertised with the system info, null before received
+  capabilities: JudgeClientCapabilities;
 }
 
 interface SubmissionProgressMessage {
@@ -45,6 +51,8 @@ const REDIS_LOCK_JUDGE_CLIENT_CONNECT_DISCONNECT = "judge-client-connect-disconn
 
 const REDIS_CHANNEL_CANCEL_TASK = "cancel-task";
 
+const WAIT_FOR_CAPABILITIES_POLL_INTERVAL = 500;
+
 @WebSocketGateway({
   maxHttpBufferSize: 1e9,
   namespace: "judge",
@@ -73,7 +81,8 @@ export class JudgeGateway implements OnGatewayConnection, OnGatewayDisconnect {
     @Inject(forwardRef(() => EventReportService))
     private readonly eventReportService: EventReportService,
     private readonly redisService: RedisService,
-    private readonly lockService: LockService
+    private readonly lockService: LockService,
+    private readonly auditService: AuditService
   ) {
     this.redis = this.redisService.getClient();
 
@@ -120,6 +129,29 @@ export class JudgeGateway implements OnGatewayConnection, OnGatewayDisconnect {
       return;
     }
 
+    const address = proxyAddr(client.request, this.configService.config.server.trustProxy);
+    if (!this.judgeClientService.isHostAllowed(judgeClient, address)) {
+      const message = `Judge client ${client.id} (${judgeClient.name}) rejected since it connected from a disallowed host ${address}.`;
+      logger.warn(message);
+      client.emit("authenticationFailed");
+      setImmediate(() => client.disconnect(true));
+
+      this.eventReportService.report({
+        type: EventReportType.Warning,
+        message
+      });
+      await this.auditService.logWithoutUser(
+        address,
+        "judge_client.connection_rejected",
+        AuditLogObjectType.JudgeClient,
+        judgeClient.id,
+        {
+          allowedHosts: judgeClient.allowedHosts
+        }
+      );
+      return;
+    }
+
     // Maybe the socket "disconnect" event is emitted before the query finished
     if (!client.connected) return;
 
@@ -132,7 +164,8 @@ export class JudgeGateway implements OnGatewayConnection, OnGatewayDisconnect {
 
       this.mapSessionIdToJudgeClient.set(client.id, {
         judgeClient,
-        pendingTasks: new Set()
+        pendingTasks: new Set(),
+        capabilities: null
       });
     });
 
@@ -143,10 +176,7 @@ export class JudgeGateway implements OnGatewayConnection, OnGatewayDisconnect {
     // Now we are ready for consuming task
     client.emit("ready", judgeClient.name, this.configService.config.judge);
 
-    const message = `Judge client ${client.id} (${judgeClient.name}) connected from ${proxyAddr(
-      client.request,
-      this.configService.config.server.trustProxy
-    )}.`;
+    const message = `Judge client ${client.id} (${judgeClient.name}) connected from ${address}.`;
     logger.log(message);
     if ((await this.redis.del(REDIS_KEY_JUDGE_CLIENT_TEMPORARILY_DISCONNENTED.format(judgeClient.id))) === 0) {
       // If the judge client is NOT temporarily disconnected, report it with event-reporter
@@ -185,7 +215,7 @@ export class JudgeGateway implements OnGatewayConnection, OnGatewayDisconnect {
       await Promise.all(
         Array.from(state.pendingTasks.values()).map(async task => {
           this.mapTaskIdToSocket.delete(task.taskId);
-          await this.judgeQueueService.pushTask(task.taskId, task.type, task.priority, true);
+          await this.judgeQueueService.pushTask(task.taskId, task.type, task.priority, task.requirements, true);
         })
       );
     }
@@ -218,6 +248,12 @@ export class JudgeGateway implements OnGatewayConnection, OnGatewayDisconnect {
     }
 
     await this.judgeClientService.updateJudgeClientSystemInfo(state.judgeClient, systemInfo);
+
+    state.capabilities = {
+      languages: Object.keys(systemInfo.languages || {}),
+      arch: systemInfo.arch,
+      tags: systemInfo.tags || []
+    };
   }
 
   @SubscribeMessage("requestFiles")
@@ -252,14 +288,20 @@ export class JudgeGateway implements OnGatewayConnection, OnGatewayDisconnect {
 
     /* eslint-disable no-await-in-loop */
     while (await this.checkConnection(client)) {
-      const task = await this.judgeQueueService.consumeTask();
+      // The judge client may consume before its system info arrives, don't give it a task it can't run
+      if (!state.capabilities) {
+        await delay(WAIT_FOR_CAPABILITIES_POLL_INTERVAL);
+        continue;
+      }
+
+      const task = await this.judgeQueueService.consumeTask(state.capabilities);
       if (!task) continue;
 
       if (!(await this.checkConnection(client))) {
         logger.verbose(
           `Consumed task for client ${client.id} (${state.judgeClient.name}), but connection became invalid, repushing task back to queue`
         );
-        await this.judgeQueueService.pushTask(task.taskId, task.type, task.priority, true);
+        await this.judgeQueueService.pushTask(task.taskId, task.type, task.priority, task.requirements, true);
       }
 
       state.pendingTasks.add(task);
@@ -5,10 +5,14 @@ import { RedisModule } from "@/redis/redis.module";
 import { FileModule } from "@/file/file.module";
 import { EventReportModule } from "@/event-report/event-report.module";
 import { MetricsModule } from "@/metrics/metrics.module";
+import { AuditModule } from "@/audit/audit.module";
+import { ClusterModule } from "@/cluster/cluster.module";
+import { UserModule } from "@/user/user.module";
 
 import { JudgeQueueService } from "./judge-queue.service";
 import { JudgeGateway } from "./judge.gateway";
 import { JudgeClientController } from "./judge-client.controller";
+import { JudgeQueueController } from "./judge-queue.controller";
 import { JudgeClientService } from "./judge-client.service";
 import { JudgeClientEntity } from "./judge-client.entity";
 
@@ -18,9 +22,12 @@ import { JudgeClientEntity } from "./judge-client.entity";
     forwardRef(() => RedisModule),
     forwardRef(() => FileModule),
     forwardRef(() => EventReportModule),
-    forwardRef(() => MetricsModule)
+    forwardRef(() => MetricsModule),
+    forwardRef(() => AuditModule),
+    forwardRef(() => UserModule),
+    ClusterModule
   ],
-  controllers: [JudgeClientController],
+  controllers: [JudgeClientController, JudgeQueueController],
   providers: [JudgeGateway, JudgeClientService, JudgeQueueService],
   exports: [JudgeGateway, JudgeQueueService]
 })
@@ -0,0 +1,16 @@
+-- Remove a task from the queue of its requirements, and the requirements from the set if the queue becomes empty
+-- Pushing a task adds both in a transaction, so the requirements of a queued task are never removed
+
+-- The set of all requirements and the queue of the task's requirements
+local key_requirements = KEYS[1]
+local key_requirements_queue = KEYS[2]
+
+local requirements_json = ARGV[1]
+local member = ARGV[2]
+
+local removed = redis.call("zrem", key_requirements_queue, member)
+if redis.call("zcard", key_requirements_queue) == 0 then
+  redis.call("srem", key_requirements, requirements_json)
+end
+
+return removed
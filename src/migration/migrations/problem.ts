@@ -69,7 +69,7 @@ function displayProblem(oldProblem: OldDatabaseProblemEntity) {
 
 const regexSampleData = /^`+[^\n]*$\n([\s\S]*?)\n^`+[^\n]*$/m;
 const markdownHeader = /^#+ /;
-function parseSamples(sample: string): [sample: ProblemSampleDataMember, text: string][] {
+export function parseSamples(sample: string): [sample: ProblemSampleDataMember, text: string][] {
   const lines = (sample || "").split("\n");
   const sections: [string, string][] = [];
   let currentSection = -1;
@@ -1,4 +1,5 @@
 export enum PermissionObjectType {
   Problem = "Problem",
-  Discussion = "Discussion"
+  Discussion = "Discussion",
+  Contest = "Contest"
 }
@@ -0,0 +1,251 @@
+import { createHash } from "crypto";
+
+import { CodeLanguage } from "@/code-language/code-language.type";
+
+export interface CodeToken {
+  // Identifiers, numbers and strings are normalized, so renaming variables doesn't change the tokens
+  text: string;
+  line: number;
+}
+
+interface CodeLanguageSyntax {
+  lineComments: string[];
+  blockComments: [open: string, close: string][];
+  stringQuotes: string[];
+  keywords: string[];
+}
+
+// prettier-ignore
+const C_KEYWORDS = [
+  "auto", "break", "case", "char", "const", "continue", "default", "do", "double", "else", "enum", "extern", "float",
+  "for", "goto", "if", "int", "long", "register", "return", "short", "signed", "sizeof", "static", "struct", "switch",
+  "typedef", "union", "unsigned", "void", "volatile", "while"
+];
+
+// prettier-ignore
+const CPP_KEYWORDS = [
+  ...C_KEYWORDS,
+  "bool", "catch", "class", "constexpr", "delete", "false", "friend", "inline", "namespace", "new", "nullptr",
+  "operator", "private", "protected", "public", "template", "this", "throw", "true", "try", "typename", "using",
+  "virtual"
+];
+
+// prettier-ignore
+const JAVA_KEYWORDS = [
+  "abstract", "boolean", "break", "byte", "case", "catch", "char", "class", "continue", "default", "do", "double",
+  "else", "extends", "final", "finally", "float", "for", "if", "implements", "import", "instanceof", "int",
+  "interface", "long", "new", "null", "package", "private", "protected", "public", "return", "short", "static",
+  "super", "switch", "this", "throw", "throws", "try", "void", "while", "true", "false"
+];
+
+// prettier-ignore
+const CSHARP_KEYWORDS = [
+  ...JAVA_KEYWORDS,
+  "bool", "const", "decimal", "foreach", "in", "namespace", "out", "ref", "string", "struct", "using", "var"
+];
+
+// prettier-ignore
+const KOTLIN_KEYWORDS = [
+  "break", "class", "continue", "do", "else", "false", "for", "fun", "if", "in", "is", "null", "object", "return",
+  "this", "true", "val", "var", "when", "while"
+];
+
+// prettier-ignore
+const SWIFT_KEYWORDS = [
+  "break", "case", "class", "continue", "default", "else", "false", "for", "func", "guard", "if", "in", "let", "nil",
+  "repeat", "return", "self", "struct", "switch", "true", "var", "while"
+];
+
+// prettier-ignore
+const RUST_KEYWORDS = [
+  "as", "break", "const", "continue", "else", "enum", "false", "fn", "for", "if", "impl", "in", "let", "loop",
+  "match", "mut", "pub", "ref", "return", "self", "static", "struct", "true", "use", "while"
+];
+
+// prettier-ignore
+const GO_KEYWORDS = [
+  "break", "case", "chan", "const", "continue", "default", "defer", "else", "for", "func", "go", "goto", "if",
+  "import", "interface", "map", "package", "range", "return", "select", "struct", "switch", "type", "var"
+];
+
+// prettier-ignore
+const PASCAL_KEYWORDS = [
+  "and", "array", "begin", "case", "const", "div", "do", "downto", "else", "end", "for", "function", "if", "mod",
+  "not", "of", "or", "procedure", "program", "record", "repeat", "then", "to", "type", "until", "var", "while"
+];
+
+// prettier-ignore
+const PYTHON_KEYWORDS = [
+  "and", "as", "break", "class", "continue", "def", "del", "elif", "else", "except", "False", "for", "from", "if",
+  "import", "in", "is", "lambda", "None", "not", "or", "pass", "return", "True", "try", "while", "with", "yield"
+];
+
+// prettier-ignore
+const HASKELL_KEYWORDS = [
+  "case", "class", "data", "deriving", "do", "else", "if", "import", "in", "instance", "let", "module", "of", "then",
+  "type", "where"
+];
+
+// prettier-ignore
+const FSHARP_KEYWORDS = [
+  "do", "done", "elif", "else", "false", "for", "fun", "function", "if", "in", "let", "match", "mutable", "open",
+  "rec", "then", "to", "true", "type", "while", "with"
+];
+
+const C_STYLE_COMMENTS: Pick<CodeLanguageSyntax, "lineComments" | "blockComments"> = {
+  lineComments: ["//"],
+  blockComments: [["/*", "*/"]]
+};
+
+const SYNTAX: Record<CodeLanguage, CodeLanguageSyntax> = {
+  [CodeLanguage.Cpp]: { ...C_STYLE_COMMENTS, stringQuotes: ['"', "'"], keywords: CPP_KEYWORDS },
+  [CodeLanguage.C]: { ...C_STYLE_COMMENTS, stringQuotes: ['"', "'"], keywords: C_KEYWORDS },
+  [CodeLanguage.Java]: { ...C_STYLE_COMMENTS, stringQuotes: ['"', "'"], keywords: JAVA_KEYWORDS },
+  [CodeLanguage.Kotlin]: { ...C_STYLE_COMMENTS, stringQuotes: ['"', "'"], keywords: KOTLIN_KEYWORDS },
+  [CodeLanguage.Swift]: { ...C_STYLE_COMMENTS, stringQuotes: ['"'], keywords: SWIFT_KEYWORDS },
+  [CodeLanguage.Rust]: { ...C_STYLE_COMMENTS, stringQuotes: ['"'], keywords: RUST_KEYWORDS },
+  [CodeLanguage.Go]: { ...C_STYLE_COMMENTS, stringQuotes: ['"', "'", "`"], keywords: GO_KEYWORDS },
+  [CodeLanguage.CSharp]: { ...C_STYLE_COMMENTS, stringQuotes: ['"', "'"], keywords: CSHARP_KEYWORDS },
+  [CodeLanguage.FSharp]: {
+    lineComments: ["//"],
+    blockComments: [["(*", "*)"]],
+    stringQuotes: ['"'],
+    keywords: FSHARP_KEYWORDS
+  },
+  [CodeLanguage.Pascal]: {
+    lineComments: ["//"],
+    blockComments: [
+      ["{", "}"],
+      ["(*", "*)"]
+    ],
+    stringQuotes: ["'"],
+    keywords: PASCAL_KEYWORDS
+  },
+  [CodeLanguage.Python]: {
+    lineComments: ["#"],
+    blockComments: [],
+    stringQuotes: ['"', "'"],
+    keywords: PYTHON_KEYWORDS
+  },
+  [CodeLanguage.Haskell]: {
+    lineComments: ["--"],
+    blockComments: [["{-", "-}"]],
+    stringQuotes: ['"'],
+    keywords: HASKELL_KEYWORDS
+  }
+};
+
+const IDENTIFIER_START = /[A-Za-z_]/;
+const IDENTIFIER_PART = /[A-Za-z0-9_]/;
+const DIGIT = /[0-9]/;
+const WHITESPACE = /\s/;
+
+/**
+ * Split the code to tokens, with comments and whitespaces removed. Keywords and punctuations are kept as-is while
+ * other identifiers, numbers and strings are replaced with placeholders.
+ *
+ * Python's indentation is ignored, which is enough to detect copied code.
+ */
+export function tokenizeCode(code: string, language: CodeLanguage): CodeToken[] {
+  const syntax = SYNTAX[language] || SYNTAX[CodeLanguage.Cpp];
+  const keywords = new Set(syntax.keywords);
+  const tokens: CodeToken[] = [];
+
+  let line = 1;
+  let i = 0;
+  const skipTo = (end: number) => {
+    for (; i < end && i < code.length; i++) if (code[i] === "\n") line++;
+  };
+
+  while (i < code.length) {
+    const position = i;
+    const char = code[position];
+
+    if (WHITESPACE.test(char)) {
+      skipTo(i + 1);
+      continue;
+    }
+
+    const lineComment = syntax.lineComments.find(prefix => code.startsWith(prefix, position));
+    if (lineComment) {
+      const end = code.indexOf("\n", i);
+      skipTo(end === -1 ? code.length : end);
+      continue;
+    }
+
+    const blockComment = syntax.blockComments.find(([open]) => code.startsWith(open, position));
+    if (blockComment) {
+      const end = code.indexOf(blockComment[1], i + blockComment[0].length);
+      skipTo(end === -1 ? code.length : end + blockComment[1].length);
+      continue;
+    }
+
+    const tokenLine = line;
+    if (syntax.stringQuotes.includes(char)) {
+      let end = i + 1;
+      while (end < code.length && code[end] !== char && code[end] !== "\n") end += code[end] === "\\" ? 2 : 1;
+      skipTo(end + 1);
+      tokens.push({ text: "S", line: tokenLine });
+    } else if (IDENTIFIER_START.test(char)) {
+      let end = i + 1;
+      while (end < code.length && IDENTIFIER_PART.test(code[end])) end++;
+      const word = code.slice(i, end);
+      skipTo(end);
+      tokens.push({ text: keywords.has(word) ? word : "I", line: tokenLine });
+    } else if (DIGIT.test(char)) {
+      let end = i + 1;
+      while (end < code.length && (IDENTIFIER_PART.test(code[end]) || code[end] === ".")) end++;
+      skipTo(end);
+      tokens.push({ text: "N", line: tokenLine });
+    } else {
+      skipTo(i + 1);
+      tokens.push({ text: char, line: tokenLine });
+    }
+  }
+
+  return tokens;
+}
+
+export interface CodeFingerprint {
+  hash: number;
+
+  // The index of the first token of the hashed k-gram
+  position: number;
+}
+
+function hashString(str: string): number {
+  return createHash("md5").update(str).digest().readUInt32BE(0);
+}
+
+/**
+ * Select fingerprints of the token k-grams with winnowing, as MOSS does. Any match of at least `k + w - 1` tokens is
+ * guaranteed to share a fingerprint while matches shorter than `k` tokens are ignored.
+ */
+export function winnowTokens(tokens: CodeToken[], k: number, w: number): CodeFingerprint[] {
+  const hashes: number[] = [];
+  for (let i = 0; i + k <= tokens.length; i++)
+    hashes.push(
+      hashString(
+        tokens
+          .slice(i, i + k)
+          .map(token => token.text)
+          .join(" ")
+      )
+    );
+
+  // Code shorter than a window is fingerprinted with its minimum k-gram only
+  const windowSize = Math.min(w, hashes.length);
+  const fingerprints: CodeFingerprint[] = [];
+  let lastSelected = -1;
+  for (let start = 0; start + windowSize <= hashes.length && windowSize > 0; start++) {
+    // Select the rightmost minimal hash in the window, skipping if it's the same as the last window's selection
+    let selected = start;
+    for (let i = start + 1; i < start + windowSize; i++) if (hashes[i] <= hashes[selected]) selected = i;
+    if (selected !== lastSelected) {
+      fingerprints.push({ hash: hashes[selected], position: selected });
+      lastSelected = selected;
+    }
+  }
+
+  return fingerprints;
+}
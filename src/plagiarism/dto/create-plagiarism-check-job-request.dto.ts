@@ -0,0 +1,17 @@
+import { ApiProperty } from "@nestjs/swagger";
+
+import { Type } from "class-transformer";
+import { IsInt, ValidateNested } from "class-validator";
+
+import { PlagiarismCheckJobFilterDto } from "./plagiarism-check-job-filter.dto";
+
+export class CreatePlagiarismCheckJobRequestDto {
+  @ApiProperty()
+  @IsInt()
+  problemId: number;
+
+  @ApiProperty()
+  @ValidateNested()
+  @Type(() => PlagiarismCheckJobFilterDto)
+  filter: PlagiarismCheckJobFilterDto;
+}
@@ -0,0 +1,20 @@
+import { ApiProperty } from "@nestjs/swagger";
+
+export enum CreatePlagiarismCheckJobResponseError {
+  NO_SUCH_PROBLEM = "NO_SUCH_PROBLEM",
+  NO_SUCH_GROUP = "NO_SUCH_GROUP",
+  PERMISSION_DENIED = "PERMISSION_DENIED",
+  PROBLEM_TYPE_NOT_SUPPORTED = "PROBLEM_TYPE_NOT_SUPPORTED",
+  TOO_MANY_SUBMISSIONS = "TOO_MANY_SUBMISSIONS"
+}
+
+export class CreatePlagiarismCheckJobResponseDto {
+  @ApiProperty()
+  error?: CreatePlagiarismCheckJobResponseError;
+
+  @ApiProperty()
+  jobId?: number;
+
+  @ApiProperty({ description: "The number of submissions to be checked, one for each user." })
+  submissionCount?: number;
+}
@@ -0,0 +1,19 @@
+import { ApiProperty } from "@nestjs/swagger";
+
+import { IsInt, Min } from "class-validator";
+
+export class GetPlagiarismCheckJobRequestDto {
+  @ApiProperty()
+  @IsInt()
+  jobId: number;
+
+  @ApiProperty()
+  @IsInt()
+  @Min(0)
+  skipCount: number;
+
+  @ApiProperty()
+  @IsInt()
+  @Min(1)
+  takeCount: number;
+}
@@ -0,0 +1,24 @@
+import { ApiProperty } from "@nestjs/swagger";
+
+import { PlagiarismCheckJobMetaDto } from "./plagiarism-check-job-meta.dto";
+import { PlagiarismCheckPairDto } from "./plagiarism-check-pair.dto";
+
+export enum GetPlagiarismCheckJobResponseError {
+  NO_SUCH_PLAGIARISM_CHECK_JOB = "NO_SUCH_PLAGIARISM_CHECK_JOB",
+  PERMISSION_DENIED = "PERMISSION_DENIED",
+  TAKE_TOO_MANY = "TAKE_TOO_MANY"
+}
+
+export class GetPlagiarismCheckJobResponseDto {
+  @ApiProperty()
+  error?: GetPlagiarismCheckJobResponseError;
+
+  @ApiProperty()
+  meta?: PlagiarismCheckJobMetaDto;
+
+  @ApiProperty({ type: [PlagiarismCheckPairDto], description: "Ordered by similarity, descending." })
+  pairs?: PlagiarismCheckPairDto[];
+
+  @ApiProperty()
+  pairCount?: number;
+}
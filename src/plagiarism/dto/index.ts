@@ -0,0 +1,13 @@
+export * from "./plagiarism-check-job-filter.dto";
+export * from "./plagiarism-check-job-meta.dto";
+export * from "./plagiarism-matched-region.dto";
+export * from "./plagiarism-check-pair.dto";
+
+export * from "./create-plagiarism-check-job-request.dto";
+export * from "./create-plagiarism-check-job-response.dto";
+
+export * from "./list-plagiarism-check-jobs-request.dto";
+export * from "./list-plagiarism-check-jobs-response.dto";
+
+export * from "./get-plagiarism-check-job-request.dto";
+export * from "./get-plagiarism-check-job-response.dto";
@@ -0,0 +1,16 @@
+import { ApiProperty } from "@nestjs/swagger";
+
+import { PlagiarismCheckJobMetaDto } from "./plagiarism-check-job-meta.dto";
+
+export enum ListPlagiarismCheckJobsResponseError {
+  NO_SUCH_PROBLEM = "NO_SUCH_PROBLEM",
+  PERMISSION_DENIED = "PERMISSION_DENIED"
+}
+
+export class ListPlagiarismCheckJobsResponseDto {
+  @ApiProperty()
+  error?: ListPlagiarismCheckJobsResponseError;
+
+  @ApiProperty({ type: [PlagiarismCheckJobMetaDto] })
+  jobs?: PlagiarismCheckJobMetaDto[];
+}
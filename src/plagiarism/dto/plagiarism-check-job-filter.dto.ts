@@ -0,0 +1,22 @@
+import { ApiProperty } from "@nestjs/swagger";
+
+import { IsInt, IsOptional, IsDateString } from "class-validator";
+
+import { PlagiarismCheckJobFilter } from "../plagiarism-check-job-filter.interface";
+
+export class PlagiarismCheckJobFilterDto implements PlagiarismCheckJobFilter {
+  @ApiProperty({ description: "Only check the submissions of the group's members." })
+  @IsInt()
+  @IsOptional()
+  groupId?: number;
+
+  @ApiProperty()
+  @IsDateString()
+  @IsOptional()
+  submitTimeFrom?: string;
+
+  @ApiProperty()
+  @IsDateString()
+  @IsOptional()
+  submitTimeTo?: string;
+}
@@ -0,0 +1,31 @@
+import { ApiProperty } from "@nestjs/swagger";
+
+import { PlagiarismCheckJobFilterDto } from "./plagiarism-check-job-filter.dto";
+
+import { PlagiarismCheckJobStatus } from "../plagiarism-check-job-status.enum";
+
+export class PlagiarismCheckJobMetaDto {
+  @ApiProperty()
+  id: number;
+
+  @ApiProperty()
+  problemId: number;
+
+  @ApiProperty()
+  creatorId: number;
+
+  @ApiProperty()
+  filter: PlagiarismCheckJobFilterDto;
+
+  @ApiProperty({ enum: PlagiarismCheckJobStatus })
+  status: PlagiarismCheckJobStatus;
+
+  @ApiProperty({ description: "`null` if the job is not finished." })
+  submissionCount: number;
+
+  @ApiProperty()
+  createTime: Date;
+
+  @ApiProperty({ description: "`null` if the job is not finished." })
+  finishTime: Date;
+}
@@ -0,0 +1,29 @@
+import { ApiProperty } from "@nestjs/swagger";
+
+import { PlagiarismMatchedRegionDto } from "./plagiarism-matched-region.dto";
+
+import { SubmissionBasicMetaDto } from "@/submission/dto";
+import { UserMetaDto } from "@/user/dto";
+
+export class PlagiarismCheckPairDto {
+  @ApiProperty()
+  submission1: SubmissionBasicMetaDto;
+
+  @ApiProperty()
+  submitter1: UserMetaDto;
+
+  @ApiProperty()
+  submission2: SubmissionBasicMetaDto;
+
+  @ApiProperty()
+  submitter2: UserMetaDto;
+
+  @ApiProperty({ description: "The ratio of the first submission's code found in the second one." })
+  similarity1: number;
+
+  @ApiProperty({ description: "The ratio of the second submission's code found in the first one." })
+  similarity2: number;
+
+  @ApiProperty({ type: [PlagiarismMatchedRegionDto] })
+  matchedRegions: PlagiarismMatchedRegionDto[];
+}
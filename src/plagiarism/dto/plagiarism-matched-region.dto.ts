@@ -0,0 +1,17 @@
+import { ApiProperty } from "@nestjs/swagger";
+
+import { PlagiarismMatchedRegion } from "../plagiarism-matched-region.interface";
+
+export class PlagiarismMatchedRegionDto implements PlagiarismMatchedRegion {
+  @ApiProperty()
+  startLine1: number;
+
+  @ApiProperty()
+  endLine1: number;
+
+  @ApiProperty()
+  startLine2: number;
+
+  @ApiProperty()
+  endLine2: number;
+}
@@ -0,0 +1,7 @@
+export interface PlagiarismCheckJobFilter {
+  // Only check the submissions of the group's members
+  groupId?: number;
+
+  submitTimeFrom?: string;
+  submitTimeTo?: string;
+}
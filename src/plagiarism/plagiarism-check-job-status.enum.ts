@@ -0,0 +1,6 @@
+export enum PlagiarismCheckJobStatus {
+  Pending = "Pending",
+  Running = "Running",
+  Finished = "Finished",
+  Failed = "Failed"
+}
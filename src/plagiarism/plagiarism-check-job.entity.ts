@@ -0,0 +1,44 @@
+import { Entity, PrimaryGeneratedColumn, Index, ManyToOne, Column, JoinColumn } from "typeorm";
+
+import { UserEntity } from "@/user/user.entity";
+import { ProblemEntity } from "@/problem/problem.entity";
+
+import { PlagiarismCheckJobStatus } from "./plagiarism-check-job-status.enum";
+import { PlagiarismCheckJobFilter } from "./plagiarism-check-job-filter.interface";
+
+@Entity("plagiarism_check_job")
+export class PlagiarismCheckJobEntity {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @ManyToOne(() => ProblemEntity, { onDelete: "CASCADE" })
+  @JoinColumn()
+  problem: Promise<ProblemEntity>;
+
+  @Column()
+  @Index()
+  problemId: number;
+
+  @ManyToOne(() => UserEntity)
+  @JoinColumn()
+  creator: Promise<UserEntity>;
+
+  @Column()
+  creatorId: number;
+
+  @Column({ type: "json" })
+  filter: PlagiarismCheckJobFilter;
+
+  @Column({ type: "enum", enum: PlagiarismCheckJobStatus })
+  status: PlagiarismCheckJobStatus;
+
+  // The number of checked submissions, `null` until the job is finished
+  @Column({ type: "integer", nullable: true })
+  submissionCount: number;
+
+  @Column({ type: "datetime" })
+  createTime: Date;
+
+  @Column({ type: "datetime", nullable: true })
+  finishTime: Date;
+}
@@ -0,0 +1,48 @@
+import { Entity, PrimaryGeneratedColumn, Index, ManyToOne, Column, JoinColumn } from "typeorm";
+
+import { SubmissionEntity } from "@/submission/submission.entity";
+
+import { PlagiarismCheckJobEntity } from "./plagiarism-check-job.entity";
+import { PlagiarismMatchedRegion } from "./plagiarism-matched-region.interface";
+
+@Entity("plagiarism_check_pair")
+@Index(["jobId", "similarity"])
+export class PlagiarismCheckPairEntity {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @ManyToOne(() => PlagiarismCheckJobEntity, { onDelete: "CASCADE" })
+  @JoinColumn()
+  job: Promise<PlagiarismCheckJobEntity>;
+
+  @Column()
+  jobId: number;
+
+  @ManyToOne(() => SubmissionEntity, { onDelete: "CASCADE" })
+  @JoinColumn()
+  submission1: Promise<SubmissionEntity>;
+
+  @Column()
+  submissionId1: number;
+
+  @ManyToOne(() => SubmissionEntity, { onDelete: "CASCADE" })
+  @JoinColumn()
+  submission2: Promise<SubmissionEntity>;
+
+  @Column()
+  submissionId2: number;
+
+  // The ratio of each submission's fingerprints found in the other one
+  @Column({ type: "double" })
+  similarity1: number;
+
+  @Column({ type: "double" })
+  similarity2: number;
+
+  // The larger one of the two ratios, used for ranking
+  @Column({ type: "double" })
+  similarity: number;
+
+  @Column({ type: "json" })
+  matchedRegions: PlagiarismMatchedRegion[];
+}
@@ -0,0 +1,7 @@
+// Line ranges (1-based, inclusive) of a matched code region in the two submissions of a pair
+export interface PlagiarismMatchedRegion {
+  startLine1: number;
+  endLine1: number;
+  startLine2: number;
+  endLine2: number;
+}
@@ -0,0 +1,172 @@
+import { Controller, Post, Body } from "@nestjs/common";
+import { ApiOperation, ApiBearerAuth, ApiTags } from "@nestjs/swagger";
+
+import { CurrentUser } from "@/common/user.decorator";
+import { UserEntity } from "@/user/user.entity";
+import { UserService } from "@/user/user.service";
+import { ConfigService } from "@/config/config.service";
+import { AuditLogObjectType, AuditService } from "@/audit/audit.service";
+import { ProblemService, ProblemPermissionType } from "@/problem/problem.service";
+import { SubmissionService } from "@/submission/submission.service";
+
+import { PlagiarismService, PLAGIARISM_CHECK_SUPPORTED_PROBLEM_TYPES } from "./plagiarism.service";
+
+import {
+  CreatePlagiarismCheckJobRequestDto,
+  CreatePlagiarismCheckJobResponseDto,
+  CreatePlagiarismCheckJobResponseError,
+  ListPlagiarismCheckJobsRequestDto,
+  ListPlagiarismCheckJobsResponseDto,
+  ListPlagiarismCheckJobsResponseError,
+  GetPlagiarismCheckJobRequestDto,
+  GetPlagiarismCheckJobResponseDto,
+  GetPlagiarismCheckJobResponseError
+} from "./dto";
+
+@ApiTags("Plagiarism")
+@Controller("plagiarism")
+export class PlagiarismController {
+  constructor(
+    private readonly plagiarismService: PlagiarismService,
+    private readonly problemService: ProblemService,
+    private readonly submissionService: SubmissionService,
+    private readonly userService: UserService,
+    private readonly configService: ConfigService,
+    private readonly auditService: AuditService
+  ) {}
+
+  @Post("createPlagiarismCheckJob")
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: "Compare the code of accepted submissions to a problem to find copied solutions.",
+    description:
+      "The latest accepted submission of each user is checked. The job is run in background, " +
+      "use getPlagiarismCheckJob to get its result."
+  })
+  async createPlagiarismCheckJob(
+    @CurrentUser() currentUser: UserEntity,
+    @Body() request: CreatePlagiarismCheckJobRequestDto
+  ): Promise<CreatePlagiarismCheckJobResponseDto> {
+    const problem = await this.problemService.findProblemById(request.problemId);
+    if (!problem)
+      return {
+        error: CreatePlagiarismCheckJobResponseError.NO_SUCH_PROBLEM
+      };
+
+    if (!(await this.problemService.userHasPermission(currentUser, problem, ProblemPermissionType.Modify)))
+      return {
+        error: CreatePlagiarismCheckJobResponseError.PERMISSION_DENIED
+      };
+
+    if (!PLAGIARISM_CHECK_SUPPORTED_PROBLEM_TYPES.includes(problem.type))
+      return {
+        error: CreatePlagiarismCheckJobResponseError.PROBLEM_TYPE_NOT_SUPPORTED
+      };
+
+    const submissionIds = await this.plagiarismService.getSubmissionIdsToCheck(problem, request.filter);
+    if (!submissionIds)
+      return {
+        error: CreatePlagiarismCheckJobResponseError.NO_SUCH_GROUP
+      };
+
+    if (submissionIds.length > this.configService.config.resourceLimit.plagiarismCheckSubmissions)
+      return {
+        error: CreatePlagiarismCheckJobResponseError.TOO_MANY_SUBMISSIONS
+      };
+
+    const job = await this.plagiarismService.createPlagiarismCheckJob(currentUser, problem, request.filter);
+
+    await this.auditService.log("plagiarism.create_check_job", AuditLogObjectType.Problem, problem.id, {
+      jobId: job.id,
+      filter: request.filter,
+      submissionCount: submissionIds.length
+    });
+
+    return {
+      jobId: job.id,
+      submissionCount: submissionIds.length
+    };
+  }
+
+  @Post("listPlagiarismCheckJobs")
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: "List the plagiarism check jobs of a problem, the latest first."
+  })
+  async listPlagiarismCheckJobs(
+    @CurrentUser() currentUser: UserEntity,
+    @Body() request: ListPlagiarismCheckJobsRequestDto
+  ): Promise<ListPlagiarismCheckJobsResponseDto> {
+    const problem = await this.problemService.findProblemById(request.problemId);
+    if (!problem)
+      return {
+        error: ListPlagiarismCheckJobsResponseError.NO_SUCH_PROBLEM
+      };
+
+    if (!(await this.problemService.userHasPermission(currentUser, problem, ProblemPermissionType.Modify)))
+      return {
+        error: ListPlagiarismCheckJobsResponseError.PERMISSION_DENIED
+      };
+
+    const jobs = await this.plagiarismService.getProblemPlagiarismCheckJobs(problem);
+    return {
+      jobs: await Promise.all(jobs.map(job => this.plagiarismService.getPlagiarismCheckJobMeta(job)))
+    };
+  }
+
+  @Post("getPlagiarismCheckJob")
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: "Get the status of a plagiarism check job and the submission pairs found similar, ranked by similarity."
+  })
+  async getPlagiarismCheckJob(
+    @CurrentUser() currentUser: UserEntity,
+    @Body() request: GetPlagiarismCheckJobRequestDto
+  ): Promise<GetPlagiarismCheckJobResponseDto> {
+    if (request.takeCount > this.configService.config.queryLimit.plagiarismCheckPairs)
+      return {
+        error: GetPlagiarismCheckJobResponseError.TAKE_TOO_MANY
+      };
+
+    const job = await this.plagiarismService.findPlagiarismCheckJobById(request.jobId);
+    if (!job)
+      return {
+        error: GetPlagiarismCheckJobResponseError.NO_SUCH_PLAGIARISM_CHECK_JOB
+      };
+
+    const problem = await this.problemService.findProblemById(job.problemId);
+    if (!(await this.problemService.userHasPermission(currentUser, problem, ProblemPermissionType.Modify)))
+      return {
+        error: GetPlagiarismCheckJobResponseError.PERMISSION_DENIED
+      };
+
+    const [pairs, pairCount] = await this.plagiarismService.getPlagiarismCheckPairs(
+      job,
+      request.skipCount,
+      request.takeCount
+    );
+    const submissions = await this.submissionService.findSubmissionsByExistingIds(
+      pairs.flatMap(pair => [pair.submissionId1, pair.submissionId2])
+    );
+    const submitters = await this.userService.findUsersByExistingIds(
+      submissions.map(submission => submission.submitterId)
+    );
+    const submissionMetas = await this.submissionService.getSubmissionBasicMetas(submissions);
+
+    return {
+      meta: await this.plagiarismService.getPlagiarismCheckJobMeta(job),
+      pairs: await Promise.all(
+        pairs.map(async (pair, i) => ({
+          submission1: submissionMetas[i * 2],
+          submitter1: await this.userService.getUserMeta(submitters[i * 2], currentUser),
+          submission2: submissionMetas[i * 2 + 1],
+          submitter2: await this.userService.getUserMeta(submitters[i * 2 + 1], currentUser),
+          similarity1: pair.similarity1,
+          similarity2: pair.similarity2,
+          matchedRegions: pair.matchedRegions
+        }))
+      ),
+      pairCount
+    };
+  }
+}
@@ -0,0 +1,33 @@
+import { Module, forwardRef } from "@nestjs/common";
+import { TypeOrmModule } from "@nestjs/typeorm";
+
+import { RedisModule } from "@/redis/redis.module";
+import { ProblemModule } from "@/problem/problem.module";
+import { SubmissionModule } from "@/submission/submission.module";
+import { UserModule } from "@/user/user.module";
+import { GroupModule } from "@/group/group.module";
+import { AuditModule } from "@/audit/audit.module";
+import { ClusterModule } from "@/cluster/cluster.module";
+
+import { PlagiarismCheckJobEntity } from "./plagiarism-check-job.entity";
+import { PlagiarismCheckPairEntity } from "./plagiarism-check-pair.entity";
+import { PlagiarismService } from "./plagiarism.service";
+import { PlagiarismController } from "./plagiarism.controller";
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([PlagiarismCheckJobEntity]),
+    TypeOrmModule.forFeature([PlagiarismCheckPairEntity]),
+    forwardRef(() => RedisModule),
+    forwardRef(() => ProblemModule),
+    forwardRef(() => SubmissionModule),
+    forwardRef(() => UserModule),
+    forwardRef(() => GroupModule),
+    forwardRef(() => AuditModule),
+    ClusterModule
+  ],
+  providers: [PlagiarismService],
+  controllers: [PlagiarismController],
+  exports: [PlagiarismService]
+})
+export class PlagiarismModule {}
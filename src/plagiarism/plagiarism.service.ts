@@ -0,0 +1,389 @@
+import { Injectable, Inject, forwardRef, OnModuleInit } from "@nestjs/common";
+import { InjectRepository } from "@nestjs/typeorm";
+
+import { Repository, In } from "typeorm";
+import { Redis } from "ioredis";
+
+import { logger } from "@/logger";
+import { UserEntity } from "@/user/user.entity";
+import { ProblemEntity, ProblemType } from "@/problem/problem.entity";
+import { ProblemService } from "@/problem/problem.service";
+import { SubmissionService } from "@/submission/submission.service";
+import { SubmissionEntity } from "@/submission/submission.entity";
+import { SubmissionContentTraditional } from "@/problem-type/types/traditional/submission-content.interface";
+import { GroupService } from "@/group/group.service";
+import { RedisService } from "@/redis/redis.service";
+import { LockService } from "@/redis/lock.service";
+import { ClusterService } from "@/cluster/cluster.service";
+import { yieldToEventLoop } from "@/common/delay";
+
+import { PlagiarismCheckJobEntity } from "./plagiarism-check-job.entity";
+import { PlagiarismCheckPairEntity } from "./plagiarism-check-pair.entity";
+import { PlagiarismCheckJobStatus } from "./plagiarism-check-job-status.enum";
+import { PlagiarismCheckJobFilter } from "./plagiarism-check-job-filter.interface";
+import { PlagiarismMatchedRegion } from "./plagiarism-matched-region.interface";
+import { CodeToken, tokenizeCode, winnowTokens } from "./code-tokenizer";
+
+import { PlagiarismCheckJobMetaDto } from "./dto";
+
+// Only problems whose submissions are code in a single file could be checked
+export const PLAGIARISM_CHECK_SUPPORTED_PROBLEM_TYPES = [ProblemType.Traditional, ProblemType.Interaction];
+
+// Matches shorter than K tokens are ignored, matches longer than K + W - 1 tokens are always detected
+const FINGERPRINT_K = 12;
+const FINGERPRINT_W = 8;
+
+// Fingerprints found in too many submissions are likely from templates (e.g. fast IO), not evidence of copying
+const COMMON_FINGERPRINT_RATIO = 0.5;
+const COMMON_FINGERPRINT_MIN_SUBMISSIONS = 4;
+
+// Only the top pairs with enough similarity are stored
+const MIN_SIMILARITY = 0.2;
+const MAX_STORED_PAIRS = 1000;
+
+// The shared fingerprints of pairs counted in a job, the rarest fingerprints are counted first
+const MAX_COUNTED_SHARED_FINGERPRINTS = 5000000;
+
+// Yield to the event loop after each chunk of work to keep the worker responsive
+const COMPARISON_CHUNK_SIZE = 10000;
+
+// Queued job IDs, consumed by any worker
+const REDIS_KEY_PLAGIARISM_CHECK_JOB_QUEUE = "plagiarism-check-job-queue";
+const JOB_POLL_INTERVAL = 5 * 1000;
+
+// A job is popped from the queue right before its lock is taken, so a pending job neither queued nor locked was popped
+// by a worker exiting before starting it. The jobs just created are skipped since they may be not queued yet.
+const JOB_START_GRACE_TIME = 60 * 1000;
+const STALE_JOB_SWEEP_INTERVAL = 60 * 1000;
+
+interface FingerprintedSubmission {
+  submission: SubmissionEntity;
+  tokens: CodeToken[];
+
+  // hash -> the position of its first occurrence
+  fingerprints: Map<number, number>;
+}
+
+@Injectable()
+export class PlagiarismService implements OnModuleInit {
+  private readonly redis: Redis;
+
+  // Each worker runs one job at a time, since the check is CPU-intensive
+  private runningJob = false;
+
+  constructor(
+    @InjectRepository(PlagiarismCheckJobEntity)
+    private readonly plagiarismCheckJobRepository: Repository<PlagiarismCheckJobEntity>,
+    @InjectRepository(PlagiarismCheckPairEntity)
+    private readonly plagiarismCheckPairRepository: Repository<PlagiarismCheckPairEntity>,
+    @Inject(forwardRef(() => ProblemService))
+    private readonly problemService: ProblemService,
+    @Inject(forwardRef(() => SubmissionService))
+    private readonly submissionService: SubmissionService,
+    @Inject(forwardRef(() => GroupService))
+    private readonly groupService: GroupService,
+    private readonly redisService: RedisService,
+    private readonly lockService: LockService,
+    private readonly clusterService: ClusterService
+  ) {
+    this.redis = this.redisService.getClient();
+  }
+
+  async onModuleInit(): Promise<void> {
+    if (this.clusterService.isWorker)
+      setInterval(
+        () => this.runQueuedJob().catch(e => logger.error(`Failed to run plagiarism check job: ${e}`)),
+        JOB_POLL_INTERVAL
+      );
+
+    if (this.clusterService.isMaster) {
+      const failStaleJobs = () =>
+        this.failStaleJobs().catch(e => logger.error(`Failed to recover stale plagiarism check jobs: ${e}`));
+      failStaleJobs();
+      setInterval(failStaleJobs, STALE_JOB_SWEEP_INTERVAL);
+    }
+  }
+
+  /**
+   * A running job's lock is held until it's done, so a running job without the lock was interrupted by its worker
+   * exiting. A pending job could be lost in the same way after popped from the queue.
+   */
+  private async failStaleJobs(): Promise<void> {
+    const jobs = await this.plagiarismCheckJobRepository.findBy({
+      status: In([PlagiarismCheckJobStatus.Pending, PlagiarismCheckJobStatus.Running])
+    });
+    if (jobs.length === 0) return;
+
+    const queuedJobIds = new Set(await this.redis.lrange(REDIS_KEY_PLAGIARISM_CHECK_JOB_QUEUE, 0, -1));
+    for (const job of jobs) {
+      if (
+        job.status === PlagiarismCheckJobStatus.Pending &&
+        (queuedJobIds.has(String(job.id)) || job.createTime.getTime() > Date.now() - JOB_START_GRACE_TIME)
+      )
+        continue;
+
+      // eslint-disable-next-line no-await-in-loop
+      if (await this.lockService.isLocked(`PlagiarismCheckJob_${job.id}`)) continue;
+
+      logger.error(`Plagiarism check job ${job.id} was interrupted, marking it as failed`);
+      // eslint-disable-next-line no-await-in-loop
+      await this.plagiarismCheckJobRepository.update(
+        { id: job.id, status: job.status },
+        { status: PlagiarismCheckJobStatus.Failed, finishTime: new Date() }
+      );
+    }
+  }
+
+  async findPlagiarismCheckJobById(id: number): Promise<PlagiarismCheckJobEntity> {
+    return await this.plagiarismCheckJobRepository.findOneBy({ id });
+  }
+
+  async getPlagiarismCheckJobMeta(job: PlagiarismCheckJobEntity): Promise<PlagiarismCheckJobMetaDto> {
+    return {
+      id: job.id,
+      problemId: job.problemId,
+      creatorId: job.creatorId,
+      filter: job.filter,
+      status: job.status,
+      submissionCount: job.submissionCount,
+      createTime: job.createTime,
+      finishTime: job.finishTime
+    };
+  }
+
+  async getProblemPlagiarismCheckJobs(problem: ProblemEntity): Promise<PlagiarismCheckJobEntity[]> {
+    return await this.plagiarismCheckJobRepository.find({
+      where: { problemId: problem.id },
+      order: { id: "DESC" }
+    });
+  }
+
+  /**
+   * @return The IDs of the submissions to be checked with the filter, or `null` if the filter's group doesn't exist.
+   */
+  async getSubmissionIdsToCheck(problem: ProblemEntity, filter: PlagiarismCheckJobFilter): Promise<number[]> {
+    let submitterIds: number[] = null;
+    if (filter.groupId) {
+      const group = await this.groupService.findGroupById(filter.groupId);
+      if (!group) return null;
+      submitterIds = (await this.groupService.getGroupMemberList(group)).map(membership => membership.userId);
+    }
+
+    return await this.submissionService.getProblemLatestAcceptedSubmissionIds(
+      problem,
+      submitterIds,
+      filter.submitTimeFrom && new Date(filter.submitTimeFrom),
+      filter.submitTimeTo && new Date(filter.submitTimeTo)
+    );
+  }
+
+  /**
+   * Create a job to check the latest accepted submission of each user. It's run by a worker in background.
+   */
+  async createPlagiarismCheckJob(
+    creator: UserEntity,
+    problem: ProblemEntity,
+    filter: PlagiarismCheckJobFilter
+  ): Promise<PlagiarismCheckJobEntity> {
+    const job = new PlagiarismCheckJobEntity();
+    job.problemId = problem.id;
+    job.creatorId = creator.id;
+    job.filter = filter;
+    job.status = PlagiarismCheckJobStatus.Pending;
+    job.submissionCount = null;
+    job.createTime = new Date();
+    job.finishTime = null;
+    await this.plagiarismCheckJobRepository.save(job);
+
+    await this.redis.lpush(REDIS_KEY_PLAGIARISM_CHECK_JOB_QUEUE, job.id);
+
+    return job;
+  }
+
+  async getPlagiarismCheckPairs(
+    job: PlagiarismCheckJobEntity,
+    skipCount: number,
+    takeCount: number
+  ): Promise<[pairs: PlagiarismCheckPairEntity[], count: number]> {
+    return await this.plagiarismCheckPairRepository.findAndCount({
+      where: { jobId: job.id },
+      order: { similarity: "DESC", id: "ASC" },
+      skip: skipCount,
+      take: takeCount
+    });
+  }
+
+  private async runQueuedJob(): Promise<void> {
+    if (this.runningJob) return;
+    this.runningJob = true;
+
+    try {
+      // Only the worker popping the job ID runs it
+      const jobId = await this.redis.rpop(REDIS_KEY_PLAGIARISM_CHECK_JOB_QUEUE);
+      if (!jobId) return;
+
+      await this.lockService.lock(`PlagiarismCheckJob_${jobId}`, async () => {
+        const job = await this.findPlagiarismCheckJobById(Number(jobId));
+        if (!job || job.status !== PlagiarismCheckJobStatus.Pending) return;
+
+        job.status = PlagiarismCheckJobStatus.Running;
+        await this.plagiarismCheckJobRepository.save(job);
+
+        try {
+          await this.runPlagiarismCheckJob(job);
+          job.status = PlagiarismCheckJobStatus.Finished;
+        } catch (e) {
+          logger.error(`Plagiarism check job ${job.id} failed: ${e}`);
+          job.status = PlagiarismCheckJobStatus.Failed;
+        }
+
+        job.finishTime = new Date();
+        await this.plagiarismCheckJobRepository.save(job);
+      });
+    } finally {
+      this.runningJob = false;
+    }
+  }
+
+  private async runPlagiarismCheckJob(job: PlagiarismCheckJobEntity): Promise<void> {
+    const problem = await this.problemService.findProblemById(job.problemId);
+    const submissionIds = await this.getSubmissionIdsToCheck(problem, job.filter);
+    // Submissions may be deleted after the job is created
+    const submissions = (await this.submissionService.findSubmissionsByExistingIds(submissionIds || [])).filter(
+      submission => submission
+    );
+    job.submissionCount = submissions.length;
+
+    const fingerprintedSubmissions: FingerprintedSubmission[] = [];
+    for (const submission of submissions) {
+      // eslint-disable-next-line no-await-in-loop
+      const { content } = await this.submissionService.getSubmissionDetail(submission);
+      const { code, language } = content as SubmissionContentTraditional;
+      if (typeof code !== "string") continue;
+
+      const tokens = tokenizeCode(code, language);
+      const fingerprints = new Map<number, number>();
+      for (const { hash, position } of winnowTokens(tokens, FINGERPRINT_K, FINGERPRINT_W))
+        if (!fingerprints.has(hash)) fingerprints.set(hash, position);
+      fingerprintedSubmissions.push({ submission, tokens, fingerprints });
+    }
+
+    // Submissions in different languages are not compared
+    const languages = new Set(fingerprintedSubmissions.map(item => item.submission.codeLanguage));
+    const pairs: PlagiarismCheckPairEntity[] = [];
+    for (const language of languages) {
+      pairs.push(
+        // eslint-disable-next-line no-await-in-loop
+        ...(await this.comparePairs(
+          job,
+          fingerprintedSubmissions.filter(item => item.submission.codeLanguage === language)
+        ))
+      );
+    }
+
+    pairs.sort((a, b) => b.similarity - a.similarity);
+    await this.plagiarismCheckPairRepository.delete({ jobId: job.id });
+    if (pairs.length > 0) await this.plagiarismCheckPairRepository.insert(pairs.slice(0, MAX_STORED_PAIRS));
+  }
+
+  private async comparePairs(
+    job: PlagiarismCheckJobEntity,
+    submissions: FingerprintedSubmission[]
+  ): Promise<PlagiarismCheckPairEntity[]> {
+    // hash -> indices of the submissions containing it
+    const index = new Map<number, number[]>();
+    submissions.forEach((item, i) => {
+      for (const hash of item.fingerprints.keys()) {
+        if (!index.has(hash)) index.set(hash, []);
+        index.get(hash).push(i);
+      }
+    });
+
+    const maxOccurrences =
+      submissions.length >= COMMON_FINGERPRINT_MIN_SUBMISSIONS
+        ? Math.floor(submissions.length * COMMON_FINGERPRINT_RATIO)
+        : submissions.length;
+
+    // Count the shared fingerprints of each pair with the inverted index, instead of comparing all pairs
+    // Rarer fingerprints are stronger evidence, so they're counted first in case of exceeding the limit
+    const sharedHashList = Array.from(index)
+      .filter(([, indices]) => indices.length >= 2 && indices.length <= maxOccurrences)
+      .sort(([, indices1], [, indices2]) => indices1.length - indices2.length);
+    const sharedHashes = new Map<string, number[]>(); // "i,j" -> hashes
+    let countedSharedHashes = 0;
+    /* eslint-disable no-await-in-loop */
+    for (const [hash, indices] of sharedHashList) {
+      const pairCount = (indices.length * (indices.length - 1)) / 2;
+      if (countedSharedHashes + pairCount > MAX_COUNTED_SHARED_FINGERPRINTS) break;
+
+      for (let x = 0; x < indices.length; x++)
+        for (let y = x + 1; y < indices.length; y++) {
+          const key = `${indices[x]},${indices[y]}`;
+          if (!sharedHashes.has(key)) sharedHashes.set(key, []);
+          sharedHashes.get(key).push(hash);
+        }
+
+      const previousChunk = Math.floor(countedSharedHashes / COMPARISON_CHUNK_SIZE);
+      countedSharedHashes += pairCount;
+      if (Math.floor(countedSharedHashes / COMPARISON_CHUNK_SIZE) !== previousChunk) await yieldToEventLoop();
+    }
+
+    const pairs: PlagiarismCheckPairEntity[] = [];
+    let comparedPairs = 0;
+    for (const [key, hashes] of sharedHashes) {
+      if (++comparedPairs % COMPARISON_CHUNK_SIZE === 0) await yieldToEventLoop();
+
+      const [item1, item2] = key.split(",").map(i => submissions[Number(i)]);
+      const similarity1 = hashes.length / item1.fingerprints.size;
+      const similarity2 = hashes.length / item2.fingerprints.size;
+      const similarity = Math.max(similarity1, similarity2);
+      if (similarity < MIN_SIMILARITY) continue;
+
+      const pair = new PlagiarismCheckPairEntity();
+      pair.jobId = job.id;
+      pair.submissionId1 = item1.submission.id;
+      pair.submissionId2 = item2.submission.id;
+      pair.similarity1 = similarity1;
+      pair.similarity2 = similarity2;
+      pair.similarity = similarity;
+      pair.matchedRegions = this.getMatchedRegions(item1, item2, hashes);
+      pairs.push(pair);
+    }
+    /* eslint-enable no-await-in-loop */
+
+    return pairs;
+  }
+
+  /**
+   * Merge the k-grams of the shared fingerprints to line ranges. Adjacent k-grams are merged if they're adjacent in
+   * both submissions.
+   */
+  private getMatchedRegions(
+    item1: FingerprintedSubmission,
+    item2: FingerprintedSubmission,
+    hashes: number[]
+  ): PlagiarismMatchedRegion[] {
+    const matches = hashes
+      .map(hash => [item1.fingerprints.get(hash), item2.fingerprints.get(hash)])
+      .sort(([a], [b]) => a - b);
+
+    // Token indices of the regions
+    const regions: [start1: number, end1: number, start2: number, end2: number][] = [];
+    for (const [position1, position2] of matches) {
+      const end1 = position1 + FINGERPRINT_K - 1;
+      const end2 = position2 + FINGERPRINT_K - 1;
+      const last = regions[regions.length - 1];
+      if (last && position1 <= last[1] + 1 && position2 >= last[2] && position2 <= last[3] + 1) {
+        last[1] = Math.max(last[1], end1);
+        last[3] = Math.max(last[3], end2);
+      } else regions.push([position1, end1, position2, end2]);
+    }
+
+    return regions.map(([start1, end1, start2, end2]) => ({
+      startLine1: item1.tokens[start1].line,
+      endLine1: item1.tokens[end1].line,
+      startLine2: item2.tokens[start2].line,
+      endLine2: item2.tokens[end2].line
+    }));
+  }
+}
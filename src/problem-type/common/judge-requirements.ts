@@ -0,0 +1,31 @@
+/* eslint-disable no-throw-literal */
+
+import { restrictProperties } from "./restrict-properties";
+
+/**
+ * Requirements of the judge clients to judge a problem, besides the code languages.
+ */
+export interface JudgeRequirements {
+  arch?: string;
+  tags?: string[];
+}
+
+interface JudgeInfoWithJudgeRequirements {
+  judgeRequirements?: JudgeRequirements;
+}
+
+export function validateJudgeRequirements(judgeInfo: JudgeInfoWithJudgeRequirements): void {
+  const { judgeRequirements } = judgeInfo;
+  if (judgeRequirements == null) return;
+
+  if (typeof judgeRequirements !== "object") throw ["INVALID_JUDGE_REQUIREMENTS"];
+  if (judgeRequirements.arch != null && typeof judgeRequirements.arch !== "string")
+    throw ["INVALID_JUDGE_REQUIREMENTS_ARCH"];
+  if (
+    judgeRequirements.tags != null &&
+    !(Array.isArray(judgeRequirements.tags) && judgeRequirements.tags.every(tag => typeof tag === "string"))
+  )
+    throw ["INVALID_JUDGE_REQUIREMENTS_TAGS"];
+
+  restrictProperties(judgeRequirements, ["arch", "tags"]);
+}
@@ -0,0 +1,57 @@
+/* eslint-disable no-throw-literal */
+
+import { CodeLanguage } from "@/code-language/code-language.type";
+import { ProblemFileEntity } from "@/problem/problem-file.entity";
+
+import { restrictProperties } from "./restrict-properties";
+
+// A testlib-style program to check if an input file satisfies the problem's constraints
+// It reads the input file from stdin and exits with non-zero code with a message if invalid
+export interface Validator {
+  language: CodeLanguage;
+  compileAndRunOptions: unknown;
+  filename: string;
+  timeLimit?: number;
+  memoryLimit?: number;
+}
+
+interface JudgeInfoWithValidator {
+  timeLimit?: number;
+  memoryLimit?: number;
+
+  validator?: Validator;
+}
+
+interface ValidateValidatorOptions {
+  validateCompileAndRunOptions: (codeLanguage: CodeLanguage, langaugeOptions: unknown) => boolean;
+  hardTimeLimit?: number;
+  hardMemoryLimit?: number;
+}
+
+export function validateValidator(
+  judgeInfo: JudgeInfoWithValidator,
+  testData: ProblemFileEntity[],
+  options: ValidateValidatorOptions
+): void {
+  const { validator } = judgeInfo;
+  if (validator == null) return;
+
+  if (typeof validator !== "object") throw ["INVALID_VALIDATOR"];
+  if (!Object.values(CodeLanguage).includes(validator.language)) throw ["INVALID_VALIDATOR_LANGUAGE"];
+  if (!testData.some(file => file.filename === validator.filename))
+    throw ["NO_SUCH_VALIDATOR_FILE", validator.filename];
+  if (!options.validateCompileAndRunOptions(validator.language, validator.compileAndRunOptions))
+    throw ["INVALID_VALIDATOR_COMPILE_AND_RUN_OPTIONS"];
+
+  const timeLimit = validator.timeLimit == null ? judgeInfo.timeLimit : validator.timeLimit;
+  if (!Number.isSafeInteger(timeLimit) || timeLimit <= 0) throw [`INVALID_TIME_LIMIT_VALIDATOR`];
+  if (options.hardTimeLimit != null && timeLimit > options.hardTimeLimit)
+    throw [`TIME_LIMIT_TOO_LARGE_VALIDATOR`, timeLimit];
+
+  const memoryLimit = validator.memoryLimit == null ? judgeInfo.memoryLimit : validator.memoryLimit;
+  if (!Number.isSafeInteger(memoryLimit) || memoryLimit <= 0) throw [`INVALID_MEMORY_LIMIT_VALIDATOR`];
+  if (options.hardMemoryLimit != null && memoryLimit > options.hardMemoryLimit)
+    throw [`MEMORY_LIMIT_TOO_LARGE_VALIDATOR`, memoryLimit];
+
+  restrictProperties(validator, ["language", "compileAndRunOptions", "filename", "timeLimit", "memoryLimit"]);
+}
@@ -5,6 +5,7 @@ import { ProblemFileEntity } from "@/problem/problem-file.entity";
 import { SubmissionContent } from "@/submission/submission-content.interface";
 import { SubmissionTestcaseResult, SubmissionProgress } from "@/submission/submission-progress.interface";
 import { FileEntity } from "@/file/file.entity";
+import { JudgeTaskRequirements } from "@/judge/judge-task-requirements.interface";
 
 export interface ProblemTypeServiceInterface<
   JudgeInfoType extends ProblemJudgeInfo,
@@ -65,6 +66,15 @@ export interface ProblemTypeServiceInterface<
     answerSize: number;
   }>;
 
+  /**
+   * Get the requirements of the judge clients to judge a submission, e.g. the code languages of the submission
+   * and the custom checker.
+   * @param judgeInfo The judge info of the problem.
+   * @param submissionContent The submission content submitted by user.
+   * @returns The requirements to be matched with judge clients' capabilities.
+   */
+  getJudgeTaskRequirements(judgeInfo: JudgeInfoType, submissionContent: SubmissionContentType): JudgeTaskRequirements;
+
   /**
    * Get time and memory used from finished submission result object.
    * @param submissionProgress The progress of a submission, guaranteed.
@@ -1,5 +1,7 @@
 import { ProblemJudgeInfo } from "@/problem/problem-judge-info.interface";
 import { CodeLanguage } from "@/code-language/code-language.type";
+import { JudgeRequirements } from "@/problem-type/common/judge-requirements";
+import { Validator } from "@/problem-type/common/validator";
 
 export interface ProblemJudgeInfoInteraction extends ProblemJudgeInfo {
   /*
@@ -68,6 +70,12 @@ export interface ProblemJudgeInfoInteraction extends ProblemJudgeInfo {
     memoryLimit?: number;
   };
 
+  // Checks the input files on demand, optional
+  validator?: Validator;
+
   // The map of files to be copied to the source code directory when compileing for each code language
   extraSourceFiles?: Partial<Record<CodeLanguage, Record<string, string>>>;
+
+  // The arch and tags the judge clients must have to judge this problem
+  judgeRequirements?: JudgeRequirements;
 }
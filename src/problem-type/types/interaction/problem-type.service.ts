@@ -9,9 +9,12 @@ import { SubmissionProgress } from "@/submission/submission-progress.interface";
 import { CodeLanguageService } from "@/code-language/code-language.service";
 import { validateMetaAndSubtasks } from "@/problem-type/common/meta-and-subtasks";
 import { validateExtraSourceFiles } from "@/problem-type/common/extra-source-files";
+import { validateValidator } from "@/problem-type/common/validator";
 import { CodeLanguage } from "@/code-language/code-language.type";
 import { autoMatchInputToOutput } from "@/problem-type/common/auto-match-input-output";
 import { restrictProperties } from "@/problem-type/common/restrict-properties";
+import { validateJudgeRequirements } from "@/problem-type/common/judge-requirements";
+import { JudgeTaskRequirements } from "@/judge/judge-task-requirements.interface";
 
 import { SubmissionTestcaseResultInteraction } from "./submission-testcase-result.interface";
 import { SubmissionContentInteraction } from "./submission-content.interface";
@@ -120,15 +123,26 @@ export class ProblemTypeInteractionService
       "memoryLimit"
     ]);
 
+    validateValidator(judgeInfo, testData, {
+      validateCompileAndRunOptions: (language, compileAndRunOptions) =>
+        this.codeLanguageService.validateCompileAndRunOptions(language, compileAndRunOptions).length === 0,
+      hardTimeLimit,
+      hardMemoryLimit
+    });
+
     validateExtraSourceFiles(judgeInfo, testData);
 
+    validateJudgeRequirements(judgeInfo);
+
     restrictProperties(judgeInfo, [
       "timeLimit",
       "memoryLimit",
       "runSamples",
       "subtasks",
       "interactor",
-      "extraSourceFiles"
+      "validator",
+      "extraSourceFiles",
+      "judgeRequirements"
     ]);
   }
   /* eslint-enable no-throw-literal */
@@ -156,6 +170,16 @@ export class ProblemTypeInteractionService
     };
   }
 
+  getJudgeTaskRequirements(
+    judgeInfo: ProblemJudgeInfoInteraction,
+    submissionContent: SubmissionContentInteraction
+  ): JudgeTaskRequirements {
+    return {
+      ...judgeInfo.judgeRequirements,
+      languages: Array.from(new Set<string>([submissionContent.language, judgeInfo.interactor.language]))
+    };
+  }
+
   // eslint-disable-next-line @typescript-eslint/explicit-module-boundary-types
   getTimeAndMemoryUsedFromFinishedSubmissionProgress(
     submissionProgress: SubmissionProgress<SubmissionTestcaseResultInteraction>
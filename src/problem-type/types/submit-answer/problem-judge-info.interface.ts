@@ -1,5 +1,6 @@
 import { ProblemJudgeInfo } from "@/problem/problem-judge-info.interface";
 import { Checker } from "@/problem-type/common/checker";
+import { JudgeRequirements } from "@/problem-type/common/judge-requirements";
 
 export interface ProblemJudgeInfoSubmitAnswer extends ProblemJudgeInfo {
   /*
@@ -36,4 +37,7 @@ export interface ProblemJudgeInfoSubmitAnswer extends ProblemJudgeInfo {
   }[];
 
   checker: Checker;
+
+  // The arch and tags the judge clients must have to judge this problem
+  judgeRequirements?: JudgeRequirements;
 }
@@ -11,6 +11,8 @@ import { validateChecker } from "@/problem-type/common/checker";
 import { autoMatchOutputToInput } from "@/problem-type/common/auto-match-input-output";
 import { FileEntity } from "@/file/file.entity";
 import { restrictProperties } from "@/problem-type/common/restrict-properties";
+import { validateJudgeRequirements } from "@/problem-type/common/judge-requirements";
+import { JudgeTaskRequirements } from "@/judge/judge-task-requirements.interface";
 
 import { SubmissionTestcaseResultSubmitAnswer } from "./submission-testcase-result.interface";
 import { SubmissionContentSubmitAnswer } from "./submission-content.interface";
@@ -79,7 +81,9 @@ export class ProblemTypeSubmitAnswerService
       hardMemoryLimit: ignoreLimits ? null : this.configService.config.resourceLimit.problemMemoryLimit
     });
 
-    restrictProperties(judgeInfo, ["subtasks", "checker"]);
+    validateJudgeRequirements(judgeInfo);
+
+    restrictProperties(judgeInfo, ["subtasks", "checker", "judgeRequirements"]);
   }
 
   // eslint-disable-next-line @typescript-eslint/no-unused-vars
@@ -99,6 +103,17 @@ export class ProblemTypeSubmitAnswerService
     };
   }
 
+  getJudgeTaskRequirements(
+    judgeInfo: ProblemJudgeInfoSubmitAnswer,
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    submissionContent: SubmissionContentSubmitAnswer
+  ): JudgeTaskRequirements {
+    return {
+      ...judgeInfo.judgeRequirements,
+      languages: judgeInfo.checker.type === "custom" ? [judgeInfo.checker.language] : []
+    };
+  }
+
   getTimeAndMemoryUsedFromFinishedSubmissionProgress(
     // eslint-disable-next-line @typescript-eslint/explicit-module-boundary-types
     // eslint-disable-next-line @typescript-eslint/no-unused-vars
@@ -1,6 +1,8 @@
 import { ProblemJudgeInfo } from "@/problem/problem-judge-info.interface";
 import { CodeLanguage } from "@/code-language/code-language.type";
 import { Checker } from "@/problem-type/common/checker";
+import { Validator } from "@/problem-type/common/validator";
+import { JudgeRequirements } from "@/problem-type/common/judge-requirements";
 
 export interface ProblemJudgeInfoTraditional extends ProblemJudgeInfo {
   /*
@@ -67,6 +69,12 @@ export interface ProblemJudgeInfoTraditional extends ProblemJudgeInfo {
 
   checker: Checker;
 
+  // Checks the input files on demand, optional
+  validator?: Validator;
+
   // The map of files to be copied to the source code directory when compileing for each code language
   extraSourceFiles?: Partial<Record<CodeLanguage, Record<string, string>>>;
+
+  // The arch and tags the judge clients must have to judge this problem
+  judgeRequirements?: JudgeRequirements;
 }
@@ -9,9 +9,12 @@ import { SubmissionProgress } from "@/submission/submission-progress.interface";
 import { CodeLanguageService } from "@/code-language/code-language.service";
 import { validateMetaAndSubtasks } from "@/problem-type/common/meta-and-subtasks";
 import { validateChecker } from "@/problem-type/common/checker";
+import { validateValidator } from "@/problem-type/common/validator";
 import { validateExtraSourceFiles } from "@/problem-type/common/extra-source-files";
 import { autoMatchInputToOutput } from "@/problem-type/common/auto-match-input-output";
 import { restrictProperties } from "@/problem-type/common/restrict-properties";
+import { validateJudgeRequirements } from "@/problem-type/common/judge-requirements";
+import { JudgeTaskRequirements } from "@/judge/judge-task-requirements.interface";
 
 import { SubmissionTestcaseResultTraditional } from "./submission-testcase-result.interface";
 import { SubmissionContentTraditional } from "./submission-content.interface";
@@ -86,8 +89,17 @@ export class ProblemTypeTraditionalService
       hardMemoryLimit: ignoreLimits ? null : this.configService.config.resourceLimit.problemMemoryLimit
     });
 
+    validateValidator(judgeInfo, testData, {
+      validateCompileAndRunOptions: (language, compileAndRunOptions) =>
+        this.codeLanguageService.validateCompileAndRunOptions(language, compileAndRunOptions).length === 0,
+      hardTimeLimit: ignoreLimits ? null : this.configService.config.resourceLimit.problemTimeLimit,
+      hardMemoryLimit: ignoreLimits ? null : this.configService.config.resourceLimit.problemMemoryLimit
+    });
+
     validateExtraSourceFiles(judgeInfo, testData);
 
+    validateJudgeRequirements(judgeInfo);
+
     restrictProperties(judgeInfo, [
       "timeLimit",
       "memoryLimit",
@@ -95,7 +107,9 @@ export class ProblemTypeTraditionalService
       "runSamples",
       "subtasks",
       "checker",
-      "extraSourceFiles"
+      "validator",
+      "extraSourceFiles",
+      "judgeRequirements"
     ]);
     restrictProperties(judgeInfo.fileIo, ["inputFilename", "outputFilename"]);
   }
@@ -123,6 +137,19 @@ export class ProblemTypeTraditionalService
     };
   }
 
+  getJudgeTaskRequirements(
+    judgeInfo: ProblemJudgeInfoTraditional,
+    submissionContent: SubmissionContentTraditional
+  ): JudgeTaskRequirements {
+    const languages = new Set<string>([submissionContent.language]);
+    if (judgeInfo.checker.type === "custom") languages.add(judgeInfo.checker.language);
+
+    return {
+      ...judgeInfo.judgeRequirements,
+      languages: Array.from(languages)
+    };
+  }
+
   // eslint-disable-next-line @typescript-eslint/explicit-module-boundary-types
   getTimeAndMemoryUsedFromFinishedSubmissionProgress(
     submissionProgress: SubmissionProgress<SubmissionTestcaseResultTraditional>
@@ -0,0 +1,18 @@
+import { ApiProperty } from "@nestjs/swagger";
+
+import { IsInt, IsOptional } from "class-validator";
+
+export class DiffProblemRevisionsRequestDto {
+  @ApiProperty()
+  @IsInt()
+  problemId: number;
+
+  @ApiProperty()
+  @IsInt()
+  revisionId: number;
+
+  @ApiProperty({ description: "Defaults to the previous revision of `revisionId`." })
+  @IsInt()
+  @IsOptional()
+  oldRevisionId?: number;
+}
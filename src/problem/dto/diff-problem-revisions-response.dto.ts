@@ -0,0 +1,23 @@
+import { ApiProperty } from "@nestjs/swagger";
+
+import { ProblemRevisionMetaDto } from "./problem-revision-meta.dto";
+
+export enum DiffProblemRevisionsResponseError {
+  NO_SUCH_PROBLEM = "NO_SUCH_PROBLEM",
+  PERMISSION_DENIED = "PERMISSION_DENIED",
+  NO_SUCH_REVISION = "NO_SUCH_REVISION"
+}
+
+export class DiffProblemRevisionsResponseDto {
+  @ApiProperty({ enum: DiffProblemRevisionsResponseError })
+  error?: DiffProblemRevisionsResponseError;
+
+  @ApiProperty({ description: "`null` if the revision is the first one and diffed with an empty problem." })
+  oldRevision?: ProblemRevisionMetaDto;
+
+  @ApiProperty()
+  revision?: ProblemRevisionMetaDto;
+
+  @ApiProperty({ description: "The delta in jsondiffpatch's format, `null` if the revisions are the same." })
+  delta?: unknown;
+}
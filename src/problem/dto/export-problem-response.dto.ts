@@ -0,0 +1,14 @@
+import { ApiProperty } from "@nestjs/swagger";
+
+export enum ExportProblemResponseError {
+  NO_SUCH_PROBLEM = "NO_SUCH_PROBLEM",
+  PERMISSION_DENIED = "PERMISSION_DENIED"
+}
+
+export class ExportProblemResponseDto {
+  @ApiProperty({ enum: ExportProblemResponseError })
+  error?: ExportProblemResponseError;
+
+  @ApiProperty({ description: "Query the progress and download link with `getProblemArchiveJob`." })
+  jobId?: number;
+}
@@ -0,0 +1,16 @@
+import { ApiProperty } from "@nestjs/swagger";
+
+import { ProblemAnalyticsDto } from "./problem-analytics.dto";
+
+export enum GetProblemAnalyticsResponseError {
+  NO_SUCH_PROBLEM = "NO_SUCH_PROBLEM",
+  PERMISSION_DENIED = "PERMISSION_DENIED"
+}
+
+export class GetProblemAnalyticsResponseDto {
+  @ApiProperty()
+  error?: GetProblemAnalyticsResponseError;
+
+  @ApiProperty()
+  analytics?: ProblemAnalyticsDto;
+}
@@ -0,0 +1,16 @@
+import { ApiProperty } from "@nestjs/swagger";
+
+import { ProblemAnswerGenerationDto } from "./problem-answer-generation.dto";
+
+export enum GetProblemAnswerGenerationResponseError {
+  NO_SUCH_PROBLEM = "NO_SUCH_PROBLEM",
+  PERMISSION_DENIED = "PERMISSION_DENIED"
+}
+
+export class GetProblemAnswerGenerationResponseDto {
+  @ApiProperty({ enum: GetProblemAnswerGenerationResponseError })
+  error?: GetProblemAnswerGenerationResponseError;
+
+  @ApiProperty({ description: "The latest run, `null` if never run." })
+  generation?: ProblemAnswerGenerationDto;
+}
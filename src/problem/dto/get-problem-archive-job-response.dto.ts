@@ -0,0 +1,53 @@
+import { ApiProperty } from "@nestjs/swagger";
+
+import { ProblemArchiveJobType } from "../problem-archive-job-type.enum";
+import { ProblemArchiveJobStatus } from "../problem-archive-job-status.enum";
+import { ProblemArchiveJobError } from "../problem-archive-job-error.enum";
+import { ProblemArchiveFormat } from "../problem-archive-format.enum";
+import { ProblemArchiveImportWarning } from "../problem-archive-import-warning.enum";
+
+export enum GetProblemArchiveJobResponseError {
+  NO_SUCH_PROBLEM_ARCHIVE_JOB = "NO_SUCH_PROBLEM_ARCHIVE_JOB",
+  PERMISSION_DENIED = "PERMISSION_DENIED"
+}
+
+export class GetProblemArchiveJobResponseDto {
+  @ApiProperty({ enum: GetProblemArchiveJobResponseError })
+  error?: GetProblemArchiveJobResponseError;
+
+  @ApiProperty({ enum: ProblemArchiveJobType })
+  type?: ProblemArchiveJobType;
+
+  @ApiProperty({ enum: ProblemArchiveFormat })
+  format?: ProblemArchiveFormat;
+
+  @ApiProperty({ enum: ProblemArchiveJobStatus })
+  status?: ProblemArchiveJobStatus;
+
+  @ApiProperty({ enum: ProblemArchiveJobError, description: "Why the job failed." })
+  jobError?: ProblemArchiveJobError;
+
+  @ApiProperty({ description: "The judge info validation error, or the invalid filename in the archive." })
+  jobErrorDetails?: unknown;
+
+  @ApiProperty({ description: "The unsupported pieces skipped on importing a third-party format, with the details." })
+  warnings?: [warning: ProblemArchiveImportWarning, details?: string][];
+
+  @ApiProperty({ description: "The exported problem, or the imported problem once it's created." })
+  problemId?: number;
+
+  @ApiProperty()
+  processedFileCount?: number;
+
+  @ApiProperty({ description: "`null` if the files are not counted yet." })
+  totalFileCount?: number;
+
+  @ApiProperty()
+  createTime?: Date;
+
+  @ApiProperty({ description: "`null` if the job is not finished." })
+  finishTime?: Date;
+
+  @ApiProperty({ description: "The signed download link of the exported archive, `null` if not finished or expired." })
+  downloadUrl?: string;
+}
@@ -0,0 +1,9 @@
+import { ApiProperty } from "@nestjs/swagger";
+
+import { IsInt } from "class-validator";
+
+export class GetProblemInputValidationRequestDto {
+  @ApiProperty()
+  @IsInt()
+  problemId: number;
+}
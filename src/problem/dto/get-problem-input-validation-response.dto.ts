@@ -0,0 +1,16 @@
+import { ApiProperty } from "@nestjs/swagger";
+
+import { ProblemInputValidationDto } from "./problem-input-validation.dto";
+
+export enum GetProblemInputValidationResponseError {
+  NO_SUCH_PROBLEM = "NO_SUCH_PROBLEM",
+  PERMISSION_DENIED = "PERMISSION_DENIED"
+}
+
+export class GetProblemInputValidationResponseDto {
+  @ApiProperty({ enum: GetProblemInputValidationResponseError })
+  error?: GetProblemInputValidationResponseError;
+
+  @ApiProperty({ description: "The latest validation, `null` if never validated." })
+  validation?: ProblemInputValidationDto;
+}
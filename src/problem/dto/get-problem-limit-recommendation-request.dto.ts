@@ -0,0 +1,18 @@
+import { ApiProperty } from "@nestjs/swagger";
+
+import { IsInt, IsBoolean } from "class-validator";
+
+export class GetProblemLimitRecommendationRequestDto {
+  @ApiProperty()
+  @IsInt()
+  problemId: number;
+
+  @ApiProperty({
+    description:
+      "Apply the recommended limits to the problem's default time and memory limits. " +
+      "The limits of subtasks and testcases are kept. " +
+      "The source submissions are outdated after applied, the limits can't be recommended again until they're rejudged."
+  })
+  @IsBoolean()
+  apply: boolean;
+}
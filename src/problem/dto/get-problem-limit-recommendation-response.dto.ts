@@ -0,0 +1,26 @@
+import { ApiProperty } from "@nestjs/swagger";
+
+import { ProblemLimitRecommendationDto } from "./problem-limit-recommendation.dto";
+
+export enum GetProblemLimitRecommendationResponseError {
+  NO_SUCH_PROBLEM = "NO_SUCH_PROBLEM",
+  PERMISSION_DENIED = "PERMISSION_DENIED",
+  PROBLEM_TYPE_NOT_SUPPORTED = "PROBLEM_TYPE_NOT_SUPPORTED",
+  NO_SUBMISSIONS = "NO_SUBMISSIONS",
+  INVALID_JUDGE_INFO = "INVALID_JUDGE_INFO"
+}
+
+export class GetProblemLimitRecommendationResponseDto {
+  @ApiProperty()
+  error?: GetProblemLimitRecommendationResponseError;
+
+  @ApiProperty({ type: [String], description: "The validation error of the applied judge info." })
+  judgeInfoError?: string[];
+
+  @ApiProperty({
+    description:
+      "If applied, it's the recommendation before applying. Applying changes the judge data, so the limits are `null` " +
+      "for the next request until the source submissions are rejudged."
+  })
+  recommendation?: ProblemLimitRecommendationDto;
+}
@@ -0,0 +1,22 @@
+import { ApiProperty } from "@nestjs/swagger";
+
+import { ProblemRejudgePolicy } from "../problem-rejudge-policy.enum";
+
+export enum GetProblemRejudgePolicyResponseError {
+  NO_SUCH_PROBLEM = "NO_SUCH_PROBLEM",
+  PERMISSION_DENIED = "PERMISSION_DENIED"
+}
+
+export class GetProblemRejudgePolicyResponseDto {
+  @ApiProperty()
+  error?: GetProblemRejudgePolicyResponseError;
+
+  @ApiProperty({ enum: ProblemRejudgePolicy })
+  rejudgePolicy?: ProblemRejudgePolicy;
+
+  @ApiProperty()
+  judgeDataRevision?: number;
+
+  @ApiProperty({ description: "The number of submissions judged against outdated judge info or testdata." })
+  outdatedSubmissionCount?: number;
+}
@@ -88,6 +88,9 @@ export class GetProblemResponseDto {
   @ApiProperty()
   submittable?: boolean;
 
+  @ApiProperty()
+  reuseJudgeResults?: boolean;
+
   @ApiProperty({ type: ProblemFileDto, isArray: true })
   testData?: ProblemFileDto[];
 
@@ -0,0 +1,16 @@
+import { ApiProperty } from "@nestjs/swagger";
+
+import { ProblemTestcaseStatisticsDto } from "./problem-testcase-statistics.dto";
+
+export enum GetProblemTestcaseStatisticsResponseError {
+  NO_SUCH_PROBLEM = "NO_SUCH_PROBLEM",
+  PERMISSION_DENIED = "PERMISSION_DENIED"
+}
+
+export class GetProblemTestcaseStatisticsResponseDto {
+  @ApiProperty()
+  error?: GetProblemTestcaseStatisticsResponseError;
+
+  @ApiProperty({ type: [ProblemTestcaseStatisticsDto] })
+  testcases?: ProblemTestcaseStatisticsDto[];
+}
@@ -0,0 +1,27 @@
+import { ApiProperty } from "@nestjs/swagger";
+
+import { Type } from "class-transformer";
+import { ValidateNested, IsEnum, IsOptional } from "class-validator";
+
+import { Locale } from "@/common/locale.type";
+
+import { FileUploadInfoDto } from "@/file/dto";
+
+import { ProblemArchiveFormat } from "../problem-archive-format.enum";
+
+export class ImportProblemRequestDto {
+  @ApiProperty({ description: "The ZIP archive exported by `exportProblem`, or a file of the third-party format." })
+  @ValidateNested()
+  @Type(() => FileUploadInfoDto)
+  uploadInfo: FileUploadInfoDto;
+
+  @ApiProperty({ enum: ProblemArchiveFormat, description: "Defaults to `Lyrio`." })
+  @IsEnum(ProblemArchiveFormat)
+  @IsOptional()
+  format?: ProblemArchiveFormat;
+
+  @ApiProperty({ enum: Locale, description: "The locale of the statement if not specified by the format." })
+  @IsEnum(Locale)
+  @IsOptional()
+  locale?: Locale;
+}
@@ -0,0 +1,23 @@
+import { ApiProperty } from "@nestjs/swagger";
+
+import { SignedFileUploadRequestDto } from "@/file/dto";
+
+export enum ImportProblemResponseError {
+  PERMISSION_DENIED = "PERMISSION_DENIED",
+  FILE_TOO_LARGE = "FILE_TOO_LARGE",
+
+  // Below only happen when user uploaded the file and call this API twice.
+  FILE_UUID_EXISTS = "FILE_UUID_EXISTS",
+  FILE_NOT_UPLOADED = "FILE_NOT_UPLOADED"
+}
+
+export class ImportProblemResponseDto {
+  @ApiProperty({ enum: ImportProblemResponseError })
+  error?: ImportProblemResponseError;
+
+  @ApiProperty()
+  signedUploadRequest?: SignedFileUploadRequestDto;
+
+  @ApiProperty({ description: "Query the progress and the imported problem with `getProblemArchiveJob`." })
+  jobId?: number;
+}
@@ -64,3 +64,63 @@ export * from "./delete-problem-response.dto";
 
 export * from "./change-problem-type-request.dto";
 export * from "./change-problem-type-response.dto";
+
+export * from "./get-problem-rejudge-policy-request.dto";
+export * from "./get-problem-rejudge-policy-response.dto";
+
+export * from "./set-problem-rejudge-policy-request.dto";
+export * from "./set-problem-rejudge-policy-response.dto";
+
+export * from "./set-problem-judge-result-reuse-request.dto";
+export * from "./set-problem-judge-result-reuse-response.dto";
+
+export * from "./problem-analytics-status-count.dto";
+export * from "./problem-analytics-language-count.dto";
+export * from "./problem-analytics-daily-count.dto";
+export * from "./problem-analytics.dto";
+export * from "./get-problem-analytics-request.dto";
+export * from "./get-problem-analytics-response.dto";
+
+export * from "./problem-testcase-statistics.dto";
+export * from "./get-problem-testcase-statistics-request.dto";
+export * from "./get-problem-testcase-statistics-response.dto";
+
+export * from "./set-problem-reference-submissions-request.dto";
+export * from "./set-problem-reference-submissions-response.dto";
+
+export * from "./problem-limit-recommendation-language.dto";
+export * from "./problem-limit-recommendation-testcase.dto";
+export * from "./problem-limit-recommendation.dto";
+export * from "./get-problem-limit-recommendation-request.dto";
+export * from "./get-problem-limit-recommendation-response.dto";
+
+export * from "./set-problem-difficulty-request.dto";
+export * from "./set-problem-difficulty-response.dto";
+
+export * from "./export-problem-request.dto";
+export * from "./export-problem-response.dto";
+export * from "./import-problem-request.dto";
+export * from "./import-problem-response.dto";
+export * from "./get-problem-archive-job-request.dto";
+export * from "./get-problem-archive-job-response.dto";
+
+export * from "./problem-revision-meta.dto";
+export * from "./list-problem-revisions-request.dto";
+export * from "./list-problem-revisions-response.dto";
+export * from "./diff-problem-revisions-request.dto";
+export * from "./diff-problem-revisions-response.dto";
+export * from "./restore-problem-revision-request.dto";
+export * from "./restore-problem-revision-response.dto";
+
+export * from "./start-problem-input-validation-request.dto";
+export * from "./start-problem-input-validation-response.dto";
+export * from "./problem-input-validation.dto";
+export * from "./get-problem-input-validation-request.dto";
+export * from "./get-problem-input-validation-response.dto";
+
+export * from "./problem-answer-generation-config.dto";
+export * from "./start-problem-answer-generation-request.dto";
+export * from "./start-problem-answer-generation-response.dto";
+export * from "./problem-answer-generation.dto";
+export * from "./get-problem-answer-generation-request.dto";
+export * from "./get-problem-answer-generation-response.dto";
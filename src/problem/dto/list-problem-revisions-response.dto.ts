@@ -0,0 +1,20 @@
+import { ApiProperty } from "@nestjs/swagger";
+
+import { ProblemRevisionMetaDto } from "./problem-revision-meta.dto";
+
+export enum ListProblemRevisionsResponseError {
+  NO_SUCH_PROBLEM = "NO_SUCH_PROBLEM",
+  PERMISSION_DENIED = "PERMISSION_DENIED",
+  TAKE_TOO_MANY = "TAKE_TOO_MANY"
+}
+
+export class ListProblemRevisionsResponseDto {
+  @ApiProperty({ enum: ListProblemRevisionsResponseError })
+  error?: ListProblemRevisionsResponseError;
+
+  @ApiProperty({ type: [ProblemRevisionMetaDto], description: "From the latest." })
+  revisions?: ProblemRevisionMetaDto[];
+
+  @ApiProperty()
+  count?: number;
+}
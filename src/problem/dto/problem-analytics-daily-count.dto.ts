@@ -0,0 +1,12 @@
+import { ApiProperty } from "@nestjs/swagger";
+
+export class ProblemAnalyticsDailyCountDto {
+  @ApiProperty({ description: "In `YYYY-MM-DD` format, in the database's timezone." })
+  date: string;
+
+  @ApiProperty()
+  submissionCount: number;
+
+  @ApiProperty()
+  acceptedSubmissionCount: number;
+}
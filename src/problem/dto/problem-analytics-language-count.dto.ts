@@ -0,0 +1,12 @@
+import { ApiProperty } from "@nestjs/swagger";
+
+export class ProblemAnalyticsLanguageCountDto {
+  @ApiProperty()
+  codeLanguage: string;
+
+  @ApiProperty()
+  submissionCount: number;
+
+  @ApiProperty()
+  acceptedSubmissionCount: number;
+}
@@ -0,0 +1,11 @@
+import { ApiProperty } from "@nestjs/swagger";
+
+import { SubmissionStatus } from "@/submission/submission-status.enum";
+
+export class ProblemAnalyticsStatusCountDto {
+  @ApiProperty({ enum: SubmissionStatus })
+  status: SubmissionStatus;
+
+  @ApiProperty()
+  count: number;
+}
@@ -0,0 +1,33 @@
+import { ApiProperty } from "@nestjs/swagger";
+
+import { ProblemAnalyticsStatusCountDto } from "./problem-analytics-status-count.dto";
+import { ProblemAnalyticsLanguageCountDto } from "./problem-analytics-language-count.dto";
+import { ProblemAnalyticsDailyCountDto } from "./problem-analytics-daily-count.dto";
+
+// Pending submissions are not counted
+export class ProblemAnalyticsDto {
+  @ApiProperty({ type: [ProblemAnalyticsStatusCountDto] })
+  statusDistribution: ProblemAnalyticsStatusCountDto[];
+
+  @ApiProperty({
+    type: [Number],
+    description: "11 buckets of submission counts, for scores 0 ~ 9, 10 ~ 19, ..., 90 ~ 99 and 100."
+  })
+  scoreHistogram: number[];
+
+  @ApiProperty({ type: [ProblemAnalyticsLanguageCountDto] })
+  languageBreakdown: ProblemAnalyticsLanguageCountDto[];
+
+  @ApiProperty({ type: [ProblemAnalyticsDailyCountDto], description: "Days without submissions are omitted." })
+  submissionsOverTime: ProblemAnalyticsDailyCountDto[];
+
+  @ApiProperty({ description: "The ratio of submitters whose first submission is accepted, `null` if no submitters." })
+  firstTryAcceptanceRate: number;
+
+  @ApiProperty({
+    description:
+      "The median number of submissions before the first accepted one, of the submitters who got accepted. " +
+      "`null` if no submitters got accepted."
+  })
+  medianAttemptsBeforeAccepted: number;
+}
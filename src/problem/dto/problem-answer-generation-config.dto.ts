@@ -0,0 +1,84 @@
+import { ApiProperty } from "@nestjs/swagger";
+
+import { Type } from "class-transformer";
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsBoolean,
+  IsEnum,
+  IsObject,
+  IsOptional,
+  IsString,
+  Length,
+  MaxLength,
+  ValidateNested
+} from "class-validator";
+
+import { CodeLanguage } from "@/code-language/code-language.type";
+import { IsValidFilename } from "@/common/validators";
+
+import {
+  ProblemAnswerGenerationConfig,
+  ProblemAnswerGenerationFile,
+  ProblemAnswerGenerationProgram
+} from "../problem-answer-generation-config.interface";
+
+export class ProblemAnswerGenerationProgramDto implements ProblemAnswerGenerationProgram {
+  @ApiProperty({ enum: CodeLanguage })
+  @IsEnum(CodeLanguage)
+  language: CodeLanguage;
+
+  @ApiProperty()
+  @IsObject()
+  compileAndRunOptions: unknown;
+
+  @ApiProperty({ description: "The filename of the program in the problem's testdata." })
+  @IsString()
+  @MaxLength(256)
+  filename: string;
+}
+
+export class ProblemAnswerGenerationFileDto implements ProblemAnswerGenerationFile {
+  @ApiProperty()
+  @IsValidFilename()
+  @Length(1, 256)
+  inputFile: string;
+
+  @ApiProperty()
+  @IsValidFilename()
+  @Length(1, 256)
+  outputFile: string;
+
+  @ApiProperty({
+    type: [String],
+    description: "If not null, the input file is generated by running the generator with these arguments."
+  })
+  @IsString({ each: true })
+  @IsArray()
+  @IsOptional()
+  generatorArguments?: string[];
+}
+
+export class ProblemAnswerGenerationConfigDto implements ProblemAnswerGenerationConfig {
+  @ApiProperty({ type: ProblemAnswerGenerationProgramDto })
+  @ValidateNested()
+  @Type(() => ProblemAnswerGenerationProgramDto)
+  referenceSolution: ProblemAnswerGenerationProgramDto;
+
+  @ApiProperty({ type: ProblemAnswerGenerationProgramDto, description: "Required if any input file is generated." })
+  @ValidateNested()
+  @Type(() => ProblemAnswerGenerationProgramDto)
+  @IsOptional()
+  generator?: ProblemAnswerGenerationProgramDto;
+
+  @ApiProperty({ type: [ProblemAnswerGenerationFileDto] })
+  @ValidateNested({ each: true })
+  @Type(() => ProblemAnswerGenerationFileDto)
+  @IsArray()
+  @ArrayNotEmpty()
+  files: ProblemAnswerGenerationFileDto[];
+
+  @ApiProperty({ description: "Replace the existing files. Otherwise the files whose outputs exist are skipped." })
+  @IsBoolean()
+  overwrite: boolean;
+}
@@ -0,0 +1,22 @@
+import { ApiProperty } from "@nestjs/swagger";
+
+import { ProblemAnswerGenerationStatus } from "../problem-answer-generation-status.enum";
+import { ProblemAnswerGenerationConfig } from "../problem-answer-generation-config.interface";
+import { ProblemAnswerGenerationProgress } from "../problem-answer-generation-progress.interface";
+
+export class ProblemAnswerGenerationDto {
+  @ApiProperty({ enum: ProblemAnswerGenerationStatus })
+  status: ProblemAnswerGenerationStatus;
+
+  @ApiProperty()
+  config: ProblemAnswerGenerationConfig;
+
+  @ApiProperty({ description: "The per-file results with the time, memory and exit code, available when finished." })
+  result: ProblemAnswerGenerationProgress;
+
+  @ApiProperty()
+  startTime: Date;
+
+  @ApiProperty()
+  finishTime: Date;
+}
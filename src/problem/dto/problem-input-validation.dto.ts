@@ -0,0 +1,21 @@
+import { ApiProperty } from "@nestjs/swagger";
+
+import { ProblemInputValidationStatus } from "../problem-input-validation-status.enum";
+import { ProblemInputValidationProgress } from "../problem-input-validation-progress.interface";
+
+export class ProblemInputValidationDto {
+  @ApiProperty({ enum: ProblemInputValidationStatus })
+  status: ProblemInputValidationStatus;
+
+  @ApiProperty({ description: "The testdata or judge info is changed since the validation started." })
+  outdated: boolean;
+
+  @ApiProperty({ description: "The per-file results, available when finished." })
+  result: ProblemInputValidationProgress;
+
+  @ApiProperty()
+  startTime: Date;
+
+  @ApiProperty()
+  finishTime: Date;
+}
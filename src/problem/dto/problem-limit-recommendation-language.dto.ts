@@ -0,0 +1,15 @@
+import { ApiProperty } from "@nestjs/swagger";
+
+export class ProblemLimitRecommendationLanguageDto {
+  @ApiProperty()
+  codeLanguage: string;
+
+  @ApiProperty()
+  submissionCount: number;
+
+  @ApiProperty({ description: "The slowest time used on a testcase, in ms." })
+  maxTime: number;
+
+  @ApiProperty({ description: "The largest memory used on a testcase, in KiB." })
+  maxMemory: number;
+}
@@ -0,0 +1,12 @@
+import { ApiProperty } from "@nestjs/swagger";
+
+export class ProblemLimitRecommendationTestcaseDto {
+  @ApiProperty()
+  inputFile: string;
+
+  @ApiProperty({ description: "In ms." })
+  maxTime: number;
+
+  @ApiProperty({ description: "In KiB." })
+  maxMemory: number;
+}
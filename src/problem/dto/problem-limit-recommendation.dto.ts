@@ -0,0 +1,29 @@
+import { ApiProperty } from "@nestjs/swagger";
+
+import { ProblemLimitRecommendationLanguageDto } from "./problem-limit-recommendation-language.dto";
+import { ProblemLimitRecommendationTestcaseDto } from "./problem-limit-recommendation-testcase.dto";
+
+import { ProblemLimitRecommendationSource } from "../problem-limit-recommendation-source.enum";
+
+export class ProblemLimitRecommendationDto {
+  @ApiProperty({ enum: ProblemLimitRecommendationSource })
+  source: ProblemLimitRecommendationSource;
+
+  @ApiProperty({
+    type: [Number],
+    description: "The accepted submissions judged against the current judge data, which the recommendation is based on."
+  })
+  submissionIds: number[];
+
+  @ApiProperty({ type: [ProblemLimitRecommendationLanguageDto] })
+  languages: ProblemLimitRecommendationLanguageDto[];
+
+  @ApiProperty({ type: [ProblemLimitRecommendationTestcaseDto] })
+  testcases: ProblemLimitRecommendationTestcaseDto[];
+
+  @ApiProperty({ description: "In ms, `null` if no submissions are available." })
+  timeLimit: number;
+
+  @ApiProperty({ description: "In MiB, `null` if no submissions are available." })
+  memoryLimit: number;
+}
@@ -31,4 +31,7 @@ export class ProblemMetaDto {
 
   @ApiProperty()
   acceptedSubmissionCount?: number;
+
+  @ApiProperty()
+  difficulty?: number;
 }
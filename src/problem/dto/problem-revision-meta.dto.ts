@@ -0,0 +1,22 @@
+import { ApiProperty } from "@nestjs/swagger";
+
+import { UserMetaDto } from "@/user/dto";
+
+import { ProblemRevisionType } from "../problem-revision-type.enum";
+
+export class ProblemRevisionMetaDto {
+  @ApiProperty()
+  id: number;
+
+  @ApiProperty({ enum: ProblemRevisionType })
+  type: ProblemRevisionType;
+
+  @ApiProperty({ description: "`null` for a baseline revision or if the user is deleted." })
+  author: UserMetaDto;
+
+  @ApiProperty({ description: "The revision restored by a restore revision." })
+  restoredRevisionId: number;
+
+  @ApiProperty()
+  createTime: Date;
+}
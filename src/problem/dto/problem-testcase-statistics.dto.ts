@@ -0,0 +1,24 @@
+import { ApiProperty } from "@nestjs/swagger";
+
+export class ProblemTestcaseStatisticsDto {
+  @ApiProperty({ description: "`null` if the problem type doesn't have input files." })
+  inputFile: string;
+
+  @ApiProperty({ description: "`null` if the problem type doesn't have output files." })
+  outputFile: string;
+
+  @ApiProperty()
+  submissionCount: number;
+
+  @ApiProperty({ description: "A testcase never failed may be useless." })
+  failedSubmissionCount: number;
+
+  @ApiProperty({ description: "The submissions failed on this testcase before any other testcases." })
+  firstFailedSubmissionCount: number;
+
+  @ApiProperty()
+  acceptedSubmissionCount: number;
+
+  @ApiProperty({ description: "Not decreased when an accepted submission is rejudged or deleted." })
+  maxTimeUsedByAccepted: number;
+}
@@ -1,9 +1,22 @@
 import { ApiProperty } from "@nestjs/swagger";
 
-import { IsInt, Min, IsEnum, IsArray, ArrayUnique, ArrayMaxSize, IsOptional, Length, IsBoolean } from "class-validator";
+import {
+  IsInt,
+  Min,
+  IsEnum,
+  IsArray,
+  ArrayUnique,
+  ArrayMaxSize,
+  IsOptional,
+  Length,
+  IsBoolean,
+  IsIn
+} from "class-validator";
 
 import { Locale } from "@/common/locale.type";
 
+import { ProblemQuerySortBy } from "../problem-query-sort-by.enum";
+
 export class QueryProblemSetRequestDto {
   @ApiProperty({ enum: Locale })
   @IsEnum(Locale)
@@ -39,6 +52,29 @@ export class QueryProblemSetRequestDto {
   @IsOptional()
   nonpublic?: boolean;
 
+  @ApiProperty()
+  @IsInt()
+  @IsOptional()
+  difficultyFrom?: number;
+
+  @ApiProperty()
+  @IsInt()
+  @IsOptional()
+  difficultyTo?: number;
+
+  @ApiProperty({
+    enum: ProblemQuerySortBy,
+    description: "Defaults to `DisplayId`. Problems without difficulty are sorted last when sorting by `Difficulty`."
+  })
+  @IsEnum(ProblemQuerySortBy)
+  @IsOptional()
+  sortBy?: ProblemQuerySortBy;
+
+  @ApiProperty({ enum: ["ASC", "DESC"] })
+  @IsIn(["ASC", "DESC"])
+  @IsOptional()
+  sortOrder?: "ASC" | "DESC";
+
   @ApiProperty({
     description: "Pass true to return problem title only. For a preview in search bar."
   })
@@ -0,0 +1,13 @@
+import { ApiProperty } from "@nestjs/swagger";
+
+import { IsInt } from "class-validator";
+
+export class RestoreProblemRevisionRequestDto {
+  @ApiProperty()
+  @IsInt()
+  problemId: number;
+
+  @ApiProperty()
+  @IsInt()
+  revisionId: number;
+}
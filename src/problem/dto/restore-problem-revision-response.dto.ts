@@ -0,0 +1,17 @@
+import { ApiProperty } from "@nestjs/swagger";
+
+export enum RestoreProblemRevisionResponseError {
+  NO_SUCH_PROBLEM = "NO_SUCH_PROBLEM",
+  PERMISSION_DENIED = "PERMISSION_DENIED",
+  NO_SUCH_REVISION = "NO_SUCH_REVISION",
+  PROBLEM_HAS_SUBMISSION = "PROBLEM_HAS_SUBMISSION",
+  INVALID_JUDGE_INFO = "INVALID_JUDGE_INFO"
+}
+
+export class RestoreProblemRevisionResponseDto {
+  @ApiProperty({ enum: RestoreProblemRevisionResponseError })
+  error?: RestoreProblemRevisionResponseError;
+
+  @ApiProperty({ type: [String] })
+  judgeInfoError?: string[];
+}
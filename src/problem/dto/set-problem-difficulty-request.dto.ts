@@ -0,0 +1,16 @@
+import { ApiProperty } from "@nestjs/swagger";
+
+import { IsInt, Min, Max, IsOptional } from "class-validator";
+
+export class SetProblemDifficultyRequestDto {
+  @ApiProperty()
+  @IsInt()
+  problemId: number;
+
+  @ApiProperty({ description: "Pass `null` to unpin and use the computed difficulty." })
+  @IsInt()
+  @Min(0)
+  @Max(4000)
+  @IsOptional()
+  difficulty: number;
+}
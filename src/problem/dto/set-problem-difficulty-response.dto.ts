@@ -0,0 +1,11 @@
+import { ApiProperty } from "@nestjs/swagger";
+
+export enum SetProblemDifficultyResponseError {
+  PERMISSION_DENIED = "PERMISSION_DENIED",
+  NO_SUCH_PROBLEM = "NO_SUCH_PROBLEM"
+}
+
+export class SetProblemDifficultyResponseDto {
+  @ApiProperty({ enum: SetProblemDifficultyResponseError })
+  error?: SetProblemDifficultyResponseError;
+}
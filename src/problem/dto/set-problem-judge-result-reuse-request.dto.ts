@@ -0,0 +1,13 @@
+import { ApiProperty } from "@nestjs/swagger";
+
+import { IsBoolean, IsInt } from "class-validator";
+
+export class SetProblemJudgeResultReuseRequestDto {
+  @ApiProperty()
+  @IsInt()
+  problemId: number;
+
+  @ApiProperty()
+  @IsBoolean()
+  reuseJudgeResults: boolean;
+}
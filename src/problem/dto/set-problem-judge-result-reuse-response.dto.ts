@@ -0,0 +1,11 @@
+import { ApiProperty } from "@nestjs/swagger";
+
+export enum SetProblemJudgeResultReuseResponseError {
+  NO_SUCH_PROBLEM = "NO_SUCH_PROBLEM",
+  PERMISSION_DENIED = "PERMISSION_DENIED"
+}
+
+export class SetProblemJudgeResultReuseResponseDto {
+  @ApiProperty()
+  error?: SetProblemJudgeResultReuseResponseError;
+}
@@ -3,7 +3,8 @@ import { ApiProperty } from "@nestjs/swagger";
 export enum SetProblemPublicResponseError {
   PERMISSION_DENIED = "PERMISSION_DENIED",
   NO_SUCH_PROBLEM = "NO_SUCH_PROBLEM",
-  NO_DISPLAY_ID = "NO_DISPLAY_ID"
+  NO_DISPLAY_ID = "NO_DISPLAY_ID",
+  INPUT_VALIDATION_NOT_PASSED = "INPUT_VALIDATION_NOT_PASSED"
 }
 
 export class SetProblemPublicResponseDto {
@@ -0,0 +1,15 @@
+import { ApiProperty } from "@nestjs/swagger";
+
+import { IsInt, IsArray, ArrayMaxSize } from "class-validator";
+
+export class SetProblemReferenceSubmissionsRequestDto {
+  @ApiProperty()
+  @IsInt()
+  problemId: number;
+
+  @ApiProperty({ type: [Number], description: "Only the accepted ones are used to recommend limits." })
+  @IsInt({ each: true })
+  @IsArray()
+  @ArrayMaxSize(50)
+  submissionIds: number[];
+}
@@ -0,0 +1,15 @@
+import { ApiProperty } from "@nestjs/swagger";
+
+export enum SetProblemReferenceSubmissionsResponseError {
+  NO_SUCH_PROBLEM = "NO_SUCH_PROBLEM",
+  PERMISSION_DENIED = "PERMISSION_DENIED",
+  NO_SUCH_SUBMISSION = "NO_SUCH_SUBMISSION"
+}
+
+export class SetProblemReferenceSubmissionsResponseDto {
+  @ApiProperty()
+  error?: SetProblemReferenceSubmissionsResponseError;
+
+  @ApiProperty({ description: "The submission doesn't exist or isn't submitted to the problem." })
+  errorSubmissionId?: number;
+}
@@ -0,0 +1,15 @@
+import { ApiProperty } from "@nestjs/swagger";
+
+import { IsEnum, IsInt } from "class-validator";
+
+import { ProblemRejudgePolicy } from "../problem-rejudge-policy.enum";
+
+export class SetProblemRejudgePolicyRequestDto {
+  @ApiProperty()
+  @IsInt()
+  problemId: number;
+
+  @ApiProperty({ enum: ProblemRejudgePolicy })
+  @IsEnum(ProblemRejudgePolicy)
+  rejudgePolicy: ProblemRejudgePolicy;
+}
@@ -0,0 +1,11 @@
+import { ApiProperty } from "@nestjs/swagger";
+
+export enum SetProblemRejudgePolicyResponseError {
+  NO_SUCH_PROBLEM = "NO_SUCH_PROBLEM",
+  PERMISSION_DENIED = "PERMISSION_DENIED"
+}
+
+export class SetProblemRejudgePolicyResponseDto {
+  @ApiProperty()
+  error?: SetProblemRejudgePolicyResponseError;
+}
@@ -0,0 +1,17 @@
+import { ApiProperty } from "@nestjs/swagger";
+
+import { Type } from "class-transformer";
+import { IsInt, ValidateNested } from "class-validator";
+
+import { ProblemAnswerGenerationConfigDto } from "./problem-answer-generation-config.dto";
+
+export class StartProblemAnswerGenerationRequestDto {
+  @ApiProperty()
+  @IsInt()
+  problemId: number;
+
+  @ApiProperty()
+  @ValidateNested()
+  @Type(() => ProblemAnswerGenerationConfigDto)
+  config: ProblemAnswerGenerationConfigDto;
+}
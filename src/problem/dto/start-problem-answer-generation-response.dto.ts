@@ -0,0 +1,20 @@
+import { ApiProperty } from "@nestjs/swagger";
+
+export enum StartProblemAnswerGenerationResponseError {
+  NO_SUCH_PROBLEM = "NO_SUCH_PROBLEM",
+  PERMISSION_DENIED = "PERMISSION_DENIED",
+  PROBLEM_TYPE_NOT_SUPPORTED = "PROBLEM_TYPE_NOT_SUPPORTED",
+  TOO_MANY_FILES = "TOO_MANY_FILES",
+  INVALID_COMPILE_AND_RUN_OPTIONS = "INVALID_COMPILE_AND_RUN_OPTIONS",
+  NO_SUCH_FILE = "NO_SUCH_FILE",
+  NO_GENERATOR = "NO_GENERATOR",
+  DUPLICATE_FILENAME = "DUPLICATE_FILENAME"
+}
+
+export class StartProblemAnswerGenerationResponseDto {
+  @ApiProperty({ enum: StartProblemAnswerGenerationResponseError })
+  error?: StartProblemAnswerGenerationResponseError;
+
+  @ApiProperty()
+  errorFilename?: string;
+}
@@ -0,0 +1,12 @@
+import { ApiProperty } from "@nestjs/swagger";
+
+export enum StartProblemInputValidationResponseError {
+  NO_SUCH_PROBLEM = "NO_SUCH_PROBLEM",
+  PERMISSION_DENIED = "PERMISSION_DENIED",
+  NO_VALIDATOR = "NO_VALIDATOR"
+}
+
+export class StartProblemInputValidationResponseDto {
+  @ApiProperty({ enum: StartProblemInputValidationResponseError })
+  error?: StartProblemInputValidationResponseError;
+}
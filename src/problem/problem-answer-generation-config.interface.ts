@@ -0,0 +1,29 @@
+import { CodeLanguage } from "@/code-language/code-language.type";
+
+// A program in the problem's testdata, run under the problem's time and memory limits
+export interface ProblemAnswerGenerationProgram {
+  language: CodeLanguage;
+  compileAndRunOptions: unknown;
+  filename: string;
+}
+
+export interface ProblemAnswerGenerationFile {
+  inputFile: string;
+  outputFile: string;
+
+  // If not null, the input file is generated by running the generator with these arguments, with its stdout
+  generatorArguments?: string[];
+}
+
+export interface ProblemAnswerGenerationConfig {
+  // Reads the input file and writes the output file in the same way as a submission, refer to the judge info's fileIo
+  referenceSolution: ProblemAnswerGenerationProgram;
+
+  // Required if any input file is generated
+  generator?: ProblemAnswerGenerationProgram;
+
+  files: ProblemAnswerGenerationFile[];
+
+  // If false, the files whose output file (or generated input file) exists in the testdata are skipped
+  overwrite: boolean;
+}
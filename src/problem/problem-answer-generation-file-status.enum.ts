@@ -0,0 +1,20 @@
+export enum ProblemAnswerGenerationFileStatus {
+  // The output file (and the generated input file) is stored to the testdata
+  Generated = "Generated",
+
+  // The file exists and overwriting is not requested
+  Skipped = "Skipped",
+
+  // The generator failed to generate the input file, the reference solution is not run
+  InputGenerationFailed = "InputGenerationFailed",
+
+  TimeLimitExceeded = "TimeLimitExceeded",
+  MemoryLimitExceeded = "MemoryLimitExceeded",
+  OutputLimitExceeded = "OutputLimitExceeded",
+  RuntimeError = "RuntimeError",
+
+  // The generated files are not accepted, e.g. the testdata's limits are exceeded
+  StoreFailed = "StoreFailed",
+
+  SystemError = "SystemError"
+}
@@ -0,0 +1,39 @@
+import { JudgeTaskProgress } from "@/judge/judge-task-progress.interface";
+import { SubmissionProgressType } from "@/submission/submission-progress.interface";
+import { SubmissionResultOmittableString } from "@/submission/submission-testcase-result-omittable-string.interface";
+
+import { ProblemAnswerGenerationStatus } from "./problem-answer-generation-status.enum";
+import { ProblemAnswerGenerationFileStatus } from "./problem-answer-generation-file-status.enum";
+
+import { FileUploadInfoDto } from "@/file/dto";
+
+export interface ProblemAnswerGenerationFileResult {
+  inputFile: string;
+  outputFile: string;
+  status: ProblemAnswerGenerationFileStatus;
+
+  // The reference solution's usage, or the generator's if failed to generate the input file
+  time?: number;
+  memory?: number;
+  exitCode?: number;
+
+  // e.g. The program's stderr, or the error of storing the files
+  message?: SubmissionResultOmittableString;
+
+  // Reported by the judge client with the signed upload requests sent to it, cleared once stored
+  uploadedInputFile?: FileUploadInfoDto;
+  uploadedOutputFile?: FileUploadInfoDto;
+}
+
+export interface ProblemAnswerGenerationProgress extends JudgeTaskProgress {
+  progressType: SubmissionProgressType;
+
+  // Below are only valid when finished
+  status?: ProblemAnswerGenerationStatus;
+
+  // In the order of the requested files, including the skipped ones
+  files?: ProblemAnswerGenerationFileResult[];
+
+  compilationMessage?: SubmissionResultOmittableString;
+  systemMessage?: SubmissionResultOmittableString;
+}
@@ -0,0 +1,11 @@
+export enum ProblemAnswerGenerationStatus {
+  Pending = "Pending",
+
+  // All selected files are generated and stored, or skipped
+  Succeeded = "Succeeded",
+
+  // e.g. The reference solution failed to compile, or failed on some input files
+  Failed = "Failed",
+
+  SystemError = "SystemError"
+}
@@ -0,0 +1,47 @@
+import { Entity, PrimaryColumn, OneToOne, ManyToOne, Column, Index, JoinColumn } from "typeorm";
+
+import { UserEntity } from "@/user/user.entity";
+
+import { ProblemEntity } from "./problem.entity";
+import { ProblemAnswerGenerationStatus } from "./problem-answer-generation-status.enum";
+import { ProblemAnswerGenerationConfig } from "./problem-answer-generation-config.interface";
+import { ProblemAnswerGenerationProgress } from "./problem-answer-generation-progress.interface";
+
+// The latest run of generating a problem's answer files, a new run replaces the previous one
+@Entity("problem_answer_generation")
+export class ProblemAnswerGenerationEntity {
+  @OneToOne(() => ProblemEntity, { onDelete: "CASCADE" })
+  @JoinColumn()
+  problem: Promise<ProblemEntity>;
+
+  @PrimaryColumn()
+  problemId: number;
+
+  // An uuid to identify the judge task of the run, cleared on finish
+  @Column({ type: "varchar", nullable: true, length: 36 })
+  @Index()
+  taskId: string;
+
+  @Column({ type: "enum", enum: ProblemAnswerGenerationStatus })
+  status: ProblemAnswerGenerationStatus;
+
+  @Column({ type: "json" })
+  config: ProblemAnswerGenerationConfig;
+
+  // The finished progress of the run, with the results of storing the files
+  @Column({ type: "json", nullable: true })
+  result: ProblemAnswerGenerationProgress;
+
+  @ManyToOne(() => UserEntity, { onDelete: "SET NULL", nullable: true })
+  @JoinColumn()
+  creator: Promise<UserEntity>;
+
+  @Column({ type: "integer", nullable: true })
+  creatorId: number;
+
+  @Column({ type: "datetime" })
+  startTime: Date;
+
+  @Column({ type: "datetime", nullable: true })
+  finishTime: Date;
+}
@@ -0,0 +1,354 @@
+import { Injectable, Inject, forwardRef } from "@nestjs/common";
+import { InjectRepository } from "@nestjs/typeorm";
+
+import { Repository, In } from "typeorm";
+import { v4 as uuid } from "uuid";
+
+import { logger } from "@/logger";
+import { UserEntity } from "@/user/user.entity";
+import { ConfigService } from "@/config/config.service";
+import { FileService } from "@/file/file.service";
+import { CodeLanguageService } from "@/code-language/code-language.service";
+import { ProblemJudgeInfoTraditional } from "@/problem-type/types/traditional/problem-judge-info.interface";
+import { SubmissionProgressType } from "@/submission/submission-progress.interface";
+import {
+  JudgeQueueService,
+  JudgeTaskType,
+  JudgeTaskPriorityType,
+  JudgeTask,
+  JudgeTaskExtraInfo
+} from "@/judge/judge-queue.service";
+import { JudgeTaskService, JudgeTaskQueueInfo } from "@/judge/judge-task-service.interface";
+
+import { ProblemEntity, ProblemType } from "./problem.entity";
+import { ProblemService } from "./problem.service";
+import { ProblemRevisionService } from "./problem-revision.service";
+import { ProblemFileType } from "./problem-file.entity";
+import { ProblemRevisionType } from "./problem-revision-type.enum";
+import { ProblemAnswerGenerationEntity } from "./problem-answer-generation.entity";
+import { ProblemAnswerGenerationStatus } from "./problem-answer-generation-status.enum";
+import { ProblemAnswerGenerationFileStatus } from "./problem-answer-generation-file-status.enum";
+import {
+  ProblemAnswerGenerationConfig,
+  ProblemAnswerGenerationFile,
+  ProblemAnswerGenerationProgram
+} from "./problem-answer-generation-config.interface";
+import {
+  ProblemAnswerGenerationFileResult,
+  ProblemAnswerGenerationProgress
+} from "./problem-answer-generation-progress.interface";
+
+import { FileUploadInfoDto, SignedFileUploadRequestDto } from "@/file/dto";
+
+interface ProblemAnswerGenerationTaskFile extends ProblemAnswerGenerationFile {
+  // The generated files should be uploaded with these, and reported back with the UUIDs and sizes
+  inputFileUploadRequest?: SignedFileUploadRequestDto;
+  outputFileUploadRequest: SignedFileUploadRequestDto;
+}
+
+interface ProblemAnswerGenerationTaskExtraInfo extends JudgeTaskExtraInfo {
+  referenceSolution: ProblemAnswerGenerationProgram;
+  generator?: ProblemAnswerGenerationProgram;
+
+  // The problem's default limits, for both the generator and the reference solution
+  timeLimit: number;
+  memoryLimit: number;
+  fileIo?: ProblemJudgeInfoTraditional["fileIo"];
+
+  // Without the skipped files
+  files: ProblemAnswerGenerationTaskFile[];
+  testData: Record<string, string>; // filename -> uuid
+}
+
+// Only problems whose testcases have input and answer files could generate answer files
+export const ANSWER_GENERATION_SUPPORTED_PROBLEM_TYPES = [ProblemType.Traditional];
+
+// The testdata files written by generating a file
+function getWrittenFilenames(file: ProblemAnswerGenerationFile): string[] {
+  return file.generatorArguments == null ? [file.outputFile] : [file.inputFile, file.outputFile];
+}
+
+@Injectable()
+export class ProblemAnswerGenerationService
+  implements JudgeTaskService<ProblemAnswerGenerationProgress, ProblemAnswerGenerationTaskExtraInfo>
+{
+  constructor(
+    @InjectRepository(ProblemAnswerGenerationEntity)
+    private readonly problemAnswerGenerationRepository: Repository<ProblemAnswerGenerationEntity>,
+    @Inject(forwardRef(() => ProblemService))
+    private readonly problemService: ProblemService,
+    @Inject(forwardRef(() => ProblemRevisionService))
+    private readonly problemRevisionService: ProblemRevisionService,
+    private readonly judgeQueueService: JudgeQueueService,
+    private readonly fileService: FileService,
+    private readonly codeLanguageService: CodeLanguageService,
+    private readonly configService: ConfigService
+  ) {
+    this.judgeQueueService.registerTaskType(JudgeTaskType.AnswerGeneration, this);
+  }
+
+  async findProblemAnswerGeneration(problem: ProblemEntity): Promise<ProblemAnswerGenerationEntity> {
+    return await this.problemAnswerGenerationRepository.findOneBy({ problemId: problem.id });
+  }
+
+  private async findProblemAnswerGenerationByTaskId(taskId: string): Promise<ProblemAnswerGenerationEntity> {
+    return await this.problemAnswerGenerationRepository.findOneBy({ taskId });
+  }
+
+  /**
+   * Run the reference solution on the input files to generate the output files, the input files could also be
+   * generated by a generator. The previous run is replaced, and ignored if still running.
+   */
+  async startProblemAnswerGeneration(
+    problem: ProblemEntity,
+    config: ProblemAnswerGenerationConfig,
+    creator: UserEntity
+  ): Promise<
+    [
+      error:
+        | "TOO_MANY_FILES"
+        | "INVALID_COMPILE_AND_RUN_OPTIONS"
+        | "NO_SUCH_FILE"
+        | "NO_GENERATOR"
+        | "DUPLICATE_FILENAME",
+      errorFilename?: string
+    ]
+  > {
+    if (config.files.length > this.configService.config.resourceLimit.problemTestdataFiles) return ["TOO_MANY_FILES"];
+
+    const testData = await this.problemService.getProblemFiles(problem, ProblemFileType.TestData);
+    const testDataFilenames = new Set(testData.map(problemFile => problemFile.filename));
+    for (const program of [config.referenceSolution, config.generator]) {
+      if (!program) continue;
+      if (this.codeLanguageService.validateCompileAndRunOptions(program.language, program.compileAndRunOptions).length)
+        return ["INVALID_COMPILE_AND_RUN_OPTIONS", program.filename];
+      if (!testDataFilenames.has(program.filename)) return ["NO_SUCH_FILE", program.filename];
+    }
+
+    // Each file could be written only once, and the programs and the inputs read by others must not be written
+    const writtenFilenames = new Set<string>();
+    const programFilenames = [config.referenceSolution.filename, config.generator?.filename];
+    for (const file of config.files) {
+      if (file.generatorArguments != null && !config.generator) return ["NO_GENERATOR"];
+      if (file.generatorArguments == null && !testDataFilenames.has(file.inputFile))
+        return ["NO_SUCH_FILE", file.inputFile];
+
+      for (const filename of getWrittenFilenames(file)) {
+        if (writtenFilenames.has(filename) || programFilenames.includes(filename))
+          return ["DUPLICATE_FILENAME", filename];
+        writtenFilenames.add(filename);
+      }
+    }
+    const overwrittenInputFile = config.files.find(
+      file => file.generatorArguments == null && writtenFilenames.has(file.inputFile)
+    );
+    if (overwrittenInputFile) return ["DUPLICATE_FILENAME", overwrittenInputFile.inputFile];
+
+    const generation = new ProblemAnswerGenerationEntity();
+    generation.problemId = problem.id;
+    generation.taskId = uuid();
+    generation.status = ProblemAnswerGenerationStatus.Pending;
+    generation.config = config;
+    generation.result = null;
+    generation.creatorId = creator.id;
+    generation.startTime = new Date();
+    generation.finishTime = null;
+    await this.problemAnswerGenerationRepository.save(generation);
+
+    const [judgeInfo] = await this.problemService.getProblemJudgeInfo(problem);
+    const { judgeRequirements } = judgeInfo as ProblemJudgeInfoTraditional;
+    await this.judgeQueueService.pushTask(
+      generation.taskId,
+      JudgeTaskType.AnswerGeneration,
+      JudgeTaskPriorityType.Low,
+      {
+        ...judgeRequirements,
+        languages: Array.from(new Set([config.referenceSolution.language, config.generator?.language])).filter(
+          language => language
+        )
+      }
+    );
+
+    return [null];
+  }
+
+  /**
+   * Store the files uploaded by the judge client to the testdata, as a single revision.
+   *
+   * The files not stored are not in the database, so they're deleted by the file service's maintaince tasks.
+   */
+  private async storeGeneratedFiles(
+    generation: ProblemAnswerGenerationEntity,
+    results: ProblemAnswerGenerationFileResult[]
+  ): Promise<void> {
+    const problem = await this.problemService.findProblemById(generation.problemId);
+    if (!problem) return;
+
+    await this.problemRevisionService.recordProblemRevision(
+      problem,
+      await generation.creator,
+      ProblemRevisionType.TestData,
+      async () => {
+        // The files may be added after the task is sent to the judge client
+        const testData = await this.problemService.getProblemFiles(problem, ProblemFileType.TestData);
+        for (const [i, fileResult] of results.entries()) {
+          const file = generation.config.files[i];
+          const { uploadedInputFile, uploadedOutputFile } = fileResult;
+          delete fileResult.uploadedInputFile;
+          delete fileResult.uploadedOutputFile;
+          if (fileResult.status !== ProblemAnswerGenerationFileStatus.Generated) continue;
+
+          if (
+            !generation.config.overwrite &&
+            testData.some(problemFile => getWrittenFilenames(file).includes(problemFile.filename))
+          ) {
+            fileResult.status = ProblemAnswerGenerationFileStatus.Skipped;
+            continue;
+          }
+
+          // The generated input and output are stored both or neither
+          const uploadedFiles: [filename: string, uploadInfo: FileUploadInfoDto][] = [
+            [file.outputFile, uploadedOutputFile]
+          ];
+          if (file.generatorArguments != null) uploadedFiles.unshift([file.inputFile, uploadedInputFile]);
+          const error = uploadedFiles.some(([, uploadInfo]) => !uploadInfo?.uuid)
+            ? "FILE_NOT_UPLOADED"
+            : // eslint-disable-next-line no-await-in-loop
+              await this.problemService.addProblemFilesFromJudgeUploads(
+                problem,
+                ProblemFileType.TestData,
+                uploadedFiles,
+                false
+              );
+          if (error) {
+            fileResult.status = ProblemAnswerGenerationFileStatus.StoreFailed;
+            fileResult.message = error;
+          }
+        }
+      }
+    );
+  }
+
+  async onTaskProgress(taskId: string, progress: ProblemAnswerGenerationProgress): Promise<boolean> {
+    const generation = await this.findProblemAnswerGenerationByTaskId(taskId);
+    if (!generation) {
+      logger.warn(`Invalid task Id ${taskId} of answer generation progress, maybe replaced by a new run?`);
+      return false;
+    }
+
+    // Only the result is stored
+    if (progress.progressType !== SubmissionProgressType.Finished) return true;
+
+    // Clear the task ID first to make sure the files are stored only once
+    const { affected } = await this.problemAnswerGenerationRepository.update(
+      { problemId: generation.problemId, taskId },
+      { taskId: null }
+    );
+    if (!affected) return false;
+
+    // The files not sent to the judge client are skipped since they exist
+    let files: ProblemAnswerGenerationFileResult[] = null;
+    if (progress.files) {
+      const judgedFiles = new Map(progress.files.map(file => [file.outputFile, file]));
+      files = generation.config.files.map(({ inputFile, outputFile }) => ({
+        status: ProblemAnswerGenerationFileStatus.Skipped,
+        ...judgedFiles.get(outputFile),
+        inputFile,
+        outputFile
+      }));
+      await this.storeGeneratedFiles(generation, files);
+    }
+
+    generation.taskId = null;
+    generation.status =
+      progress.status === ProblemAnswerGenerationStatus.Succeeded &&
+      !files?.every(file =>
+        [ProblemAnswerGenerationFileStatus.Generated, ProblemAnswerGenerationFileStatus.Skipped].includes(file.status)
+      )
+        ? ProblemAnswerGenerationStatus.Failed
+        : progress.status;
+    generation.result = { ...progress, files };
+    generation.finishTime = new Date();
+    await this.problemAnswerGenerationRepository.save(generation);
+
+    return true;
+  }
+
+  async onTaskFailed(taskId: string, systemMessage: string): Promise<void> {
+    await this.onTaskProgress(taskId, {
+      progressType: SubmissionProgressType.Finished,
+      status: ProblemAnswerGenerationStatus.SystemError,
+      systemMessage
+    });
+  }
+
+  async getTasksQueueInfo(taskIds: string[]): Promise<Map<string, JudgeTaskQueueInfo>> {
+    const generations = await this.problemAnswerGenerationRepository.findBy({ taskId: In(taskIds) });
+    return new Map(
+      generations.map(generation => [
+        generation.taskId,
+        {
+          problemId: generation.problemId,
+          userId: generation.creatorId
+        }
+      ])
+    );
+  }
+
+  async getTaskToBeSentToJudgeByTaskId(
+    taskId: string,
+    priority: number
+  ): Promise<JudgeTask<ProblemAnswerGenerationTaskExtraInfo>> {
+    try {
+      const generation = await this.findProblemAnswerGenerationByTaskId(taskId);
+      if (!generation) return null;
+
+      const problem = await this.problemService.findProblemById(generation.problemId);
+      if (!problem) return null;
+      if (!ANSWER_GENERATION_SUPPORTED_PROBLEM_TYPES.includes(problem.type)) {
+        logger.warn(`Answer generation ${taskId}'s problem ${problem.id} no longer supports it`);
+        return null;
+      }
+
+      const [judgeInfo] = await this.problemService.getProblemPreprocessedJudgeInfo(problem);
+      const { timeLimit, memoryLimit, fileIo } = judgeInfo as ProblemJudgeInfoTraditional;
+
+      const testData = await this.problemService.getProblemFiles(problem, ProblemFileType.TestData);
+      const testDataFilenames = new Set(testData.map(problemFile => problemFile.filename));
+
+      const { referenceSolution, generator, files, overwrite } = generation.config;
+      const maxFileSize = this.configService.config.resourceLimit.problemTestdataSize;
+      const taskFiles = await Promise.all(
+        files
+          .filter(file => overwrite || !getWrittenFilenames(file).some(filename => testDataFilenames.has(filename)))
+          .map(
+            async (file): Promise<ProblemAnswerGenerationTaskFile> => ({
+              ...file,
+              inputFileUploadRequest:
+                file.generatorArguments == null ? null : await this.fileService.signJudgeUploadRequest(maxFileSize),
+              outputFileUploadRequest: await this.fileService.signJudgeUploadRequest(maxFileSize)
+            })
+          )
+      );
+
+      return new JudgeTask<ProblemAnswerGenerationTaskExtraInfo>(
+        taskId,
+        JudgeTaskType.AnswerGeneration,
+        JudgeTaskPriorityType.Low,
+        priority,
+        {
+          referenceSolution,
+          generator,
+          timeLimit,
+          memoryLimit,
+          fileIo,
+          files: taskFiles,
+          testData: Object.fromEntries(testData.map(problemFile => [problemFile.filename, problemFile.uuid]))
+        }
+      );
+    } catch (e) {
+      logger.error(`Error in getTaskById("${taskId}"): ${e}`);
+      return null;
+    }
+  }
+}
@@ -0,0 +1,14 @@
+export enum ProblemArchiveFormat {
+  // The archive exported by `exportProblem`
+  Lyrio = "Lyrio",
+
+  // A problem package of Codeforces Polygon, with the `problem.xml` in the root directory
+  Polygon = "Polygon",
+
+  // An XML file of the Free Problem Set format (e.g. exported by HUSTOJ), optionally in a ZIP archive
+  Fps = "Fps",
+
+  // A ZIP archive of SYZOJ's exported problem JSON as `problem.json`, with the testdata in the `testdata`
+  // directory and the additional files in the `additional-files` directory
+  Syzoj = "Syzoj"
+}
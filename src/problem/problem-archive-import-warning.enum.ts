@@ -0,0 +1,27 @@
+// The unsupported pieces of a third-party format, which are skipped on importing
+export enum ProblemArchiveImportWarning {
+  // A statement in a language without a corresponding locale
+  UNSUPPORTED_LANGUAGE = "UNSUPPORTED_LANGUAGE",
+  // A program in a code language not supported, or not recognized
+  UNSUPPORTED_CODE_LANGUAGE = "UNSUPPORTED_CODE_LANGUAGE",
+  // Only the `tests` testset of a Polygon package is imported
+  UNSUPPORTED_TESTSET = "UNSUPPORTED_TESTSET",
+  // A testcase whose input or answer file is not in the package, e.g. a generated test in a standard package
+  MISSING_TESTCASE = "MISSING_TESTCASE",
+  // Only one of the input and output filenames is specified
+  UNSUPPORTED_FILE_IO = "UNSUPPORTED_FILE_IO",
+  // The checker is replaced with a line-by-line comparison
+  UNSUPPORTED_CHECKER = "UNSUPPORTED_CHECKER",
+  // The interactor checks the user's output by itself in an interaction problem
+  CHECKER_IGNORED = "CHECKER_IGNORED",
+  INTERACTOR_IGNORED = "INTERACTOR_IGNORED",
+  // Only the first validator of a Polygon package is used
+  VALIDATORS_IGNORED = "VALIDATORS_IGNORED",
+  SOLUTIONS_IGNORED = "SOLUTIONS_IGNORED",
+  IMAGES_IGNORED = "IMAGES_IGNORED",
+  // Only the first problem of a file with multiple problems is imported
+  EXTRA_PROBLEMS_IGNORED = "EXTRA_PROBLEMS_IGNORED",
+  INVALID_FILENAME_IGNORED = "INVALID_FILENAME_IGNORED",
+  // The subtasks are detected from the testdata files automatically instead
+  INVALID_JUDGE_CONFIG = "INVALID_JUDGE_CONFIG"
+}
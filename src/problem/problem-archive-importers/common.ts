@@ -0,0 +1,125 @@
+import { Readable, Transform, pipeline } from "stream";
+
+import unzipper from "unzipper";
+
+import { Locale } from "@/common/locale.type";
+
+import { ImportedProblemFile } from "./problem-archive-importer.interface";
+
+import { ProblemFileType } from "../problem-file.entity";
+import { ProblemArchiveManifest } from "../problem-archive-manifest.interface";
+
+type ProblemSectionName = "description" | "input" | "output" | "interaction" | "scoring" | "notes" | "sample";
+
+export const PROBLEM_SECTION_TITLES: Record<Locale, Record<ProblemSectionName, string>> = {
+  [Locale.en_US]: {
+    description: "Description",
+    input: "Input",
+    output: "Output",
+    interaction: "Interaction",
+    scoring: "Scoring",
+    notes: "Notes",
+    sample: "Sample"
+  },
+  [Locale.zh_CN]: {
+    description: "题目描述",
+    input: "输入格式",
+    output: "输出格式",
+    interaction: "交互方式",
+    scoring: "评分方式",
+    notes: "数据范围与提示",
+    sample: "样例"
+  },
+  [Locale.ja_JP]: {
+    description: "問題文",
+    input: "入力",
+    output: "出力",
+    interaction: "インタラクション",
+    scoring: "採点",
+    notes: "注記",
+    sample: "入出力例"
+  }
+};
+
+// The manifests and statements are read into memory, a larger text file is not a valid one
+const ZIP_TEXT_FILE_MAX_SIZE = 64 * 1024 * 1024;
+
+/**
+ * A file in the uploaded archive inflates to more than its declared size, or is too large to read into memory.
+ */
+export class ZipFileTooLargeError extends Error {
+  constructor(readonly path: string) {
+    super(`File too large in ZIP archive: ${path}`);
+  }
+}
+
+/**
+ * Read a file in a ZIP archive as a stream. The declared size in the archive can't be trusted, so the stream fails with
+ * `ZipFileTooLargeError` once more than the declared size (or `maxSize`) is inflated.
+ */
+function openZipFile(file: unzipper.File, maxSize = file.uncompressedSize): Readable {
+  const limit = Math.min(file.uncompressedSize, maxSize);
+  let size = 0;
+  const limiter = new Transform({
+    transform(chunk: Buffer, encoding, callback) {
+      size += chunk.length;
+      if (size > limit) callback(new ZipFileTooLargeError(file.path));
+      else callback(null, chunk);
+    }
+  });
+
+  // Errors are forwarded to the returned stream
+  return pipeline(file.stream(), limiter, () => null);
+}
+
+/**
+ * @throws `ZipFileTooLargeError`
+ */
+export async function readZipFileText(file: unzipper.File): Promise<string> {
+  if (file.uncompressedSize > ZIP_TEXT_FILE_MAX_SIZE) throw new ZipFileTooLargeError(file.path);
+
+  const chunks: Buffer[] = [];
+  for await (const chunk of openZipFile(file, ZIP_TEXT_FILE_MAX_SIZE)) chunks.push(chunk);
+  return Buffer.concat(chunks)
+    .toString("utf-8")
+    .replace(/^\uFEFF/, "");
+}
+
+export function importedFileFromZip(type: ProblemFileType, filename: string, file: unzipper.File): ImportedProblemFile {
+  return { type, filename, size: file.uncompressedSize, open: () => openZipFile(file) };
+}
+
+export function importedFileFromString(type: ProblemFileType, filename: string, content: string): ImportedProblemFile {
+  const buffer = Buffer.from(content, "utf-8");
+  return { type, filename, size: buffer.length, open: () => Readable.from([buffer]) };
+}
+
+/**
+ * The tags are matched by name, in any locale since the formats don't specify the language of the tags.
+ */
+export function importedTagsFromNames(names: string[]): ProblemArchiveManifest["tags"] {
+  return names.map(name => ({
+    color: null,
+    localizedNames: Object.fromEntries(Object.values(Locale).map(locale => [locale, name]))
+  }));
+}
+
+/**
+ * Scale the weights to integer points adding up to exactly 100, with the largest remainder method.
+ *
+ * @return `undefined` for each weight (i.e. auto) if all weights are zero.
+ */
+export function distributePoints(weights: number[]): number[] {
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+  if (!(totalWeight > 0)) return weights.map(() => undefined);
+
+  const exactPoints = weights.map(weight => (weight * 100) / totalWeight);
+  const points = exactPoints.map(Math.floor);
+  const remainder = 100 - points.reduce((sum, point) => sum + point, 0);
+  exactPoints
+    .map((exactPoint, i) => [exactPoint - points[i], i])
+    .sort(([a], [b]) => b - a)
+    .slice(0, remainder)
+    .forEach(([, i]) => points[i]++);
+  return points;
+}
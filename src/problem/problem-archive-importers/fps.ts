@@ -0,0 +1,147 @@
+import { load } from "cheerio";
+
+import { CodeLanguage } from "@/code-language/code-language.type";
+import { Checker } from "@/problem-type/common/checker";
+import { ProblemJudgeInfoTraditional } from "@/problem-type/types/traditional/problem-judge-info.interface";
+import CompileAndRunOptionsCpp from "@/code-language/compile-and-run-options/cpp";
+import CompileAndRunOptionsC from "@/code-language/compile-and-run-options/c";
+import CompileAndRunOptionsJava from "@/code-language/compile-and-run-options/java";
+import CompileAndRunOptionsPascal from "@/code-language/compile-and-run-options/pascal";
+import CompileAndRunOptionsPython from "@/code-language/compile-and-run-options/python";
+
+import {
+  ImportedProblemArchive,
+  ImportedProblemFile,
+  ProblemArchiveImporter
+} from "./problem-archive-importer.interface";
+import { PROBLEM_SECTION_TITLES, importedFileFromString, readZipFileText } from "./common";
+import { PROBLEM_ARCHIVE_VERSION } from "./lyrio";
+
+import { ProblemType } from "../problem.entity";
+import { ProblemFileType } from "../problem-file.entity";
+import { ProblemContentSection, ProblemContentSectionType } from "../problem-content.interface";
+import { ProblemArchiveJobError } from "../problem-archive-job-error.enum";
+import { ProblemArchiveImportWarning } from "../problem-archive-import-warning.enum";
+
+// The language names used by HUSTOJ, with the extension of the special judge's source file
+const FPS_LANGUAGES: Record<string, [extension: string, language: CodeLanguage, compileAndRunOptions: unknown]> = {
+  C: ["c", CodeLanguage.C, <CompileAndRunOptionsC>{ compiler: "gcc", std: "c11", O: "2", m: "64" }],
+  "C++": ["cpp", CodeLanguage.Cpp, <CompileAndRunOptionsCpp>{ compiler: "g++", std: "c++14", O: "2", m: "64" }],
+  Pascal: ["pas", CodeLanguage.Pascal, <CompileAndRunOptionsPascal>{ optimize: "2" }],
+  Java: ["java", CodeLanguage.Java, <CompileAndRunOptionsJava>{}],
+  Python: ["py", CodeLanguage.Python, <CompileAndRunOptionsPython>{ version: "3.10" }]
+};
+
+export const fpsProblemArchiveImporter: ProblemArchiveImporter = {
+  async import({ directory, readFile, locale }) {
+    let xml: string;
+    if (directory) {
+      const xmlFile = directory.files.find(file => file.type === "File" && file.path.toLowerCase().endsWith(".xml"));
+      if (!xmlFile) return [ProblemArchiveJobError.INVALID_ARCHIVE];
+      xml = await readZipFileText(xmlFile);
+    } else xml = (await readFile()).toString("utf-8");
+
+    const $ = load(xml, { xmlMode: true });
+    const $items = $("fps > item");
+    if ($items.length === 0) return [ProblemArchiveJobError.INVALID_MANIFEST];
+
+    const warnings: ImportedProblemArchive["warnings"] = [];
+    if ($items.length > 1)
+      warnings.push([ProblemArchiveImportWarning.EXTRA_PROBLEMS_IGNORED, String($items.length - 1)]);
+
+    const $item = $items.first();
+    const getText = (name: string) => $item.children(name).first().text();
+    const getTexts = (name: string) =>
+      $item
+        .children(name)
+        .map((_, element) => $(element).text())
+        .get();
+
+    // The statement is in HTML, which is rendered as is in Markdown
+    const titles = PROBLEM_SECTION_TITLES[locale];
+    const samples = getTexts("sample_input").map((inputData, i) => ({
+      inputData,
+      outputData: getTexts("sample_output")[i] ?? ""
+    }));
+    const textSection = (sectionTitle: string, text: string): ProblemContentSection =>
+      text.trim() ? { sectionTitle, type: ProblemContentSectionType.Text, text: text.trim() } : null;
+    const contentSections = [
+      textSection(titles.description, getText("description")),
+      textSection(titles.input, getText("input")),
+      textSection(titles.output, getText("output")),
+      ...samples.map((_, i) => ({
+        sectionTitle: samples.length === 1 ? titles.sample : `${titles.sample} ${i + 1}`,
+        type: ProblemContentSectionType.Sample,
+        sampleId: i,
+        text: ""
+      })),
+      textSection(titles.notes, getText("hint"))
+    ].filter(section => section);
+
+    const imageCount = $item.children("img").length;
+    if (imageCount > 0) warnings.push([ProblemArchiveImportWarning.IMAGES_IGNORED, String(imageCount)]);
+
+    // Testcases are named by their indexes
+    const files: ImportedProblemFile[] = [];
+    const testInputs = getTexts("test_input");
+    const testOutputs = getTexts("test_output");
+    const testcases = testInputs.map((input, i) => {
+      const testcase = { inputFile: `${i + 1}.in`, outputFile: `${i + 1}.out` };
+      files.push(
+        importedFileFromString(ProblemFileType.TestData, testcase.inputFile, input),
+        importedFileFromString(ProblemFileType.TestData, testcase.outputFile, testOutputs[i] ?? "")
+      );
+      return testcase;
+    });
+
+    // HUSTOJ's special judges are run with the input, answer and user's output files
+    let checker: Checker = { type: "lines", caseSensitive: true };
+    const $spj = $item.children("spj").first();
+    if ($spj.length > 0) {
+      const spjLanguage = FPS_LANGUAGES[$spj.attr("language")];
+      if (spjLanguage) {
+        const [extension, language, compileAndRunOptions] = spjLanguage;
+        const source = $spj.text();
+        const filename = `spj.${extension}`;
+        files.push(importedFileFromString(ProblemFileType.TestData, filename, source));
+        checker = {
+          type: "custom",
+          interface: source.includes("testlib.h") ? "testlib" : "hustoj",
+          language,
+          compileAndRunOptions,
+          filename
+        };
+      } else warnings.push([ProblemArchiveImportWarning.UNSUPPORTED_CHECKER, $spj.attr("language")]);
+    }
+
+    if ($item.children("tpj").length > 0) warnings.push([ProblemArchiveImportWarning.INTERACTOR_IGNORED]);
+    const solutionCount = $item.children("solution").length;
+    if (solutionCount > 0) warnings.push([ProblemArchiveImportWarning.SOLUTIONS_IGNORED, String(solutionCount)]);
+
+    // The time limit is in seconds and the memory limit is in MiB by default
+    const timeLimit = Number(getText("time_limit")) * ($item.children("time_limit").attr("unit") === "ms" ? 1 : 1000);
+    const memoryLimit =
+      Number(getText("memory_limit")) / ($item.children("memory_limit").attr("unit") === "kb" ? 1024 : 1);
+    const judgeInfo: ProblemJudgeInfoTraditional = {
+      timeLimit: Math.round(timeLimit),
+      memoryLimit: Math.ceil(memoryLimit),
+      runSamples: true,
+      subtasks: [{ scoringType: "Sum", testcases }],
+      checker
+    };
+
+    return {
+      manifest: {
+        version: PROBLEM_ARCHIVE_VERSION,
+        type: ProblemType.Traditional,
+        localizedContents: [{ locale, title: getText("title"), contentSections }],
+        samples,
+        judgeInfo,
+        submittable: true,
+        tags: []
+      },
+      files,
+      warnings
+    };
+  }
+};
@@ -0,0 +1,55 @@
+import { isValidFilename } from "@/common/validators";
+
+import { ImportedProblemFile, ProblemArchiveImporter } from "./problem-archive-importer.interface";
+import { importedFileFromZip, readZipFileText } from "./common";
+
+import { ProblemFileType } from "../problem-file.entity";
+import { ProblemArchiveManifest } from "../problem-archive-manifest.interface";
+import { ProblemArchiveJobError } from "../problem-archive-job-error.enum";
+
+export const PROBLEM_ARCHIVE_VERSION = 1;
+export const PROBLEM_ARCHIVE_MANIFEST_FILENAME = "problem.json";
+export const PROBLEM_ARCHIVE_FILE_DIRECTORIES: Record<ProblemFileType, string> = {
+  [ProblemFileType.TestData]: "testdata",
+  [ProblemFileType.AdditionalFile]: "additional-files"
+};
+
+/**
+ * Find the type of a file in the testdata or additional files directory of an archive.
+ *
+ * @return `null` if the file is not directly in one of the directories, or has an invalid filename.
+ */
+export function parseProblemArchiveFilePath(filePath: string): [type: ProblemFileType, filename: string] {
+  const [directoryName, filename, ...rest] = filePath.split("/");
+  const type = Object.values(ProblemFileType).find(
+    fileType => PROBLEM_ARCHIVE_FILE_DIRECTORIES[fileType] === directoryName
+  );
+  if (!type || rest.length > 0 || !filename || filename.length > 256 || !isValidFilename(filename)) return null;
+  return [type, filename];
+}
+
+export const lyrioProblemArchiveImporter: ProblemArchiveImporter = {
+  async import({ directory }) {
+    const manifestFile = directory?.files.find(file => file.path === PROBLEM_ARCHIVE_MANIFEST_FILENAME);
+    if (!manifestFile) return [ProblemArchiveJobError.INVALID_ARCHIVE];
+
+    let manifest: ProblemArchiveManifest;
+    try {
+      manifest = JSON.parse(await readZipFileText(manifestFile));
+    } catch (e) {
+      return [ProblemArchiveJobError.INVALID_MANIFEST];
+    }
+
+    const files: ImportedProblemFile[] = [];
+    for (const file of directory.files) {
+      if (file.type !== "File" || file.path === PROBLEM_ARCHIVE_MANIFEST_FILENAME) continue;
+
+      const parsedPath = parseProblemArchiveFilePath(file.path);
+      if (!parsedPath) return [ProblemArchiveJobError.INVALID_FILENAME, file.path];
+
+      files.push(importedFileFromZip(...parsedPath, file));
+    }
+
+    return { manifest, files, warnings: [] };
+  }
+};
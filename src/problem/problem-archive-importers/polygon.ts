@@ -0,0 +1,476 @@
+import path from "path";
+
+import { load } from "cheerio";
+import unzipper from "unzipper";
+
+import { Locale } from "@/common/locale.type";
+import { isValidFilename } from "@/common/validators";
+import { CodeLanguage } from "@/code-language/code-language.type";
+import { Checker } from "@/problem-type/common/checker";
+import { ProblemJudgeInfoTraditional } from "@/problem-type/types/traditional/problem-judge-info.interface";
+import { ProblemJudgeInfoInteraction } from "@/problem-type/types/interaction/problem-judge-info.interface";
+import CompileAndRunOptionsCpp from "@/code-language/compile-and-run-options/cpp";
+import CompileAndRunOptionsC from "@/code-language/compile-and-run-options/c";
+import CompileAndRunOptionsJava from "@/code-language/compile-and-run-options/java";
+import CompileAndRunOptionsKotlin from "@/code-language/compile-and-run-options/kotlin";
+import CompileAndRunOptionsPascal from "@/code-language/compile-and-run-options/pascal";
+import CompileAndRunOptionsPython from "@/code-language/compile-and-run-options/python";
+
+import {
+  ImportedProblemArchive,
+  ImportedProblemFile,
+  ProblemArchiveImporter
+} from "./problem-archive-importer.interface";
+import {
+  PROBLEM_SECTION_TITLES,
+  distributePoints,
+  importedFileFromZip,
+  importedTagsFromNames,
+  readZipFileText
+} from "./common";
+import { PROBLEM_ARCHIVE_VERSION } from "./lyrio";
+
+import { ProblemType } from "../problem.entity";
+import { ProblemFileType } from "../problem-file.entity";
+import { ProblemContentSection, ProblemContentSectionType } from "../problem-content.interface";
+import { ProblemSampleData } from "../problem-sample-data.interface";
+import { ProblemArchiveManifest } from "../problem-archive-manifest.interface";
+import { ProblemArchiveJobError } from "../problem-archive-job-error.enum";
+import { ProblemArchiveImportWarning } from "../problem-archive-import-warning.enum";
+
+type Subtask = ProblemJudgeInfoTraditional["subtasks"][number];
+
+const POLYGON_LANGUAGES: Record<string, Locale> = {
+  english: Locale.en_US,
+  chinese: Locale.zh_CN,
+  japanese: Locale.ja_JP
+};
+
+// The standard checkers of testlib which have an equivalent built-in checker
+const POLYGON_STANDARD_CHECKERS: Record<string, Checker> = {
+  "std::ncmp.cpp": { type: "integers" },
+  "std::rcmp4.cpp": { type: "floats", precision: 4 },
+  "std::rcmp6.cpp": { type: "floats", precision: 6 },
+  "std::rcmp9.cpp": { type: "floats", precision: 9 },
+  "std::fcmp.cpp": { type: "lines", caseSensitive: true }
+};
+
+// testlib is provided by the judge
+const POLYGON_IGNORED_RESOURCES = ["testlib.h", "olymp.sty", "problem.tex", "statements.ftl"];
+
+/**
+ * Map a Polygon source type (e.g. `cpp.g++17`) to a code language. Programs using testlib need C++ 11 at least.
+ */
+function parsePolygonSourceType(sourceType: string): { language: CodeLanguage; compileAndRunOptions: unknown } {
+  const [languageName, compilerName = ""] = sourceType.split(/\.(.*)/);
+  switch (languageName) {
+    case "cpp":
+    case "h": {
+      if (languageName === "h" && compilerName !== "g++") break;
+      const std = /(11|14|17|20)/.exec(compilerName)?.[1] || "17";
+      return {
+        language: CodeLanguage.Cpp,
+        compileAndRunOptions: <CompileAndRunOptionsCpp>{
+          compiler: compilerName.includes("clang") ? "clang++" : "g++",
+          std: `c++${std}`,
+          O: "2",
+          m: "64"
+        }
+      };
+    }
+    case "c":
+      return {
+        language: CodeLanguage.C,
+        compileAndRunOptions: <CompileAndRunOptionsC>{
+          compiler: "gcc",
+          std: "c11",
+          O: "2",
+          m: "64"
+        }
+      };
+    case "pascal":
+      return {
+        language: CodeLanguage.Pascal,
+        compileAndRunOptions: <CompileAndRunOptionsPascal>{
+          optimize: "2"
+        }
+      };
+    case "python":
+      return {
+        language: CodeLanguage.Python,
+        compileAndRunOptions: <CompileAndRunOptionsPython>{
+          version: compilerName === "2" ? "2.7" : "3.10"
+        }
+      };
+    case "kotlin":
+      return {
+        language: CodeLanguage.Kotlin,
+        compileAndRunOptions: <CompileAndRunOptionsKotlin>{
+          version: "1.9",
+          platform: "jvm"
+        }
+      };
+    default:
+      if (languageName.startsWith("java"))
+        return {
+          language: CodeLanguage.Java,
+          compileAndRunOptions: <CompileAndRunOptionsJava>{}
+        };
+  }
+
+  return null;
+}
+
+/**
+ * Convert the commonly used LaTeX commands in Polygon statements to Markdown. The formulas are kept as is.
+ */
+function texToMarkdown(tex: string): string {
+  return tex
+    .replace(/\$\$\$/g, "$")
+    .replace(/\\begin\{(itemize|enumerate)\}|\\end\{(itemize|enumerate)\}/g, "")
+    .replace(/^\s*\\item\s*/gm, "- ")
+    .replace(/\\textbf\{([^{}]*)\}/g, "**$1**")
+    .replace(/\\(?:textit|emph)\{([^{}]*)\}/g, "*$1*")
+    .replace(/\\texttt\{([^{}]*)\}/g, "`$1`")
+    .replace(/---/g, "—")
+    .replace(/<<|>>/g, match => (match === "<<" ? "«" : "»"))
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+// Polygon uses printf-style patterns (e.g. `tests/%02d`) for the testcase files
+function formatPolygonPathPattern(pattern: string, index: number): string {
+  return pattern.replace(/%0?(\d*)d/, (_, width: string) => String(index).padStart(Number(width) || 0, "0"));
+}
+
+interface PolygonStatement {
+  legend?: string;
+  input?: string;
+  output?: string;
+  interaction?: string;
+  scoring?: string;
+  notes?: string;
+  samples: ProblemSampleData;
+}
+
+async function readPolygonStatement(files: Map<string, unzipper.File>, language: string): Promise<PolygonStatement> {
+  // Newer packages contain the statement sections in a JSON file
+  const propertiesFile = files.get(`statements/${language}/problem-properties.json`);
+  if (propertiesFile) {
+    try {
+      const properties = JSON.parse(await readZipFileText(propertiesFile));
+      return {
+        legend: properties.legend,
+        input: properties.input,
+        output: properties.output,
+        interaction: properties.interaction,
+        scoring: properties.scoring,
+        notes: properties.notes,
+        samples: (Array.isArray(properties.sampleTests) ? properties.sampleTests : []).map(
+          (sample: { input: string; output: string }) => ({
+            inputData: String(sample.input ?? ""),
+            outputData: String(sample.output ?? "")
+          })
+        )
+      };
+    } catch (e) {
+      // Fallback to the statement sections
+    }
+  }
+
+  const readSection = async (filename: string) => {
+    const file = files.get(`statement-sections/${language}/${filename}`);
+    return file ? await readZipFileText(file) : null;
+  };
+  const statement: PolygonStatement = {
+    legend: await readSection("legend.tex"),
+    input: await readSection("input.tex"),
+    output: await readSection("output.tex"),
+    interaction: await readSection("interaction.tex"),
+    scoring: await readSection("scoring.tex"),
+    notes: await readSection("notes.tex"),
+    samples: []
+  };
+  for (let i = 1; ; i++) {
+    /* eslint-disable no-await-in-loop */
+    const inputData = await readSection(`example.${String(i).padStart(2, "0")}`);
+    const outputData = await readSection(`example.${String(i).padStart(2, "0")}.a`);
+    /* eslint-enable no-await-in-loop */
+    if (inputData == null || outputData == null) break;
+    statement.samples.push({ inputData, outputData });
+  }
+  return statement;
+}
+
+function getPolygonContentSections(
+  statement: PolygonStatement,
+  locale: Locale,
+  sampleCount: number
+): ProblemContentSection[] {
+  const titles = PROBLEM_SECTION_TITLES[locale];
+  const textSection = (sectionTitle: string, text: string): ProblemContentSection =>
+    text?.trim() ? { sectionTitle, type: ProblemContentSectionType.Text, text: texToMarkdown(text) } : null;
+  return [
+    textSection(titles.description, statement.legend),
+    textSection(titles.input, statement.input),
+    textSection(titles.output, statement.output),
+    textSection(titles.interaction, statement.interaction),
+    ...Array.from({ length: sampleCount }, (_, i) => ({
+      sectionTitle: sampleCount === 1 ? titles.sample : `${titles.sample} ${i + 1}`,
+      type: ProblemContentSectionType.Sample,
+      sampleId: i,
+      text: ""
+    })),
+    textSection(titles.scoring, statement.scoring),
+    textSection(titles.notes, statement.notes)
+  ].filter(section => section);
+}
+
+export const polygonProblemArchiveImporter: ProblemArchiveImporter = {
+  async import({ directory, locale: defaultLocale }) {
+    const files = new Map(
+      (directory?.files || []).filter(file => file.type === "File").map(file => [file.path, file] as const)
+    );
+    const problemXml = files.get("problem.xml");
+    if (!problemXml) return [ProblemArchiveJobError.INVALID_ARCHIVE];
+
+    const $ = load(await readZipFileText(problemXml), { xmlMode: true });
+    const $problem = $("problem").first();
+    const $testset = $problem.find("judging > testset[name=tests]").first();
+    if ($testset.length === 0) return [ProblemArchiveJobError.INVALID_MANIFEST];
+
+    const warnings: ImportedProblemArchive["warnings"] = [];
+    const importedFiles: ImportedProblemFile[] = [];
+    const addTestDataFile = (filePath: string): string => {
+      const file = files.get(filePath);
+      const filename = path.basename(filePath);
+      if (!file) return null;
+      if (!isValidFilename(filename)) {
+        warnings.push([ProblemArchiveImportWarning.INVALID_FILENAME_IGNORED, filePath]);
+        return null;
+      }
+      if (!importedFiles.some(importedFile => importedFile.filename === filename))
+        importedFiles.push(importedFileFromZip(ProblemFileType.TestData, filename, file));
+      return filename;
+    };
+
+    $problem.find("judging > testset").each((_, element) => {
+      const name = $(element).attr("name");
+      if (name !== "tests") warnings.push([ProblemArchiveImportWarning.UNSUPPORTED_TESTSET, name]);
+    });
+
+    // Statements
+    const statements: [locale: Locale, title: string, statement: PolygonStatement][] = [];
+    const names = $problem
+      .find("names > name")
+      .map((_, element) => ({ language: $(element).attr("language"), title: $(element).attr("value") }))
+      .get();
+    if (names.length === 0) names.push({ language: null, title: $problem.attr("short-name") || "" });
+    for (const { language, title } of names) {
+      const locale = POLYGON_LANGUAGES[language];
+      if (!locale) {
+        warnings.push([ProblemArchiveImportWarning.UNSUPPORTED_LANGUAGE, language]);
+        continue;
+      }
+      if (statements.some(([existingLocale]) => existingLocale === locale)) continue;
+
+      // eslint-disable-next-line no-await-in-loop
+      statements.push([locale, title, await readPolygonStatement(files, language)]);
+    }
+
+    // Use the statement of the first language if none of the languages is supported
+    if (statements.length === 0)
+      statements.push([defaultLocale, names[0].title, await readPolygonStatement(files, names[0].language)]);
+
+    // Testcases
+    const inputPattern = $testset.children("input-path-pattern").text();
+    const answerPattern = $testset.children("answer-path-pattern").text();
+    const tests = $testset
+      .find("tests > test")
+      .map((i, element) => {
+        const $test = $(element);
+        const inputPath = formatPolygonPathPattern(inputPattern, i + 1);
+        const answerPath = formatPolygonPathPattern(answerPattern, i + 1);
+        if (!files.has(inputPath) || !files.has(answerPath)) {
+          warnings.push([ProblemArchiveImportWarning.MISSING_TESTCASE, inputPath]);
+          return null;
+        }
+
+        return {
+          inputPath,
+          answerPath,
+          inputFile: addTestDataFile(inputPath),
+          outputFile: addTestDataFile(answerPath),
+          points: Number($test.attr("points")) || 0,
+          group: $test.attr("group"),
+          sample: $test.attr("sample") === "true"
+        };
+      })
+      .get()
+      .filter(test => test.inputFile && test.outputFile);
+
+    // The samples are shared by all locales, use the testcases marked as samples if not in the statements
+    const samples =
+      statements.map(([, , statement]) => statement.samples).find(statementSamples => statementSamples.length > 0) ||
+      (await Promise.all(
+        tests
+          .filter(test => test.sample)
+          .map(async test => ({
+            inputData: await readZipFileText(files.get(test.inputPath)),
+            outputData: await readZipFileText(files.get(test.answerPath))
+          }))
+      ));
+    const localizedContents: ProblemArchiveManifest["localizedContents"] = statements.map(
+      ([locale, title, statement]) => ({
+        locale,
+        title,
+        contentSections: getPolygonContentSections(statement, locale, samples.length)
+      })
+    );
+
+    // Each group is a subtask, the groups without any testcase in the package are skipped
+    const groups = new Map<string, { pointsPolicy: string; points: number; dependencies: string[] }>();
+    $testset.find("groups > group").each((_, element) => {
+      const $group = $(element);
+      groups.set($group.attr("name"), {
+        pointsPolicy: $group.attr("points-policy"),
+        points: Number($group.attr("points")) || 0,
+        dependencies: $group
+          .find("dependencies > dependency")
+          .map((__, dependency) => $(dependency).attr("group"))
+          .get()
+      });
+    });
+    const groupNames = Array.from(new Set(tests.map(test => test.group ?? "")));
+    const subtasksWithWeights = groupNames.map(groupName => {
+      const group = groups.get(groupName);
+      const groupTests = tests.filter(test => (test.group ?? "") === groupName);
+      const testPoints = groupTests.map(test => test.points);
+      const isCompleteGroup = group?.pointsPolicy === "complete-group";
+      const subtask: Subtask = {
+        scoringType: isCompleteGroup ? "GroupMin" : "Sum",
+        testcases: groupTests.map(({ inputFile, outputFile }) => ({ inputFile, outputFile }))
+      };
+      if (!isCompleteGroup)
+        distributePoints(testPoints).forEach((points, i) => {
+          if (points != null) subtask.testcases[i].points = points;
+        });
+
+      const dependencies = (group?.dependencies || [])
+        .map(dependency => groupNames.indexOf(dependency))
+        .filter(i => i !== -1);
+      if (dependencies.length > 0) subtask.dependencies = dependencies;
+
+      const totalTestPoints = testPoints.reduce((sum, points) => sum + points, 0);
+      return [subtask, isCompleteGroup && group.points ? group.points : totalTestPoints] as const;
+    });
+    const subtasks = subtasksWithWeights.map(([subtask]) => subtask);
+    distributePoints(subtasksWithWeights.map(([, weight]) => weight)).forEach((points, i) => {
+      if (points != null) subtasks[i].points = points;
+    });
+
+    // Checker or interactor
+    const $checker = $problem.find("assets > checker").first();
+    const $interactor = $problem.find("assets > interactor").first();
+    const addProgram = (sourcePath: string, sourceType: string) => {
+      const languageAndOptions = parsePolygonSourceType(sourceType || "");
+      if (!languageAndOptions) {
+        warnings.push([ProblemArchiveImportWarning.UNSUPPORTED_CODE_LANGUAGE, sourceType]);
+        return null;
+      }
+      const filename = sourcePath && addTestDataFile(sourcePath);
+      return filename ? { filename, ...languageAndOptions } : null;
+    };
+
+    const type = $interactor.length > 0 ? ProblemType.Interaction : ProblemType.Traditional;
+    const timeLimit = Number($testset.children("time-limit").text());
+    const memoryLimit = Math.ceil(Number($testset.children("memory-limit").text()) / 1024 / 1024);
+    let judgeInfo: ProblemJudgeInfoTraditional | ProblemJudgeInfoInteraction;
+    if (type === ProblemType.Interaction) {
+      const $source = $interactor.children("source");
+      const interactor = addProgram($source.attr("path"), $source.attr("type"));
+      if (!interactor) return [ProblemArchiveJobError.INVALID_JUDGE_INFO, ["NO_SUCH_INTERACTOR_FILE"]];
+      if ($checker.length > 0) warnings.push([ProblemArchiveImportWarning.CHECKER_IGNORED, $checker.attr("name")]);
+
+      judgeInfo = {
+        timeLimit,
+        memoryLimit,
+        runSamples: true,
+        subtasks,
+        interactor: { interface: "stdio", ...interactor }
+      };
+    } else {
+      const checkerName = $checker.attr("name") || "";
+      const $source = $checker.children("source");
+      let checker: Checker = POLYGON_STANDARD_CHECKERS[checkerName];
+      if (!checker && $checker.attr("type") === "testlib") {
+        const program = addProgram($source.attr("path"), $source.attr("type"));
+        if (program) checker = { type: "custom", interface: "testlib", ...program };
+      }
+      if (!checker) {
+        warnings.push([ProblemArchiveImportWarning.UNSUPPORTED_CHECKER, checkerName]);
+        checker = { type: "lines", caseSensitive: true };
+      }
+
+      judgeInfo = {
+        timeLimit,
+        memoryLimit,
+        runSamples: true,
+        subtasks,
+        checker
+      };
+    }
+
+    const inputFilename = $problem.find("judging").attr("input-file");
+    const outputFilename = $problem.find("judging").attr("output-file");
+    if (inputFilename && outputFilename && type === ProblemType.Traditional)
+      (judgeInfo as ProblemJudgeInfoTraditional).fileIo = { inputFilename, outputFilename };
+    else if (inputFilename || outputFilename)
+      warnings.push([ProblemArchiveImportWarning.UNSUPPORTED_FILE_IO, inputFilename || outputFilename]);
+
+    // The resources compiled with the solution (e.g. graders) are extra source files
+    $problem.find("files > resources > file").each((_, element) => {
+      const $file = $(element);
+      const filePath = $file.attr("path");
+      if (POLYGON_IGNORED_RESOURCES.includes(path.basename(filePath))) return;
+      if ($file.find("assets > asset[name=solution]").length === 0) return;
+
+      const program = addProgram(filePath, $file.attr("type"));
+      if (!program) return;
+      judgeInfo.extraSourceFiles ??= {};
+      judgeInfo.extraSourceFiles[program.language] ??= {};
+      judgeInfo.extraSourceFiles[program.language][program.filename] = program.filename;
+    });
+
+    const $validators = $problem.find("assets > validators > validator");
+    if ($validators.length > 0) {
+      const $source = $validators.first().children("source");
+      const validator = addProgram($source.attr("path"), $source.attr("type"));
+      if (validator) judgeInfo.validator = validator;
+    }
+    if ($validators.length > 1)
+      warnings.push([ProblemArchiveImportWarning.VALIDATORS_IGNORED, String($validators.length - 1)]);
+
+    const solutionCount = $problem.find("assets > solutions > solution").length;
+    if (solutionCount > 0) warnings.push([ProblemArchiveImportWarning.SOLUTIONS_IGNORED, String(solutionCount)]);
+
+    return {
+      manifest: {
+        version: PROBLEM_ARCHIVE_VERSION,
+        type,
+        localizedContents,
+        samples,
+        judgeInfo,
+        submittable: true,
+        tags: importedTagsFromNames(
+          $problem
+            .find("tags > tag")
+            .map((_, element) => $(element).attr("value"))
+            .get()
+        )
+      },
+      files: importedFiles,
+      warnings
+    };
+  }
+};
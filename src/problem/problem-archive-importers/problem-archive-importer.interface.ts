@@ -0,0 +1,40 @@
+import { Readable } from "stream";
+
+import unzipper from "unzipper";
+
+import { Locale } from "@/common/locale.type";
+
+import { ProblemFileType } from "../problem-file.entity";
+import { ProblemArchiveManifest } from "../problem-archive-manifest.interface";
+import { ProblemArchiveJobError } from "../problem-archive-job-error.enum";
+import { ProblemArchiveImportWarning } from "../problem-archive-import-warning.enum";
+
+export interface ProblemArchiveImportSource {
+  // `null` if the uploaded file is not a ZIP archive
+  directory: unzipper.CentralDirectory;
+  readFile(): Promise<Buffer>;
+
+  // The locale of the statement, for the formats without the language of the statement
+  locale: Locale;
+}
+
+export interface ImportedProblemFile {
+  type: ProblemFileType;
+  filename: string;
+  // The stream fails if the content turns out to be larger than the size
+  size: number;
+  open(): Readable;
+}
+
+export interface ImportedProblemArchive {
+  // Validated as a Lyrio archive's manifest after converted
+  manifest: ProblemArchiveManifest;
+  files: ImportedProblemFile[];
+  warnings: [warning: ProblemArchiveImportWarning, details?: string][];
+}
+
+export interface ProblemArchiveImporter {
+  import(
+    source: ProblemArchiveImportSource
+  ): Promise<ImportedProblemArchive | [error: ProblemArchiveJobError, errorDetails?: unknown]>;
+}
@@ -0,0 +1,233 @@
+import yaml from "js-yaml";
+import unzipper from "unzipper";
+
+import { Checker } from "@/problem-type/common/checker";
+import { ProblemJudgeInfoTraditional } from "@/problem-type/types/traditional/problem-judge-info.interface";
+import { ProblemJudgeInfoInteraction } from "@/problem-type/types/interaction/problem-judge-info.interface";
+import { ProblemJudgeInfoSubmitAnswer } from "@/problem-type/types/submit-answer/problem-judge-info.interface";
+import { OldDatabaseProblemEntity } from "@/migration/migrations/old-database.interface";
+import { getLanguageAndOptions, parseProblemType, parseSamples } from "@/migration/migrations/problem";
+
+import {
+  ImportedProblemArchive,
+  ImportedProblemFile,
+  ProblemArchiveImporter
+} from "./problem-archive-importer.interface";
+import { PROBLEM_SECTION_TITLES, importedFileFromZip, importedTagsFromNames, readZipFileText } from "./common";
+import { PROBLEM_ARCHIVE_MANIFEST_FILENAME, PROBLEM_ARCHIVE_VERSION, parseProblemArchiveFilePath } from "./lyrio";
+
+import { ProblemType } from "../problem.entity";
+import { ProblemFileType } from "../problem-file.entity";
+import { ProblemContentSection, ProblemContentSectionType } from "../problem-content.interface";
+import { ProblemArchiveJobError } from "../problem-archive-job-error.enum";
+import { ProblemArchiveImportWarning } from "../problem-archive-import-warning.enum";
+
+// The response of SYZOJ's `/problem/:id/export`, or the `obj` in it
+type SyzojExportedProblem = Pick<
+  OldDatabaseProblemEntity,
+  | "title"
+  | "description"
+  | "input_format"
+  | "output_format"
+  | "example"
+  | "limit_and_hint"
+  | "type"
+  | "time_limit"
+  | "memory_limit"
+  | "file_io"
+  | "file_io_input_name"
+  | "file_io_output_name"
+> & {
+  tags?: string[];
+};
+
+// The `data.yml` in the testdata, the "#" in the filenames are replaced with each case
+interface SyzojJudgeConfig {
+  subtasks: {
+    score: number;
+    type: "sum" | "mul" | "min";
+    cases: (string | number)[];
+  }[];
+  inputFile?: string;
+  outputFile?: string;
+  userOutput?: string;
+  specialJudge?: {
+    language: string;
+    fileName: string;
+  };
+  interactor?: {
+    language: string;
+    fileName: string;
+  };
+}
+
+const SYZOJ_SCORING_TYPES = {
+  sum: "Sum",
+  mul: "GroupMul",
+  min: "GroupMin"
+} as const;
+
+type SyzojJudgeInfo = ProblemJudgeInfoTraditional | ProblemJudgeInfoInteraction | ProblemJudgeInfoSubmitAnswer;
+
+export const syzojProblemArchiveImporter: ProblemArchiveImporter = {
+  async import({ directory, locale }) {
+    const manifestFile = directory?.files.find(file => file.path === PROBLEM_ARCHIVE_MANIFEST_FILENAME);
+    if (!manifestFile) return [ProblemArchiveJobError.INVALID_ARCHIVE];
+
+    let problem: SyzojExportedProblem;
+    try {
+      const exported = JSON.parse(await readZipFileText(manifestFile));
+      problem = exported.obj || exported;
+    } catch (e) {
+      return [ProblemArchiveJobError.INVALID_MANIFEST];
+    }
+    if (!problem || typeof problem.title !== "string") return [ProblemArchiveJobError.INVALID_MANIFEST];
+
+    const warnings: ImportedProblemArchive["warnings"] = [];
+    const files: ImportedProblemFile[] = [];
+    const testData = new Map<string, unzipper.File>();
+    let judgeConfigFile: unzipper.File;
+    for (const file of directory.files) {
+      if (file.type !== "File" || file.path === PROBLEM_ARCHIVE_MANIFEST_FILENAME) continue;
+
+      if (file.path === "testdata/data.yml") {
+        judgeConfigFile = file;
+        continue;
+      }
+
+      const parsedPath = parseProblemArchiveFilePath(file.path);
+      if (!parsedPath) {
+        warnings.push([ProblemArchiveImportWarning.INVALID_FILENAME_IGNORED, file.path]);
+        continue;
+      }
+
+      const [fileType, filename] = parsedPath;
+      files.push(importedFileFromZip(fileType, filename, file));
+      if (fileType === ProblemFileType.TestData) testData.set(filename, file);
+    }
+
+    // Statement
+    const titles = PROBLEM_SECTION_TITLES[locale];
+    const samples = parseSamples(problem.example);
+    const textSection = (sectionTitle: string, text: string): ProblemContentSection =>
+      text?.trim() ? { sectionTitle, type: ProblemContentSectionType.Text, text } : null;
+    const contentSections = [
+      textSection(titles.description, problem.description),
+      textSection(titles.input, problem.input_format),
+      textSection(titles.output, problem.output_format),
+      ...(samples
+        ? samples.map(([, text], i) => ({
+            sectionTitle: samples.length === 1 ? titles.sample : `${titles.sample} ${i + 1}`,
+            type: ProblemContentSectionType.Sample,
+            sampleId: i,
+            text: text.trim()
+          }))
+        : [textSection(titles.sample, problem.example)]),
+      textSection(titles.notes, problem.limit_and_hint)
+    ].filter(section => section);
+
+    // Judge info, the subtasks are detected from the testdata files automatically without a valid `data.yml`
+    const type = parseProblemType(problem.type);
+    let judgeConfig: SyzojJudgeConfig = null;
+    if (judgeConfigFile)
+      try {
+        judgeConfig = yaml.load(await readZipFileText(judgeConfigFile)) as SyzojJudgeConfig;
+        if (!Array.isArray(judgeConfig?.subtasks)) throw new Error("No subtasks");
+      } catch (e) {
+        judgeConfig = null;
+        warnings.push([ProblemArchiveImportWarning.INVALID_JUDGE_CONFIG]);
+      }
+
+    const judgeInfo = <SyzojJudgeInfo>{
+      subtasks:
+        judgeConfig?.subtasks.map(subtask => ({
+          scoringType: SYZOJ_SCORING_TYPES[subtask.type] || "Sum",
+          points: subtask.score,
+          testcases: (subtask.cases || []).map(caseId => {
+            const getFilename = (pattern: string) =>
+              typeof pattern === "string" ? pattern.replace("#", String(caseId)) : undefined;
+            return {
+              inputFile: getFilename(judgeConfig.inputFile),
+              outputFile: getFilename(judgeConfig.outputFile),
+              ...(type === ProblemType.SubmitAnswer ? { userOutputFilename: getFilename(judgeConfig.userOutput) } : {})
+            };
+          })
+        })) || null
+    };
+
+    const getProgram = async (language: string, filename: string) => {
+      const file = testData.get(filename);
+      if (!file) return [null, false] as const;
+
+      const useTestlib = language?.startsWith("cpp") && (await readZipFileText(file)).includes("testlib.h");
+      const languageAndOptions = getLanguageAndOptions(language, filename, false, useTestlib);
+      if (!languageAndOptions) {
+        warnings.push([ProblemArchiveImportWarning.UNSUPPORTED_CODE_LANGUAGE, language]);
+        return [null, false] as const;
+      }
+      return [{ filename, ...languageAndOptions }, useTestlib] as const;
+    };
+
+    if (type === ProblemType.Interaction) {
+      const [interactor] = judgeConfig?.interactor
+        ? await getProgram(judgeConfig.interactor.language, judgeConfig.interactor.fileName)
+        : [null];
+      if (!interactor) return [ProblemArchiveJobError.INVALID_JUDGE_INFO, ["NO_SUCH_INTERACTOR_FILE"]];
+
+      Object.assign(judgeInfo, <Partial<ProblemJudgeInfoInteraction>>{
+        interactor: { interface: "stdio", ...interactor }
+      });
+    } else {
+      // The special judge is detected by its filename (e.g. `spj_cpp11.cpp`) without `data.yml`
+      const specialJudgeFilename = Array.from(testData.keys()).find(filename => filename.startsWith("spj_"));
+      const specialJudge =
+        judgeConfig?.specialJudge ||
+        (specialJudgeFilename && {
+          language: specialJudgeFilename.split(".")[0].split("_")[1],
+          fileName: specialJudgeFilename
+        });
+      let checker: Checker = { type: "lines", caseSensitive: true };
+      if (specialJudge) {
+        const [program, useTestlib] = await getProgram(specialJudge.language, specialJudge.fileName);
+        if (program) {
+          checker = {
+            type: "custom",
+            interface: useTestlib ? "testlib" : "legacy",
+            ...program,
+            ...(type === ProblemType.SubmitAnswer ? { timeLimit: 1000, memoryLimit: 512 } : {})
+          };
+        } else warnings.push([ProblemArchiveImportWarning.UNSUPPORTED_CHECKER, specialJudge.fileName]);
+      }
+      Object.assign(judgeInfo, { checker });
+    }
+
+    if (type !== ProblemType.SubmitAnswer)
+      Object.assign(judgeInfo, <Partial<ProblemJudgeInfoTraditional>>{
+        timeLimit: problem.time_limit,
+        memoryLimit: problem.memory_limit,
+        runSamples: true
+      });
+    if (problem.file_io) {
+      if (type === ProblemType.Traditional)
+        (judgeInfo as ProblemJudgeInfoTraditional).fileIo = {
+          inputFilename: problem.file_io_input_name,
+          outputFilename: problem.file_io_output_name
+        };
+      else warnings.push([ProblemArchiveImportWarning.UNSUPPORTED_FILE_IO, problem.file_io_input_name]);
+    }
+
+    return {
+      manifest: {
+        version: PROBLEM_ARCHIVE_VERSION,
+        type,
+        localizedContents: [{ locale, title: problem.title, contentSections }],
+        samples: samples ? samples.map(([sample]) => sample) : [],
+        judgeInfo,
+        submittable: true,
+        tags: importedTagsFromNames(Array.isArray(problem.tags) ? problem.tags : [])
+      },
+      files,
+      warnings
+    };
+  }
+};
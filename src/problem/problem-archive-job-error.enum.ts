@@ -0,0 +1,14 @@
+export enum ProblemArchiveJobError {
+  // The uploaded file is not a ZIP archive, or has no manifest, or has a file larger than declared (or too large to read)
+  INVALID_ARCHIVE = "INVALID_ARCHIVE",
+  INVALID_MANIFEST = "INVALID_MANIFEST",
+
+  // A file in the archive is not in the testdata or additional files directory, or has an invalid filename
+  INVALID_FILENAME = "INVALID_FILENAME",
+  TOO_MANY_FILES = "TOO_MANY_FILES",
+  TOTAL_SIZE_TOO_LARGE = "TOTAL_SIZE_TOO_LARGE",
+  INVALID_JUDGE_INFO = "INVALID_JUDGE_INFO",
+
+  // Unexpected errors, see the server log
+  FAILED = "FAILED"
+}
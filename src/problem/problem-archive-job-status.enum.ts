@@ -0,0 +1,5 @@
+export enum ProblemArchiveJobStatus {
+  Running = "Running",
+  Finished = "Finished",
+  Failed = "Failed"
+}
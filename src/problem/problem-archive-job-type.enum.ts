@@ -0,0 +1,4 @@
+export enum ProblemArchiveJobType {
+  Export = "Export",
+  Import = "Import"
+}
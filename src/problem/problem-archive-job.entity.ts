@@ -0,0 +1,64 @@
+import { Entity, PrimaryGeneratedColumn, Index, ManyToOne, Column, JoinColumn } from "typeorm";
+
+import { UserEntity } from "@/user/user.entity";
+
+import { ProblemArchiveJobType } from "./problem-archive-job-type.enum";
+import { ProblemArchiveJobStatus } from "./problem-archive-job-status.enum";
+import { ProblemArchiveJobError } from "./problem-archive-job-error.enum";
+import { ProblemArchiveFormat } from "./problem-archive-format.enum";
+import { ProblemArchiveImportWarning } from "./problem-archive-import-warning.enum";
+
+@Entity("problem_archive_job")
+export class ProblemArchiveJobEntity {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column({ type: "enum", enum: ProblemArchiveJobType })
+  type: ProblemArchiveJobType;
+
+  @Column({ type: "enum", enum: ProblemArchiveFormat })
+  format: ProblemArchiveFormat;
+
+  @ManyToOne(() => UserEntity, { onDelete: "CASCADE" })
+  @JoinColumn()
+  creator: Promise<UserEntity>;
+
+  @Column()
+  @Index()
+  creatorId: number;
+
+  // The exported problem, or the imported problem once it's created
+  @Column({ type: "integer", nullable: true })
+  problemId: number;
+
+  @Column({ type: "enum", enum: ProblemArchiveJobStatus })
+  status: ProblemArchiveJobStatus;
+
+  @Column({ type: "enum", enum: ProblemArchiveJobError, nullable: true })
+  error: ProblemArchiveJobError;
+
+  // e.g. the judge info validation error, or the invalid filename
+  @Column({ type: "json", nullable: true })
+  errorDetails: unknown;
+
+  // The unsupported pieces skipped on importing a third-party format
+  @Column({ type: "json", nullable: true })
+  warnings: [warning: ProblemArchiveImportWarning, details?: string][];
+
+  // The number of processed files, and the number of all files in the problem or archive
+  @Column({ type: "integer" })
+  processedFileCount: number;
+
+  @Column({ type: "integer", nullable: true })
+  totalFileCount: number;
+
+  // The exported archive (`null` until the job is finished), or the uploaded archive to import
+  @Column({ type: "char", length: 36, nullable: true })
+  fileUuid: string;
+
+  @Column({ type: "datetime" })
+  createTime: Date;
+
+  @Column({ type: "datetime", nullable: true })
+  finishTime: Date;
+}
@@ -0,0 +1,32 @@
+import { Locale } from "@/common/locale.type";
+
+import { ProblemType } from "./problem.entity";
+import { ProblemContentSection } from "./problem-content.interface";
+import { ProblemSampleData } from "./problem-sample-data.interface";
+import { ProblemJudgeInfo } from "./problem-judge-info.interface";
+
+/**
+ * The `problem.json` in a problem archive. The testdata and additional files are in the `testdata` and
+ * `additional-files` directories of the archive.
+ */
+export interface ProblemArchiveManifest {
+  version: number;
+  type: ProblemType;
+
+  // The first is the default locale
+  localizedContents: {
+    locale: Locale;
+    title: string;
+    contentSections: ProblemContentSection[];
+  }[];
+
+  samples: ProblemSampleData;
+  judgeInfo: ProblemJudgeInfo;
+  submittable: boolean;
+
+  // Tags are matched by any of the localized names on importing, since the tag IDs differ between instances
+  tags: {
+    color: string;
+    localizedNames: Partial<Record<Locale, string>>;
+  }[];
+}
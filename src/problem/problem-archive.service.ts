@@ -0,0 +1,462 @@
+import { Injectable, Inject, forwardRef, OnModuleInit } from "@nestjs/common";
+import { InjectRepository, InjectDataSource } from "@nestjs/typeorm";
+
+import { Repository, DataSource, LessThan, IsNull, Not } from "typeorm";
+import { validateSync } from "class-validator";
+import { plainToClass } from "class-transformer";
+
+import { logger } from "@/logger";
+import { UserEntity } from "@/user/user.entity";
+import { ConfigService } from "@/config/config.service";
+import { FileService } from "@/file/file.service";
+import { FileEntity } from "@/file/file.entity";
+import { ZipWriter } from "@/file/zip-writer";
+import { ProblemTypeFactoryService } from "@/problem-type/problem-type-factory.service";
+import { Locale } from "@/common/locale.type";
+import { LockService } from "@/redis/lock.service";
+import { ClusterService } from "@/cluster/cluster.service";
+
+import { ProblemEntity, ProblemType } from "./problem.entity";
+import { ProblemService } from "./problem.service";
+import { ProblemRevisionService } from "./problem-revision.service";
+import { ProblemRevisionType } from "./problem-revision-type.enum";
+import { ProblemFileEntity, ProblemFileType } from "./problem-file.entity";
+import { ProblemTagEntity } from "./problem-tag.entity";
+import { ProblemArchiveManifest } from "./problem-archive-manifest.interface";
+import { ProblemArchiveJobEntity } from "./problem-archive-job.entity";
+import { ProblemArchiveJobType } from "./problem-archive-job-type.enum";
+import { ProblemArchiveJobStatus } from "./problem-archive-job-status.enum";
+import { ProblemArchiveJobError } from "./problem-archive-job-error.enum";
+import { ProblemArchiveFormat } from "./problem-archive-format.enum";
+import { ProblemArchiveImporter } from "./problem-archive-importers/problem-archive-importer.interface";
+import {
+  PROBLEM_ARCHIVE_FILE_DIRECTORIES,
+  PROBLEM_ARCHIVE_MANIFEST_FILENAME,
+  PROBLEM_ARCHIVE_VERSION,
+  lyrioProblemArchiveImporter
+} from "./problem-archive-importers/lyrio";
+import { polygonProblemArchiveImporter } from "./problem-archive-importers/polygon";
+import { fpsProblemArchiveImporter } from "./problem-archive-importers/fps";
+import { syzojProblemArchiveImporter } from "./problem-archive-importers/syzoj";
+import { ZipFileTooLargeError } from "./problem-archive-importers/common";
+
+import { FileUploadInfoDto, SignedFileUploadRequestDto } from "@/file/dto";
+
+import { ProblemStatementDto } from "./dto";
+
+const PROBLEM_ARCHIVE_IMPORTERS: Record<ProblemArchiveFormat, ProblemArchiveImporter> = {
+  [ProblemArchiveFormat.Lyrio]: lyrioProblemArchiveImporter,
+  [ProblemArchiveFormat.Polygon]: polygonProblemArchiveImporter,
+  [ProblemArchiveFormat.Fps]: fpsProblemArchiveImporter,
+  [ProblemArchiveFormat.Syzoj]: syzojProblemArchiveImporter
+};
+
+// A running job holds its lock, a job without the lock is interrupted if it's not just created
+const JOB_START_GRACE_TIME = 60 * 1000;
+
+// The exported archives are deleted after a while
+const EXPORTED_FILE_EXPIRE_TIME = 7 * 24 * 60 * 60 * 1000;
+const MAINTENANCE_INTERVAL = 60 * 60 * 1000;
+
+@Injectable()
+export class ProblemArchiveService implements OnModuleInit {
+  constructor(
+    @InjectDataSource()
+    private readonly connection: DataSource,
+    @InjectRepository(ProblemArchiveJobEntity)
+    private readonly problemArchiveJobRepository: Repository<ProblemArchiveJobEntity>,
+    @Inject(forwardRef(() => ProblemService))
+    private readonly problemService: ProblemService,
+    @Inject(forwardRef(() => ProblemRevisionService))
+    private readonly problemRevisionService: ProblemRevisionService,
+    private readonly problemTypeFactoryService: ProblemTypeFactoryService,
+    private readonly fileService: FileService,
+    private readonly configService: ConfigService,
+    private readonly lockService: LockService,
+    private readonly clusterService: ClusterService
+  ) {}
+
+  async onModuleInit(): Promise<void> {
+    if (!this.clusterService.isMaster) return;
+
+    const runMaintenance = () =>
+      this.failInterruptedJobs()
+        .then(() => this.deleteExpiredFiles())
+        .catch(e => logger.error(`Failed to clean up problem archive jobs: ${e}`));
+    runMaintenance();
+    setInterval(runMaintenance, MAINTENANCE_INTERVAL);
+  }
+
+  /**
+   * Mark the running jobs whose processes exited as failed. The uploaded archives and partially imported problems of
+   * the interrupted import jobs are deleted.
+   */
+  private async failInterruptedJobs(): Promise<void> {
+    const jobs = await this.problemArchiveJobRepository.findBy({
+      status: ProblemArchiveJobStatus.Running,
+      createTime: LessThan(new Date(Date.now() - JOB_START_GRACE_TIME))
+    });
+    for (const job of jobs) {
+      /* eslint-disable no-await-in-loop */
+      if (await this.lockService.isLocked(`ProblemArchiveJob_${job.id}`)) continue;
+
+      logger.error(`Problem archive job ${job.id} was interrupted, marking it as failed`);
+      if (job.type === ProblemArchiveJobType.Import) {
+        if (job.problemId)
+          await this.problemService.lockProblemById(
+            job.problemId,
+            "Write",
+            async lockedProblem => lockedProblem && (await this.problemService.deleteProblem(lockedProblem))
+          );
+        if (job.fileUuid) (await this.fileService.deleteFile(job.fileUuid, this.connection.manager))();
+      }
+
+      await this.problemArchiveJobRepository.update(
+        { id: job.id },
+        {
+          status: ProblemArchiveJobStatus.Failed,
+          error: ProblemArchiveJobError.FAILED,
+          problemId: job.type === ProblemArchiveJobType.Import ? null : job.problemId,
+          fileUuid: null,
+          finishTime: new Date()
+        }
+      );
+      /* eslint-enable no-await-in-loop */
+    }
+  }
+
+  private async deleteExpiredFiles(): Promise<void> {
+    const jobs = await this.problemArchiveJobRepository.findBy({
+      type: ProblemArchiveJobType.Export,
+      status: ProblemArchiveJobStatus.Finished,
+      finishTime: LessThan(new Date(Date.now() - EXPORTED_FILE_EXPIRE_TIME)),
+      fileUuid: Not(IsNull())
+    });
+    for (const job of jobs) {
+      /* eslint-disable no-await-in-loop */
+      const deleteFileActually = await this.connection.transaction(
+        "READ COMMITTED",
+        async transactionalEntityManager => {
+          await transactionalEntityManager.update(ProblemArchiveJobEntity, { id: job.id }, { fileUuid: null });
+          return await this.fileService.deleteFile(job.fileUuid, transactionalEntityManager);
+        }
+      );
+      /* eslint-enable no-await-in-loop */
+      deleteFileActually();
+    }
+  }
+
+  async findProblemArchiveJobById(id: number): Promise<ProblemArchiveJobEntity> {
+    return await this.problemArchiveJobRepository.findOneBy({ id });
+  }
+
+  /**
+   * Run a job in background.
+   *
+   * @param run Returns the error of the job, the unexpected exceptions are reported as `FAILED`.
+   */
+  private async startProblemArchiveJob(
+    job: ProblemArchiveJobEntity,
+    run: () => Promise<ProblemArchiveJobError>
+  ): Promise<void> {
+    await this.problemArchiveJobRepository.save(job);
+
+    // The lock is held while running to tell the job is not interrupted
+    this.lockService
+      .lock(`ProblemArchiveJob_${job.id}`, async () => {
+        const error = await run().catch(e => {
+          logger.error(`Problem archive job ${job.id} failed: ${e}`);
+          return ProblemArchiveJobError.FAILED;
+        });
+        job.status = error ? ProblemArchiveJobStatus.Failed : ProblemArchiveJobStatus.Finished;
+        job.error = error;
+        job.finishTime = new Date();
+        await this.problemArchiveJobRepository.save(job);
+      })
+      .catch(e => logger.error(`Failed to save problem archive job ${job.id}: ${e}`));
+  }
+
+  private async onFileProcessed(job: ProblemArchiveJobEntity): Promise<void> {
+    job.processedFileCount++;
+    await this.problemArchiveJobRepository.update({ id: job.id }, { processedFileCount: job.processedFileCount });
+  }
+
+  /**
+   * Create a job to pack the problem's statement, samples, judge info, tags and files into a ZIP archive.
+   */
+  async createProblemExportJob(creator: UserEntity, problem: ProblemEntity): Promise<ProblemArchiveJobEntity> {
+    const job = new ProblemArchiveJobEntity();
+    job.type = ProblemArchiveJobType.Export;
+    job.format = ProblemArchiveFormat.Lyrio;
+    job.creatorId = creator.id;
+    job.problemId = problem.id;
+    job.status = ProblemArchiveJobStatus.Running;
+    job.error = null;
+    job.errorDetails = null;
+    job.warnings = null;
+    job.processedFileCount = 0;
+    job.totalFileCount = null;
+    job.fileUuid = null;
+    job.createTime = new Date();
+    job.finishTime = null;
+
+    await this.startProblemArchiveJob(job, () => this.runProblemExportJob(job, problem));
+    return job;
+  }
+
+  private async runProblemExportJob(job: ProblemArchiveJobEntity, problem: ProblemEntity): Promise<null> {
+    const [localizedContents, samples, [judgeInfo, submittable], tags, testData, additionalFiles] = await Promise.all([
+      this.problemService.getProblemAllLocalizedContents(problem),
+      this.problemService.getProblemSamples(problem),
+      this.problemService.getProblemJudgeInfo(problem),
+      this.problemService.getProblemTagsByProblem(problem),
+      this.problemService.getProblemFiles(problem, ProblemFileType.TestData),
+      this.problemService.getProblemFiles(problem, ProblemFileType.AdditionalFile)
+    ]);
+
+    const manifest: ProblemArchiveManifest = {
+      version: PROBLEM_ARCHIVE_VERSION,
+      type: problem.type,
+      localizedContents: localizedContents.sort(
+        (a, b) => problem.locales.indexOf(a.locale) - problem.locales.indexOf(b.locale)
+      ),
+      samples,
+      judgeInfo,
+      submittable,
+      tags: await Promise.all(
+        tags.map(async tag => ({
+          color: tag.color,
+          localizedNames: await this.problemService.getProblemTagAllLocalizedNames(tag)
+        }))
+      )
+    };
+
+    const problemFiles = [...testData, ...additionalFiles];
+    job.totalFileCount = problemFiles.length;
+    await this.problemArchiveJobRepository.save(job);
+
+    // The archive is uploaded while being written
+    const zipWriter = new ZipWriter();
+    const uploadPromise = this.fileService.createFileFromStream(zipWriter.stream, this.connection.manager);
+    try {
+      await zipWriter.addFile(PROBLEM_ARCHIVE_MANIFEST_FILENAME, JSON.stringify(manifest, null, 2));
+      for (const problemFile of problemFiles) {
+        /* eslint-disable no-await-in-loop */
+        await zipWriter.addFile(
+          `${PROBLEM_ARCHIVE_FILE_DIRECTORIES[problemFile.type]}/${problemFile.filename}`,
+          await this.fileService.getFileStream(problemFile.uuid)
+        );
+        await this.onFileProcessed(job);
+        /* eslint-enable no-await-in-loop */
+      }
+      await zipWriter.finish();
+    } catch (e) {
+      zipWriter.stream.destroy(e);
+      await uploadPromise.catch(() => null);
+      throw e;
+    }
+
+    const file = await uploadPromise;
+    job.fileUuid = file.uuid;
+    return null;
+  }
+
+  /**
+   * @return `null` if the exported archive is expired.
+   */
+  async getProblemExportJobDownloadUrl(job: ProblemArchiveJobEntity): Promise<string> {
+    if (job.type !== ProblemArchiveJobType.Export || !job.fileUuid) return null;
+    return await this.fileService.signDownloadLink({
+      uuid: job.fileUuid,
+      downloadFilename: `problem-${job.problemId}.zip`
+    });
+  }
+
+  /**
+   * Process the upload of an archive, and create a job to import it as a new problem owned by the creator once it's
+   * uploaded.
+   *
+   * @param locale The locale of the statement, for the formats without the language of the statement.
+   * @param hasPrivilege Privileged users are not limited by `resourceLimit`.
+   */
+  async createProblemImportJob(
+    creator: UserEntity,
+    uploadInfo: FileUploadInfoDto,
+    format: ProblemArchiveFormat,
+    locale: Locale,
+    hasPrivilege: boolean
+  ): Promise<
+    ProblemArchiveJobEntity | SignedFileUploadRequestDto | "FILE_TOO_LARGE" | "FILE_UUID_EXISTS" | "FILE_NOT_UPLOADED"
+  > {
+    const { problemTestdataSize, problemAdditionalFileSize } = this.configService.config.resourceLimit;
+    const result = await this.connection.transaction(
+      "READ COMMITTED",
+      async transactionalEntityManager =>
+        await this.fileService.processUploadRequest<"FILE_TOO_LARGE">(
+          uploadInfo,
+          size => (hasPrivilege || size <= problemTestdataSize + problemAdditionalFileSize ? null : "FILE_TOO_LARGE"),
+          transactionalEntityManager
+        )
+    );
+    if (!(result instanceof FileEntity)) return result;
+
+    const job = new ProblemArchiveJobEntity();
+    job.type = ProblemArchiveJobType.Import;
+    job.format = format;
+    job.creatorId = creator.id;
+    job.problemId = null;
+    job.status = ProblemArchiveJobStatus.Running;
+    job.error = null;
+    job.errorDetails = null;
+    job.warnings = null;
+    job.processedFileCount = 0;
+    job.totalFileCount = null;
+    job.fileUuid = result.uuid;
+    job.createTime = new Date();
+    job.finishTime = null;
+
+    await this.startProblemArchiveJob(job, async () => {
+      try {
+        return await this.runProblemImportJob(job, creator, locale, hasPrivilege);
+      } catch (e) {
+        if (!(e instanceof ZipFileTooLargeError)) throw e;
+        job.errorDetails = e.path;
+        return ProblemArchiveJobError.INVALID_ARCHIVE;
+      } finally {
+        // The uploaded archive is no longer needed
+        const deleteFileActually = await this.fileService.deleteFile(result.uuid, this.connection.manager);
+        deleteFileActually();
+        job.fileUuid = null;
+      }
+    });
+    return job;
+  }
+
+  private async findProblemTagsByLocalizedNames(tags: ProblemArchiveManifest["tags"]): Promise<ProblemTagEntity[]> {
+    const allTags = await this.problemService.getAllProblemTags();
+    const allTagNames = await Promise.all(allTags.map(tag => this.problemService.getProblemTagAllLocalizedNames(tag)));
+    const matchedTags = new Set<ProblemTagEntity>();
+    for (const { localizedNames } of tags) {
+      const index = allTagNames.findIndex(names =>
+        Object.entries(localizedNames || {}).some(([locale, name]) => names[locale as Locale] === name)
+      );
+      if (index !== -1) matchedTags.add(allTags[index]);
+    }
+    return Array.from(matchedTags);
+  }
+
+  private async runProblemImportJob(
+    job: ProblemArchiveJobEntity,
+    creator: UserEntity,
+    locale: Locale,
+    hasPrivilege: boolean
+  ): Promise<ProblemArchiveJobError> {
+    // Third-party formats are converted to a Lyrio archive's manifest and files
+    const { fileUuid } = job;
+    const imported = await PROBLEM_ARCHIVE_IMPORTERS[job.format].import({
+      directory: await this.fileService.openZipArchive(fileUuid),
+      readFile: () => this.fileService.getFileContent(fileUuid),
+      locale
+    });
+    if (Array.isArray(imported)) {
+      const [error, errorDetails = null] = imported;
+      job.errorDetails = errorDetails;
+      return error;
+    }
+
+    const { manifest, files: problemFiles, warnings } = imported;
+    job.warnings = warnings.length > 0 ? warnings : null;
+
+    // The statement is validated as creating a problem, while the tags are not needed to be valid
+    const statement = plainToClass(ProblemStatementDto, {
+      localizedContents: manifest?.localizedContents,
+      samples: manifest?.samples,
+      problemTagIds: []
+    });
+    if (
+      !manifest ||
+      !Object.values(ProblemType).includes(manifest.type) ||
+      !manifest.judgeInfo ||
+      typeof manifest.judgeInfo !== "object" ||
+      typeof manifest.submittable !== "boolean" ||
+      (manifest.tags != null && !Array.isArray(manifest.tags)) ||
+      validateSync(statement).length > 0
+    )
+      return ProblemArchiveJobError.INVALID_MANIFEST;
+
+    if (!hasPrivilege) {
+      const { resourceLimit } = this.configService.config;
+      const limits: Record<ProblemFileType, [filesLimit: number, sizeLimit: number]> = {
+        [ProblemFileType.TestData]: [resourceLimit.problemTestdataFiles, resourceLimit.problemTestdataSize],
+        [ProblemFileType.AdditionalFile]: [
+          resourceLimit.problemAdditionalFileFiles,
+          resourceLimit.problemAdditionalFileSize
+        ]
+      };
+      for (const [type, [filesLimit, sizeLimit]] of Object.entries(limits)) {
+        const files = problemFiles.filter(problemFile => problemFile.type === type);
+        if (files.length > filesLimit) return ProblemArchiveJobError.TOO_MANY_FILES;
+        if (files.reduce((sum, problemFile) => sum + problemFile.size, 0) > sizeLimit)
+          return ProblemArchiveJobError.TOTAL_SIZE_TOO_LARGE;
+      }
+    }
+
+    // Validate the judge info before creating the problem, only the filenames of the testdata are needed
+    const testData = problemFiles
+      .filter(problemFile => problemFile.type === ProblemFileType.TestData)
+      .map(({ filename }) => Object.assign(new ProblemFileEntity(), { filename }));
+    try {
+      this.problemTypeFactoryService
+        .type(manifest.type)
+        .validateAndFilterJudgeInfo(manifest.judgeInfo, testData, hasPrivilege);
+    } catch (e) {
+      if (!Array.isArray(e)) throw e;
+      job.errorDetails = e;
+      return ProblemArchiveJobError.INVALID_JUDGE_INFO;
+    }
+
+    const tags = await this.findProblemTagsByLocalizedNames(manifest.tags || []);
+    const problem = await this.problemService.createProblem(creator, manifest.type, statement, tags);
+    job.problemId = problem.id;
+    job.totalFileCount = problemFiles.length;
+    await this.problemArchiveJobRepository.save(job);
+
+    try {
+      for (const problemFile of problemFiles) {
+        /* eslint-disable no-await-in-loop */
+        const error = await this.problemService.addProblemFileFromStream(
+          problem,
+          problemFile.type,
+          problemFile.filename,
+          problemFile.open(),
+          problemFile.size,
+          hasPrivilege
+        );
+        if (error) throw new Error(`Failed to add file ${problemFile.filename}: ${error}`);
+        await this.onFileProcessed(job);
+        /* eslint-enable no-await-in-loop */
+      }
+
+      const judgeInfoError = await this.problemService.updateProblemJudgeInfo(
+        problem,
+        manifest.judgeInfo,
+        manifest.submittable,
+        hasPrivilege
+      );
+      if (judgeInfoError) throw new Error(`Failed to update judge info: ${JSON.stringify(judgeInfoError)}`);
+
+      await this.problemRevisionService.createProblemRevision(problem, creator, ProblemRevisionType.Create);
+    } catch (e) {
+      // Don't leave a partially imported problem
+      await this.problemService.lockProblemById(
+        problem.id,
+        "Write",
+        async lockedProblem => lockedProblem && (await this.problemService.deleteProblem(lockedProblem))
+      );
+      job.problemId = null;
+      throw e;
+    }
+
+    return null;
+  }
+}
@@ -0,0 +1,161 @@
+import { Injectable, Inject, forwardRef, OnModuleInit } from "@nestjs/common";
+import { InjectRepository } from "@nestjs/typeorm";
+
+import { Repository, MoreThan } from "typeorm";
+import { Redis } from "ioredis";
+
+import { logger } from "@/logger";
+import { UserService } from "@/user/user.service";
+import { INITIAL_USER_RATING } from "@/user/user-rating.service";
+import { SubmissionService } from "@/submission/submission.service";
+import { RedisService } from "@/redis/redis.service";
+import { ConfigService } from "@/config/config.service";
+import { ClusterService } from "@/cluster/cluster.service";
+
+import { ProblemEntity } from "./problem.entity";
+
+// Set when the difficulties are recomputed and expires after the recompute interval, shared by all instances
+const REDIS_KEY_PROBLEM_DIFFICULTY_RECOMPUTED = "problem-difficulty-recomputed";
+const RECOMPUTE_CHECK_INTERVAL = 10 * 60 * 1000;
+const RECOMPUTE_BATCH_SIZE = 100;
+
+const MIN_DIFFICULTY = 0;
+const MAX_DIFFICULTY = 4000;
+
+// Each rejected submission before the first accepted one lowers the user's outcome, to no less than half
+const REJECTED_SUBMISSION_PENALTY = 0.1;
+const MIN_ACCEPTED_OUTCOME = 0.5;
+
+@Injectable()
+export class ProblemDifficultyService implements OnModuleInit {
+  private readonly redis: Redis;
+
+  constructor(
+    @InjectRepository(ProblemEntity)
+    private readonly problemRepository: Repository<ProblemEntity>,
+    @Inject(forwardRef(() => UserService))
+    private readonly userService: UserService,
+    @Inject(forwardRef(() => SubmissionService))
+    private readonly submissionService: SubmissionService,
+    private readonly redisService: RedisService,
+    private readonly configService: ConfigService,
+    private readonly clusterService: ClusterService
+  ) {
+    this.redis = this.redisService.getClient();
+  }
+
+  async onModuleInit(): Promise<void> {
+    if (!this.clusterService.isMaster) return;
+
+    setInterval(
+      () =>
+        this.recomputeProblemDifficultiesIfDue().catch(e =>
+          logger.error(`Failed to recompute problem difficulties: ${e}`)
+        ),
+      RECOMPUTE_CHECK_INTERVAL
+    );
+  }
+
+  /**
+   * Estimate the difficulty in the users' rating scale with the Elo (Rasch) model: a user with rating R solves a
+   * problem with difficulty D with probability 1 / (1 + 10 ^ ((D - R) / 400)). The difficulty is chosen to make the
+   * expected number of solves equal to the actual outcomes of the users attempted the problem.
+   *
+   * @return `null` if too few users attempted the problem.
+   */
+  async computeProblemDifficulty(problem: ProblemEntity): Promise<number> {
+    const attempts = await this.submissionService.getProblemUserAttempts(problem);
+    if (attempts.size < this.configService.config.preference.serverSideOnly.problemDifficultyMinAttemptedUsers)
+      return null;
+
+    const users = await this.userService.findUsersByExistingIds(Array.from(attempts.keys()));
+    const ratings = users.map(user => (user && user.rating) || INITIAL_USER_RATING);
+    const totalOutcome = Array.from(attempts.values()).reduce(
+      (sum, attempt) =>
+        sum +
+        (attempt.accepted
+          ? Math.max(MIN_ACCEPTED_OUTCOME, 1 - REJECTED_SUBMISSION_PENALTY * attempt.rejectedCount)
+          : 0),
+      0
+    );
+
+    // The expected number of solves decreases as the difficulty increases
+    const expectedOutcome = (difficulty: number) =>
+      ratings.reduce((sum, rating) => sum + 1 / (1 + 10 ** ((difficulty - rating) / 400)), 0);
+    let low = MIN_DIFFICULTY;
+    let high = MAX_DIFFICULTY;
+    while (high - low > 1) {
+      const mid = (low + high) / 2;
+      if (expectedOutcome(mid) > totalOutcome) low = mid;
+      else high = mid;
+    }
+
+    return Math.round((low + high) / 2);
+  }
+
+  async recomputeProblemDifficulty(problem: ProblemEntity): Promise<void> {
+    const computedDifficulty = await this.computeProblemDifficulty(problem);
+    if (computedDifficulty === problem.computedDifficulty) return;
+
+    // Update with SQL to avoid overwriting a manual difficulty set concurrently
+    await this.problemRepository
+      .createQueryBuilder()
+      .update()
+      .set({
+        computedDifficulty,
+        difficulty: () => "COALESCE(manualDifficulty, :computedDifficulty)"
+      })
+      .where("id = :id", { id: problem.id })
+      .setParameter("computedDifficulty", computedDifficulty)
+      .execute();
+  }
+
+  private async recomputeProblemDifficultiesIfDue(): Promise<void> {
+    const { problemDifficultyRecomputeInterval } = this.configService.config.preference.serverSideOnly;
+    const due = await this.redis.set(
+      REDIS_KEY_PROBLEM_DIFFICULTY_RECOMPUTED,
+      String(Date.now()),
+      "EX",
+      problemDifficultyRecomputeInterval,
+      "NX"
+    );
+    if (!due) return;
+
+    let lastId = 0;
+    for (;;) {
+      // eslint-disable-next-line no-await-in-loop
+      const problems = await this.problemRepository.find({
+        where: {
+          id: MoreThan(lastId),
+          submissionCount: MoreThan(0)
+        },
+        order: {
+          id: "ASC"
+        },
+        take: RECOMPUTE_BATCH_SIZE
+      });
+      if (problems.length === 0) break;
+
+      for (const problem of problems) {
+        // eslint-disable-next-line no-await-in-loop
+        await this.recomputeProblemDifficulty(problem);
+      }
+      lastId = problems[problems.length - 1].id;
+    }
+  }
+
+  /**
+   * @param manualDifficulty `null` to unpin and use the computed difficulty.
+   */
+  async setProblemManualDifficulty(problem: ProblemEntity, manualDifficulty: number): Promise<void> {
+    await this.problemRepository
+      .createQueryBuilder()
+      .update()
+      .set({
+        manualDifficulty,
+        difficulty: manualDifficulty == null ? () => "computedDifficulty" : manualDifficulty
+      })
+      .where("id = :id", { id: problem.id })
+      .execute();
+  }
+}
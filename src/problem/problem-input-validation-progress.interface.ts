@@ -0,0 +1,26 @@
+import { JudgeTaskProgress } from "@/judge/judge-task-progress.interface";
+import { SubmissionProgressType } from "@/submission/submission-progress.interface";
+import { SubmissionResultOmittableString } from "@/submission/submission-testcase-result-omittable-string.interface";
+
+import { ProblemInputValidationStatus } from "./problem-input-validation-status.enum";
+
+export interface ProblemInputValidationFileResult {
+  filename: string;
+  passed: boolean;
+
+  // The validator's output, e.g. the violated constraint
+  message?: SubmissionResultOmittableString;
+}
+
+export interface ProblemInputValidationProgress extends JudgeTaskProgress {
+  progressType: SubmissionProgressType;
+
+  // Below are only valid when finished
+  status?: ProblemInputValidationStatus;
+
+  // In the order of the input files sent to the judge client
+  files?: ProblemInputValidationFileResult[];
+
+  compilationMessage?: SubmissionResultOmittableString;
+  systemMessage?: SubmissionResultOmittableString;
+}
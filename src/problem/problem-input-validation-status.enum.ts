@@ -0,0 +1,12 @@
+export enum ProblemInputValidationStatus {
+  Pending = "Pending",
+
+  // All input files are accepted by the validator
+  Passed = "Passed",
+
+  // Some input files are rejected by the validator
+  Failed = "Failed",
+
+  // e.g. The validator failed to compile
+  SystemError = "SystemError"
+}
@@ -0,0 +1,47 @@
+import { Entity, PrimaryColumn, OneToOne, ManyToOne, Column, Index, JoinColumn } from "typeorm";
+
+import { UserEntity } from "@/user/user.entity";
+
+import { ProblemEntity } from "./problem.entity";
+import { ProblemInputValidationStatus } from "./problem-input-validation-status.enum";
+import { ProblemInputValidationProgress } from "./problem-input-validation-progress.interface";
+
+// The latest run of a problem's validator on its input files, a new run replaces the previous one
+@Entity("problem_input_validation")
+export class ProblemInputValidationEntity {
+  @OneToOne(() => ProblemEntity, { onDelete: "CASCADE" })
+  @JoinColumn()
+  problem: Promise<ProblemEntity>;
+
+  @PrimaryColumn()
+  problemId: number;
+
+  // An uuid to identify the judge task of the run, cleared on finish
+  @Column({ type: "varchar", nullable: true, length: 36 })
+  @Index()
+  taskId: string;
+
+  @Column({ type: "enum", enum: ProblemInputValidationStatus })
+  status: ProblemInputValidationStatus;
+
+  // The problem's judge data revision when the run started, the result is outdated if the revision is changed
+  @Column({ type: "integer" })
+  judgeDataRevision: number;
+
+  // The finished progress of the run
+  @Column({ type: "json", nullable: true })
+  result: ProblemInputValidationProgress;
+
+  @ManyToOne(() => UserEntity, { onDelete: "SET NULL", nullable: true })
+  @JoinColumn()
+  creator: Promise<UserEntity>;
+
+  @Column({ type: "integer", nullable: true })
+  creatorId: number;
+
+  @Column({ type: "datetime" })
+  startTime: Date;
+
+  @Column({ type: "datetime", nullable: true })
+  finishTime: Date;
+}
@@ -0,0 +1,198 @@
+import { Injectable, Inject, forwardRef } from "@nestjs/common";
+import { InjectRepository } from "@nestjs/typeorm";
+
+import { Repository, In } from "typeorm";
+import { v4 as uuid } from "uuid";
+
+import { logger } from "@/logger";
+import { UserEntity } from "@/user/user.entity";
+import { Validator } from "@/problem-type/common/validator";
+import { ProblemJudgeInfoTraditional } from "@/problem-type/types/traditional/problem-judge-info.interface";
+import { ProblemJudgeInfoInteraction } from "@/problem-type/types/interaction/problem-judge-info.interface";
+import { SubmissionProgressType } from "@/submission/submission-progress.interface";
+import {
+  JudgeQueueService,
+  JudgeTaskType,
+  JudgeTaskPriorityType,
+  JudgeTask,
+  JudgeTaskExtraInfo
+} from "@/judge/judge-queue.service";
+import { JudgeTaskService, JudgeTaskQueueInfo } from "@/judge/judge-task-service.interface";
+
+import { ProblemEntity, ProblemType } from "./problem.entity";
+import { ProblemService } from "./problem.service";
+import { ProblemFileType } from "./problem-file.entity";
+import { ProblemInputValidationEntity } from "./problem-input-validation.entity";
+import { ProblemInputValidationStatus } from "./problem-input-validation-status.enum";
+import { ProblemInputValidationProgress } from "./problem-input-validation-progress.interface";
+
+interface ProblemInputValidationTaskExtraInfo extends JudgeTaskExtraInfo {
+  // With the time and memory limits filled with the problem's defaults
+  validator: Validator;
+
+  // The input files of all testcases
+  inputFiles: string[];
+  testData: Record<string, string>; // filename -> uuid
+}
+
+// Only problems whose testcases have input files could have a validator
+export const INPUT_VALIDATION_SUPPORTED_PROBLEM_TYPES = [ProblemType.Traditional, ProblemType.Interaction];
+
+type ProblemJudgeInfoWithValidator = ProblemJudgeInfoTraditional | ProblemJudgeInfoInteraction;
+
+@Injectable()
+export class ProblemInputValidationService
+  implements JudgeTaskService<ProblemInputValidationProgress, ProblemInputValidationTaskExtraInfo>
+{
+  constructor(
+    @InjectRepository(ProblemInputValidationEntity)
+    private readonly problemInputValidationRepository: Repository<ProblemInputValidationEntity>,
+    @Inject(forwardRef(() => ProblemService))
+    private readonly problemService: ProblemService,
+    private readonly judgeQueueService: JudgeQueueService
+  ) {
+    this.judgeQueueService.registerTaskType(JudgeTaskType.InputValidation, this);
+  }
+
+  async findProblemInputValidation(problem: ProblemEntity): Promise<ProblemInputValidationEntity> {
+    return await this.problemInputValidationRepository.findOneBy({ problemId: problem.id });
+  }
+
+  private async findProblemInputValidationByTaskId(taskId: string): Promise<ProblemInputValidationEntity> {
+    return await this.problemInputValidationRepository.findOneBy({ taskId });
+  }
+
+  /**
+   * Run the problem's validator on all input files. The previous run is replaced, and ignored if still running.
+   *
+   * @return `false` if the problem has no validator.
+   */
+  async startProblemInputValidation(problem: ProblemEntity, creator: UserEntity): Promise<boolean> {
+    if (!INPUT_VALIDATION_SUPPORTED_PROBLEM_TYPES.includes(problem.type)) return false;
+
+    const [judgeInfo] = await this.problemService.getProblemJudgeInfo(problem);
+    const { validator, judgeRequirements } = judgeInfo as ProblemJudgeInfoWithValidator;
+    if (!validator) return false;
+
+    const validation = new ProblemInputValidationEntity();
+    validation.problemId = problem.id;
+    validation.taskId = uuid();
+    validation.status = ProblemInputValidationStatus.Pending;
+    validation.judgeDataRevision = await this.problemService.getProblemJudgeDataRevision(problem);
+    validation.result = null;
+    validation.creatorId = creator.id;
+    validation.startTime = new Date();
+    validation.finishTime = null;
+    await this.problemInputValidationRepository.save(validation);
+
+    await this.judgeQueueService.pushTask(validation.taskId, JudgeTaskType.InputValidation, JudgeTaskPriorityType.Low, {
+      ...judgeRequirements,
+      languages: [validator.language]
+    });
+
+    return true;
+  }
+
+  /**
+   * @return `true` if the problem has no validator, or the latest run passed and the judge data is not changed since.
+   */
+  async isProblemInputValidationPassed(problem: ProblemEntity): Promise<boolean> {
+    if (!INPUT_VALIDATION_SUPPORTED_PROBLEM_TYPES.includes(problem.type)) return true;
+
+    const [judgeInfo] = await this.problemService.getProblemJudgeInfo(problem);
+    const { validator } = judgeInfo as ProblemJudgeInfoWithValidator;
+    if (!validator) return true;
+
+    const validation = await this.findProblemInputValidation(problem);
+    return (
+      validation?.status === ProblemInputValidationStatus.Passed &&
+      validation.judgeDataRevision === (await this.problemService.getProblemJudgeDataRevision(problem))
+    );
+  }
+
+  async onTaskProgress(taskId: string, progress: ProblemInputValidationProgress): Promise<boolean> {
+    const validation = await this.findProblemInputValidationByTaskId(taskId);
+    if (!validation) {
+      logger.warn(`Invalid task Id ${taskId} of input validation progress, maybe replaced by a new run?`);
+      return false;
+    }
+
+    // Only the result is stored
+    if (progress.progressType !== SubmissionProgressType.Finished) return true;
+
+    validation.taskId = null;
+    validation.status = progress.status;
+    validation.result = progress;
+    validation.finishTime = new Date();
+    await this.problemInputValidationRepository.save(validation);
+
+    return true;
+  }
+
+  async onTaskFailed(taskId: string, systemMessage: string): Promise<void> {
+    await this.onTaskProgress(taskId, {
+      progressType: SubmissionProgressType.Finished,
+      status: ProblemInputValidationStatus.SystemError,
+      systemMessage
+    });
+  }
+
+  async getTasksQueueInfo(taskIds: string[]): Promise<Map<string, JudgeTaskQueueInfo>> {
+    const validations = await this.problemInputValidationRepository.findBy({ taskId: In(taskIds) });
+    return new Map(
+      validations.map(validation => [
+        validation.taskId,
+        {
+          problemId: validation.problemId,
+          userId: validation.creatorId
+        }
+      ])
+    );
+  }
+
+  async getTaskToBeSentToJudgeByTaskId(
+    taskId: string,
+    priority: number
+  ): Promise<JudgeTask<ProblemInputValidationTaskExtraInfo>> {
+    try {
+      const validation = await this.findProblemInputValidationByTaskId(taskId);
+      if (!validation) return null;
+
+      const problem = await this.problemService.findProblemById(validation.problemId);
+      if (!problem) return null;
+
+      const [judgeInfo] = await this.problemService.getProblemPreprocessedJudgeInfo(problem);
+      const preprocessedJudgeInfo = judgeInfo as ProblemJudgeInfoWithValidator;
+      const { validator } = preprocessedJudgeInfo;
+      if (!validator) {
+        logger.warn(`Input validation ${taskId}'s problem ${problem.id} no longer has a validator`);
+        return null;
+      }
+
+      const testData = await this.problemService.getProblemFiles(problem, ProblemFileType.TestData);
+
+      return new JudgeTask<ProblemInputValidationTaskExtraInfo>(
+        taskId,
+        JudgeTaskType.InputValidation,
+        JudgeTaskPriorityType.Low,
+        priority,
+        {
+          validator: {
+            ...validator,
+            timeLimit: validator.timeLimit ?? preprocessedJudgeInfo.timeLimit,
+            memoryLimit: validator.memoryLimit ?? preprocessedJudgeInfo.memoryLimit
+          },
+          inputFiles: Array.from(
+            new Set(
+              preprocessedJudgeInfo.subtasks.flatMap(subtask => subtask.testcases.map(testcase => testcase.inputFile))
+            )
+          ),
+          testData: Object.fromEntries(testData.map(problemFile => [problemFile.filename, problemFile.uuid]))
+        }
+      );
+    } catch (e) {
+      logger.error(`Error in getTaskById("${taskId}"): ${e}`);
+      return null;
+    }
+  }
+}
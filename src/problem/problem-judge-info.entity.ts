@@ -2,6 +2,8 @@ import { Entity, PrimaryColumn, OneToOne, Column, JoinColumn } from "typeorm";
 
 import { ProblemEntity } from "@/problem/problem.entity";
 
+import { ProblemRejudgePolicy } from "./problem-rejudge-policy.enum";
+
 @Entity("problem_judge_info")
 export class ProblemJudgeInfoEntity {
   @OneToOne(() => ProblemEntity, { onDelete: "CASCADE" })
@@ -16,4 +18,19 @@ export class ProblemJudgeInfoEntity {
 
   @Column({ type: "boolean", default: true })
   submittable: boolean;
+
+  // Increased when the judge info or testdata is changed, submissions record the revision they're judged against
+  @Column({ type: "integer", default: 0 })
+  judgeDataRevision: number;
+
+  @Column({ type: "enum", enum: ProblemRejudgePolicy, default: ProblemRejudgePolicy.Off })
+  rejudgePolicy: ProblemRejudgePolicy;
+
+  // Submissions to the problem could be finished with results of identical submissions
+  @Column({ type: "boolean", default: true })
+  reuseJudgeResults: boolean;
+
+  // The setter-marked submissions used to recommend the time and memory limits
+  @Column({ type: "json", nullable: true })
+  referenceSubmissionIds: number[];
 }
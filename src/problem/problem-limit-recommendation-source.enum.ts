@@ -0,0 +1,4 @@
+export enum ProblemLimitRecommendationSource {
+  ReferenceSubmissions = "ReferenceSubmissions",
+  AcceptedSubmissions = "AcceptedSubmissions"
+}
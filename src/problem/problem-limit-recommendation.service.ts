@@ -0,0 +1,168 @@
+import { Injectable, Inject, forwardRef } from "@nestjs/common";
+
+import { ConfigService } from "@/config/config.service";
+import { SubmissionService } from "@/submission/submission.service";
+import { SubmissionStatisticsService, SubmissionStatisticsType } from "@/submission/submission-statistics.service";
+import { SubmissionEntity } from "@/submission/submission.entity";
+import { SubmissionStatus } from "@/submission/submission-status.enum";
+import { SubmissionProgress } from "@/submission/submission-progress.interface";
+import { ProblemJudgeInfoTraditional } from "@/problem-type/types/traditional/problem-judge-info.interface";
+
+import { ProblemEntity, ProblemType } from "./problem.entity";
+import { ProblemService } from "./problem.service";
+import { ProblemLimitRecommendationSource } from "./problem-limit-recommendation-source.enum";
+
+import {
+  ProblemLimitRecommendationDto,
+  ProblemLimitRecommendationLanguageDto,
+  ProblemLimitRecommendationTestcaseDto
+} from "./dto";
+
+export const LIMIT_RECOMMENDATION_SUPPORTED_PROBLEM_TYPES = [ProblemType.Traditional, ProblemType.Interaction];
+
+// The common fields of the testcase results of the problem types with time and memory limits
+interface SubmissionTestcaseResultWithLimits {
+  testcaseInfo: {
+    inputFile: string;
+  };
+  time?: number;
+  memory?: number;
+}
+
+// Round the time limit up to a multiple of 100 ms
+const TIME_LIMIT_GRANULARITY = 100;
+
+@Injectable()
+export class ProblemLimitRecommendationService {
+  constructor(
+    @Inject(forwardRef(() => ProblemService))
+    private readonly problemService: ProblemService,
+    @Inject(forwardRef(() => SubmissionService))
+    private readonly submissionService: SubmissionService,
+    @Inject(forwardRef(() => SubmissionStatisticsService))
+    private readonly submissionStatisticsService: SubmissionStatisticsService,
+    private readonly configService: ConfigService
+  ) {}
+
+  private async getSourceSubmissions(
+    problem: ProblemEntity
+  ): Promise<[source: ProblemLimitRecommendationSource, submissions: SubmissionEntity[]]> {
+    const referenceSubmissionIds = await this.problemService.getProblemReferenceSubmissionIds(problem);
+    if (referenceSubmissionIds.length > 0)
+      return [
+        ProblemLimitRecommendationSource.ReferenceSubmissions,
+        (await this.submissionService.findSubmissionsByExistingIds(referenceSubmissionIds)).filter(
+          submission => submission
+        )
+      ];
+
+    const [submissions] = await this.submissionStatisticsService.querySubmissionStatisticsAndCount(
+      problem,
+      SubmissionStatisticsType.Fastest,
+      0,
+      this.configService.config.judge.limitRecommendation.acceptedSubmissions
+    );
+    return [ProblemLimitRecommendationSource.AcceptedSubmissions, submissions];
+  }
+
+  /**
+   * Gather the time and memory used on each testcase by the reference submissions (or the fastest accepted ones if
+   * no reference submissions are marked) and suggest limits from the slowest / largest ones.
+   */
+  async getProblemLimitRecommendation(problem: ProblemEntity): Promise<ProblemLimitRecommendationDto> {
+    const [source, sourceSubmissions] = await this.getSourceSubmissions(problem);
+
+    // Only the accepted submissions judged against the current judge data reflect the current testcases
+    const judgedAgainstOutdatedData = await this.submissionService.areSubmissionsJudgedAgainstOutdatedData(
+      sourceSubmissions
+    );
+    const submissions = sourceSubmissions.filter(
+      (submission, i) => submission.status === SubmissionStatus.Accepted && !judgedAgainstOutdatedData[i]
+    );
+    const results = await Promise.all(
+      submissions.map(
+        async submission =>
+          (
+            await this.submissionService.getSubmissionDetail(submission)
+          ).result as SubmissionProgress<SubmissionTestcaseResultWithLimits>
+      )
+    );
+
+    const languages = new Map<string, ProblemLimitRecommendationLanguageDto>();
+    const testcases = new Map<string, ProblemLimitRecommendationTestcaseDto>();
+    submissions.forEach((submission, i) => {
+      const result = results[i];
+      if (!result || !result.subtasks || !result.testcaseResult) return;
+
+      if (!languages.has(submission.codeLanguage))
+        languages.set(submission.codeLanguage, {
+          codeLanguage: submission.codeLanguage,
+          submissionCount: 0,
+          maxTime: 0,
+          maxMemory: 0
+        });
+      const language = languages.get(submission.codeLanguage);
+      language.submissionCount++;
+
+      for (const subtask of result.subtasks)
+        for (const { testcaseHash } of subtask.testcases) {
+          const testcaseResult = testcaseHash && result.testcaseResult[testcaseHash];
+          if (!testcaseResult || testcaseResult.time == null) continue;
+
+          const { inputFile } = testcaseResult.testcaseInfo;
+          if (!testcases.has(inputFile)) testcases.set(inputFile, { inputFile, maxTime: 0, maxMemory: 0 });
+          const testcase = testcases.get(inputFile);
+
+          for (const item of [language, testcase]) {
+            item.maxTime = Math.max(item.maxTime, testcaseResult.time);
+            item.maxMemory = Math.max(item.maxMemory, testcaseResult.memory ?? 0);
+          }
+        }
+    });
+
+    const { timeMultiplier, memoryMultiplier } = this.configService.config.judge.limitRecommendation;
+    const languageList = Array.from(languages.values());
+    const maxTime = Math.max(0, ...languageList.map(language => language.maxTime));
+    const maxMemory = Math.max(0, ...languageList.map(language => language.maxMemory));
+
+    return {
+      source,
+      submissionIds: submissions.map(submission => submission.id),
+      languages: languageList,
+      testcases: Array.from(testcases.values()),
+      timeLimit:
+        languageList.length === 0
+          ? null
+          : Math.max(1, Math.ceil((maxTime * timeMultiplier) / TIME_LIMIT_GRANULARITY)) * TIME_LIMIT_GRANULARITY,
+      // The memory used is in KiB while the memory limit is in MiB
+      memoryLimit: languageList.length === 0 ? null : Math.max(1, Math.ceil((maxMemory * memoryMultiplier) / 1024))
+    };
+  }
+
+  /**
+   * Set the recommended limits as the problem's default limits, validated as updating the judge info.
+   *
+   * Like any judge info change, it makes the source submissions judged against outdated data, so they're not used for
+   * the next recommendation until rejudged.
+   *
+   * @return The judge info validation error.
+   */
+  async applyProblemLimitRecommendation(
+    problem: ProblemEntity,
+    recommendation: ProblemLimitRecommendationDto,
+    ignoreLimitsOnValidation: boolean
+  ): Promise<string[]> {
+    const [judgeInfo, submittable] = await this.problemService.getProblemJudgeInfo(problem);
+    const newJudgeInfo: ProblemJudgeInfoTraditional = {
+      ...(judgeInfo as ProblemJudgeInfoTraditional),
+      timeLimit: recommendation.timeLimit,
+      memoryLimit: recommendation.memoryLimit
+    };
+    return await this.problemService.updateProblemJudgeInfo(
+      problem,
+      newJudgeInfo,
+      submittable,
+      ignoreLimitsOnValidation
+    );
+  }
+}
@@ -0,0 +1,4 @@
+export enum ProblemQuerySortBy {
+  DisplayId = "DisplayId",
+  Difficulty = "Difficulty"
+}
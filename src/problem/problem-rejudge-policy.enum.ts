@@ -0,0 +1,8 @@
+// What to do with the existing submissions when the problem's testdata or judge info is changed
+export enum ProblemRejudgePolicy {
+  Off = "Off",
+  // Let the problem managers decide whether to rejudge the submissions judged against outdated data
+  Prompt = "Prompt",
+  AutoRejudgeRecent = "AutoRejudgeRecent",
+  AutoRejudgeAccepted = "AutoRejudgeAccepted"
+}
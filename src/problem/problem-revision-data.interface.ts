@@ -0,0 +1,28 @@
+import { Locale } from "@/common/locale.type";
+
+import { ProblemType } from "./problem.entity";
+import { ProblemContentSection } from "./problem-content.interface";
+import { ProblemSampleData } from "./problem-sample-data.interface";
+import { ProblemJudgeInfo } from "./problem-judge-info.interface";
+
+// A snapshot of the parts of a problem which could be restored
+export interface ProblemRevisionData {
+  type: ProblemType;
+
+  // The first is the default locale
+  localizedContents: {
+    locale: Locale;
+    title: string;
+    contentSections: ProblemContentSection[];
+  }[];
+
+  samples: ProblemSampleData;
+  judgeInfo: ProblemJudgeInfo;
+  submittable: boolean;
+
+  // Sorted by filename
+  testData: {
+    filename: string;
+    uuid: string;
+  }[];
+}
@@ -0,0 +1,18 @@
+import { Entity, PrimaryColumn, Index, ManyToOne, JoinColumn } from "typeorm";
+
+import { ProblemRevisionEntity } from "./problem-revision.entity";
+
+// The files referenced by a revision are not deleted with the problem files, until the revision is deleted
+@Entity("problem_revision_file")
+export class ProblemRevisionFileEntity {
+  @ManyToOne(() => ProblemRevisionEntity, { onDelete: "CASCADE" })
+  @JoinColumn()
+  revision: Promise<ProblemRevisionEntity>;
+
+  @PrimaryColumn()
+  revisionId: number;
+
+  @PrimaryColumn({ type: "char", length: 36 })
+  @Index()
+  uuid: string;
+}
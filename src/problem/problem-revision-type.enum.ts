@@ -0,0 +1,13 @@
+// The change recorded by a revision
+export enum ProblemRevisionType {
+  Create = "Create",
+
+  // The state of a problem before its first recorded change, e.g. it's created before the revisions are recorded
+  Baseline = "Baseline",
+
+  Statement = "Statement",
+  JudgeInfo = "JudgeInfo",
+  TestData = "TestData",
+  Type = "Type",
+  Restore = "Restore"
+}
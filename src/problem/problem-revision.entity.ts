@@ -0,0 +1,42 @@
+import { Entity, PrimaryGeneratedColumn, Index, ManyToOne, Column, JoinColumn } from "typeorm";
+
+import { UserEntity } from "@/user/user.entity";
+
+import { ProblemEntity } from "./problem.entity";
+import { ProblemRevisionType } from "./problem-revision-type.enum";
+import { ProblemRevisionData } from "./problem-revision-data.interface";
+
+@Entity("problem_revision")
+@Index(["problemId", "createTime"])
+export class ProblemRevisionEntity {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @ManyToOne(() => ProblemEntity, { onDelete: "CASCADE" })
+  @JoinColumn()
+  problem: Promise<ProblemEntity>;
+
+  @Column()
+  problemId: number;
+
+  @Column({ type: "enum", enum: ProblemRevisionType })
+  type: ProblemRevisionType;
+
+  // `null` for a baseline revision
+  @ManyToOne(() => UserEntity, { onDelete: "SET NULL", nullable: true })
+  @JoinColumn()
+  author: Promise<UserEntity>;
+
+  @Column({ type: "integer", nullable: true })
+  authorId: number;
+
+  // The revision restored by a restore revision
+  @Column({ type: "integer", nullable: true })
+  restoredRevisionId: number;
+
+  @Column({ type: "json" })
+  data: ProblemRevisionData;
+
+  @Column({ type: "datetime" })
+  createTime: Date;
+}
@@ -0,0 +1,347 @@
+import { Injectable, Inject, forwardRef } from "@nestjs/common";
+import { InjectDataSource, InjectRepository } from "@nestjs/typeorm";
+
+import { DataSource, Repository, EntityManager, In, LessThan } from "typeorm";
+import { create as createDiffPatcher } from "jsondiffpatch";
+
+import { UserEntity } from "@/user/user.entity";
+import { UserService } from "@/user/user.service";
+import { FileService } from "@/file/file.service";
+import { ConfigService } from "@/config/config.service";
+import { LockService } from "@/redis/lock.service";
+import { ProblemTypeFactoryService } from "@/problem-type/problem-type-factory.service";
+
+import { ProblemEntity } from "./problem.entity";
+import { ProblemService } from "./problem.service";
+import { ProblemFileEntity, ProblemFileType } from "./problem-file.entity";
+import { ProblemRevisionEntity } from "./problem-revision.entity";
+import { ProblemRevisionFileEntity } from "./problem-revision-file.entity";
+import { ProblemRevisionType } from "./problem-revision-type.enum";
+import { ProblemRevisionData } from "./problem-revision-data.interface";
+
+import { ProblemRevisionMetaDto } from "./dto";
+
+// Consecutive testdata changes of the same user are merged into one revision, since the files are uploaded one by one
+const TESTDATA_REVISION_MERGE_INTERVAL = 10 * 60 * 1000;
+
+// Match the array items by their filenames or locales, instead of their indexes
+const revisionDiffPatcher = createDiffPatcher({
+  objectHash: (item: { filename?: string; locale?: string }, index: number) =>
+    item.filename ?? item.locale ?? `$$index:${index}`
+});
+
+@Injectable()
+export class ProblemRevisionService {
+  constructor(
+    @InjectDataSource()
+    private readonly connection: DataSource,
+    @InjectRepository(ProblemRevisionEntity)
+    private readonly problemRevisionRepository: Repository<ProblemRevisionEntity>,
+    @Inject(forwardRef(() => ProblemService))
+    private readonly problemService: ProblemService,
+    @Inject(forwardRef(() => UserService))
+    private readonly userService: UserService,
+    private readonly problemTypeFactoryService: ProblemTypeFactoryService,
+    private readonly fileService: FileService,
+    private readonly configService: ConfigService,
+    private readonly lockService: LockService
+  ) {}
+
+  async findProblemRevisionById(id: number): Promise<ProblemRevisionEntity> {
+    return await this.problemRevisionRepository.findOneBy({ id });
+  }
+
+  async getProblemRevisionMeta(
+    revision: ProblemRevisionEntity,
+    currentUser: UserEntity
+  ): Promise<ProblemRevisionMetaDto> {
+    const author = revision.authorId == null ? null : await this.userService.findUserById(revision.authorId);
+    return {
+      id: revision.id,
+      type: revision.type,
+      author: author && (await this.userService.getUserMeta(author, currentUser)),
+      restoredRevisionId: revision.restoredRevisionId,
+      createTime: revision.createTime
+    };
+  }
+
+  /**
+   * The revisions are listed from the latest, without their data.
+   */
+  async listProblemRevisions(
+    problem: ProblemEntity,
+    skipCount: number,
+    takeCount: number
+  ): Promise<[revisions: ProblemRevisionEntity[], count: number]> {
+    return await this.problemRevisionRepository.findAndCount({
+      select: ["id", "problemId", "type", "authorId", "restoredRevisionId", "createTime"],
+      where: { problemId: problem.id },
+      order: { id: "DESC" },
+      skip: skipCount,
+      take: takeCount
+    });
+  }
+
+  async findPreviousProblemRevision(revision: ProblemRevisionEntity): Promise<ProblemRevisionEntity> {
+    return await this.problemRevisionRepository.findOne({
+      where: { problemId: revision.problemId, id: LessThan(revision.id) },
+      order: { id: "DESC" }
+    });
+  }
+
+  /**
+   * @param oldRevision `null` to diff with an empty problem.
+   * @return `null` if the revisions are the same.
+   */
+  diffProblemRevisions(oldRevision: ProblemRevisionEntity, newRevision: ProblemRevisionEntity): unknown {
+    return revisionDiffPatcher.diff(oldRevision ? oldRevision.data : {}, newRevision.data) ?? null;
+  }
+
+  private async getProblemRevisionData(problem: ProblemEntity): Promise<ProblemRevisionData> {
+    const [localizedContents, samples, [judgeInfo, submittable], testData] = await Promise.all([
+      this.problemService.getProblemAllLocalizedContents(problem),
+      this.problemService.getProblemSamples(problem),
+      this.problemService.getProblemJudgeInfo(problem),
+      this.problemService.getProblemFiles(problem, ProblemFileType.TestData)
+    ]);
+    return {
+      type: problem.type,
+      localizedContents: problem.locales.map(locale =>
+        localizedContents.find(localizedContent => localizedContent.locale === locale)
+      ),
+      samples,
+      judgeInfo,
+      submittable,
+      testData: testData
+        .map(({ filename, uuid }) => ({ filename, uuid }))
+        .sort((a, b) => (a.filename < b.filename ? -1 : a.filename > b.filename ? 1 : 0))
+    };
+  }
+
+  /**
+   * Record the current state of a problem as a revision after a change. Nothing is recorded if it's not changed since
+   * the latest revision.
+   *
+   * @param author `null` for a baseline revision.
+   */
+  async createProblemRevision(
+    problem: ProblemEntity,
+    author: UserEntity,
+    type: ProblemRevisionType,
+    restoredRevisionId: number = null
+  ): Promise<void> {
+    await this.lockService.lock(`ProblemRevision_${problem.id}`, async () => {
+      const currentProblem = await this.problemService.findProblemById(problem.id);
+      if (!currentProblem) return;
+
+      const data = await this.getProblemRevisionData(currentProblem);
+      const latestRevision = await this.problemRevisionRepository.findOne({
+        where: { problemId: problem.id },
+        order: { id: "DESC" }
+      });
+      if (latestRevision && !revisionDiffPatcher.diff(latestRevision.data, data)) return;
+
+      const now = new Date();
+      const mergeIntoLatest =
+        type === ProblemRevisionType.TestData &&
+        latestRevision?.type === ProblemRevisionType.TestData &&
+        latestRevision.authorId === author?.id &&
+        now.getTime() - latestRevision.createTime.getTime() < TESTDATA_REVISION_MERGE_INTERVAL;
+
+      let deleteFilesActually: () => void = null;
+      await this.connection.transaction("READ COMMITTED", async transactionalEntityManager => {
+        const revision = mergeIntoLatest ? latestRevision : new ProblemRevisionEntity();
+        revision.problemId = problem.id;
+        revision.type = type;
+        revision.authorId = author?.id ?? null;
+        revision.restoredRevisionId = restoredRevisionId;
+        revision.data = data;
+        revision.createTime = now;
+        await transactionalEntityManager.save(revision);
+
+        // The files only referenced by the merged changes are no longer referenced
+        let oldFileUuids: string[] = [];
+        if (mergeIntoLatest) {
+          oldFileUuids = (
+            await transactionalEntityManager.findBy(ProblemRevisionFileEntity, { revisionId: revision.id })
+          ).map(revisionFile => revisionFile.uuid);
+          await transactionalEntityManager.delete(ProblemRevisionFileEntity, { revisionId: revision.id });
+        }
+
+        await transactionalEntityManager.save(
+          Array.from(new Set(data.testData.map(({ uuid }) => uuid))).map(uuid =>
+            Object.assign(new ProblemRevisionFileEntity(), { revisionId: revision.id, uuid })
+          )
+        );
+
+        // Delete the oldest revisions exceeding the limit
+        const prunedRevisions = await transactionalEntityManager.find(ProblemRevisionEntity, {
+          select: ["id"],
+          where: { problemId: problem.id },
+          order: { id: "DESC" },
+          skip: this.configService.config.resourceLimit.problemRevisions
+        });
+        if (prunedRevisions.length > 0) {
+          const prunedRevisionIds = prunedRevisions.map(prunedRevision => prunedRevision.id);
+          oldFileUuids.push(
+            ...(
+              await transactionalEntityManager.findBy(ProblemRevisionFileEntity, { revisionId: In(prunedRevisionIds) })
+            ).map(revisionFile => revisionFile.uuid)
+          );
+          await transactionalEntityManager.delete(ProblemRevisionEntity, { id: In(prunedRevisionIds) });
+        }
+
+        deleteFilesActually = await this.deleteUnreferencedFiles(problem, oldFileUuids, transactionalEntityManager);
+      });
+
+      if (deleteFilesActually) deleteFilesActually();
+    });
+  }
+
+  /**
+   * The problems created before the revisions are recorded have no revisions. Record its current state before the
+   * first change to make the change restorable.
+   */
+  async ensureProblemBaselineRevision(problem: ProblemEntity): Promise<void> {
+    if (await this.problemRevisionRepository.countBy({ problemId: problem.id })) return;
+    await this.createProblemRevision(problem, null, ProblemRevisionType.Baseline);
+  }
+
+  /**
+   * Make a change to a problem and record it as a revision. If the change fails, it's not recorded since nothing
+   * changed.
+   */
+  async recordProblemRevision<T>(
+    problem: ProblemEntity,
+    author: UserEntity,
+    type: ProblemRevisionType,
+    change: () => Promise<T>,
+    restoredRevisionId: number = null
+  ): Promise<T> {
+    await this.ensureProblemBaselineRevision(problem);
+    const result = await change();
+    await this.createProblemRevision(problem, author, type, restoredRevisionId);
+    return result;
+  }
+
+  /**
+   * Restore a problem's statement, judge info and testdata to a revision. The tags are kept unchanged. The problem's
+   * type is changed if it's different from the revision's.
+   */
+  async restoreProblemRevision(
+    problem: ProblemEntity,
+    revision: ProblemRevisionEntity,
+    author: UserEntity,
+    ignoreLimitsOnValidation: boolean
+  ): Promise<["NO_SUCH_PROBLEM" | "PROBLEM_HAS_SUBMISSION" | "INVALID_JUDGE_INFO", string[]?]> {
+    const { data } = revision;
+
+    // Validate before changing anything, only the filenames of the testdata are needed
+    try {
+      this.problemTypeFactoryService.type(data.type).validateAndFilterJudgeInfo(
+        data.judgeInfo,
+        data.testData.map(({ filename }) => Object.assign(new ProblemFileEntity(), { filename })),
+        ignoreLimitsOnValidation
+      );
+    } catch (e) {
+      if (!Array.isArray(e)) throw e;
+      return ["INVALID_JUDGE_INFO", e];
+    }
+
+    return await this.recordProblemRevision(
+      problem,
+      author,
+      ProblemRevisionType.Restore,
+      async (): Promise<["NO_SUCH_PROBLEM" | "PROBLEM_HAS_SUBMISSION" | "INVALID_JUDGE_INFO", string[]?]> => {
+        if (data.type !== problem.type) {
+          const error = await this.problemService.lockProblemById(problem.id, "Write", async lockedProblem => {
+            if (!lockedProblem) return "NO_SUCH_PROBLEM";
+            if (!(await this.problemService.changeProblemType(lockedProblem, data.type)))
+              return "PROBLEM_HAS_SUBMISSION";
+            return null;
+          });
+          if (error) return [error];
+        }
+
+        const currentProblem = await this.problemService.findProblemById(problem.id);
+        if (!currentProblem || !(await this.problemService.replaceProblemTestData(currentProblem, data.testData)))
+          return ["NO_SUCH_PROBLEM"];
+
+        const judgeInfoError = await this.problemService.updateProblemJudgeInfo(
+          currentProblem,
+          data.judgeInfo,
+          data.submittable,
+          ignoreLimitsOnValidation
+        );
+        if (judgeInfoError) return ["INVALID_JUDGE_INFO", judgeInfoError];
+
+        await this.problemService.updateProblemStatement(
+          currentProblem,
+          {
+            problemId: currentProblem.id,
+            localizedContents: data.localizedContents,
+            samples: data.samples,
+            problemTagIds: await this.problemService.getProblemTagIdsByProblem(currentProblem)
+          },
+          await this.problemService.getProblemTagsByProblem(currentProblem)
+        );
+
+        return [null];
+      },
+      revision.id
+    );
+  }
+
+  /**
+   * Filter out the files referenced by any revision, which shouldn't be deleted with the problem's files.
+   */
+  async filterUnreferencedFileUuids(uuids: string[], transactionalEntityManager: EntityManager): Promise<string[]> {
+    if (uuids.length === 0) return [];
+    const referencedUuids = new Set(
+      (await transactionalEntityManager.findBy(ProblemRevisionFileEntity, { uuid: In(uuids) })).map(
+        revisionFile => revisionFile.uuid
+      )
+    );
+    return uuids.filter(uuid => !referencedUuids.has(uuid));
+  }
+
+  async getProblemRevisionFileUuids(
+    problem: ProblemEntity,
+    transactionalEntityManager: EntityManager
+  ): Promise<string[]> {
+    const revisionFiles = await transactionalEntityManager
+      .createQueryBuilder(ProblemRevisionFileEntity, "revisionFile")
+      .select("DISTINCT revisionFile.uuid", "uuid")
+      .innerJoin(ProblemRevisionEntity, "revision", "revision.id = revisionFile.revisionId")
+      .where("revision.problemId = :problemId", { problemId: problem.id })
+      .getRawMany<{ uuid: string }>();
+    return revisionFiles.map(revisionFile => revisionFile.uuid);
+  }
+
+  /**
+   * Delete the files no longer referenced by the problem's files or any revision.
+   *
+   * @return A function to run after transaction, to delete the files actually.
+   */
+  private async deleteUnreferencedFiles(
+    problem: ProblemEntity,
+    uuids: string[],
+    transactionalEntityManager: EntityManager
+  ): Promise<() => void> {
+    const uniqueUuids = await this.filterUnreferencedFileUuids(Array.from(new Set(uuids)), transactionalEntityManager);
+    if (uniqueUuids.length === 0) return null;
+
+    const problemFileUuids = new Set(
+      (
+        await transactionalEntityManager.findBy(ProblemFileEntity, {
+          problemId: problem.id,
+          uuid: In(uniqueUuids)
+        })
+      ).map(problemFile => problemFile.uuid)
+    );
+    return await this.fileService.deleteFile(
+      uniqueUuids.filter(uuid => !problemFileUuids.has(uuid)),
+      transactionalEntityManager
+    );
+  }
+}
@@ -14,12 +14,30 @@ import { UserPrivilegeService, UserPrivilegeType } from "@/user/user-privilege.s
 import { Locale } from "@/common/locale.type";
 import { SubmissionService } from "@/submission/submission.service";
 import { SubmissionStatus } from "@/submission/submission-status.enum";
+import { RejudgeJobService } from "@/submission/rejudge-job.service";
+import { SubmissionStatisticsService } from "@/submission/submission-statistics.service";
+import { SubmissionTestcaseStatisticsService } from "@/submission/submission-testcase-statistics.service";
 import { AuditLogObjectType, AuditService } from "@/audit/audit.service";
 import { DiscussionService } from "@/discussion/discussion.service";
 
 import { ProblemFileType } from "./problem-file.entity";
 import { ProblemEntity } from "./problem.entity";
 import { ProblemService, ProblemPermissionType, ProblemPermissionLevel } from "./problem.service";
+import {
+  LIMIT_RECOMMENDATION_SUPPORTED_PROBLEM_TYPES,
+  ProblemLimitRecommendationService
+} from "./problem-limit-recommendation.service";
+import { ProblemDifficultyService } from "./problem-difficulty.service";
+import { ProblemArchiveService } from "./problem-archive.service";
+import { ProblemArchiveJobEntity } from "./problem-archive-job.entity";
+import { ProblemArchiveFormat } from "./problem-archive-format.enum";
+import { ProblemRevisionService } from "./problem-revision.service";
+import { ProblemRevisionType } from "./problem-revision-type.enum";
+import { ProblemInputValidationService } from "./problem-input-validation.service";
+import {
+  ProblemAnswerGenerationService,
+  ANSWER_GENERATION_SUPPORTED_PROBLEM_TYPES
+} from "./problem-answer-generation.service";
 
 import {
   CreateProblemRequestDto,
@@ -79,7 +97,61 @@ import {
   DeleteProblemResponseError,
   ChangeProblemTypeRequestDto,
   ChangeProblemTypeResponseDto,
-  ChangeProblemTypeResponseError
+  ChangeProblemTypeResponseError,
+  GetProblemRejudgePolicyRequestDto,
+  GetProblemRejudgePolicyResponseDto,
+  GetProblemRejudgePolicyResponseError,
+  SetProblemRejudgePolicyRequestDto,
+  SetProblemRejudgePolicyResponseDto,
+  SetProblemRejudgePolicyResponseError,
+  SetProblemJudgeResultReuseRequestDto,
+  SetProblemJudgeResultReuseResponseDto,
+  SetProblemJudgeResultReuseResponseError,
+  GetProblemAnalyticsRequestDto,
+  GetProblemAnalyticsResponseDto,
+  GetProblemAnalyticsResponseError,
+  GetProblemTestcaseStatisticsRequestDto,
+  GetProblemTestcaseStatisticsResponseDto,
+  GetProblemTestcaseStatisticsResponseError,
+  SetProblemReferenceSubmissionsRequestDto,
+  SetProblemReferenceSubmissionsResponseDto,
+  SetProblemReferenceSubmissionsResponseError,
+  GetProblemLimitRecommendationRequestDto,
+  GetProblemLimitRecommendationResponseDto,
+  GetProblemLimitRecommendationResponseError,
+  SetProblemDifficultyRequestDto,
+  SetProblemDifficultyResponseDto,
+  SetProblemDifficultyResponseError,
+  ExportProblemRequestDto,
+  ExportProblemResponseDto,
+  ExportProblemResponseError,
+  ImportProblemRequestDto,
+  ImportProblemResponseDto,
+  ImportProblemResponseError,
+  GetProblemArchiveJobRequestDto,
+  GetProblemArchiveJobResponseDto,
+  GetProblemArchiveJobResponseError,
+  ListProblemRevisionsRequestDto,
+  ListProblemRevisionsResponseDto,
+  ListProblemRevisionsResponseError,
+  DiffProblemRevisionsRequestDto,
+  DiffProblemRevisionsResponseDto,
+  DiffProblemRevisionsResponseError,
+  RestoreProblemRevisionRequestDto,
+  RestoreProblemRevisionResponseDto,
+  RestoreProblemRevisionResponseError,
+  StartProblemInputValidationRequestDto,
+  StartProblemInputValidationResponseDto,
+  StartProblemInputValidationResponseError,
+  GetProblemInputValidationRequestDto,
+  GetProblemInputValidationResponseDto,
+  GetProblemInputValidationResponseError,
+  StartProblemAnswerGenerationRequestDto,
+  StartProblemAnswerGenerationResponseDto,
+  StartProblemAnswerGenerationResponseError,
+  GetProblemAnswerGenerationRequestDto,
+  GetProblemAnswerGenerationResponseDto,
+  GetProblemAnswerGenerationResponseError
 } from "./dto";
 
 @ApiTags("Problem")
@@ -93,8 +165,17 @@ export class ProblemController {
     private readonly groupService: GroupService,
     private readonly fileService: FileService,
     private readonly submissionService: SubmissionService,
+    private readonly rejudgeJobService: RejudgeJobService,
+    private readonly submissionStatisticsService: SubmissionStatisticsService,
+    private readonly submissionTestcaseStatisticsService: SubmissionTestcaseStatisticsService,
     private readonly auditService: AuditService,
-    private readonly discussionService: DiscussionService
+    private readonly discussionService: DiscussionService,
+    private readonly problemLimitRecommendationService: ProblemLimitRecommendationService,
+    private readonly problemDifficultyService: ProblemDifficultyService,
+    private readonly problemArchiveService: ProblemArchiveService,
+    private readonly problemRevisionService: ProblemRevisionService,
+    private readonly problemInputValidationService: ProblemInputValidationService,
+    private readonly problemAnswerGenerationService: ProblemAnswerGenerationService
   ) {}
 
   @Post("queryProblemSet")
@@ -131,6 +212,10 @@ export class ProblemController {
       filterTags ? filterTags.map(tag => tag.id) : [],
       filterOwner ? filterOwner.id : null,
       request.nonpublic,
+      request.difficultyFrom,
+      request.difficultyTo,
+      request.sortBy,
+      request.sortOrder,
       request.skipCount,
       request.takeCount
     );
@@ -164,11 +249,17 @@ export class ProblemController {
         currentUser &&
         this.submissionService.getUserLatestSubmissionByProblems(currentUser, problems)
     ]);
+    const submissionMetas =
+      !request.titleOnly &&
+      currentUser &&
+      (await this.submissionService.getSubmissionBasicMetas(
+        problems.map(problem => acceptedSubmissions.get(problem.id) || nonAcceptedSubmissions.get(problem.id))
+      ));
 
     return {
       count,
       result: await Promise.all(
-        problems.map(async problem => {
+        problems.map(async (problem, i) => {
           const titleLocale = problem.locales.includes(request.locale) ? request.locale : problem.locales[0];
           const title = await this.problemService.getProblemLocalizedTitle(problem, titleLocale);
           const problemTags = !request.titleOnly && (await this.problemService.getProblemTagsByProblem(problem));
@@ -181,10 +272,7 @@ export class ProblemController {
                 problemTags.map(problemTag => this.problemService.getProblemTagLocalized(problemTag, request.locale))
               )),
             resultLocale: titleLocale,
-            submission:
-              !request.titleOnly &&
-              currentUser &&
-              (acceptedSubmissions.get(problem.id) || nonAcceptedSubmissions.get(problem.id))
+            submission: submissionMetas && submissionMetas[i]
           };
         })
       ),
@@ -233,6 +321,8 @@ export class ProblemController {
         error: CreateProblemResponseError.FAILED
       };
 
+    await this.problemRevisionService.createProblemRevision(problem, currentUser, ProblemRevisionType.Create);
+
     await this.auditService.log("problem.create", AuditLogObjectType.Problem, problem.id, {
       type: request.type,
       statement: request.statement
@@ -276,7 +366,12 @@ export class ProblemController {
       samples: await this.problemService.getProblemSamples(problem)
     };
 
-    const success = await this.problemService.updateProblemStatement(problem, request, problemTags);
+    const success = await this.problemRevisionService.recordProblemRevision(
+      problem,
+      currentUser,
+      ProblemRevisionType.Statement,
+      async () => await this.problemService.updateProblemStatement(problem, request, problemTags)
+    );
 
     if (!success)
       return {
@@ -315,13 +410,22 @@ export class ProblemController {
         error: GetProblemResponseError.NO_SUCH_PROBLEM
       };
 
-    if (!(await this.problemService.userHasPermission(currentUser, problem, ProblemPermissionType.View)))
+    // Participants of the problem's contests can only read its statement
+    const hasViewPermission = await this.problemService.userHasPermission(
+      currentUser,
+      problem,
+      ProblemPermissionType.View
+    );
+    if (
+      !hasViewPermission &&
+      !(await this.problemService.userHasPermission(currentUser, problem, ProblemPermissionType.View, undefined, true))
+    )
       return {
         error: GetProblemResponseError.PERMISSION_DENIED
       };
 
     const result: GetProblemResponseDto = {
-      meta: await this.problemService.getProblemMeta(problem, request.statistics)
+      meta: await this.problemService.getProblemMeta(problem, request.statistics && hasViewPermission)
     };
 
     const promises: Promise<unknown>[] = [];
@@ -417,9 +521,14 @@ export class ProblemController {
           : this.problemService.getProblemJudgeInfo(problem)
         ).then(tuple => ([result.judgeInfo, result.submittable] = tuple))
       );
+      promises.push(
+        this.problemService
+          .getProblemJudgeResultReuse(problem)
+          .then(reuseJudgeResults => (result.reuseJudgeResults = reuseJudgeResults))
+      );
     }
 
-    if (request.testData) {
+    if (request.testData && hasViewPermission) {
       promises.push(
         this.problemService
           .listProblemFiles(problem, ProblemFileType.TestData, true)
@@ -450,7 +559,7 @@ export class ProblemController {
       );
     }
 
-    if (request.permissions) {
+    if (request.permissions && hasViewPermission) {
       promises.push(
         (async () => {
           const [userPermissions, groupPermissions] = await this.problemService.getProblemPermissions(problem);
@@ -487,10 +596,11 @@ export class ProblemController {
                     problem.id
                   );
 
+            const [lastSubmissionMeta, lastAcceptedSubmissionMeta] =
+              await this.submissionService.getSubmissionBasicMetas([lastSubmission, lastAcceptedSubmission]);
             result.lastSubmission = {
-              lastSubmission: lastSubmission && (await this.submissionService.getSubmissionBasicMeta(lastSubmission)),
-              lastAcceptedSubmission:
-                lastAcceptedSubmission && (await this.submissionService.getSubmissionBasicMeta(lastAcceptedSubmission)),
+              lastSubmission: lastSubmissionMeta,
+              lastAcceptedSubmission: lastAcceptedSubmissionMeta,
               lastSubmissionContent:
                 lastSubmission && (await this.submissionService.getSubmissionDetail(lastSubmission)).content
             };
@@ -662,6 +772,15 @@ export class ProblemController {
 
     if (problem.isPublic === request.isPublic) return {};
 
+    if (
+      request.isPublic &&
+      this.configService.config.preference.serverSideOnly.requireInputValidationBeforePublic &&
+      !(await this.problemInputValidationService.isProblemInputValidationPassed(problem))
+    )
+      return {
+        error: SetProblemPublicResponseError.INPUT_VALIDATION_NOT_PASSED
+      };
+
     await this.problemService.setProblemPublic(problem, request.isPublic);
 
     await this.auditService.log(
@@ -699,12 +818,18 @@ export class ProblemController {
         error: AddProblemFileResponseError.PERMISSION_DENIED
       };
 
-    const result = await this.problemService.addProblemFile(
+    const result = await this.problemRevisionService.recordProblemRevision(
       problem,
-      request.type,
-      request.uploadInfo,
-      request.filename,
-      hasPrivilege
+      currentUser,
+      ProblemRevisionType.TestData,
+      async () =>
+        await this.problemService.addProblemFile(
+          problem,
+          request.type,
+          request.uploadInfo,
+          request.filename,
+          hasPrivilege
+        )
     );
     if (typeof result === "string")
       return {
@@ -744,7 +869,12 @@ export class ProblemController {
         error: RemoveProblemFilesResponseError.PERMISSION_DENIED
       };
 
-    await this.problemService.removeProblemFiles(problem, request.type, request.filenames);
+    await this.problemRevisionService.recordProblemRevision(
+      problem,
+      currentUser,
+      ProblemRevisionType.TestData,
+      async () => await this.problemService.removeProblemFiles(problem, request.type, request.filenames)
+    );
 
     await this.auditService.log("problem.remove_files", AuditLogObjectType.Problem, problem.id, {
       type: request.type,
@@ -769,7 +899,16 @@ export class ProblemController {
         error: DownloadProblemFilesResponseError.NO_SUCH_PROBLEM
       };
 
-    if (!(await this.problemService.userHasPermission(currentUser, problem, ProblemPermissionType.View)))
+    // Participants of the problem's contests can download its additional files but not its test data
+    if (
+      !(await this.problemService.userHasPermission(
+        currentUser,
+        problem,
+        ProblemPermissionType.View,
+        undefined,
+        request.type === ProblemFileType.AdditionalFile
+      ))
+    )
       return {
         error: DownloadProblemFilesResponseError.PERMISSION_DENIED
       };
@@ -813,7 +952,15 @@ export class ProblemController {
         error: RenameProblemFileResponseError.PERMISSION_DENIED
       };
 
-    if (!(await this.problemService.renameProblemFile(problem, request.type, request.filename, request.newFilename)))
+    if (
+      !(await this.problemRevisionService.recordProblemRevision(
+        problem,
+        currentUser,
+        ProblemRevisionType.TestData,
+        async () =>
+          await this.problemService.renameProblemFile(problem, request.type, request.filename, request.newFilename)
+      ))
+    )
       return {
         error: RenameProblemFileResponseError.NO_SUCH_FILE
       };
@@ -854,11 +1001,12 @@ export class ProblemController {
 
     const old = await this.problemService.getProblemJudgeInfo(problem);
 
-    const judgeInfoError = await this.problemService.updateProblemJudgeInfo(
+    const judgeInfoError = await this.problemRevisionService.recordProblemRevision(
       problem,
-      request.judgeInfo,
-      request.submittable,
-      hasPrivilege
+      currentUser,
+      ProblemRevisionType.JudgeInfo,
+      async () =>
+        await this.problemService.updateProblemJudgeInfo(problem, request.judgeInfo, request.submittable, hasPrivilege)
     );
     if (judgeInfoError)
       return {
@@ -874,6 +1022,274 @@ export class ProblemController {
     return {};
   }
 
+  @Post("getProblemRejudgePolicy")
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: "Get a problem's rejudge policy and the number of submissions judged against outdated data."
+  })
+  async getProblemRejudgePolicy(
+    @CurrentUser() currentUser: UserEntity,
+    @Body() request: GetProblemRejudgePolicyRequestDto
+  ): Promise<GetProblemRejudgePolicyResponseDto> {
+    const problem = await this.problemService.findProblemById(request.problemId);
+    if (!problem)
+      return {
+        error: GetProblemRejudgePolicyResponseError.NO_SUCH_PROBLEM
+      };
+
+    if (!(await this.problemService.userHasPermission(currentUser, problem, ProblemPermissionType.Modify)))
+      return {
+        error: GetProblemRejudgePolicyResponseError.PERMISSION_DENIED
+      };
+
+    const [rejudgePolicy, judgeDataRevision, outdatedSubmissionCount] = await Promise.all([
+      this.problemService.getProblemRejudgePolicy(problem),
+      this.problemService.getProblemJudgeDataRevision(problem),
+      this.rejudgeJobService.countMatchedSubmissions(problem, { outdatedOnly: true })
+    ]);
+
+    return {
+      rejudgePolicy,
+      judgeDataRevision,
+      outdatedSubmissionCount
+    };
+  }
+
+  @Post("setProblemRejudgePolicy")
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: "Set what to do with the existing submissions when a problem's judge info or testdata is changed."
+  })
+  async setProblemRejudgePolicy(
+    @CurrentUser() currentUser: UserEntity,
+    @Body() request: SetProblemRejudgePolicyRequestDto
+  ): Promise<SetProblemRejudgePolicyResponseDto> {
+    const problem = await this.problemService.findProblemById(request.problemId);
+    if (!problem)
+      return {
+        error: SetProblemRejudgePolicyResponseError.NO_SUCH_PROBLEM
+      };
+
+    if (!(await this.problemService.userHasPermission(currentUser, problem, ProblemPermissionType.Modify)))
+      return {
+        error: SetProblemRejudgePolicyResponseError.PERMISSION_DENIED
+      };
+
+    const oldRejudgePolicy = await this.problemService.getProblemRejudgePolicy(problem);
+    await this.problemService.setProblemRejudgePolicy(problem, request.rejudgePolicy);
+
+    await this.auditService.log("problem.set_rejudge_policy", AuditLogObjectType.Problem, problem.id, {
+      oldRejudgePolicy,
+      newRejudgePolicy: request.rejudgePolicy
+    });
+
+    return {};
+  }
+
+  @Post("setProblemJudgeResultReuse")
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: "Set whether new submissions to a problem could be finished with results of identical submissions.",
+    description: "Disable it for problems with nondeterministic checkers or interactors."
+  })
+  async setProblemJudgeResultReuse(
+    @CurrentUser() currentUser: UserEntity,
+    @Body() request: SetProblemJudgeResultReuseRequestDto
+  ): Promise<SetProblemJudgeResultReuseResponseDto> {
+    const problem = await this.problemService.findProblemById(request.problemId);
+    if (!problem)
+      return {
+        error: SetProblemJudgeResultReuseResponseError.NO_SUCH_PROBLEM
+      };
+
+    if (!(await this.problemService.userHasPermission(currentUser, problem, ProblemPermissionType.Modify)))
+      return {
+        error: SetProblemJudgeResultReuseResponseError.PERMISSION_DENIED
+      };
+
+    await this.problemService.setProblemJudgeResultReuse(problem, request.reuseJudgeResults);
+
+    await this.auditService.log("problem.set_judge_result_reuse", AuditLogObjectType.Problem, problem.id, {
+      reuseJudgeResults: request.reuseJudgeResults
+    });
+
+    return {};
+  }
+
+  @Post("getProblemAnalytics")
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary:
+      "Get the status, score, language and time distributions of a problem's submissions, " +
+      "with the first-try acceptance rate and median attempts before accepted."
+  })
+  async getProblemAnalytics(
+    @CurrentUser() currentUser: UserEntity,
+    @Body() request: GetProblemAnalyticsRequestDto
+  ): Promise<GetProblemAnalyticsResponseDto> {
+    const problem = await this.problemService.findProblemById(request.problemId);
+    if (!problem)
+      return {
+        error: GetProblemAnalyticsResponseError.NO_SUCH_PROBLEM
+      };
+
+    if (!(await this.problemService.userHasPermission(currentUser, problem, ProblemPermissionType.View)))
+      return {
+        error: GetProblemAnalyticsResponseError.PERMISSION_DENIED
+      };
+
+    return {
+      analytics: await this.submissionStatisticsService.queryProblemAnalytics(problem)
+    };
+  }
+
+  @Post("getProblemTestcaseStatistics")
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: "Get how many submissions failed on each testcase of a problem's current testdata.",
+    description: "Samples are not included. Submissions judged against outdated testdata are not counted."
+  })
+  async getProblemTestcaseStatistics(
+    @CurrentUser() currentUser: UserEntity,
+    @Body() request: GetProblemTestcaseStatisticsRequestDto
+  ): Promise<GetProblemTestcaseStatisticsResponseDto> {
+    const problem = await this.problemService.findProblemById(request.problemId);
+    if (!problem)
+      return {
+        error: GetProblemTestcaseStatisticsResponseError.NO_SUCH_PROBLEM
+      };
+
+    if (!(await this.problemService.userHasPermission(currentUser, problem, ProblemPermissionType.Modify)))
+      return {
+        error: GetProblemTestcaseStatisticsResponseError.PERMISSION_DENIED
+      };
+
+    const testcases = await this.submissionTestcaseStatisticsService.getProblemTestcaseStatistics(problem);
+    return {
+      testcases: testcases.map(testcase => ({
+        inputFile: testcase.inputFile || null,
+        outputFile: testcase.outputFile || null,
+        submissionCount: testcase.submissionCount,
+        failedSubmissionCount: testcase.failedSubmissionCount,
+        firstFailedSubmissionCount: testcase.firstFailedSubmissionCount,
+        acceptedSubmissionCount: testcase.acceptedSubmissionCount,
+        maxTimeUsedByAccepted: testcase.maxTimeUsedByAccepted
+      }))
+    };
+  }
+
+  @Post("setProblemReferenceSubmissions")
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: "Mark the reference submissions of a problem, which are used to recommend the time and memory limits."
+  })
+  async setProblemReferenceSubmissions(
+    @CurrentUser() currentUser: UserEntity,
+    @Body() request: SetProblemReferenceSubmissionsRequestDto
+  ): Promise<SetProblemReferenceSubmissionsResponseDto> {
+    const problem = await this.problemService.findProblemById(request.problemId);
+    if (!problem)
+      return {
+        error: SetProblemReferenceSubmissionsResponseError.NO_SUCH_PROBLEM
+      };
+
+    if (!(await this.problemService.userHasPermission(currentUser, problem, ProblemPermissionType.Modify)))
+      return {
+        error: SetProblemReferenceSubmissionsResponseError.PERMISSION_DENIED
+      };
+
+    const submissionIds = Array.from(new Set(request.submissionIds));
+    const submissions = await this.submissionService.findSubmissionsByExistingIds(submissionIds);
+    const errorIndex = submissions.findIndex(submission => !submission || submission.problemId !== problem.id);
+    if (errorIndex !== -1)
+      return {
+        error: SetProblemReferenceSubmissionsResponseError.NO_SUCH_SUBMISSION,
+        errorSubmissionId: submissionIds[errorIndex]
+      };
+
+    const oldSubmissionIds = await this.problemService.getProblemReferenceSubmissionIds(problem);
+    await this.problemService.setProblemReferenceSubmissionIds(problem, submissionIds);
+
+    await this.auditService.log("problem.set_reference_submissions", AuditLogObjectType.Problem, problem.id, {
+      oldSubmissionIds,
+      newSubmissionIds: submissionIds
+    });
+
+    return {};
+  }
+
+  @Post("getProblemLimitRecommendation")
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: "Recommend the time and memory limits of a problem from the reference or fastest accepted submissions.",
+    description: "Optionally apply them to the problem's judge info."
+  })
+  async getProblemLimitRecommendation(
+    @CurrentUser() currentUser: UserEntity,
+    @Body() request: GetProblemLimitRecommendationRequestDto
+  ): Promise<GetProblemLimitRecommendationResponseDto> {
+    const problem = await this.problemService.findProblemById(request.problemId);
+    if (!problem)
+      return {
+        error: GetProblemLimitRecommendationResponseError.NO_SUCH_PROBLEM
+      };
+
+    const hasPrivilege = await this.userPrivilegeService.userHasPrivilege(currentUser, UserPrivilegeType.ManageProblem);
+
+    if (
+      !(await this.problemService.userHasPermission(currentUser, problem, ProblemPermissionType.Modify, hasPrivilege))
+    )
+      return {
+        error: GetProblemLimitRecommendationResponseError.PERMISSION_DENIED
+      };
+
+    if (!LIMIT_RECOMMENDATION_SUPPORTED_PROBLEM_TYPES.includes(problem.type))
+      return {
+        error: GetProblemLimitRecommendationResponseError.PROBLEM_TYPE_NOT_SUPPORTED
+      };
+
+    const recommendation = await this.problemLimitRecommendationService.getProblemLimitRecommendation(problem);
+    if (!request.apply)
+      return {
+        recommendation
+      };
+
+    if (recommendation.timeLimit == null)
+      return {
+        error: GetProblemLimitRecommendationResponseError.NO_SUBMISSIONS,
+        recommendation
+      };
+
+    const old = await this.problemService.getProblemJudgeInfo(problem);
+
+    const judgeInfoError = await this.problemRevisionService.recordProblemRevision(
+      problem,
+      currentUser,
+      ProblemRevisionType.JudgeInfo,
+      async () =>
+        await this.problemLimitRecommendationService.applyProblemLimitRecommendation(
+          problem,
+          recommendation,
+          hasPrivilege
+        )
+    );
+    if (judgeInfoError)
+      return {
+        error: GetProblemLimitRecommendationResponseError.INVALID_JUDGE_INFO,
+        judgeInfoError,
+        recommendation
+      };
+
+    await this.auditService.log("problem.update_judge_info", AuditLogObjectType.Problem, problem.id, {
+      old,
+      new: await this.problemService.getProblemJudgeInfo(problem)
+    });
+
+    return {
+      recommendation
+    };
+  }
+
   @Post("getAllProblemTags")
   @ApiBearerAuth()
   @ApiOperation({
@@ -1127,7 +1543,14 @@ export class ProblemController {
         const oldType = problem.type;
         const [oldJudgeInfo] = await this.problemService.getProblemJudgeInfo(problem);
 
-        if (!(await this.problemService.changeProblemType(problem, request.type)))
+        if (
+          !(await this.problemRevisionService.recordProblemRevision(
+            problem,
+            currentUser,
+            ProblemRevisionType.Type,
+            async () => await this.problemService.changeProblemType(problem, request.type)
+          ))
+        )
           return {
             error: ChangeProblemTypeResponseError.PROBLEM_HAS_SUBMISSION
           };
@@ -1141,4 +1564,433 @@ export class ProblemController {
       }
     );
   }
+
+  @Post("setProblemDifficulty")
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: "Pin a manual difficulty of a problem, which overrides the computed one.",
+    description: "Requires ManageProblem privilege."
+  })
+  async setProblemDifficulty(
+    @CurrentUser() currentUser: UserEntity,
+    @Body() request: SetProblemDifficultyRequestDto
+  ): Promise<SetProblemDifficultyResponseDto> {
+    if (!(await this.userPrivilegeService.userHasPrivilege(currentUser, UserPrivilegeType.ManageProblem)))
+      return {
+        error: SetProblemDifficultyResponseError.PERMISSION_DENIED
+      };
+
+    const problem = await this.problemService.findProblemById(request.problemId);
+    if (!problem)
+      return {
+        error: SetProblemDifficultyResponseError.NO_SUCH_PROBLEM
+      };
+
+    const newDifficulty = request.difficulty ?? null;
+    if (problem.manualDifficulty === newDifficulty) return {};
+
+    await this.problemDifficultyService.setProblemManualDifficulty(problem, newDifficulty);
+
+    await this.auditService.log("problem.set_difficulty", AuditLogObjectType.Problem, problem.id, {
+      oldDifficulty: problem.manualDifficulty,
+      newDifficulty
+    });
+
+    return {};
+  }
+
+  @Post("exportProblem")
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: "Export a problem's statement, samples, judge info, tags and files to a ZIP archive in background.",
+    description: "The archive could be imported with `importProblem`, e.g. to another instance."
+  })
+  async exportProblem(
+    @CurrentUser() currentUser: UserEntity,
+    @Body() request: ExportProblemRequestDto
+  ): Promise<ExportProblemResponseDto> {
+    const problem = await this.problemService.findProblemById(request.problemId);
+    if (!problem)
+      return {
+        error: ExportProblemResponseError.NO_SUCH_PROBLEM
+      };
+
+    if (!(await this.problemService.userHasPermission(currentUser, problem, ProblemPermissionType.Modify)))
+      return {
+        error: ExportProblemResponseError.PERMISSION_DENIED
+      };
+
+    const job = await this.problemArchiveService.createProblemExportJob(currentUser, problem);
+
+    await this.auditService.log("problem.export", AuditLogObjectType.Problem, problem.id, {
+      jobId: job.id
+    });
+
+    return {
+      jobId: job.id
+    };
+  }
+
+  @Post("importProblem")
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: "Upload a problem archive and import it as a new problem in background.",
+    description:
+      "Call it without the file UUID to get the signed upload request, and call it again with the UUID after uploaded."
+  })
+  async importProblem(
+    @CurrentUser() currentUser: UserEntity,
+    @Body() request: ImportProblemRequestDto
+  ): Promise<ImportProblemResponseDto> {
+    if (!(await this.problemService.userHasCreateProblemPermission(currentUser)))
+      return {
+        error: ImportProblemResponseError.PERMISSION_DENIED
+      };
+
+    const hasPrivilege = await this.userPrivilegeService.userHasPrivilege(currentUser, UserPrivilegeType.ManageProblem);
+    const result = await this.problemArchiveService.createProblemImportJob(
+      currentUser,
+      request.uploadInfo,
+      request.format ?? ProblemArchiveFormat.Lyrio,
+      request.locale ?? Locale.en_US,
+      hasPrivilege
+    );
+    if (typeof result === "string")
+      return {
+        error: ImportProblemResponseError[result]
+      };
+    if (!(result instanceof ProblemArchiveJobEntity))
+      return {
+        signedUploadRequest: result
+      };
+
+    await this.auditService.log("problem.import", {
+      jobId: result.id,
+      format: result.format
+    });
+
+    return {
+      jobId: result.id
+    };
+  }
+
+  @Post("getProblemArchiveJob")
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: "Get the progress of a problem export or import job created by the current user."
+  })
+  async getProblemArchiveJob(
+    @CurrentUser() currentUser: UserEntity,
+    @Body() request: GetProblemArchiveJobRequestDto
+  ): Promise<GetProblemArchiveJobResponseDto> {
+    const job = await this.problemArchiveService.findProblemArchiveJobById(request.jobId);
+    if (!job)
+      return {
+        error: GetProblemArchiveJobResponseError.NO_SUCH_PROBLEM_ARCHIVE_JOB
+      };
+
+    if (!currentUser || currentUser.id !== job.creatorId)
+      return {
+        error: GetProblemArchiveJobResponseError.PERMISSION_DENIED
+      };
+
+    return {
+      type: job.type,
+      format: job.format,
+      status: job.status,
+      jobError: job.error,
+      jobErrorDetails: job.errorDetails,
+      warnings: job.warnings,
+      problemId: job.problemId,
+      processedFileCount: job.processedFileCount,
+      totalFileCount: job.totalFileCount,
+      createTime: job.createTime,
+      finishTime: job.finishTime,
+      downloadUrl: await this.problemArchiveService.getProblemExportJobDownloadUrl(job)
+    };
+  }
+
+  @Post("listProblemRevisions")
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: "List the revisions of a problem, from the latest."
+  })
+  async listProblemRevisions(
+    @CurrentUser() currentUser: UserEntity,
+    @Body() request: ListProblemRevisionsRequestDto
+  ): Promise<ListProblemRevisionsResponseDto> {
+    if (request.takeCount > this.configService.config.queryLimit.problemRevisions)
+      return {
+        error: ListProblemRevisionsResponseError.TAKE_TOO_MANY
+      };
+
+    const problem = await this.problemService.findProblemById(request.problemId);
+    if (!problem)
+      return {
+        error: ListProblemRevisionsResponseError.NO_SUCH_PROBLEM
+      };
+
+    if (!(await this.problemService.userHasPermission(currentUser, problem, ProblemPermissionType.Modify)))
+      return {
+        error: ListProblemRevisionsResponseError.PERMISSION_DENIED
+      };
+
+    const [revisions, count] = await this.problemRevisionService.listProblemRevisions(
+      problem,
+      request.skipCount,
+      request.takeCount
+    );
+
+    return {
+      revisions: await Promise.all(
+        revisions.map(revision => this.problemRevisionService.getProblemRevisionMeta(revision, currentUser))
+      ),
+      count
+    };
+  }
+
+  @Post("diffProblemRevisions")
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: "Diff two revisions of a problem with jsondiffpatch."
+  })
+  async diffProblemRevisions(
+    @CurrentUser() currentUser: UserEntity,
+    @Body() request: DiffProblemRevisionsRequestDto
+  ): Promise<DiffProblemRevisionsResponseDto> {
+    const problem = await this.problemService.findProblemById(request.problemId);
+    if (!problem)
+      return {
+        error: DiffProblemRevisionsResponseError.NO_SUCH_PROBLEM
+      };
+
+    if (!(await this.problemService.userHasPermission(currentUser, problem, ProblemPermissionType.Modify)))
+      return {
+        error: DiffProblemRevisionsResponseError.PERMISSION_DENIED
+      };
+
+    const revision = await this.problemRevisionService.findProblemRevisionById(request.revisionId);
+    const oldRevision =
+      request.oldRevisionId == null
+        ? revision && (await this.problemRevisionService.findPreviousProblemRevision(revision))
+        : await this.problemRevisionService.findProblemRevisionById(request.oldRevisionId);
+    if (revision?.problemId !== problem.id || (request.oldRevisionId != null && oldRevision?.problemId !== problem.id))
+      return {
+        error: DiffProblemRevisionsResponseError.NO_SUCH_REVISION
+      };
+
+    return {
+      oldRevision: oldRevision && (await this.problemRevisionService.getProblemRevisionMeta(oldRevision, currentUser)),
+      revision: await this.problemRevisionService.getProblemRevisionMeta(revision, currentUser),
+      delta: this.problemRevisionService.diffProblemRevisions(oldRevision, revision)
+    };
+  }
+
+  @Post("restoreProblemRevision")
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: "Restore a problem's statement, judge info and testdata to a revision.",
+    description: "The tags are not restored. Restoring a revision of another problem type requires Delete permission."
+  })
+  async restoreProblemRevision(
+    @CurrentUser() currentUser: UserEntity,
+    @Body() request: RestoreProblemRevisionRequestDto
+  ): Promise<RestoreProblemRevisionResponseDto> {
+    const problem = await this.problemService.findProblemById(request.problemId);
+    if (!problem)
+      return {
+        error: RestoreProblemRevisionResponseError.NO_SUCH_PROBLEM
+      };
+
+    const hasPrivilege = await this.userPrivilegeService.userHasPrivilege(currentUser, UserPrivilegeType.ManageProblem);
+
+    if (
+      !(await this.problemService.userHasPermission(currentUser, problem, ProblemPermissionType.Modify, hasPrivilege))
+    )
+      return {
+        error: RestoreProblemRevisionResponseError.PERMISSION_DENIED
+      };
+
+    const revision = await this.problemRevisionService.findProblemRevisionById(request.revisionId);
+    if (revision?.problemId !== problem.id)
+      return {
+        error: RestoreProblemRevisionResponseError.NO_SUCH_REVISION
+      };
+
+    // Same as changing the problem's type
+    if (
+      revision.data.type !== problem.type &&
+      !(await this.problemService.userHasPermission(currentUser, problem, ProblemPermissionType.Delete, hasPrivilege))
+    )
+      return {
+        error: RestoreProblemRevisionResponseError.PERMISSION_DENIED
+      };
+
+    const [error, judgeInfoError] = await this.problemRevisionService.restoreProblemRevision(
+      problem,
+      revision,
+      currentUser,
+      hasPrivilege
+    );
+    if (error)
+      return {
+        error: RestoreProblemRevisionResponseError[error],
+        judgeInfoError
+      };
+
+    await this.auditService.log("problem.restore_revision", AuditLogObjectType.Problem, problem.id, {
+      revisionId: revision.id
+    });
+
+    return {};
+  }
+
+  @Post("startProblemInputValidation")
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: "Run the problem's validator on all input files of its testdata.",
+    description: "The previous validation of the problem is replaced."
+  })
+  async startProblemInputValidation(
+    @CurrentUser() currentUser: UserEntity,
+    @Body() request: StartProblemInputValidationRequestDto
+  ): Promise<StartProblemInputValidationResponseDto> {
+    const problem = await this.problemService.findProblemById(request.problemId);
+    if (!problem)
+      return {
+        error: StartProblemInputValidationResponseError.NO_SUCH_PROBLEM
+      };
+
+    if (!(await this.problemService.userHasPermission(currentUser, problem, ProblemPermissionType.Modify)))
+      return {
+        error: StartProblemInputValidationResponseError.PERMISSION_DENIED
+      };
+
+    if (!(await this.problemInputValidationService.startProblemInputValidation(problem, currentUser)))
+      return {
+        error: StartProblemInputValidationResponseError.NO_VALIDATOR
+      };
+
+    return {};
+  }
+
+  @Post("getProblemInputValidation")
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: "Get the status and per-file results of the problem's latest input validation."
+  })
+  async getProblemInputValidation(
+    @CurrentUser() currentUser: UserEntity,
+    @Body() request: GetProblemInputValidationRequestDto
+  ): Promise<GetProblemInputValidationResponseDto> {
+    const problem = await this.problemService.findProblemById(request.problemId);
+    if (!problem)
+      return {
+        error: GetProblemInputValidationResponseError.NO_SUCH_PROBLEM
+      };
+
+    if (!(await this.problemService.userHasPermission(currentUser, problem, ProblemPermissionType.Modify)))
+      return {
+        error: GetProblemInputValidationResponseError.PERMISSION_DENIED
+      };
+
+    const validation = await this.problemInputValidationService.findProblemInputValidation(problem);
+    if (!validation)
+      return {
+        validation: null
+      };
+
+    return {
+      validation: {
+        status: validation.status,
+        outdated: validation.judgeDataRevision !== (await this.problemService.getProblemJudgeDataRevision(problem)),
+        result: validation.result,
+        startTime: validation.startTime,
+        finishTime: validation.finishTime
+      }
+    };
+  }
+
+  @Post("startProblemAnswerGeneration")
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: "Generate output files by running a reference solution on input files of the problem's testdata.",
+    description:
+      "The input files could also be generated by a generator. The programs must be files in the problem's testdata. " +
+      "The generated files are added to the testdata when finished. The previous run of the problem is replaced."
+  })
+  async startProblemAnswerGeneration(
+    @CurrentUser() currentUser: UserEntity,
+    @Body() request: StartProblemAnswerGenerationRequestDto
+  ): Promise<StartProblemAnswerGenerationResponseDto> {
+    const problem = await this.problemService.findProblemById(request.problemId);
+    if (!problem)
+      return {
+        error: StartProblemAnswerGenerationResponseError.NO_SUCH_PROBLEM
+      };
+
+    if (!(await this.problemService.userHasPermission(currentUser, problem, ProblemPermissionType.Modify)))
+      return {
+        error: StartProblemAnswerGenerationResponseError.PERMISSION_DENIED
+      };
+
+    if (!ANSWER_GENERATION_SUPPORTED_PROBLEM_TYPES.includes(problem.type))
+      return {
+        error: StartProblemAnswerGenerationResponseError.PROBLEM_TYPE_NOT_SUPPORTED
+      };
+
+    const [error, errorFilename] = await this.problemAnswerGenerationService.startProblemAnswerGeneration(
+      problem,
+      request.config,
+      currentUser
+    );
+    if (error)
+      return {
+        error: StartProblemAnswerGenerationResponseError[error],
+        errorFilename
+      };
+
+    await this.auditService.log("problem.start_answer_generation", AuditLogObjectType.Problem, problem.id, {
+      config: request.config
+    });
+
+    return {};
+  }
+
+  @Post("getProblemAnswerGeneration")
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: "Get the status and per-file results of the problem's latest answer generation."
+  })
+  async getProblemAnswerGeneration(
+    @CurrentUser() currentUser: UserEntity,
+    @Body() request: GetProblemAnswerGenerationRequestDto
+  ): Promise<GetProblemAnswerGenerationResponseDto> {
+    const problem = await this.problemService.findProblemById(request.problemId);
+    if (!problem)
+      return {
+        error: GetProblemAnswerGenerationResponseError.NO_SUCH_PROBLEM
+      };
+
+    if (!(await this.problemService.userHasPermission(currentUser, problem, ProblemPermissionType.Modify)))
+      return {
+        error: GetProblemAnswerGenerationResponseError.PERMISSION_DENIED
+      };
+
+    const generation = await this.problemAnswerGenerationService.findProblemAnswerGeneration(problem);
+    if (!generation)
+      return {
+        generation: null
+      };
+
+    return {
+      generation: {
+        status: generation.status,
+        config: generation.config,
+        result: generation.result,
+        startTime: generation.startTime,
+        finishTime: generation.finishTime
+      }
+    };
+  }
 }
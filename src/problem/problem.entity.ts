@@ -56,6 +56,19 @@ export class ProblemEntity {
   @Column({ type: "integer" })
   acceptedSubmissionCount: number;
 
+  // Estimated from the ratings of the users attempted the problem, see `ProblemDifficultyService`
+  @Column({ type: "integer", nullable: true })
+  computedDifficulty: number;
+
+  // Pinned by admins, overrides the computed difficulty
+  @Column({ type: "integer", nullable: true })
+  manualDifficulty: number;
+
+  // The manual difficulty if pinned, otherwise the computed difficulty
+  @Column({ type: "integer", nullable: true })
+  @Index()
+  difficulty: number;
+
   @OneToOne(() => ProblemSampleEntity, problemSample => problemSample.problem)
   sample: Promise<ProblemSampleEntity>;
 
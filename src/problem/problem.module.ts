@@ -11,8 +11,18 @@ import { SubmissionModule } from "@/submission/submission.module";
 import { ProblemTypeModule } from "@/problem-type/problem-type.module";
 import { AuditModule } from "@/audit/audit.module";
 import { DiscussionModule } from "@/discussion/discussion.module";
+import { ClusterModule } from "@/cluster/cluster.module";
+import { JudgeModule } from "@/judge/judge.module";
+import { CodeLanguageModule } from "@/code-language/code-language.module";
+import { ContestModule } from "@/contest/contest.module";
 
 import { ProblemService } from "./problem.service";
+import { ProblemLimitRecommendationService } from "./problem-limit-recommendation.service";
+import { ProblemDifficultyService } from "./problem-difficulty.service";
+import { ProblemArchiveService } from "./problem-archive.service";
+import { ProblemRevisionService } from "./problem-revision.service";
+import { ProblemInputValidationService } from "./problem-input-validation.service";
+import { ProblemAnswerGenerationService } from "./problem-answer-generation.service";
 import { ProblemController } from "./problem.controller";
 import { ProblemTagMapEntity } from "./problem-tag-map.entity";
 import { ProblemTagEntity } from "./problem-tag.entity";
@@ -20,6 +30,11 @@ import { ProblemFileEntity } from "./problem-file.entity";
 import { ProblemSampleEntity } from "./problem-sample.entity";
 import { ProblemJudgeInfoEntity } from "./problem-judge-info.entity";
 import { ProblemEntity } from "./problem.entity";
+import { ProblemArchiveJobEntity } from "./problem-archive-job.entity";
+import { ProblemRevisionEntity } from "./problem-revision.entity";
+import { ProblemRevisionFileEntity } from "./problem-revision-file.entity";
+import { ProblemInputValidationEntity } from "./problem-input-validation.entity";
+import { ProblemAnswerGenerationEntity } from "./problem-answer-generation.entity";
 
 @Module({
   imports: [
@@ -29,6 +44,11 @@ import { ProblemEntity } from "./problem.entity";
     TypeOrmModule.forFeature([ProblemFileEntity]),
     TypeOrmModule.forFeature([ProblemTagEntity]),
     TypeOrmModule.forFeature([ProblemTagMapEntity]),
+    TypeOrmModule.forFeature([ProblemArchiveJobEntity]),
+    TypeOrmModule.forFeature([ProblemRevisionEntity]),
+    TypeOrmModule.forFeature([ProblemRevisionFileEntity]),
+    TypeOrmModule.forFeature([ProblemInputValidationEntity]),
+    TypeOrmModule.forFeature([ProblemAnswerGenerationEntity]),
     forwardRef(() => LocalizedContentModule),
     forwardRef(() => UserModule),
     forwardRef(() => GroupModule),
@@ -38,10 +58,22 @@ import { ProblemEntity } from "./problem.entity";
     forwardRef(() => SubmissionModule),
     forwardRef(() => ProblemTypeModule),
     forwardRef(() => AuditModule),
-    forwardRef(() => DiscussionModule)
+    forwardRef(() => DiscussionModule),
+    forwardRef(() => JudgeModule),
+    forwardRef(() => ContestModule),
+    CodeLanguageModule,
+    ClusterModule
+  ],
+  providers: [
+    ProblemService,
+    ProblemLimitRecommendationService,
+    ProblemDifficultyService,
+    ProblemArchiveService,
+    ProblemRevisionService,
+    ProblemInputValidationService,
+    ProblemAnswerGenerationService
   ],
-  providers: [ProblemService],
   controllers: [ProblemController],
-  exports: [ProblemService]
+  exports: [ProblemService, ProblemRevisionService]
 })
 export class ProblemModule {}
@@ -1,3 +1,5 @@
+import { Readable } from "stream";
+
 import { Injectable, forwardRef, Inject } from "@nestjs/common";
 import { InjectDataSource, InjectRepository } from "@nestjs/typeorm";
 
@@ -17,6 +19,8 @@ import { ConfigService } from "@/config/config.service";
 import { RedisService } from "@/redis/redis.service";
 import { LockService } from "@/redis/lock.service";
 import { SubmissionService } from "@/submission/submission.service";
+import { ContestService } from "@/contest/contest.service";
+import { RejudgeJobService } from "@/submission/rejudge-job.service";
 import { AuditLogObjectType, AuditService } from "@/audit/audit.service";
 import { ProblemTypeFactoryService } from "@/problem-type/problem-type-factory.service";
 import { FileEntity } from "@/file/file.entity";
@@ -31,6 +35,9 @@ import { ProblemFileType, ProblemFileEntity } from "./problem-file.entity";
 import { ProblemSampleEntity } from "./problem-sample.entity";
 import { ProblemJudgeInfoEntity } from "./problem-judge-info.entity";
 import { ProblemEntity, ProblemType } from "./problem.entity";
+import { ProblemRejudgePolicy } from "./problem-rejudge-policy.enum";
+import { ProblemQuerySortBy } from "./problem-query-sort-by.enum";
+import { ProblemRevisionService } from "./problem-revision.service";
 
 import { FileUploadInfoDto, SignedFileUploadRequestDto } from "@/file/dto";
 
@@ -89,10 +96,16 @@ export class ProblemService {
     private readonly fileService: FileService,
     @Inject(forwardRef(() => SubmissionService))
     private readonly submissionService: SubmissionService,
+    @Inject(forwardRef(() => RejudgeJobService))
+    private readonly rejudgeJobService: RejudgeJobService,
     private readonly configService: ConfigService,
     private readonly redisService: RedisService,
     private readonly lockService: LockService,
-    private readonly auditService: AuditService
+    private readonly auditService: AuditService,
+    @Inject(forwardRef(() => ProblemRevisionService))
+    private readonly problemRevisionService: ProblemRevisionService,
+    @Inject(forwardRef(() => ContestService))
+    private readonly contestService: ContestService
   ) {
     this.auditService.registerObjectTypeQueryHandler(AuditLogObjectType.Problem, async (problemId, locale) => {
       const problem = await this.findProblemById(problemId);
@@ -142,32 +155,45 @@ export class ProblemService {
     if (includeStatistics) {
       meta.acceptedSubmissionCount = problem.acceptedSubmissionCount;
       meta.submissionCount = problem.submissionCount;
+      meta.difficulty = problem.difficulty;
     }
 
     return meta;
   }
 
+  /**
+   * @param includeContests Whether to grant the registered participants of the problem's started contests the `View`
+   * permission. Only the paths to read the statement and judge code against it opt in, since it's not limited to the
+   * contest's time and doesn't cover the problem's test data, analytics or other submissions.
+   */
   async userHasPermission(
     user: UserEntity,
     problem: ProblemEntity,
     type: ProblemPermissionType,
-    hasPrivilege?: boolean
+    hasPrivilege?: boolean,
+    includeContests = false
   ): Promise<boolean> {
     switch (type) {
       // Everyone can view a public problem
       // Owner, admins and those who has read permission can view a non-public problem
+      // Registered participants of a started contest can view its problems, where it's requested
       case ProblemPermissionType.View:
         if (problem.isPublic) return true;
         if (user && user.id === problem.ownerId) return true;
         if (hasPrivilege ?? (await this.userPrivilegeService.userHasPrivilege(user, UserPrivilegeType.ManageProblem)))
           return true;
-        else
-          return await this.permissionService.userOrItsGroupsHavePermission(
+        if (
+          await this.permissionService.userOrItsGroupsHavePermission(
             user,
             problem.id,
             PermissionObjectType.Problem,
             ProblemPermissionLevel.Read
-          );
+          )
+        )
+          return true;
+        return (
+          includeContests && (await this.contestService.userIsParticipantOfStartedContestWithProblem(user, problem))
+        );
 
       // Owner, admins and those who has write permission can modify a problem
       case ProblemPermissionType.Modify:
@@ -246,7 +272,12 @@ export class ProblemService {
       PermissionObjectType.Problem
     );
     const result: ProblemPermissionType[] = [];
-    if (problem.isPublic || permissionLevel >= ProblemPermissionLevel.Read || problem.ownerId === user.id)
+    if (
+      problem.isPublic ||
+      permissionLevel >= ProblemPermissionLevel.Read ||
+      problem.ownerId === user.id ||
+      (await this.contestService.userIsParticipantOfStartedContestWithProblem(user, problem))
+    )
       result.push(ProblemPermissionType.View);
     if (
       (problem.ownerId === user.id || permissionLevel >= ProblemPermissionLevel.Write) &&
@@ -289,6 +320,10 @@ export class ProblemService {
     tagIds: number[],
     ownerId: number,
     nonpublic: boolean,
+    difficultyFrom: number,
+    difficultyTo: number,
+    sortBy: ProblemQuerySortBy,
+    sortOrder: "ASC" | "DESC",
     skipCount: number,
     takeCount: number
   ): Promise<[problems: ProblemEntity[], count: number]> {
@@ -331,6 +366,12 @@ export class ProblemService {
     if (ownerId) {
       queryBuilder.andWhere("problem.ownerId = :ownerId", { ownerId });
     }
+    if (difficultyFrom != null) {
+      queryBuilder.andWhere("problem.difficulty >= :difficultyFrom", { difficultyFrom });
+    }
+    if (difficultyTo != null) {
+      queryBuilder.andWhere("problem.difficulty <= :difficultyTo", { difficultyTo });
+    }
 
     // QueryBuilder.getManyAndCount() has bug with GROUP BY
     const count = Number(
@@ -344,10 +385,18 @@ export class ProblemService {
       ).count
     );
 
-    queryBuilder
-      .orderBy("problem.displayId IS NOT NULL", "DESC")
-      .addOrderBy("problem.displayId", "ASC")
-      .addOrderBy("problem.id", "ASC");
+    if (sortBy === ProblemQuerySortBy.Difficulty)
+      queryBuilder
+        .orderBy("problem.difficulty IS NOT NULL", "DESC")
+        .addOrderBy("problem.difficulty", sortOrder || "ASC")
+        .addOrderBy("problem.displayId IS NOT NULL", "DESC")
+        .addOrderBy("problem.displayId", "ASC")
+        .addOrderBy("problem.id", "ASC");
+    else
+      queryBuilder
+        .orderBy("problem.displayId IS NOT NULL", "DESC")
+        .addOrderBy("problem.displayId", sortOrder || "ASC")
+        .addOrderBy("problem.id", sortOrder || "ASC");
     const result = await queryBuilder.limit(takeCount).offset(skipCount).getRawMany();
     return [await this.findProblemsByExistingIds(result.map(row => row.id)), count];
   }
@@ -380,6 +429,9 @@ export class ProblemService {
       problem.locales = statement.localizedContents.map(localizedContent => localizedContent.locale);
       problem.submissionCount = 0;
       problem.acceptedSubmissionCount = 0;
+      problem.computedDifficulty = null;
+      problem.manualDifficulty = null;
+      problem.difficulty = null;
       await transactionalEntityManager.save(problem);
 
       const problemJudgeInfo = new ProblemJudgeInfoEntity();
@@ -503,11 +555,90 @@ export class ProblemService {
     problemJudgeInfo.submittable = submittable;
     await this.problemJudgeInfoRepository.save(problemJudgeInfo);
 
-    await this.redisService.cacheDelete(REDIS_KEY_PROBLEM_PREPROCESSED_JUDGE_INFO.format(problem.id));
+    await this.onProblemJudgeDataUpdated(problem);
 
     return null;
   }
 
+  /**
+   * Called after the problem's judge info or testdata is changed.
+   */
+  private async onProblemJudgeDataUpdated(problem: ProblemEntity): Promise<void> {
+    await this.redisService.cacheDelete(REDIS_KEY_PROBLEM_PREPROCESSED_JUDGE_INFO.format(problem.id));
+    await this.problemJudgeInfoRepository.increment({ problemId: problem.id }, "judgeDataRevision", 1);
+
+    const rejudgePolicy = await this.getProblemRejudgePolicy(problem);
+    if (
+      rejudgePolicy === ProblemRejudgePolicy.AutoRejudgeRecent ||
+      rejudgePolicy === ProblemRejudgePolicy.AutoRejudgeAccepted
+    )
+      await this.rejudgeJobService.scheduleAutoRejudge(problem);
+  }
+
+  async getProblemJudgeDataRevision(problem: ProblemEntity): Promise<number> {
+    const problemJudgeInfo = await this.problemJudgeInfoRepository.findOne({
+      select: ["judgeDataRevision"],
+      where: { problemId: problem.id }
+    });
+    return problemJudgeInfo?.judgeDataRevision ?? 0;
+  }
+
+  /**
+   * @return A map from each problem's ID to its judge data revision.
+   */
+  async getProblemJudgeDataRevisions(problemIds: number[]): Promise<Map<number, number>> {
+    const uniqueProblemIds = Array.from(new Set(problemIds));
+    const problemJudgeInfos =
+      uniqueProblemIds.length === 0
+        ? []
+        : await this.problemJudgeInfoRepository.find({
+            select: ["problemId", "judgeDataRevision"],
+            where: { problemId: In(uniqueProblemIds) }
+          });
+    const revisions = new Map(uniqueProblemIds.map(problemId => [problemId, 0]));
+    for (const { problemId, judgeDataRevision } of problemJudgeInfos) revisions.set(problemId, judgeDataRevision);
+    return revisions;
+  }
+
+  async getProblemRejudgePolicy(problem: ProblemEntity): Promise<ProblemRejudgePolicy> {
+    const problemJudgeInfo = await this.problemJudgeInfoRepository.findOne({
+      select: ["rejudgePolicy"],
+      where: { problemId: problem.id }
+    });
+    return problemJudgeInfo?.rejudgePolicy ?? ProblemRejudgePolicy.Off;
+  }
+
+  async setProblemRejudgePolicy(problem: ProblemEntity, rejudgePolicy: ProblemRejudgePolicy): Promise<void> {
+    await this.problemJudgeInfoRepository.update({ problemId: problem.id }, { rejudgePolicy });
+  }
+
+  /**
+   * Problems with nondeterministic checkers (or interactors) should opt out of judge result reuse.
+   */
+  async getProblemJudgeResultReuse(problem: ProblemEntity): Promise<boolean> {
+    const problemJudgeInfo = await this.problemJudgeInfoRepository.findOne({
+      select: ["reuseJudgeResults"],
+      where: { problemId: problem.id }
+    });
+    return problemJudgeInfo?.reuseJudgeResults ?? true;
+  }
+
+  async setProblemJudgeResultReuse(problem: ProblemEntity, reuseJudgeResults: boolean): Promise<void> {
+    await this.problemJudgeInfoRepository.update({ problemId: problem.id }, { reuseJudgeResults });
+  }
+
+  async getProblemReferenceSubmissionIds(problem: ProblemEntity): Promise<number[]> {
+    const problemJudgeInfo = await this.problemJudgeInfoRepository.findOne({
+      select: ["referenceSubmissionIds"],
+      where: { problemId: problem.id }
+    });
+    return problemJudgeInfo?.referenceSubmissionIds ?? [];
+  }
+
+  async setProblemReferenceSubmissionIds(problem: ProblemEntity, referenceSubmissionIds: number[]): Promise<void> {
+    await this.problemJudgeInfoRepository.update({ problemId: problem.id }, { referenceSubmissionIds });
+  }
+
   async getProblemLocalizedTitle(problem: ProblemEntity, locale: Locale): Promise<string> {
     return await this.localizedContentService.get(problem.id, LocalizedContentType.ProblemTitle, locale);
   }
@@ -757,7 +888,13 @@ export class ProblemService {
           filename
         });
         if (oldProblemFile)
-          deleteOldFileActually = await this.fileService.deleteFile(oldProblemFile.uuid, transactionalEntityManager);
+          deleteOldFileActually = await this.fileService.deleteFile(
+            await this.problemRevisionService.filterUnreferencedFileUuids(
+              [oldProblemFile.uuid],
+              transactionalEntityManager
+            ),
+            transactionalEntityManager
+          );
 
         const problemFile = new ProblemFileEntity();
         problemFile.problemId = problem.id;
@@ -771,13 +908,222 @@ export class ProblemService {
       });
 
       if (deleteOldFileActually) deleteOldFileActually();
-      if (type === ProblemFileType.TestData)
-        await this.redisService.cacheDelete(REDIS_KEY_PROBLEM_PREPROCESSED_JUDGE_INFO.format(problem.id));
+      if (type === ProblemFileType.TestData) await this.onProblemJudgeDataUpdated(problem);
 
       return ret;
     });
   }
 
+  /**
+   * Add files to the problem, all or nothing. A file with the same filename is replaced, and deleted if no revision of
+   * the problem references it.
+   *
+   * @param files The filename, the size checked against the limits and a function creating the file in the
+   * transaction after the check, which returns the file's UUID.
+   * @param onFilesAdded Called in the transaction after the files are added, e.g. to update the judge info.
+   * @return The error of the limit check, or thrown as `[error, errorDetails?]` by `createFile` or `onFilesAdded` to
+   * roll back. The created files are deleted after rolling back.
+   */
+  private async addProblemFilesInTransaction<ErrorType extends string>(
+    problem: ProblemEntity,
+    type: ProblemFileType,
+    files: [
+      filename: string,
+      size: number,
+      createFile: (transactionalEntityManager: EntityManager) => Promise<string>
+    ][],
+    noLimit: boolean,
+    onFilesAdded?: (transactionalEntityManager: EntityManager) => Promise<void>
+  ): Promise<
+    [error: "NO_SUCH_PROBLEM" | "TOO_MANY_FILES" | "TOTAL_SIZE_TOO_LARGE" | ErrorType, errorDetails?: string[]]
+  > {
+    // eslint-disable-next-line @typescript-eslint/no-shadow
+    return await this.lockManageProblemFile(problem.id, type, async problem => {
+      if (!problem) return ["NO_SUCH_PROBLEM"];
+
+      const createdFileUuids: string[] = [];
+      let deleteOldFilesActually: () => void = null;
+      try {
+        // Errors are thrown to roll back the transaction
+        await this.connection.transaction("REPEATABLE READ", async transactionalEntityManager => {
+          const oldFileUuids: string[] = [];
+          for (const [filename, size, createFile] of files) {
+            /* eslint-disable no-await-in-loop */
+            const limitCheckError =
+              !noLimit &&
+              (await this.checkAddProblemFileLimit(problem, type, size, filename, transactionalEntityManager));
+            // eslint-disable-next-line no-throw-literal
+            if (limitCheckError) throw [limitCheckError];
+
+            const uuid = await createFile(transactionalEntityManager);
+            createdFileUuids.push(uuid);
+
+            const oldProblemFile = await transactionalEntityManager.findOneBy(ProblemFileEntity, {
+              problemId: problem.id,
+              type,
+              filename
+            });
+            if (oldProblemFile) oldFileUuids.push(oldProblemFile.uuid);
+
+            const problemFile = new ProblemFileEntity();
+            problemFile.problemId = problem.id;
+            problemFile.type = type;
+            problemFile.filename = filename;
+            problemFile.uuid = uuid;
+            await transactionalEntityManager.save(ProblemFileEntity, problemFile);
+            /* eslint-enable no-await-in-loop */
+          }
+
+          if (onFilesAdded) await onFilesAdded(transactionalEntityManager);
+
+          deleteOldFilesActually = await this.fileService.deleteFile(
+            await this.problemRevisionService.filterUnreferencedFileUuids(oldFileUuids, transactionalEntityManager),
+            transactionalEntityManager
+          );
+        });
+      } catch (e) {
+        // The created files are not in the database after rolling back
+        for (const uuid of createdFileUuids) this.fileService.deleteUnfinishedUploadedFile(uuid);
+        if (Array.isArray(e)) return e as [ErrorType, string[]?];
+        throw e;
+      }
+
+      if (deleteOldFilesActually) deleteOldFilesActually();
+      if (type === ProblemFileType.TestData) await this.onProblemJudgeDataUpdated(problem);
+
+      return [null];
+    });
+  }
+
+  /**
+   * Add files uploaded by a judge client (e.g. generated testdata) to the problem, all or nothing. The reported sizes
+   * are checked since the judge client's upload requests are not signed with the sizes.
+   */
+  async addProblemFilesFromJudgeUploads(
+    problem: ProblemEntity,
+    type: ProblemFileType,
+    files: [filename: string, uploadInfo: FileUploadInfoDto][],
+    noLimit: boolean
+  ): Promise<
+    | "NO_SUCH_PROBLEM"
+    | "TOO_MANY_FILES"
+    | "TOTAL_SIZE_TOO_LARGE"
+    | "FILE_UUID_EXISTS"
+    | "FILE_NOT_UPLOADED"
+    | "FILE_SIZE_MISMATCH"
+  > {
+    const [error] = await this.addProblemFilesInTransaction<
+      "FILE_UUID_EXISTS" | "FILE_NOT_UPLOADED" | "FILE_SIZE_MISMATCH"
+    >(
+      problem,
+      type,
+      files.map(([filename, uploadInfo]) => [
+        filename,
+        uploadInfo.size,
+        async transactionalEntityManager => {
+          const sizeError = await this.fileService.checkUploadedFileSize(uploadInfo);
+          // eslint-disable-next-line no-throw-literal
+          if (sizeError) throw [sizeError];
+
+          // The limits are already checked with the size
+          const result = await this.fileService.processUploadRequest(
+            uploadInfo,
+            () => null,
+            transactionalEntityManager
+          );
+          // eslint-disable-next-line no-throw-literal
+          if (typeof result === "string") throw [result];
+          return uploadInfo.uuid;
+        }
+      ]),
+      noLimit
+    );
+    return error;
+  }
+
+  /**
+   * Add a file read by the server (e.g. from an imported archive) to the problem.
+   *
+   * @param size Checked against the limits, the stream should fail if the content turns out to be larger.
+   * @error "NO_SUCH_PROBLEM" | "TOO_MANY_FILES" | "TOTAL_SIZE_TOO_LARGE"
+   */
+  async addProblemFileFromStream(
+    problem: ProblemEntity,
+    type: ProblemFileType,
+    filename: string,
+    content: Readable,
+    size: number,
+    noLimit: boolean
+  ): Promise<"NO_SUCH_PROBLEM" | "TOO_MANY_FILES" | "TOTAL_SIZE_TOO_LARGE"> {
+    const [error] = await this.addProblemFilesInTransaction<never>(
+      problem,
+      type,
+      [
+        [
+          filename,
+          size,
+          async transactionalEntityManager =>
+            (
+              await this.fileService.createFileFromStream(content, transactionalEntityManager)
+            ).uuid
+        ]
+      ],
+      noLimit
+    );
+    return error;
+  }
+
+  /**
+   * Add files generated by the server (e.g. the input and output of a successful hack) to the testdata and update the
+   * judge info with them, all or nothing. The judge info is read and written with the testdata locked, so concurrent
+   * calls don't overwrite each other's changes.
+   *
+   * @param updateJudgeInfo Modifies the judge info in place, returns `false` if not modified.
+   * @error "NO_SUCH_PROBLEM" | "TOO_MANY_FILES" | "TOTAL_SIZE_TOO_LARGE"
+   * @error "INVALID_JUDGE_INFO" with the validation errors
+   */
+  async addProblemTestDataFromBuffers(
+    problem: ProblemEntity,
+    files: [filename: string, content: Buffer][],
+    updateJudgeInfo: (judgeInfo: ProblemJudgeInfo) => boolean,
+    noLimit: boolean
+  ): Promise<["NO_SUCH_PROBLEM" | "TOO_MANY_FILES" | "TOTAL_SIZE_TOO_LARGE" | "INVALID_JUDGE_INFO", string[]?]> {
+    return await this.addProblemFilesInTransaction<"INVALID_JUDGE_INFO">(
+      problem,
+      ProblemFileType.TestData,
+      files.map(([filename, content]) => [
+        filename,
+        content.length,
+        async transactionalEntityManager =>
+          (
+            await this.fileService.createFileFromBuffer(content, transactionalEntityManager)
+          ).uuid
+      ]),
+      noLimit,
+      async transactionalEntityManager => {
+        const problemJudgeInfo = await transactionalEntityManager.findOneBy(ProblemJudgeInfoEntity, {
+          problemId: problem.id
+        });
+        if (!updateJudgeInfo(problemJudgeInfo.judgeInfo)) return;
+
+        try {
+          this.problemTypeFactoryService
+            .type(problem.type)
+            .validateAndFilterJudgeInfo(
+              problemJudgeInfo.judgeInfo,
+              await this.getProblemFiles(problem, ProblemFileType.TestData, transactionalEntityManager),
+              noLimit
+            );
+        } catch (e) {
+          // eslint-disable-next-line no-throw-literal
+          if (Array.isArray(e)) throw ["INVALID_JUDGE_INFO", e];
+          throw e;
+        }
+        await transactionalEntityManager.save(ProblemJudgeInfoEntity, problemJudgeInfo);
+      }
+    );
+  }
+
   async removeProblemFiles(problem: ProblemEntity, type: ProblemFileType, filenames: string[]): Promise<void> {
     // eslint-disable-next-line @typescript-eslint/no-shadow
     return await this.lockManageProblemFile(problem.id, type, async problem => {
@@ -798,14 +1144,62 @@ export class ProblemService {
         });
 
         deleteFilesActually = await this.fileService.deleteFile(
-          problemFiles.map(problemFile => problemFile.uuid),
+          await this.problemRevisionService.filterUnreferencedFileUuids(
+            problemFiles.map(problemFile => problemFile.uuid),
+            transactionalEntityManager
+          ),
+          transactionalEntityManager
+        );
+      });
+
+      if (deleteFilesActually) deleteFilesActually();
+      if (type === ProblemFileType.TestData) await this.onProblemJudgeDataUpdated(problem);
+    });
+  }
+
+  /**
+   * Replace all testdata files of a problem with existing files, e.g. the files referenced by a revision.
+   *
+   * @return `false` if the problem is deleted.
+   */
+  async replaceProblemTestData(problem: ProblemEntity, files: { filename: string; uuid: string }[]): Promise<boolean> {
+    // eslint-disable-next-line @typescript-eslint/no-shadow
+    return await this.lockManageProblemFile(problem.id, ProblemFileType.TestData, async problem => {
+      if (!problem) return false;
+
+      let deleteFilesActually: () => void = null;
+      await this.connection.transaction("READ COMMITTED", async transactionalEntityManager => {
+        const oldProblemFiles = await this.getProblemFiles(
+          problem,
+          ProblemFileType.TestData,
+          transactionalEntityManager
+        );
+        await transactionalEntityManager.remove(oldProblemFiles);
+        await transactionalEntityManager.save(
+          files.map(({ filename, uuid }) => {
+            const problemFile = new ProblemFileEntity();
+            problemFile.problemId = problem.id;
+            problemFile.type = ProblemFileType.TestData;
+            problemFile.filename = filename;
+            problemFile.uuid = uuid;
+            return problemFile;
+          })
+        );
+
+        const uuids = new Set(files.map(({ uuid }) => uuid));
+        deleteFilesActually = await this.fileService.deleteFile(
+          await this.problemRevisionService.filterUnreferencedFileUuids(
+            oldProblemFiles.map(problemFile => problemFile.uuid).filter(uuid => !uuids.has(uuid)),
+            transactionalEntityManager
+          ),
           transactionalEntityManager
         );
       });
 
       if (deleteFilesActually) deleteFilesActually();
-      if (type === ProblemFileType.TestData)
-        await this.redisService.cacheDelete(REDIS_KEY_PROBLEM_PREPROCESSED_JUDGE_INFO.format(problem.id));
+      await this.onProblemJudgeDataUpdated(problem);
+
+      return true;
     });
   }
 
@@ -870,8 +1264,7 @@ export class ProblemService {
         filename: newFilename
       });
 
-      if (type === ProblemFileType.TestData)
-        await this.redisService.cacheDelete(REDIS_KEY_PROBLEM_PREPROCESSED_JUDGE_INFO.format(problem.id));
+      if (type === ProblemFileType.TestData) await this.onProblemJudgeDataUpdated(problem);
 
       return true;
     });
@@ -1049,12 +1442,16 @@ export class ProblemService {
       // update user submission count and accepted problem count
       await this.userService.onDeleteProblem(problem.id, transactionalEntityManager);
 
-      // delete files
+      // delete files, including the ones only referenced by the revisions
       const problemFiles = await transactionalEntityManager.findBy(ProblemFileEntity, {
         problemId: problem.id
       });
+      const revisionFileUuids = await this.problemRevisionService.getProblemRevisionFileUuids(
+        problem,
+        transactionalEntityManager
+      );
       deleteFilesActually = await this.fileService.deleteFile(
-        problemFiles.map(problemFile => problemFile.uuid),
+        Array.from(new Set([...problemFiles.map(problemFile => problemFile.uuid), ...revisionFileUuids])),
         transactionalEntityManager
       );
       await transactionalEntityManager.remove(problemFiles);
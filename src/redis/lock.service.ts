@@ -124,6 +124,14 @@ export class LockService {
     );
   }
 
+  /**
+   * Check if a basic lock is held by anyone. Since a lock expires soon after its holder exits, it could be used to
+   * find out if a background job's process is still alive.
+   */
+  async isLocked(name: string): Promise<boolean> {
+    return (await this.redis.exists(name)) !== 0;
+  }
+
   /**
    * Lock a read-write-lock for a reader or writer.
    * Multiple readers can hold the same lock at the same time with no writer.
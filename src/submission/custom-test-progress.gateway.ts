@@ -0,0 +1,78 @@
+import { Inject, forwardRef } from "@nestjs/common";
+import { WebSocketGateway, WebSocketServer, OnGatewayConnection } from "@nestjs/websockets";
+
+import { Server, Socket } from "socket.io"; // eslint-disable-line import/no-extraneous-dependencies
+import jwt from "jsonwebtoken";
+import SocketIOParser from "socket.io-msgpack-parser";
+
+import { logger } from "@/logger";
+import { ConfigService } from "@/config/config.service";
+
+import { CustomTestProgress } from "./custom-test-progress.interface";
+import { SubmissionProgressType } from "./submission-progress.interface";
+import { CustomTestService } from "./custom-test.service";
+
+export interface CustomTestProgressSubscription {
+  taskId: string;
+}
+
+// Each custom test has only one subscriber (its creator), so we use Socket.IO rooms directly and
+// send the whole progress instead of the delta
+@WebSocketGateway({
+  maxHttpBufferSize: 1e9,
+  namespace: "custom-test-progress",
+  path: "/api/socket",
+  transports: ["websocket"],
+  parser: SocketIOParser
+})
+export class CustomTestProgressGateway implements OnGatewayConnection {
+  @WebSocketServer()
+  private server: Server;
+
+  private secret: string;
+
+  constructor(
+    private readonly configService: ConfigService,
+    @Inject(forwardRef(() => CustomTestService))
+    private readonly customTestService: CustomTestService
+  ) {
+    // Use a different key with session secret to prevent someone attempt to use the session key
+    // as subscription key
+    this.secret = `${this.configService.config.security.sessionSecret}CustomTestProgress`;
+  }
+
+  encodeSubscription(subscription: CustomTestProgressSubscription): string {
+    return jwt.sign(subscription, this.secret);
+  }
+
+  decodeSubscription(subscriptionKey: string): CustomTestProgressSubscription {
+    try {
+      return jwt.verify(subscriptionKey, this.secret) as CustomTestProgressSubscription;
+    } catch (e) {
+      logger.log(`Invalid subscription key: ${subscriptionKey}`);
+      return null;
+    }
+  }
+
+  async handleConnection(client: Socket): Promise<void> {
+    const subscription = this.decodeSubscription(client.handshake.query.subscriptionKey as string);
+    if (!subscription) {
+      client.disconnect(true);
+      return;
+    }
+
+    // Join the room first to prevent missing the finished message
+    client.join(subscription.taskId);
+
+    const progress = await this.customTestService.getCustomTestProgress(subscription.taskId);
+    if (progress) {
+      client.emit("progress", subscription.taskId, progress);
+      if (progress.progressType === SubmissionProgressType.Finished) client.disconnect(true);
+    }
+  }
+
+  onCustomTestProgress(taskId: string, progress: CustomTestProgress): void {
+    this.server.to(taskId).emit("progress", taskId, progress);
+    if (progress.progressType === SubmissionProgressType.Finished) this.server.in(taskId).disconnectSockets(true);
+  }
+}
@@ -0,0 +1,27 @@
+import { JudgeTaskProgress } from "@/judge/judge-task-progress.interface";
+
+import { SubmissionStatus } from "./submission-status.enum";
+import { SubmissionProgressType } from "./submission-progress.interface";
+import { SubmissionResultOmittableString } from "./submission-testcase-result-omittable-string.interface";
+
+export interface CustomTestProgress extends JudgeTaskProgress {
+  progressType: SubmissionProgressType;
+
+  // Only valid when finished
+  // Accepted means the program exited normally, since there's no answer to compare with
+  status?: SubmissionStatus;
+
+  compile?: {
+    success: boolean;
+    message: SubmissionResultOmittableString;
+  };
+
+  systemMessage?: SubmissionResultOmittableString;
+
+  // The output of the user's program, may be partial before finished
+  stdout?: SubmissionResultOmittableString;
+  stderr?: SubmissionResultOmittableString;
+
+  time?: number;
+  memory?: number;
+}
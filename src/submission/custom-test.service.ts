@@ -0,0 +1,229 @@
+import { Injectable, Inject, forwardRef } from "@nestjs/common";
+
+import { Redis } from "ioredis";
+import { ValidationError } from "class-validator";
+import { v4 as uuid } from "uuid";
+
+import { logger } from "@/logger";
+import { RedisService } from "@/redis/redis.service";
+import { ProblemService } from "@/problem/problem.service";
+import { ProblemEntity, ProblemType } from "@/problem/problem.entity";
+import { ProblemFileType } from "@/problem/problem-file.entity";
+import { ProblemJudgeInfo } from "@/problem/problem-judge-info.interface";
+import { UserEntity } from "@/user/user.entity";
+import {
+  JudgeQueueService,
+  JudgeTaskType,
+  JudgeTaskPriorityType,
+  JudgeTask,
+  JudgeTaskExtraInfo
+} from "@/judge/judge-queue.service";
+import { JudgeTaskService, JudgeTaskQueueInfo } from "@/judge/judge-task-service.interface";
+import { ProblemTypeFactoryService } from "@/problem-type/problem-type-factory.service";
+
+import { SubmissionContent } from "./submission-content.interface";
+import { SubmissionStatus } from "./submission-status.enum";
+import { SubmissionProgressType } from "./submission-progress.interface";
+import { CustomTestProgress } from "./custom-test-progress.interface";
+import { CustomTestProgressGateway } from "./custom-test-progress.gateway";
+
+interface CustomTestTaskExtraInfo extends JudgeTaskExtraInfo {
+  problemType: ProblemType;
+  judgeInfo: ProblemJudgeInfo;
+  testData: Record<string, string>; // filename -> uuid
+  submissionContent: SubmissionContent;
+  input: string;
+}
+
+interface CustomTestRecord {
+  problemId: number;
+  submitterId: number;
+  content: SubmissionContent;
+  input: string;
+}
+
+export const CUSTOM_TEST_SUPPORTED_PROBLEM_TYPES = [ProblemType.Traditional, ProblemType.Interaction];
+
+// The pending custom test is removed after it's finished, while its progress is kept until the TTL expires
+const REDIS_KEY_CUSTOM_TEST = "custom-test:%s";
+const REDIS_KEY_CUSTOM_TEST_PROGRESS = "custom-test-progress:%s";
+const REDIS_CHANNEL_CUSTOM_TEST_PROGRESS = "custom-test-progress";
+
+// userId, a sorted set of the user's pending custom tests' task IDs, scored by their expiration time in milliseconds
+const REDIS_KEY_USER_PENDING_CUSTOM_TESTS = "custom-test-user-pending:%s";
+
+// Custom tests are not persisted, a custom test not judged in 1 hour is dropped
+const CUSTOM_TEST_TTL = 60 * 60;
+
+@Injectable()
+export class CustomTestService implements JudgeTaskService<CustomTestProgress, CustomTestTaskExtraInfo> {
+  private readonly redis: Redis;
+
+  private readonly redisForSubscribe: Redis;
+
+  constructor(
+    private readonly redisService: RedisService,
+    private readonly problemService: ProblemService,
+    private readonly problemTypeFactoryService: ProblemTypeFactoryService,
+    private readonly judgeQueueService: JudgeQueueService,
+    @Inject(forwardRef(() => CustomTestProgressGateway))
+    private readonly customTestProgressGateway: CustomTestProgressGateway
+  ) {
+    this.judgeQueueService.registerTaskType(JudgeTaskType.CustomTest, this);
+
+    this.redis = this.redisService.getClient();
+    this.redisForSubscribe = this.redisService.getClient();
+
+    this.redisForSubscribe.on("message", (channel: string, message: string) => {
+      const { taskId, progress } = JSON.parse(message);
+      this.customTestProgressGateway.onCustomTestProgress(taskId, progress);
+    });
+    this.redisForSubscribe.subscribe(REDIS_CHANNEL_CUSTOM_TEST_PROGRESS);
+  }
+
+  /**
+   * @return The validation errors of the content, or the task ID of the created custom test.
+   */
+  async createCustomTest(
+    submitter: UserEntity,
+    problem: ProblemEntity,
+    content: SubmissionContent,
+    input: string
+  ): Promise<[errors: ValidationError[], taskId: string]> {
+    const problemTypeService = this.problemTypeFactoryService.type(problem.type);
+    const validationError = await problemTypeService.validateSubmissionContent(content);
+    if (validationError && validationError.length > 0) return [validationError, null];
+
+    const taskId = uuid();
+    const record: CustomTestRecord = {
+      problemId: problem.id,
+      submitterId: submitter.id,
+      content,
+      input
+    };
+    await this.redis.set(REDIS_KEY_CUSTOM_TEST.format(taskId), JSON.stringify(record), "EX", CUSTOM_TEST_TTL);
+
+    const pendingKey = REDIS_KEY_USER_PENDING_CUSTOM_TESTS.format(submitter.id);
+    await this.redis
+      .multi()
+      .zadd(pendingKey, Date.now() + CUSTOM_TEST_TTL * 1000, taskId)
+      .expire(pendingKey, CUSTOM_TEST_TTL)
+      .exec();
+
+    const [judgeInfo] = await this.problemService.getProblemJudgeInfo(problem);
+    await this.judgeQueueService.pushTask(
+      taskId,
+      JudgeTaskType.CustomTest,
+      JudgeTaskPriorityType.Low,
+      problemTypeService.getJudgeTaskRequirements(judgeInfo, content)
+    );
+
+    return [null, taskId];
+  }
+
+  /**
+   * Count the user's custom tests not finished or dropped yet, for the submission quota.
+   */
+  async countPendingCustomTests(user: UserEntity): Promise<number> {
+    const pendingKey = REDIS_KEY_USER_PENDING_CUSTOM_TESTS.format(user.id);
+    await this.redis.zremrangebyscore(pendingKey, "-inf", Date.now());
+    return await this.redis.zcard(pendingKey);
+  }
+
+  private async getCustomTestRecord(taskId: string): Promise<CustomTestRecord> {
+    const str = await this.redis.get(REDIS_KEY_CUSTOM_TEST.format(taskId));
+    try {
+      return JSON.parse(str);
+    } catch (e) {
+      return null;
+    }
+  }
+
+  async getCustomTestProgress(taskId: string): Promise<CustomTestProgress> {
+    const str = await this.redis.get(REDIS_KEY_CUSTOM_TEST_PROGRESS.format(taskId));
+    try {
+      return JSON.parse(str);
+    } catch (e) {
+      return null;
+    }
+  }
+
+  async onTaskProgress(taskId: string, progress: CustomTestProgress): Promise<boolean> {
+    const record = await this.getCustomTestRecord(taskId);
+    if (!record) {
+      logger.warn(`Invalid task Id ${taskId} of custom test progress, maybe expired?`);
+      return false;
+    }
+
+    await this.redis.set(
+      REDIS_KEY_CUSTOM_TEST_PROGRESS.format(taskId),
+      JSON.stringify(progress),
+      "EX",
+      CUSTOM_TEST_TTL
+    );
+    if (progress.progressType === SubmissionProgressType.Finished)
+      await this.redis
+        .multi()
+        .del(REDIS_KEY_CUSTOM_TEST.format(taskId))
+        .zrem(REDIS_KEY_USER_PENDING_CUSTOM_TESTS.format(record.submitterId), taskId)
+        .exec();
+
+    // This will call this.customTestProgressGateway.onCustomTestProgress on all nodes
+    await this.redis.publish(REDIS_CHANNEL_CUSTOM_TEST_PROGRESS, JSON.stringify({ taskId, progress }));
+
+    return true;
+  }
+
+  async onTaskFailed(taskId: string, systemMessage: string): Promise<void> {
+    await this.onTaskProgress(taskId, {
+      progressType: SubmissionProgressType.Finished,
+      status: SubmissionStatus.SystemError,
+      systemMessage
+    });
+  }
+
+  async getTasksQueueInfo(taskIds: string[]): Promise<Map<string, JudgeTaskQueueInfo>> {
+    const records = await this.redis.mget(taskIds.map(taskId => REDIS_KEY_CUSTOM_TEST.format(taskId)));
+    const result = new Map<string, JudgeTaskQueueInfo>();
+    taskIds.forEach((taskId, i) => {
+      if (!records[i]) return;
+
+      const record: CustomTestRecord = JSON.parse(records[i]);
+      result.set(taskId, {
+        problemId: record.problemId,
+        userId: record.submitterId
+      });
+    });
+    return result;
+  }
+
+  async getTaskToBeSentToJudgeByTaskId(taskId: string, priority: number): Promise<JudgeTask<CustomTestTaskExtraInfo>> {
+    try {
+      const record = await this.getCustomTestRecord(taskId);
+      if (!record) return null;
+
+      const problem = await this.problemService.findProblemById(record.problemId);
+      if (!problem) return null;
+
+      const [preprocessedJudgeInfo] = await this.problemService.getProblemPreprocessedJudgeInfo(problem);
+      const testData = await this.problemService.getProblemFiles(problem, ProblemFileType.TestData);
+
+      return new JudgeTask<CustomTestTaskExtraInfo>(
+        taskId,
+        JudgeTaskType.CustomTest,
+        JudgeTaskPriorityType.Low,
+        priority,
+        {
+          problemType: problem.type,
+          judgeInfo: preprocessedJudgeInfo,
+          testData: Object.fromEntries(testData.map(problemFile => [problemFile.filename, problemFile.uuid])),
+          submissionContent: record.content,
+          input: record.input
+        }
+      );
+    } catch (e) {
+      logger.error(`Error in getTaskById("${taskId}"): ${e}`);
+      return null;
+    }
+  }
+}
@@ -0,0 +1,21 @@
+import { ApiProperty } from "@nestjs/swagger";
+
+import { Type } from "class-transformer";
+import { IsInt, IsBoolean, ValidateNested } from "class-validator";
+
+import { RejudgeJobFilterDto } from "./rejudge-job-filter.dto";
+
+export class BulkRejudgeSubmissionsRequestDto {
+  @ApiProperty()
+  @IsInt()
+  problemId: number;
+
+  @ApiProperty()
+  @ValidateNested()
+  @Type(() => RejudgeJobFilterDto)
+  filter: RejudgeJobFilterDto;
+
+  @ApiProperty({ description: "Only count the matched submissions, don't rejudge them." })
+  @IsBoolean()
+  dryRun: boolean;
+}
@@ -0,0 +1,18 @@
+import { ApiProperty } from "@nestjs/swagger";
+
+export enum BulkRejudgeSubmissionsResponseError {
+  NO_SUCH_PROBLEM = "NO_SUCH_PROBLEM",
+  PERMISSION_DENIED = "PERMISSION_DENIED",
+  TOO_MANY_SUBMISSIONS = "TOO_MANY_SUBMISSIONS"
+}
+
+export class BulkRejudgeSubmissionsResponseDto {
+  @ApiProperty()
+  error?: BulkRejudgeSubmissionsResponseError;
+
+  @ApiProperty()
+  matchedCount?: number;
+
+  @ApiProperty({ description: "`null` for dry run." })
+  jobId?: number;
+}
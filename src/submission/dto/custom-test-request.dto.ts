@@ -0,0 +1,17 @@
+import { ApiProperty } from "@nestjs/swagger";
+
+import { IsInt, IsObject, IsString } from "class-validator";
+
+export class CustomTestRequestDto {
+  @ApiProperty()
+  @IsInt()
+  readonly problemId: number;
+
+  @ApiProperty({ description: "The same as the submission content of the problem's type." })
+  @IsObject()
+  readonly content: unknown;
+
+  @ApiProperty()
+  @IsString()
+  readonly input: string;
+}
@@ -0,0 +1,23 @@
+import { ApiProperty } from "@nestjs/swagger";
+
+export enum CustomTestResponseError {
+  PERMISSION_DENIED = "PERMISSION_DENIED",
+  NO_SUCH_PROBLEM = "NO_SUCH_PROBLEM",
+  PROBLEM_TYPE_NOT_SUPPORTED = "PROBLEM_TYPE_NOT_SUPPORTED",
+  INPUT_TOO_LARGE = "INPUT_TOO_LARGE",
+  CUSTOM_TEST_QUOTA_EXCEEDED = "CUSTOM_TEST_QUOTA_EXCEEDED"
+}
+
+export class CustomTestResponseDto {
+  @ApiProperty({ enum: CustomTestResponseError })
+  error?: CustomTestResponseError;
+
+  @ApiProperty()
+  taskId?: string;
+
+  @ApiProperty({ description: "Used to connect to the custom test progress WebSocket gateway." })
+  progressSubscriptionKey?: string;
+
+  @ApiProperty({ description: "The seconds to wait before testing again, for `CUSTOM_TEST_QUOTA_EXCEEDED`." })
+  retryAfter?: number;
+}
@@ -0,0 +1,13 @@
+import { ApiProperty } from "@nestjs/swagger";
+
+import { IsInt } from "class-validator";
+
+export class DiffSubmissionsRequestDto {
+  @ApiProperty()
+  @IsInt()
+  submissionId1: number;
+
+  @ApiProperty()
+  @IsInt()
+  submissionId2: number;
+}
@@ -0,0 +1,43 @@
+import { ApiProperty } from "@nestjs/swagger";
+
+import { SubmissionBasicMetaDto } from "./submission-meta.dto";
+import { SubmissionTestcaseComparisonDto } from "./submission-testcase-comparison.dto";
+import { SubmissionAnswerFileComparisonDto } from "./submission-answer-file-comparison.dto";
+
+export enum DiffSubmissionsResponseError {
+  NO_SUCH_SUBMISSION = "NO_SUCH_SUBMISSION",
+  PERMISSION_DENIED = "PERMISSION_DENIED"
+}
+
+export class DiffSubmissionsResponseDto {
+  @ApiProperty()
+  error?: DiffSubmissionsResponseError;
+
+  @ApiProperty()
+  submission1?: SubmissionBasicMetaDto;
+
+  @ApiProperty()
+  submission2?: SubmissionBasicMetaDto;
+
+  @ApiProperty({
+    description: "The unified diff of the code, empty if identical. `null` if the submissions don't contain code."
+  })
+  codeDiff?: string;
+
+  @ApiProperty({
+    description: "The unified diff of the other submission content (e.g. code language and compile options)."
+  })
+  contentOptionsDiff?: string;
+
+  @ApiProperty({
+    type: [SubmissionTestcaseComparisonDto],
+    description: "The testcases are aligned by their positions in samples and subtasks."
+  })
+  testcases?: SubmissionTestcaseComparisonDto[];
+
+  @ApiProperty({
+    type: [SubmissionAnswerFileComparisonDto],
+    description: "Only for submissions with answer files. `null` if any of the answer files is not a valid archive."
+  })
+  answerFiles?: SubmissionAnswerFileComparisonDto[];
+}
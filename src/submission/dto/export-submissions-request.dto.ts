@@ -0,0 +1,13 @@
+import { ApiProperty } from "@nestjs/swagger";
+
+import { Type } from "class-transformer";
+import { ValidateNested } from "class-validator";
+
+import { SubmissionExportJobFilterDto } from "./submission-export-job-filter.dto";
+
+export class ExportSubmissionsRequestDto {
+  @ApiProperty()
+  @ValidateNested()
+  @Type(() => SubmissionExportJobFilterDto)
+  filter: SubmissionExportJobFilterDto;
+}
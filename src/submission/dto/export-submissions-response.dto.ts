@@ -0,0 +1,22 @@
+import { ApiProperty } from "@nestjs/swagger";
+
+export enum ExportSubmissionsResponseError {
+  PERMISSION_DENIED = "PERMISSION_DENIED",
+  NO_SUCH_GROUP = "NO_SUCH_GROUP",
+  EMPTY_FILTER = "EMPTY_FILTER",
+  TOO_MANY_SUBMISSIONS = "TOO_MANY_SUBMISSIONS",
+  ALREADY_HAS_RUNNING_JOB = "ALREADY_HAS_RUNNING_JOB"
+}
+
+export class ExportSubmissionsResponseDto {
+  @ApiProperty()
+  error?: ExportSubmissionsResponseError;
+
+  @ApiProperty({
+    description: "The submissions the current user has no permission to view will be skipped while exporting."
+  })
+  matchedCount?: number;
+
+  @ApiProperty()
+  jobId?: number;
+}
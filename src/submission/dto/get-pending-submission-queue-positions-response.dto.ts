@@ -0,0 +1,24 @@
+import { ApiProperty } from "@nestjs/swagger";
+
+export enum GetPendingSubmissionQueuePositionsResponseError {
+  PERMISSION_DENIED = "PERMISSION_DENIED"
+}
+
+export class PendingSubmissionQueuePositionDto {
+  @ApiProperty()
+  submissionId: number;
+
+  @ApiProperty({ description: "1-based, the number of tasks to be consumed before (and including) this one." })
+  position: number;
+}
+
+export class GetPendingSubmissionQueuePositionsResponseDto {
+  @ApiProperty()
+  error?: GetPendingSubmissionQueuePositionsResponseError;
+
+  @ApiProperty({ type: [PendingSubmissionQueuePositionDto] })
+  positions?: PendingSubmissionQueuePositionDto[];
+
+  @ApiProperty()
+  queueLength?: number;
+}
@@ -0,0 +1,19 @@
+import { ApiProperty } from "@nestjs/swagger";
+
+import { IsInt, Min } from "class-validator";
+
+export class GetRejudgeJobRequestDto {
+  @ApiProperty()
+  @IsInt()
+  jobId: number;
+
+  @ApiProperty({ description: "Pagination of the report's changed submissions." })
+  @IsInt()
+  @Min(0)
+  changedSubmissionsSkipCount: number;
+
+  @ApiProperty()
+  @IsInt()
+  @Min(1)
+  changedSubmissionsTakeCount: number;
+}
@@ -0,0 +1,39 @@
+import { ApiProperty } from "@nestjs/swagger";
+
+import { RejudgeJobFilterDto } from "./rejudge-job-filter.dto";
+import { RejudgeJobProgressDto } from "./rejudge-job-progress.dto";
+import { RejudgeJobReportDto } from "./rejudge-job-report.dto";
+
+import { UserMetaDto } from "@/user/dto";
+
+export enum GetRejudgeJobResponseError {
+  NO_SUCH_REJUDGE_JOB = "NO_SUCH_REJUDGE_JOB",
+  PERMISSION_DENIED = "PERMISSION_DENIED",
+  TAKE_TOO_MANY = "TAKE_TOO_MANY"
+}
+
+export class GetRejudgeJobResponseDto {
+  @ApiProperty()
+  error?: GetRejudgeJobResponseError;
+
+  @ApiProperty()
+  problemId?: number;
+
+  @ApiProperty({ description: "`null` for automatic rejudge jobs." })
+  creator?: UserMetaDto;
+
+  @ApiProperty()
+  filter?: RejudgeJobFilterDto;
+
+  @ApiProperty()
+  createTime?: Date;
+
+  @ApiProperty({ description: "`null` if the job is not finished." })
+  finishTime?: Date;
+
+  @ApiProperty()
+  progress?: RejudgeJobProgressDto;
+
+  @ApiProperty({ description: "Only the finished submissions are included if the job is not finished." })
+  report?: RejudgeJobReportDto;
+}
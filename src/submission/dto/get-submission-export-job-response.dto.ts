@@ -0,0 +1,37 @@
+import { ApiProperty } from "@nestjs/swagger";
+
+import { SubmissionExportJobFilterDto } from "./submission-export-job-filter.dto";
+
+import { SubmissionExportJobStatus } from "../submission-export-job-status.enum";
+
+export enum GetSubmissionExportJobResponseError {
+  NO_SUCH_SUBMISSION_EXPORT_JOB = "NO_SUCH_SUBMISSION_EXPORT_JOB",
+  PERMISSION_DENIED = "PERMISSION_DENIED"
+}
+
+export class GetSubmissionExportJobResponseDto {
+  @ApiProperty()
+  error?: GetSubmissionExportJobResponseError;
+
+  @ApiProperty()
+  filter?: SubmissionExportJobFilterDto;
+
+  @ApiProperty({ enum: SubmissionExportJobStatus })
+  status?: SubmissionExportJobStatus;
+
+  @ApiProperty({ description: "The number of exported submissions, `null` if the job is not finished." })
+  submissionCount?: number;
+
+  @ApiProperty()
+  createTime?: Date;
+
+  @ApiProperty({ description: "`null` if the job is not finished." })
+  finishTime?: Date;
+
+  @ApiProperty({
+    description:
+      "The signed download link of the ZIP archive, `null` if the job is not finished or the archive is expired. " +
+      "The archive contains `problemDisplayId/submissionId.ext` files and a `manifest.json`."
+  })
+  downloadUrl?: string;
+}
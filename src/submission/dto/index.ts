@@ -18,6 +18,16 @@ export * from "./query-submission-statistics-response.dto";
 export * from "./rejudge-submission-request.dto";
 export * from "./rejudge-submission-response.dto";
 
+export * from "./rejudge-job-filter.dto";
+export * from "./rejudge-job-progress.dto";
+export * from "./rejudge-job-report.dto";
+
+export * from "./bulk-rejudge-submissions-request.dto";
+export * from "./bulk-rejudge-submissions-response.dto";
+
+export * from "./get-rejudge-job-request.dto";
+export * from "./get-rejudge-job-response.dto";
+
 export * from "./cancel-submission-request.dto";
 export * from "./cancel-submission-response.dto";
 
@@ -26,3 +36,22 @@ export * from "./set-submission-public-response.dto";
 
 export * from "./delete-submission-request.dto";
 export * from "./delete-submission-response.dto";
+
+export * from "./custom-test-request.dto";
+export * from "./custom-test-response.dto";
+
+export * from "./get-pending-submission-queue-positions-response.dto";
+
+export * from "./submission-testcase-brief-result.dto";
+export * from "./submission-testcase-comparison.dto";
+export * from "./submission-answer-file-comparison.dto";
+export * from "./diff-submissions-request.dto";
+export * from "./diff-submissions-response.dto";
+
+export * from "./submission-export-job-filter.dto";
+export * from "./export-submissions-request.dto";
+export * from "./export-submissions-response.dto";
+export * from "./get-submission-export-job-request.dto";
+export * from "./get-submission-export-job-response.dto";
+
+export * from "./submission-quota.dto";
@@ -1,12 +1,25 @@
 import { ApiProperty } from "@nestjs/swagger";
 
-import { IsInt, IsString, Length, IsEnum, IsOptional, IsPositive } from "class-validator";
+import {
+  IsInt,
+  IsString,
+  Length,
+  IsEnum,
+  IsOptional,
+  IsPositive,
+  IsArray,
+  ArrayMaxSize,
+  IsDateString,
+  Min,
+  Max
+} from "class-validator";
 
 import { IsUsername } from "@/common/validators";
 
 import { Locale } from "@/common/locale.type";
 
 import { SubmissionStatus } from "../submission-status.enum";
+import { SubmissionQuerySortBy } from "../submission-query-sort-by.enum";
 
 export class QuerySubmissionRequestDto {
   @ApiProperty()
@@ -23,22 +36,79 @@ export class QuerySubmissionRequestDto {
   @IsOptional()
   problemDisplayId: number;
 
+  @ApiProperty({ type: [Number], description: "Ignored if `problemId` or `problemDisplayId` is specified." })
+  @IsInt({ each: true })
+  @IsArray()
+  @ArrayMaxSize(100)
+  @IsOptional()
+  problemIds: number[];
+
   @ApiProperty()
   @IsUsername()
   @IsOptional()
   submitter: string;
 
+  @ApiProperty({ description: "Only the submissions of the group's members." })
+  @IsInt()
+  @IsOptional()
+  groupId: number;
+
   @ApiProperty()
   @IsString()
   @Length(1, 20)
   @IsOptional()
   codeLanguage: string;
 
+  @ApiProperty({ type: [String], description: "Ignored if `codeLanguage` is specified." })
+  @IsString({ each: true })
+  @Length(1, 20, { each: true })
+  @IsArray()
+  @ArrayMaxSize(20)
+  @IsOptional()
+  codeLanguages: string[];
+
   @ApiProperty()
   @IsEnum(SubmissionStatus)
   @IsOptional()
   status: SubmissionStatus;
 
+  @ApiProperty({ enum: SubmissionStatus, isArray: true, description: "Ignored if `status` is specified." })
+  @IsEnum(SubmissionStatus, { each: true })
+  @IsArray()
+  @ArrayMaxSize(20)
+  @IsOptional()
+  statuses: SubmissionStatus[];
+
+  @ApiProperty()
+  @IsDateString()
+  @IsOptional()
+  submitTimeFrom: string;
+
+  @ApiProperty()
+  @IsDateString()
+  @IsOptional()
+  submitTimeTo: string;
+
+  @ApiProperty()
+  @IsInt()
+  @IsOptional()
+  scoreFrom: number;
+
+  @ApiProperty()
+  @IsInt()
+  @IsOptional()
+  scoreTo: number;
+
+  @ApiProperty({
+    enum: SubmissionQuerySortBy,
+    description:
+      "Defaults to `Id` (descending, paginated with `minId` / `maxId`). " +
+      "`TimeUsed` and `MemoryUsed` sort ascendingly and are paginated with `skipCount`."
+  })
+  @IsEnum(SubmissionQuerySortBy)
+  @IsOptional()
+  sortBy: SubmissionQuerySortBy;
+
   // For pagination
   @ApiProperty()
   @IsInt()
@@ -50,6 +120,14 @@ export class QuerySubmissionRequestDto {
   @IsOptional()
   maxId: number;
 
+  // Skipping is not efficient, deep pages are not allowed
+  @ApiProperty({ description: "Only for sorting by `TimeUsed` or `MemoryUsed`." })
+  @IsInt()
+  @Min(0)
+  @Max(10000)
+  @IsOptional()
+  skipCount: number;
+
   @ApiProperty()
   @IsPositive()
   @IsInt()
@@ -4,7 +4,9 @@ import { SubmissionMetaDto } from "./submission-meta.dto";
 
 export enum QuerySubmissionResponseError {
   NO_SUCH_PROBLEM = "NO_SUCH_PROBLEM",
-  NO_SUCH_USER = "NO_SUCH_USER"
+  NO_SUCH_USER = "NO_SUCH_USER",
+  NO_SUCH_GROUP = "NO_SUCH_GROUP",
+  PERMISSION_DENIED = "PERMISSION_DENIED"
 }
 
 export class QuerySubmissionResponseDto {
@@ -20,6 +22,9 @@ export class QuerySubmissionResponseDto {
   @ApiProperty()
   hasLargerId?: boolean;
 
+  @ApiProperty({ description: "Only for sorting by `TimeUsed` or `MemoryUsed`." })
+  hasMore?: boolean;
+
   // Only for non-finished
   @ApiProperty()
   progressSubscriptionKey?: string;
@@ -0,0 +1,39 @@
+import { ApiProperty } from "@nestjs/swagger";
+
+import { IsInt, IsString, Length, IsEnum, IsOptional, IsDateString, IsBoolean } from "class-validator";
+
+import { SubmissionStatus } from "../submission-status.enum";
+import { RejudgeJobFilter } from "../rejudge-job-filter.interface";
+
+export class RejudgeJobFilterDto implements RejudgeJobFilter {
+  @ApiProperty({ enum: SubmissionStatus })
+  @IsEnum(SubmissionStatus)
+  @IsOptional()
+  status?: SubmissionStatus;
+
+  @ApiProperty()
+  @IsString()
+  @Length(1, 20)
+  @IsOptional()
+  codeLanguage?: string;
+
+  @ApiProperty()
+  @IsInt()
+  @IsOptional()
+  submitterId?: number;
+
+  @ApiProperty()
+  @IsDateString()
+  @IsOptional()
+  submitTimeFrom?: string;
+
+  @ApiProperty()
+  @IsDateString()
+  @IsOptional()
+  submitTimeTo?: string;
+
+  @ApiProperty({ description: "Only the submissions judged against outdated judge info or testdata." })
+  @IsBoolean()
+  @IsOptional()
+  outdatedOnly?: boolean;
+}
@@ -0,0 +1,15 @@
+import { ApiProperty } from "@nestjs/swagger";
+
+export class RejudgeJobProgressDto {
+  @ApiProperty()
+  total: number;
+
+  @ApiProperty({ description: "Not enqueued yet." })
+  waiting: number;
+
+  @ApiProperty()
+  judging: number;
+
+  @ApiProperty()
+  finished: number;
+}
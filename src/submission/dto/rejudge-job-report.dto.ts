@@ -0,0 +1,48 @@
+import { ApiProperty } from "@nestjs/swagger";
+
+import { SubmissionStatus } from "../submission-status.enum";
+
+export class RejudgeJobChangedSubmissionDto {
+  @ApiProperty()
+  submissionId: number;
+
+  @ApiProperty()
+  submitterId: number;
+
+  @ApiProperty({ enum: SubmissionStatus })
+  oldStatus: SubmissionStatus;
+
+  @ApiProperty()
+  oldScore: number;
+
+  @ApiProperty({ enum: SubmissionStatus })
+  newStatus: SubmissionStatus;
+
+  @ApiProperty()
+  newScore: number;
+}
+
+export class RejudgeJobUserAcceptedCountChangeDto {
+  @ApiProperty()
+  userId: number;
+
+  @ApiProperty({ description: "1 if the user newly accepted the problem, -1 if no longer." })
+  delta: number;
+}
+
+export class RejudgeJobReportDto {
+  @ApiProperty({
+    type: [RejudgeJobChangedSubmissionDto],
+    description: "The finished submissions changed verdict, ordered by ID and paginated."
+  })
+  changedSubmissions: RejudgeJobChangedSubmissionDto[];
+
+  @ApiProperty()
+  changedSubmissionCount: number;
+
+  @ApiProperty({ description: "The change of the problem's acceptedSubmissionCount." })
+  acceptedSubmissionCountDelta: number;
+
+  @ApiProperty({ type: [RejudgeJobUserAcceptedCountChangeDto] })
+  userAcceptedCountChanges: RejudgeJobUserAcceptedCountChangeDto[];
+}
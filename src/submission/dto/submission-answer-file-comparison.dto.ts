@@ -0,0 +1,15 @@
+import { ApiProperty } from "@nestjs/swagger";
+
+export class SubmissionAnswerFileComparisonDto {
+  @ApiProperty()
+  filename: string;
+
+  @ApiProperty({ description: "`null` if the file doesn't exist in the first submission's answer archive." })
+  size1: number;
+
+  @ApiProperty({ description: "`null` if the file doesn't exist in the second submission's answer archive." })
+  size2: number;
+
+  @ApiProperty({ description: "Whether the file is added, removed or has different content." })
+  changed: boolean;
+}
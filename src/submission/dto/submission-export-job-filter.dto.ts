@@ -0,0 +1,29 @@
+import { ApiProperty } from "@nestjs/swagger";
+
+import { IsInt, IsOptional, IsBoolean, IsArray, ArrayMaxSize } from "class-validator";
+
+import { SubmissionExportJobFilter } from "../submission-export-job-filter.interface";
+
+export class SubmissionExportJobFilterDto implements SubmissionExportJobFilter {
+  @ApiProperty()
+  @IsInt()
+  @IsOptional()
+  submitterId?: number;
+
+  @ApiProperty({ description: "Only export the submissions of the group's members." })
+  @IsInt()
+  @IsOptional()
+  groupId?: number;
+
+  @ApiProperty({ type: [Number] })
+  @IsInt({ each: true })
+  @IsArray()
+  @ArrayMaxSize(1000)
+  @IsOptional()
+  problemIds?: number[];
+
+  @ApiProperty()
+  @IsBoolean()
+  @IsOptional()
+  acceptedOnly?: boolean;
+}
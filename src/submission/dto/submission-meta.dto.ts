@@ -35,6 +35,12 @@ export class SubmissionBasicMetaDto {
 
   @ApiProperty()
   memoryUsed: number;
+
+  @ApiProperty()
+  contestId?: number;
+
+  @ApiProperty({ description: "The problem's judge info or testdata is changed after the submission is judged." })
+  judgedAgainstOutdatedData: boolean;
 }
 
 export class SubmissionMetaDto extends SubmissionBasicMetaDto {
@@ -0,0 +1,35 @@
+import { ApiProperty } from "@nestjs/swagger";
+
+import { IsInt, Min, IsOptional } from "class-validator";
+
+import { SubmissionQuota } from "../submission-quota.interface";
+
+export class SubmissionQuotaDto implements SubmissionQuota {
+  @ApiProperty({
+    description:
+      "Max submissions of a user in a minute. Counted in fixed windows, up to twice of it could be submitted across " +
+      "the boundary of two minutes."
+  })
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  perMinute?: number;
+
+  @ApiProperty({ description: "Max submissions of a user in an hour. Counted in fixed windows as `perMinute`." })
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  perHour?: number;
+
+  @ApiProperty({ description: "Min seconds between a user's two submissions to the same problem." })
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  problemCooldown?: number;
+
+  @ApiProperty({ description: "Max pending submissions of a user." })
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  maxPending?: number;
+}
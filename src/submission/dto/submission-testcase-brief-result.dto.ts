@@ -0,0 +1,15 @@
+import { ApiProperty } from "@nestjs/swagger";
+
+export class SubmissionTestcaseBriefResultDto {
+  @ApiProperty()
+  status: string;
+
+  @ApiProperty()
+  score: number;
+
+  @ApiProperty({ description: "`null` for problem types not measuring time." })
+  time: number;
+
+  @ApiProperty({ description: "`null` for problem types not measuring memory." })
+  memory: number;
+}
@@ -0,0 +1,17 @@
+import { ApiProperty } from "@nestjs/swagger";
+
+import { SubmissionTestcaseBriefResultDto } from "./submission-testcase-brief-result.dto";
+
+export class SubmissionTestcaseComparisonDto {
+  @ApiProperty({ description: "`null` for samples." })
+  subtaskIndex: number;
+
+  @ApiProperty()
+  testcaseIndex: number;
+
+  @ApiProperty({ description: "`null` if the testcase is skipped or not judged in the first submission." })
+  result1: SubmissionTestcaseBriefResultDto;
+
+  @ApiProperty({ description: "`null` if the testcase is skipped or not judged in the second submission." })
+  result2: SubmissionTestcaseBriefResultDto;
+}
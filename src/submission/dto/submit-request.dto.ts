@@ -19,4 +19,9 @@ export class SubmitRequestDto {
   @Type(() => FileUploadInfoDto)
   @IsOptional()
   readonly uploadInfo?: FileUploadInfoDto;
+
+  @ApiProperty({ description: "Submit in a contest. The submitter must have registered for the running contest." })
+  @IsInt()
+  @IsOptional()
+  readonly contestId?: number;
 }
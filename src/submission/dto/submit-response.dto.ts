@@ -6,6 +6,9 @@ export enum SubmitResponseError {
   PERMISSION_DENIED = "PERMISSION_DENIED",
   NO_SUCH_PROBLEM = "NO_SUCH_PROBLEM",
   FILE_TOO_LARGE = "FILE_TOO_LARGE",
+  NO_SUCH_CONTEST = "NO_SUCH_CONTEST",
+  CONTEST_NOT_RUNNING = "CONTEST_NOT_RUNNING",
+  SUBMISSION_QUOTA_EXCEEDED = "SUBMISSION_QUOTA_EXCEEDED",
 
   // Below only happen when user uploaded the file and call this API twice.
   FILE_UUID_EXISTS = "FILE_UUID_EXISTS",
@@ -21,4 +24,7 @@ export class SubmitResponseDto {
 
   @ApiProperty()
   signedUploadRequest?: SignedFileUploadRequestDto;
+
+  @ApiProperty({ description: "The seconds to wait before submitting again, for `SUBMISSION_QUOTA_EXCEEDED`." })
+  retryAfter?: number;
 }
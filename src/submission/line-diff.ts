@@ -0,0 +1,132 @@
+enum LineDiffOperationType {
+  Equal = " ",
+  Insert = "+",
+  Delete = "-"
+}
+
+interface LineDiffOperation {
+  type: LineDiffOperationType;
+  line: string;
+
+  // 0-based line indices in the old and new text before the operation
+  oldIndex: number;
+  newIndex: number;
+}
+
+// Myers' algorithm takes O((N + M) * D) time, completely different texts are not worth to diff line by line
+const MAX_EDIT_DISTANCE = 2000;
+
+const CONTEXT_LINES = 3;
+
+function splitLines(text: string): string[] {
+  if (!text) return [];
+  const lines = text.split(/\r?\n/);
+  if (lines[lines.length - 1] === "") lines.pop();
+  return lines;
+}
+
+/**
+ * Find the shortest edit script with Myers' algorithm.
+ *
+ * @return `null` if the edit distance exceeds `MAX_EDIT_DISTANCE`.
+ */
+function diffLines(a: string[], b: string[]): LineDiffOperation[] {
+  const n = a.length;
+  const m = b.length;
+  const max = n + m;
+  const offset = max + 1;
+
+  // v[k + offset] = the furthest x on diagonal k, a snapshot of v[-d - 1 .. d + 1] is saved before each step d
+  const v = new Int32Array(2 * max + 3);
+  const trace: Int32Array[] = [];
+  const getSnapshot = (d: number, k: number) => trace[d][k + d + 1];
+
+  let found = false;
+  for (let d = 0; d <= Math.min(max, MAX_EDIT_DISTANCE) && !found; d++) {
+    trace.push(v.slice(offset - d - 1, offset + d + 2));
+    for (let k = -d; k <= d; k += 2) {
+      let x =
+        k === -d || (k !== d && v[k - 1 + offset] < v[k + 1 + offset]) ? v[k + 1 + offset] : v[k - 1 + offset] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[k + offset] = x;
+      if (x >= n && y >= m) {
+        found = true;
+        break;
+      }
+    }
+  }
+  if (!found) return null;
+
+  const operations: LineDiffOperation[] = [];
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const k = x - y;
+    const previousK = k === -d || (k !== d && getSnapshot(d, k - 1) < getSnapshot(d, k + 1)) ? k + 1 : k - 1;
+    const previousX = d === 0 ? 0 : getSnapshot(d, previousK);
+    const previousY = previousX - previousK;
+
+    while (x > previousX && y > previousY) {
+      x--;
+      y--;
+      operations.push({ type: LineDiffOperationType.Equal, line: a[x], oldIndex: x, newIndex: y });
+    }
+
+    if (d > 0) {
+      if (x === previousX)
+        operations.push({ type: LineDiffOperationType.Insert, line: b[previousY], oldIndex: x, newIndex: previousY });
+      else
+        operations.push({ type: LineDiffOperationType.Delete, line: a[previousX], oldIndex: previousX, newIndex: y });
+    }
+
+    x = previousX;
+    y = previousY;
+  }
+
+  return operations.reverse();
+}
+
+/**
+ * @return The diff in unified format, or an empty string if the texts have the same lines.
+ */
+export function unifiedLineDiff(oldText: string, newText: string, oldName: string, newName: string): string {
+  const a = splitLines(oldText);
+  const b = splitLines(newText);
+  const operations = diffLines(a, b) || [
+    ...a.map((line, i) => ({ type: LineDiffOperationType.Delete, line, oldIndex: i, newIndex: 0 })),
+    ...b.map((line, i) => ({ type: LineDiffOperationType.Insert, line, oldIndex: a.length, newIndex: i }))
+  ];
+
+  // Group the changes with their context lines to hunks, overlapping hunks are merged
+  const hunks: [start: number, end: number][] = [];
+  operations.forEach((operation, i) => {
+    if (operation.type === LineDiffOperationType.Equal) return;
+
+    const start = Math.max(0, i - CONTEXT_LINES);
+    const end = Math.min(operations.length - 1, i + CONTEXT_LINES);
+    const last = hunks[hunks.length - 1];
+    if (last && start <= last[1] + 1) last[1] = end;
+    else hunks.push([start, end]);
+  });
+  if (hunks.length === 0) return "";
+
+  const result = [`--- ${oldName}`, `+++ ${newName}`];
+  for (const [start, end] of hunks) {
+    const hunkOperations = operations.slice(start, end + 1);
+    const oldCount = hunkOperations.filter(operation => operation.type !== LineDiffOperationType.Insert).length;
+    const newCount = hunkOperations.filter(operation => operation.type !== LineDiffOperationType.Delete).length;
+
+    // An empty range starts at the line before it
+    const oldStart = hunkOperations[0].oldIndex + (oldCount === 0 ? 0 : 1);
+    const newStart = hunkOperations[0].newIndex + (newCount === 0 ? 0 : 1);
+
+    result.push(`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`);
+    result.push(...hunkOperations.map(operation => operation.type + operation.line));
+  }
+
+  return `${result.join("\n")}\n`;
+}
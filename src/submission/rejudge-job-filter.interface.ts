@@ -0,0 +1,13 @@
+import { SubmissionStatus } from "./submission-status.enum";
+
+// The submissions of the job's problem matching ALL specified fields are rejudged
+export interface RejudgeJobFilter {
+  status?: SubmissionStatus;
+  codeLanguage?: string;
+  submitterId?: number;
+  submitTimeFrom?: string;
+  submitTimeTo?: string;
+
+  // Only the submissions judged against outdated judge info or testdata
+  outdatedOnly?: boolean;
+}
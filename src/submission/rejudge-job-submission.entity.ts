@@ -0,0 +1,54 @@
+import { Entity, PrimaryGeneratedColumn, Index, ManyToOne, Column, JoinColumn } from "typeorm";
+
+import { RejudgeJobEntity } from "./rejudge-job.entity";
+import { SubmissionEntity } from "./submission.entity";
+import { SubmissionStatus } from "./submission-status.enum";
+
+export enum RejudgeJobSubmissionStatus {
+  Waiting = "Waiting",
+  Judging = "Judging",
+  Finished = "Finished"
+}
+
+@Entity("rejudge_job_submission")
+@Index(["jobId", "status"])
+@Index(["submissionId", "status"])
+export class RejudgeJobSubmissionEntity {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @ManyToOne(() => RejudgeJobEntity, { onDelete: "CASCADE" })
+  @JoinColumn()
+  job: Promise<RejudgeJobEntity>;
+
+  @Column()
+  jobId: number;
+
+  // Deleted submissions are removed from the job
+  @ManyToOne(() => SubmissionEntity, { onDelete: "CASCADE" })
+  @JoinColumn()
+  submission: Promise<SubmissionEntity>;
+
+  @Column()
+  submissionId: number;
+
+  @Column()
+  submitterId: number;
+
+  @Column({ type: "enum", enum: RejudgeJobSubmissionStatus })
+  status: RejudgeJobSubmissionStatus;
+
+  // The submission's result right before rejudged
+  @Column({ type: "enum", enum: SubmissionStatus })
+  oldStatus: SubmissionStatus;
+
+  @Column({ type: "integer", nullable: true })
+  oldScore: number;
+
+  // `null` until the rejudge is finished
+  @Column({ type: "enum", enum: SubmissionStatus, nullable: true })
+  newStatus: SubmissionStatus;
+
+  @Column({ type: "integer", nullable: true })
+  newScore: number;
+}
@@ -0,0 +1,38 @@
+import { Entity, PrimaryGeneratedColumn, Index, ManyToOne, Column, JoinColumn } from "typeorm";
+
+import { UserEntity } from "@/user/user.entity";
+import { ProblemEntity } from "@/problem/problem.entity";
+
+import { RejudgeJobFilter } from "./rejudge-job-filter.interface";
+
+@Entity("rejudge_job")
+export class RejudgeJobEntity {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @ManyToOne(() => ProblemEntity, { onDelete: "CASCADE" })
+  @JoinColumn()
+  problem: Promise<ProblemEntity>;
+
+  @Column()
+  @Index()
+  problemId: number;
+
+  @ManyToOne(() => UserEntity)
+  @JoinColumn()
+  creator: Promise<UserEntity>;
+
+  // `null` for automatic rejudge jobs triggered by the problem's rejudge policy
+  @Column({ nullable: true })
+  creatorId: number;
+
+  @Column({ type: "json" })
+  filter: RejudgeJobFilter;
+
+  @Column({ type: "datetime" })
+  createTime: Date;
+
+  // `null` until all submissions of the job are rejudged
+  @Column({ type: "datetime", nullable: true })
+  finishTime: Date;
+}
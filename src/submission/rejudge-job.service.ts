@@ -0,0 +1,411 @@
+import { Injectable, Inject, forwardRef, OnModuleInit } from "@nestjs/common";
+import { InjectRepository } from "@nestjs/typeorm";
+
+import { Repository, In, Not, IsNull } from "typeorm";
+import { Redis } from "ioredis";
+
+import { logger } from "@/logger";
+import { UserEntity } from "@/user/user.entity";
+import { ProblemEntity } from "@/problem/problem.entity";
+import { ProblemService } from "@/problem/problem.service";
+import { ProblemRejudgePolicy } from "@/problem/problem-rejudge-policy.enum";
+import { RedisService } from "@/redis/redis.service";
+import { LockService } from "@/redis/lock.service";
+import { ConfigService } from "@/config/config.service";
+import { ClusterService } from "@/cluster/cluster.service";
+
+import { SubmissionService } from "./submission.service";
+import { SubmissionEntity } from "./submission.entity";
+import { SubmissionStatus } from "./submission-status.enum";
+import { RejudgeJobEntity } from "./rejudge-job.entity";
+import { RejudgeJobSubmissionEntity, RejudgeJobSubmissionStatus } from "./rejudge-job-submission.entity";
+import { RejudgeJobFilter } from "./rejudge-job-filter.interface";
+
+import { RejudgeJobProgressDto, RejudgeJobReportDto } from "./dto";
+
+// Too many rows in one INSERT statement will exceed MySQL's limit of placeholders
+const INSERT_BATCH_SIZE = 1000;
+
+// Problems to be rejudged automatically, each change of judge data postpones the rejudge to debounce
+const REDIS_KEY_AUTO_REJUDGE_PROBLEMS = "auto-rejudge-problems"; // problemId -> due time
+const AUTO_REJUDGE_SWEEP_INTERVAL = 10 * 1000;
+
+// The waiting submissions of a job are enqueued with the job's lock held, a job with waiting submissions but without
+// the lock was interrupted (e.g. the server restarted) and is resumed
+const INTERRUPTED_JOB_RESUME_INTERVAL = 60 * 1000;
+
+@Injectable()
+export class RejudgeJobService implements OnModuleInit {
+  private readonly redis: Redis;
+
+  constructor(
+    @InjectRepository(SubmissionEntity)
+    private readonly submissionRepository: Repository<SubmissionEntity>,
+    @InjectRepository(RejudgeJobEntity)
+    private readonly rejudgeJobRepository: Repository<RejudgeJobEntity>,
+    @InjectRepository(RejudgeJobSubmissionEntity)
+    private readonly rejudgeJobSubmissionRepository: Repository<RejudgeJobSubmissionEntity>,
+    @Inject(forwardRef(() => SubmissionService))
+    private readonly submissionService: SubmissionService,
+    @Inject(forwardRef(() => ProblemService))
+    private readonly problemService: ProblemService,
+    private readonly redisService: RedisService,
+    private readonly lockService: LockService,
+    private readonly configService: ConfigService,
+    private readonly clusterService: ClusterService
+  ) {
+    this.redis = this.redisService.getClient();
+  }
+
+  async onModuleInit(): Promise<void> {
+    if (!this.clusterService.isMaster) return;
+
+    setInterval(
+      () => this.runDueAutoRejudges().catch(e => logger.error(`Failed to run automatic rejudges: ${e}`)),
+      AUTO_REJUDGE_SWEEP_INTERVAL
+    );
+
+    const resumeInterruptedJobs = () =>
+      this.resumeInterruptedRejudgeJobs().catch(e => logger.error(`Failed to resume interrupted rejudge jobs: ${e}`));
+    resumeInterruptedJobs();
+    setInterval(resumeInterruptedJobs, INTERRUPTED_JOB_RESUME_INTERVAL);
+  }
+
+  async findRejudgeJobById(id: number): Promise<RejudgeJobEntity> {
+    return await this.rejudgeJobRepository.findOneBy({ id });
+  }
+
+  private async getMatchedSubmissionsQueryBuilder(problem: ProblemEntity, filter: RejudgeJobFilter) {
+    const queryBuilder = this.submissionRepository
+      .createQueryBuilder()
+      .where("problemId = :problemId", { problemId: problem.id });
+
+    if (filter.outdatedOnly)
+      queryBuilder.andWhere("judgeDataRevision < :judgeDataRevision", {
+        judgeDataRevision: await this.problemService.getProblemJudgeDataRevision(problem)
+      });
+
+    if (filter.status) queryBuilder.andWhere("status = :status", { status: filter.status });
+    if (filter.codeLanguage)
+      queryBuilder.andWhere("codeLanguage = :codeLanguage", { codeLanguage: filter.codeLanguage });
+    if (filter.submitterId) queryBuilder.andWhere("submitterId = :submitterId", { submitterId: filter.submitterId });
+    if (filter.submitTimeFrom)
+      queryBuilder.andWhere("submitTime >= :submitTimeFrom", { submitTimeFrom: new Date(filter.submitTimeFrom) });
+    if (filter.submitTimeTo)
+      queryBuilder.andWhere("submitTime <= :submitTimeTo", { submitTimeTo: new Date(filter.submitTimeTo) });
+
+    return queryBuilder;
+  }
+
+  async countMatchedSubmissions(problem: ProblemEntity, filter: RejudgeJobFilter): Promise<number> {
+    return await (await this.getMatchedSubmissionsQueryBuilder(problem, filter)).getCount();
+  }
+
+  /**
+   * Create a rejudge job with the submissions matching the filter. The submissions are enqueued in background.
+   *
+   * @param creator `null` for automatic rejudge jobs.
+   * @return The job and the number of matched submissions.
+   * @error "TOO_MANY_SUBMISSIONS"
+   */
+  async createRejudgeJob(
+    creator: UserEntity,
+    problem: ProblemEntity,
+    filter: RejudgeJobFilter
+  ): Promise<[job: RejudgeJobEntity, submissionCount: number] | "TOO_MANY_SUBMISSIONS"> {
+    // The matched submissions are read into memory
+    if ((await this.countMatchedSubmissions(problem, filter)) > this.configService.config.queryLimit.rejudgeSubmissions)
+      return "TOO_MANY_SUBMISSIONS";
+
+    const submissions: Pick<SubmissionEntity, "id" | "submitterId" | "status" | "score">[] = await (
+      await this.getMatchedSubmissionsQueryBuilder(problem, filter)
+    )
+      .select(["id", "submitterId", "status", "score"])
+      .orderBy("id", "ASC")
+      .getRawMany();
+
+    const job = new RejudgeJobEntity();
+    job.problemId = problem.id;
+    job.creatorId = creator?.id ?? null;
+    job.filter = filter;
+    job.createTime = new Date();
+    job.finishTime = submissions.length === 0 ? job.createTime : null;
+    await this.rejudgeJobRepository.save(job);
+
+    for (let i = 0; i < submissions.length; i += INSERT_BATCH_SIZE) {
+      // eslint-disable-next-line no-await-in-loop
+      await this.rejudgeJobSubmissionRepository.insert(
+        submissions.slice(i, i + INSERT_BATCH_SIZE).map(submission => ({
+          jobId: job.id,
+          submissionId: submission.id,
+          submitterId: submission.submitterId,
+          status: RejudgeJobSubmissionStatus.Waiting,
+          oldStatus: submission.status,
+          oldScore: submission.score,
+          newStatus: null,
+          newScore: null
+        }))
+      );
+    }
+
+    // Enqueueing thousands of submissions takes a while, don't block the request
+    // The waiting submissions are persisted, so it's resumed if interrupted
+    this.startEnqueueingRejudgeJob(job.id);
+
+    return [job, submissions.length];
+  }
+
+  private startEnqueueingRejudgeJob(jobId: number): void {
+    this.lockService
+      .lock(`EnqueueRejudgeJob_${jobId}`, () => this.enqueueRejudgeJob(jobId))
+      .catch(e => logger.error(`Failed to enqueue rejudge job ${jobId}, will be resumed later: ${e}`));
+  }
+
+  private async resumeInterruptedRejudgeJobs(): Promise<void> {
+    const jobs = await this.rejudgeJobRepository.findBy({ finishTime: IsNull() });
+    for (const job of jobs) {
+      /* eslint-disable no-await-in-loop */
+      if (await this.lockService.isLocked(`EnqueueRejudgeJob_${job.id}`)) continue;
+      if (
+        (await this.rejudgeJobSubmissionRepository.countBy({
+          jobId: job.id,
+          status: RejudgeJobSubmissionStatus.Waiting
+        })) === 0
+      )
+        continue;
+      /* eslint-enable no-await-in-loop */
+
+      logger.log(`Resuming interrupted rejudge job ${job.id}`);
+      this.startEnqueueingRejudgeJob(job.id);
+    }
+  }
+
+  private async enqueueRejudgeJob(jobId: number): Promise<void> {
+    const jobSubmissions = await this.rejudgeJobSubmissionRepository.find({
+      where: { jobId, status: RejudgeJobSubmissionStatus.Waiting },
+      order: { id: "ASC" }
+    });
+
+    /* eslint-disable no-await-in-loop */
+    for (const jobSubmission of jobSubmissions) {
+      const submission = await this.submissionService.findSubmissionById(jobSubmission.submissionId);
+      if (!submission) continue;
+
+      // Snapshot the old result in the submission's lock, so it won't be changed by a previous judge task
+      await this.submissionService.rejudgeSubmission(submission, async lockedSubmission => {
+        jobSubmission.status = RejudgeJobSubmissionStatus.Judging;
+        jobSubmission.oldStatus = lockedSubmission.status;
+        jobSubmission.oldScore = lockedSubmission.score;
+        await this.rejudgeJobSubmissionRepository.save(jobSubmission);
+      });
+    }
+    /* eslint-enable no-await-in-loop */
+
+    logger.log(`Enqueued ${jobSubmissions.length} submissions of rejudge job ${jobId}`);
+
+    // Some submissions may be deleted before enqueued
+    await this.checkRejudgeJobFinished(jobId);
+  }
+
+  /**
+   * Called before a submission is deleted, with the submission locked. The submission is removed from its unfinished
+   * jobs, so they could finish without it.
+   */
+  async onSubmissionDeleted(submission: SubmissionEntity): Promise<void> {
+    const jobSubmissions = await this.rejudgeJobSubmissionRepository.findBy({
+      submissionId: submission.id,
+      status: Not(RejudgeJobSubmissionStatus.Finished)
+    });
+    if (jobSubmissions.length === 0) return;
+
+    await this.rejudgeJobSubmissionRepository.delete({ id: In(jobSubmissions.map(jobSubmission => jobSubmission.id)) });
+    await Promise.all(jobSubmissions.map(jobSubmission => this.checkRejudgeJobFinished(jobSubmission.jobId)));
+  }
+
+  /**
+   * Called when a submission's judge task is finished or canceled, with the submission locked.
+   */
+  async onSubmissionJudged(submission: SubmissionEntity): Promise<void> {
+    const jobSubmissions = await this.rejudgeJobSubmissionRepository.findBy({
+      submissionId: submission.id,
+      status: RejudgeJobSubmissionStatus.Judging
+    });
+    if (jobSubmissions.length === 0) return;
+
+    await this.rejudgeJobSubmissionRepository.update(
+      { id: In(jobSubmissions.map(jobSubmission => jobSubmission.id)) },
+      {
+        status: RejudgeJobSubmissionStatus.Finished,
+        newStatus: submission.status,
+        newScore: submission.score
+      }
+    );
+
+    await Promise.all(jobSubmissions.map(jobSubmission => this.checkRejudgeJobFinished(jobSubmission.jobId)));
+  }
+
+  private async checkRejudgeJobFinished(jobId: number): Promise<void> {
+    const unfinished = await this.rejudgeJobSubmissionRepository.countBy({
+      jobId,
+      status: Not(RejudgeJobSubmissionStatus.Finished)
+    });
+    if (unfinished > 0) return;
+
+    await this.rejudgeJobRepository.update({ id: jobId, finishTime: IsNull() }, { finishTime: new Date() });
+  }
+
+  /**
+   * Rejudge the problem's outdated submissions after the debounce time, according to the problem's rejudge policy.
+   */
+  async scheduleAutoRejudge(problem: ProblemEntity): Promise<void> {
+    const dueTime = Date.now() + this.configService.config.preference.serverSideOnly.autoRejudgeDebounceTime * 1000;
+    await this.redis.zadd(REDIS_KEY_AUTO_REJUDGE_PROBLEMS, dueTime, problem.id);
+  }
+
+  private async runDueAutoRejudges(): Promise<void> {
+    const problemIds = await this.redis.zrangebyscore(REDIS_KEY_AUTO_REJUDGE_PROBLEMS, 0, Date.now());
+
+    /* eslint-disable no-await-in-loop */
+    for (const problemId of problemIds) {
+      // Multiple server nodes may run at the same time, only the one removed the problem rejudges it
+      if (!(await this.redis.zrem(REDIS_KEY_AUTO_REJUDGE_PROBLEMS, problemId))) continue;
+
+      const problem = await this.problemService.findProblemById(Number(problemId));
+      if (!problem) continue;
+
+      // The policy may be changed during the debounce time
+      const rejudgePolicy = await this.problemService.getProblemRejudgePolicy(problem);
+      let filter: RejudgeJobFilter;
+      if (rejudgePolicy === ProblemRejudgePolicy.AutoRejudgeRecent) {
+        const { autoRejudgeRecentDays } = this.configService.config.preference.serverSideOnly;
+        filter = {
+          outdatedOnly: true,
+          submitTimeFrom: new Date(Date.now() - autoRejudgeRecentDays * 24 * 60 * 60 * 1000).toISOString()
+        };
+      } else if (rejudgePolicy === ProblemRejudgePolicy.AutoRejudgeAccepted)
+        filter = {
+          outdatedOnly: true,
+          status: SubmissionStatus.Accepted
+        };
+      else continue;
+
+      const result = await this.createRejudgeJob(null, problem, filter);
+      if (result === "TOO_MANY_SUBMISSIONS") {
+        logger.warn(`Skipped automatic rejudge of problem ${problem.id} with too many outdated submissions`);
+        continue;
+      }
+
+      const [job, submissionCount] = result;
+      logger.log(
+        `Created automatic rejudge job ${job.id} for problem ${problem.id} with ${submissionCount} submissions`
+      );
+    }
+    /* eslint-enable no-await-in-loop */
+  }
+
+  async getRejudgeJobProgress(job: RejudgeJobEntity): Promise<RejudgeJobProgressDto> {
+    const counts: { status: RejudgeJobSubmissionStatus; count: string }[] = await this.rejudgeJobSubmissionRepository
+      .createQueryBuilder()
+      .select("status", "status")
+      .addSelect("COUNT(*)", "count")
+      .where("jobId = :jobId", { jobId: job.id })
+      .groupBy("status")
+      .getRawMany();
+    const countOf = (status: RejudgeJobSubmissionStatus) =>
+      Number(counts.find(item => item.status === status)?.count ?? 0);
+
+    const waiting = countOf(RejudgeJobSubmissionStatus.Waiting);
+    const judging = countOf(RejudgeJobSubmissionStatus.Judging);
+    const finished = countOf(RejudgeJobSubmissionStatus.Finished);
+    return {
+      total: waiting + judging + finished,
+      waiting,
+      judging,
+      finished
+    };
+  }
+
+  /**
+   * Compare the old and new results of the job's rejudged submissions. Unfinished submissions are not included.
+   *
+   * @param changedSubmissionsSkipCount The changed submissions are paginated, the others are aggregated.
+   */
+  async getRejudgeJobReport(
+    job: RejudgeJobEntity,
+    changedSubmissionsSkipCount: number,
+    changedSubmissionsTakeCount: number
+  ): Promise<RejudgeJobReportDto> {
+    const parameters = {
+      jobId: job.id,
+      problemId: job.problemId,
+      finished: RejudgeJobSubmissionStatus.Finished,
+      accepted: SubmissionStatus.Accepted
+    };
+    const getFinishedQueryBuilder = () =>
+      this.rejudgeJobSubmissionRepository
+        .createQueryBuilder("jobSubmission")
+        .where("jobSubmission.jobId = :jobId")
+        .andWhere("jobSubmission.status = :finished")
+        .setParameters(parameters);
+
+    const [changedSubmissions, changedSubmissionCount] = await getFinishedQueryBuilder()
+      .andWhere("jobSubmission.oldStatus != jobSubmission.newStatus")
+      .orderBy("jobSubmission.submissionId", "ASC")
+      .skip(changedSubmissionsSkipCount)
+      .take(changedSubmissionsTakeCount)
+      .getManyAndCount();
+
+    const { acceptedSubmissionCountDelta }: { acceptedSubmissionCountDelta: string } = await getFinishedQueryBuilder()
+      .select(
+        "SUM(jobSubmission.newStatus = :accepted) - SUM(jobSubmission.oldStatus = :accepted)",
+        "acceptedSubmissionCountDelta"
+      )
+      .getRawOne();
+
+    // A user's accepted count changes only if the user has no other accepted submissions to the problem, the
+    // unfinished submissions of the job count as other submissions with their current results
+    const userAcceptedChanges: { userId: number; acceptedBefore: string }[] = await getFinishedQueryBuilder()
+      .select("jobSubmission.submitterId", "userId")
+      .addSelect("MAX(jobSubmission.oldStatus = :accepted)", "acceptedBefore")
+      .addSelect("MAX(jobSubmission.newStatus = :accepted)", "acceptedAfter")
+      .andWhere(
+        queryBuilder =>
+          `NOT EXISTS ${queryBuilder
+            .subQuery()
+            .select("1")
+            .from(SubmissionEntity, "submission")
+            .leftJoin(
+              RejudgeJobSubmissionEntity,
+              "otherJobSubmission",
+              "otherJobSubmission.jobId = :jobId AND otherJobSubmission.submissionId = submission.id AND " +
+                "otherJobSubmission.status = :finished"
+            )
+            .where("submission.problemId = :problemId")
+            .andWhere("submission.submitterId = jobSubmission.submitterId")
+            .andWhere("submission.status = :accepted")
+            .andWhere("otherJobSubmission.id IS NULL")
+            .getQuery()}`
+      )
+      .groupBy("jobSubmission.submitterId")
+      .having("acceptedBefore != acceptedAfter")
+      .orderBy("jobSubmission.submitterId", "ASC")
+      .getRawMany();
+
+    return {
+      changedSubmissions: changedSubmissions.map(jobSubmission => ({
+        submissionId: jobSubmission.submissionId,
+        submitterId: jobSubmission.submitterId,
+        oldStatus: jobSubmission.oldStatus,
+        oldScore: jobSubmission.oldScore,
+        newStatus: jobSubmission.newStatus,
+        newScore: jobSubmission.newScore
+      })),
+      changedSubmissionCount,
+      acceptedSubmissionCountDelta: Number(acceptedSubmissionCountDelta) || 0,
+      userAcceptedCountChanges: userAcceptedChanges.map(({ userId, acceptedBefore }) => ({
+        userId: Number(userId),
+        delta: Number(acceptedBefore) ? -1 : 1
+      }))
+    };
+  }
+}
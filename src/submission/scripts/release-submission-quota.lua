@@ -0,0 +1,11 @@
+-- Release a submission counted by reserve-submission-quota.lua if nothing is submitted
+-- A counter already expired with its window is not recreated, and the counters keep their TTLs
+
+-- The counters of the user's submissions in the reserved minute and hour window
+for _, key in ipairs(KEYS) do
+  if tonumber(redis.call("get", key) or "0") > 0 then
+    redis.call("decr", key)
+  end
+end
+
+return 0
@@ -0,0 +1,41 @@
+-- Check a user's submission quota and count a submission against it atomically
+-- The counters are only increased if no limit is exceeded
+-- The windows are fixed, so up to twice of a limit could be counted across the boundary of two windows
+
+-- The counters of the user's submissions in the current minute and hour window
+local key_minute_window = KEYS[1]
+local key_hour_window = KEYS[2]
+
+-- Exists while the user is cooling down on the problem
+local key_problem_cooldown = KEYS[3]
+
+-- The limits, 0 for unlimited
+local per_minute = tonumber(ARGV[1])
+local per_hour = tonumber(ARGV[2])
+local problem_cooldown = tonumber(ARGV[3])
+
+-- Returns if the counter reached the limit
+local function window_exceeded(key, limit)
+  return limit > 0 and tonumber(redis.call("get", key) or "0") >= limit
+end
+
+local minute_exceeded = window_exceeded(key_minute_window, per_minute)
+local hour_exceeded = window_exceeded(key_hour_window, per_hour)
+local cooldown_ttl = 0
+if problem_cooldown > 0 then
+  cooldown_ttl = math.max(redis.call("pttl", key_problem_cooldown), 0)
+end
+
+if minute_exceeded or hour_exceeded or cooldown_ttl > 0 then
+  return { minute_exceeded and 1 or 0, hour_exceeded and 1 or 0, cooldown_ttl }
+end
+
+redis.call("incr", key_minute_window)
+redis.call("expire", key_minute_window, 60)
+redis.call("incr", key_hour_window)
+redis.call("expire", key_hour_window, 60 * 60)
+if problem_cooldown > 0 then
+  redis.call("set", key_problem_cooldown, "1", "EX", problem_cooldown)
+end
+
+return { 0, 0, 0 }
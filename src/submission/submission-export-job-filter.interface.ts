@@ -0,0 +1,9 @@
+export interface SubmissionExportJobFilter {
+  submitterId?: number;
+
+  // Only export the submissions of the group's members
+  groupId?: number;
+
+  problemIds?: number[];
+  acceptedOnly?: boolean;
+}
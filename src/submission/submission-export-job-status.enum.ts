@@ -0,0 +1,5 @@
+export enum SubmissionExportJobStatus {
+  Running = "Running",
+  Finished = "Finished",
+  Failed = "Failed"
+}
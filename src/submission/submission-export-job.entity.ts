@@ -0,0 +1,40 @@
+import { Entity, PrimaryGeneratedColumn, Index, ManyToOne, Column, JoinColumn } from "typeorm";
+
+import { UserEntity } from "@/user/user.entity";
+
+import { SubmissionExportJobStatus } from "./submission-export-job-status.enum";
+import { SubmissionExportJobFilter } from "./submission-export-job-filter.interface";
+
+@Entity("submission_export_job")
+export class SubmissionExportJobEntity {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @ManyToOne(() => UserEntity, { onDelete: "CASCADE" })
+  @JoinColumn()
+  creator: Promise<UserEntity>;
+
+  @Column()
+  @Index()
+  creatorId: number;
+
+  @Column({ type: "json" })
+  filter: SubmissionExportJobFilter;
+
+  @Column({ type: "enum", enum: SubmissionExportJobStatus })
+  status: SubmissionExportJobStatus;
+
+  // The number of exported submissions, the submissions the creator has no permission to view are skipped
+  @Column({ type: "integer", nullable: true })
+  submissionCount: number;
+
+  // The exported ZIP archive, `null` until the job is finished
+  @Column({ type: "char", length: 36, nullable: true })
+  fileUuid: string;
+
+  @Column({ type: "datetime" })
+  createTime: Date;
+
+  @Column({ type: "datetime", nullable: true })
+  finishTime: Date;
+}
@@ -0,0 +1,318 @@
+import { Readable } from "stream";
+
+import { Injectable, Inject, forwardRef, OnModuleInit } from "@nestjs/common";
+import { InjectRepository, InjectDataSource } from "@nestjs/typeorm";
+
+import { Repository, DataSource, LessThan, IsNull, Not } from "typeorm";
+
+import { logger } from "@/logger";
+import { UserEntity } from "@/user/user.entity";
+import { UserPrivilegeService, UserPrivilegeType } from "@/user/user-privilege.service";
+import { ProblemService } from "@/problem/problem.service";
+import { ProblemTypeFactoryService } from "@/problem-type/problem-type-factory.service";
+import { SubmissionContentTraditional } from "@/problem-type/types/traditional/submission-content.interface";
+import { CodeLanguage } from "@/code-language/code-language.type";
+import { GroupService } from "@/group/group.service";
+import { FileService } from "@/file/file.service";
+import { ZipWriter } from "@/file/zip-writer";
+import { LockService } from "@/redis/lock.service";
+import { ClusterService } from "@/cluster/cluster.service";
+
+import { SubmissionService, SubmissionPermissionType } from "./submission.service";
+import { SubmissionEntity } from "./submission.entity";
+import { SubmissionStatus } from "./submission-status.enum";
+import { SubmissionExportJobEntity } from "./submission-export-job.entity";
+import { SubmissionExportJobStatus } from "./submission-export-job-status.enum";
+import { SubmissionExportJobFilter } from "./submission-export-job-filter.interface";
+
+const CODE_LANGUAGE_FILE_EXTENSIONS: Record<CodeLanguage, string> = {
+  [CodeLanguage.Cpp]: "cpp",
+  [CodeLanguage.C]: "c",
+  [CodeLanguage.Java]: "java",
+  [CodeLanguage.Kotlin]: "kt",
+  [CodeLanguage.Pascal]: "pas",
+  [CodeLanguage.Python]: "py",
+  [CodeLanguage.Swift]: "swift",
+  [CodeLanguage.Rust]: "rs",
+  [CodeLanguage.Go]: "go",
+  [CodeLanguage.Haskell]: "hs",
+  [CodeLanguage.CSharp]: "cs",
+  [CodeLanguage.FSharp]: "fs"
+};
+
+// A running job holds its lock, a job without the lock is interrupted if it's not just created
+const JOB_START_GRACE_TIME = 60 * 1000;
+
+// The exported archives are deleted after a while
+const EXPORTED_FILE_EXPIRE_TIME = 7 * 24 * 60 * 60 * 1000;
+const MAINTENANCE_INTERVAL = 60 * 60 * 1000;
+
+interface SubmissionExportManifestItem {
+  path: string;
+  submissionId: number;
+  problemId: number;
+  problemDisplayId: number;
+  submitterId: number;
+  submitTime: Date;
+  codeLanguage: string;
+  status: SubmissionStatus;
+  score: number;
+  timeUsed: number;
+  memoryUsed: number;
+}
+
+@Injectable()
+export class SubmissionExportService implements OnModuleInit {
+  constructor(
+    @InjectDataSource()
+    private readonly connection: DataSource,
+    @InjectRepository(SubmissionEntity)
+    private readonly submissionRepository: Repository<SubmissionEntity>,
+    @InjectRepository(SubmissionExportJobEntity)
+    private readonly submissionExportJobRepository: Repository<SubmissionExportJobEntity>,
+    @Inject(forwardRef(() => SubmissionService))
+    private readonly submissionService: SubmissionService,
+    @Inject(forwardRef(() => ProblemService))
+    private readonly problemService: ProblemService,
+    private readonly problemTypeFactoryService: ProblemTypeFactoryService,
+    @Inject(forwardRef(() => UserPrivilegeService))
+    private readonly userPrivilegeService: UserPrivilegeService,
+    @Inject(forwardRef(() => GroupService))
+    private readonly groupService: GroupService,
+    private readonly fileService: FileService,
+    private readonly lockService: LockService,
+    private readonly clusterService: ClusterService
+  ) {}
+
+  async onModuleInit(): Promise<void> {
+    if (!this.clusterService.isMaster) return;
+
+    const runMaintenance = () =>
+      this.failInterruptedJobs()
+        .then(() => this.deleteExpiredFiles())
+        .catch(e => logger.error(`Failed to clean up submission export jobs: ${e}`));
+    runMaintenance();
+    setInterval(runMaintenance, MAINTENANCE_INTERVAL);
+  }
+
+  async findSubmissionExportJobById(id: number): Promise<SubmissionExportJobEntity> {
+    return await this.submissionExportJobRepository.findOneBy({ id });
+  }
+
+  /**
+   * @return `null` if the filter's group doesn't exist.
+   */
+  private async getMatchedSubmissionsQueryBuilder(filter: SubmissionExportJobFilter) {
+    const queryBuilder = this.submissionRepository
+      .createQueryBuilder()
+      .where("status != :pending", { pending: SubmissionStatus.Pending });
+
+    if (filter.groupId) {
+      const group = await this.groupService.findGroupById(filter.groupId);
+      if (!group) return null;
+      const submitterIds = (await this.groupService.getGroupMemberList(group)).map(membership => membership.userId);
+
+      // An empty group matches no submissions
+      if (submitterIds.length === 0) queryBuilder.andWhere("0 = 1");
+      else queryBuilder.andWhere("submitterId IN (:...submitterIds)", { submitterIds });
+    }
+
+    if (filter.submitterId) queryBuilder.andWhere("submitterId = :submitterId", { submitterId: filter.submitterId });
+    if (filter.problemIds && filter.problemIds.length > 0)
+      queryBuilder.andWhere("problemId IN (:...problemIds)", { problemIds: filter.problemIds });
+    if (filter.acceptedOnly) queryBuilder.andWhere("status = :accepted", { accepted: SubmissionStatus.Accepted });
+
+    return queryBuilder;
+  }
+
+  /**
+   * @return `null` if the filter's group doesn't exist.
+   */
+  async countMatchedSubmissions(filter: SubmissionExportJobFilter): Promise<number> {
+    const queryBuilder = await this.getMatchedSubmissionsQueryBuilder(filter);
+    return queryBuilder && (await queryBuilder.getCount());
+  }
+
+  /**
+   * Mark the job as failed if its process exited while running it.
+   *
+   * @return Whether the job was interrupted.
+   */
+  private async failJobIfInterrupted(job: SubmissionExportJobEntity): Promise<boolean> {
+    if (
+      job.status !== SubmissionExportJobStatus.Running ||
+      job.createTime.getTime() > Date.now() - JOB_START_GRACE_TIME ||
+      (await this.lockService.isLocked(`SubmissionExportJob_${job.id}`))
+    )
+      return false;
+
+    logger.error(`Submission export job ${job.id} was interrupted, marking it as failed`);
+    await this.submissionExportJobRepository.update(
+      { id: job.id, status: SubmissionExportJobStatus.Running },
+      { status: SubmissionExportJobStatus.Failed, finishTime: new Date() }
+    );
+    return true;
+  }
+
+  private async failInterruptedJobs(): Promise<void> {
+    const jobs = await this.submissionExportJobRepository.findBy({ status: SubmissionExportJobStatus.Running });
+    // eslint-disable-next-line no-await-in-loop
+    for (const job of jobs) await this.failJobIfInterrupted(job);
+  }
+
+  private async deleteExpiredFiles(): Promise<void> {
+    const jobs = await this.submissionExportJobRepository.findBy({
+      status: SubmissionExportJobStatus.Finished,
+      finishTime: LessThan(new Date(Date.now() - EXPORTED_FILE_EXPIRE_TIME)),
+      fileUuid: Not(IsNull())
+    });
+    for (const job of jobs) {
+      /* eslint-disable no-await-in-loop */
+      const deleteFileActually = await this.connection.transaction(
+        "READ COMMITTED",
+        async transactionalEntityManager => {
+          await transactionalEntityManager.update(SubmissionExportJobEntity, { id: job.id }, { fileUuid: null });
+          return await this.fileService.deleteFile(job.fileUuid, transactionalEntityManager);
+        }
+      );
+      /* eslint-enable no-await-in-loop */
+      deleteFileActually();
+    }
+  }
+
+  /**
+   * Create a job to export the matched submissions the creator could view. The archive is generated in background.
+   *
+   * A user could only have one running job at the same time.
+   */
+  async createSubmissionExportJob(
+    creator: UserEntity,
+    filter: SubmissionExportJobFilter
+  ): Promise<SubmissionExportJobEntity | "ALREADY_HAS_RUNNING_JOB"> {
+    const job = await this.lockService.lock(`CreateSubmissionExportJob_${creator.id}`, async () => {
+      const runningJobs = await this.submissionExportJobRepository.findBy({
+        creatorId: creator.id,
+        status: SubmissionExportJobStatus.Running
+      });
+      // eslint-disable-next-line no-await-in-loop
+      for (const runningJob of runningJobs) if (!(await this.failJobIfInterrupted(runningJob))) return null;
+
+      const newJob = new SubmissionExportJobEntity();
+      newJob.creatorId = creator.id;
+      newJob.filter = filter;
+      newJob.status = SubmissionExportJobStatus.Running;
+      newJob.submissionCount = null;
+      newJob.fileUuid = null;
+      newJob.createTime = new Date();
+      newJob.finishTime = null;
+      await this.submissionExportJobRepository.save(newJob);
+      return newJob;
+    });
+    if (!job) return "ALREADY_HAS_RUNNING_JOB";
+
+    this.lockService
+      .lock(`SubmissionExportJob_${job.id}`, async () => {
+        try {
+          await this.runSubmissionExportJob(job, creator);
+          job.status = SubmissionExportJobStatus.Finished;
+        } catch (e) {
+          logger.error(`Submission export job ${job.id} failed: ${e}`);
+          job.status = SubmissionExportJobStatus.Failed;
+        }
+
+        job.finishTime = new Date();
+        await this.submissionExportJobRepository.save(job);
+      })
+      .catch(e => logger.error(`Failed to save submission export job ${job.id}: ${e}`));
+
+    return job;
+  }
+
+  private async runSubmissionExportJob(job: SubmissionExportJobEntity, creator: UserEntity): Promise<void> {
+    const submissions = await (await this.getMatchedSubmissionsQueryBuilder(job.filter)).orderBy("id", "ASC").getMany();
+    const problems = new Map(
+      (
+        await this.problemService.findProblemsByExistingIds(
+          Array.from(new Set(submissions.map(submission => submission.problemId)))
+        )
+      ).map(problem => [problem.id, problem])
+    );
+    const hasPrivilege = await this.userPrivilegeService.userHasPrivilege(creator, UserPrivilegeType.ManageProblem);
+
+    // The archive is uploaded while being written
+    const zipWriter = new ZipWriter();
+    const uploadPromise = this.fileService.createFileFromStream(zipWriter.stream, this.connection.manager);
+
+    const manifest: SubmissionExportManifestItem[] = [];
+    try {
+      for (const submission of submissions) {
+        /* eslint-disable no-await-in-loop */
+        const problem = problems.get(submission.problemId);
+        if (
+          !(await this.submissionService.userHasPermission(
+            creator,
+            submission,
+            SubmissionPermissionType.View,
+            problem,
+            hasPrivilege
+          ))
+        )
+          continue;
+
+        const submissionDetail = await this.submissionService.getSubmissionDetail(submission);
+        const directory = problem.displayId ? String(problem.displayId) : `id-${problem.id}`;
+        let path: string;
+        let content: Readable | string;
+        if (this.problemTypeFactoryService.type(problem.type).shouldUploadAnswerFile()) {
+          if (!submissionDetail.fileUuid) continue;
+          path = `${directory}/${submission.id}.zip`;
+          content = await this.fileService.getFileStream(submissionDetail.fileUuid);
+        } else {
+          const { code, language } = submissionDetail.content as SubmissionContentTraditional;
+          if (typeof code !== "string") continue;
+          path = `${directory}/${submission.id}.${CODE_LANGUAGE_FILE_EXTENSIONS[language] || "txt"}`;
+          content = code;
+        }
+
+        await zipWriter.addFile(path, content, submission.submitTime);
+        /* eslint-enable no-await-in-loop */
+
+        manifest.push({
+          path,
+          submissionId: submission.id,
+          problemId: problem.id,
+          problemDisplayId: problem.displayId,
+          submitterId: submission.submitterId,
+          submitTime: submission.submitTime,
+          codeLanguage: submission.codeLanguage,
+          status: submission.status,
+          score: submission.score,
+          timeUsed: submission.timeUsed,
+          memoryUsed: submission.memoryUsed
+        });
+      }
+
+      await zipWriter.addFile("manifest.json", JSON.stringify(manifest, null, 2));
+      await zipWriter.finish();
+    } catch (e) {
+      zipWriter.stream.destroy(e);
+      await uploadPromise.catch(() => null);
+      throw e;
+    }
+
+    const file = await uploadPromise;
+    job.submissionCount = manifest.length;
+    job.fileUuid = file.uuid;
+  }
+
+  /**
+   * @return `null` if the exported archive is expired.
+   */
+  async getSubmissionExportJobDownloadUrl(job: SubmissionExportJobEntity): Promise<string> {
+    if (!job.fileUuid) return null;
+    return await this.fileService.signDownloadLink({
+      uuid: job.fileUuid,
+      downloadFilename: `submissions-${job.id}.zip`
+    });
+  }
+}
@@ -0,0 +1,17 @@
+import { SubmissionStatus } from "./submission-status.enum";
+
+// An omitted filter matches all submissions, an empty array matches no submissions
+export interface SubmissionQueryFilter {
+  problemIds?: number[];
+  submitterIds?: number[];
+  codeLanguages?: string[];
+  statuses?: SubmissionStatus[];
+  submitTimeFrom?: Date;
+  submitTimeTo?: Date;
+  scoreFrom?: number;
+  scoreTo?: number;
+
+  // Submissions of contests that haven't ended are only matched if they're submitted by `currentUserId`
+  hideUnfinishedContestSubmissions?: boolean;
+  currentUserId?: number;
+}
@@ -0,0 +1,5 @@
+export enum SubmissionQuerySortBy {
+  Id = "Id",
+  TimeUsed = "TimeUsed",
+  MemoryUsed = "MemoryUsed"
+}
@@ -0,0 +1,8 @@
+// A `null` limit means unlimited, an `undefined` limit in a group's override means not overridden
+// Custom tests are limited by the same quota, counted separately from the submissions
+export interface SubmissionQuota {
+  perMinute?: number;
+  perHour?: number;
+  problemCooldown?: number;
+  maxPending?: number;
+}
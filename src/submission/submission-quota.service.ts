@@ -0,0 +1,223 @@
+import { join } from "path";
+import fs from "fs-extra";
+
+import { Injectable, Inject, forwardRef } from "@nestjs/common";
+import { InjectRepository } from "@nestjs/typeorm";
+
+import { Redis } from "ioredis";
+import { Repository } from "typeorm";
+
+import { RedisService } from "@/redis/redis.service";
+import { LockService } from "@/redis/lock.service";
+import { ConfigService } from "@/config/config.service";
+import { UserEntity } from "@/user/user.entity";
+import { UserPrivilegeService, UserPrivilegeType } from "@/user/user-privilege.service";
+import { GroupService } from "@/group/group.service";
+import { ProblemEntity } from "@/problem/problem.entity";
+
+import { SubmissionEntity } from "./submission.entity";
+import { SubmissionStatus } from "./submission-status.enum";
+import { SubmissionQuota } from "./submission-quota.interface";
+import { CustomTestService } from "./custom-test.service";
+
+// kind, userId, window length in seconds, window index
+const REDIS_KEY_SUBMISSION_QUOTA_WINDOW = "%s-quota-window:%s:%s:%s";
+
+// kind, userId, problemId
+const REDIS_KEY_SUBMISSION_QUOTA_PROBLEM_COOLDOWN = "%s-quota-problem-cooldown:%s:%s";
+
+// Custom tests are limited by the same quota as submissions, but counted separately
+type SubmissionQuotaKind = "submission" | "custom-test";
+
+// We can't know when a pending submission will finish, but it usually takes seconds
+const MAX_PENDING_RETRY_AFTER = 10;
+
+// Refer to scripts/reserve-submission-quota.lua and scripts/release-submission-quota.lua
+interface RedisWithSubmissionQuotaScripts extends Redis {
+  callReserveSubmissionQuota(
+    ...args: (string | number)[]
+  ): Promise<[minuteExceeded: number, hourExceeded: number, cooldownTtl: number]>;
+  callReleaseSubmissionQuota(...windowKeys: string[]): Promise<number>;
+}
+
+// The counted submission of a user, to be released if nothing is submitted
+interface SubmissionQuotaReservation {
+  windowKeys: string[];
+  problemCooldownKey: string;
+}
+
+const SUBMISSION_QUOTA_LIMITS: (keyof SubmissionQuota)[] = ["perMinute", "perHour", "problemCooldown", "maxPending"];
+
+@Injectable()
+export class SubmissionQuotaService {
+  private readonly redis: RedisWithSubmissionQuotaScripts;
+
+  constructor(
+    @InjectRepository(SubmissionEntity)
+    private readonly submissionRepository: Repository<SubmissionEntity>,
+    @Inject(forwardRef(() => RedisService))
+    private readonly redisService: RedisService,
+    private readonly configService: ConfigService,
+    @Inject(forwardRef(() => UserPrivilegeService))
+    private readonly userPrivilegeService: UserPrivilegeService,
+    @Inject(forwardRef(() => GroupService))
+    private readonly groupService: GroupService,
+    @Inject(forwardRef(() => LockService))
+    private readonly lockService: LockService,
+    @Inject(forwardRef(() => CustomTestService))
+    private readonly customTestService: CustomTestService
+  ) {
+    this.redis = this.redisService.getClient() as RedisWithSubmissionQuotaScripts;
+    this.redis.defineCommand("callReserveSubmissionQuota", {
+      numberOfKeys: 3,
+      lua: fs.readFileSync(join(__dirname, "scripts", "reserve-submission-quota.lua")).toString("utf-8")
+    });
+    this.redis.defineCommand("callReleaseSubmissionQuota", {
+      numberOfKeys: 2,
+      lua: fs.readFileSync(join(__dirname, "scripts", "release-submission-quota.lua")).toString("utf-8")
+    });
+  }
+
+  /**
+   * Get the default quota overridden by the user's groups. The most permissive override is used if the user's groups
+   * override the same limit.
+   */
+  async getUserSubmissionQuota(user: UserEntity): Promise<SubmissionQuota> {
+    const defaultQuota: SubmissionQuota = this.configService.config.resourceLimit.submissionQuota ?? {};
+    const groups = await this.groupService.findGroupsByExistingIds(
+      await this.groupService.getGroupIdsByUserId(user.id)
+    );
+    const overrides = groups.map(group => group.submissionQuota).filter(override => override);
+
+    return Object.fromEntries(
+      SUBMISSION_QUOTA_LIMITS.map(limit => {
+        const values = overrides.map(override => override[limit]).filter(value => value !== undefined);
+        if (values.length === 0) return [limit, defaultQuota[limit] ?? null];
+        if (values.includes(null)) return [limit, null];
+        return [limit, limit === "problemCooldown" ? Math.min(...values) : Math.max(...values)];
+      })
+    );
+  }
+
+  /**
+   * Count a submission against the user's quota if not exceeded, in one atomic step.
+   *
+   * The submissions are counted in fixed windows (e.g. 0:00 to 0:59 of a minute), so a user could submit up to twice
+   * the limit in a short time across the boundary of two windows.
+   *
+   * @return The seconds to wait before submitting if the quota is exceeded, or the reservation.
+   */
+  private async reserveSubmissionQuota(
+    kind: SubmissionQuotaKind,
+    user: UserEntity,
+    problem: ProblemEntity,
+    quota: SubmissionQuota
+  ): Promise<[retryAfter: number, reservation?: SubmissionQuotaReservation]> {
+    const now = Math.floor(Date.now() / 1000);
+    const windowKeys = [60, 60 * 60].map(windowSeconds =>
+      REDIS_KEY_SUBMISSION_QUOTA_WINDOW.format(kind, user.id, windowSeconds, Math.floor(now / windowSeconds))
+    );
+    const problemCooldownKey = REDIS_KEY_SUBMISSION_QUOTA_PROBLEM_COOLDOWN.format(kind, user.id, problem.id);
+
+    const [minuteExceeded, hourExceeded, cooldownTtl] = await this.redis.callReserveSubmissionQuota(
+      ...windowKeys,
+      problemCooldownKey,
+      quota.perMinute ?? 0,
+      quota.perHour ?? 0,
+      quota.problemCooldown ?? 0
+    );
+    const retryAfter = Math.max(
+      minuteExceeded ? 60 - (now % 60) : 0,
+      hourExceeded ? 60 * 60 - (now % (60 * 60)) : 0,
+      Math.ceil(cooldownTtl / 1000)
+    );
+    if (retryAfter > 0) return [retryAfter];
+
+    return [null, { windowKeys, problemCooldownKey: quota.problemCooldown == null ? null : problemCooldownKey }];
+  }
+
+  private async releaseSubmissionQuota(reservation: SubmissionQuotaReservation): Promise<void> {
+    await this.redis.callReleaseSubmissionQuota(...reservation.windowKeys);
+    if (reservation.problemCooldownKey) await this.redis.del(reservation.problemCooldownKey);
+  }
+
+  /**
+   * Run `submit` with a request counted against the user's quota, which is released if `isSubmitted` returns false
+   * or an error is thrown. Users with `ManageProblem` privilege are not limited.
+   *
+   * @param countPending Counts the user's pending requests of the kind, for `maxPending`.
+   */
+  private async runWithQuota<T>(
+    kind: SubmissionQuotaKind,
+    user: UserEntity,
+    problem: ProblemEntity,
+    countPending: () => Promise<number>,
+    submit: () => Promise<T>,
+    isSubmitted: (result: T) => boolean
+  ): Promise<[retryAfter: number, result?: T]> {
+    if (await this.userPrivilegeService.userHasPrivilege(user, UserPrivilegeType.ManageProblem))
+      return [null, await submit()];
+
+    const quota = await this.getUserSubmissionQuota(user);
+    const reserveAndSubmit = async (): Promise<[retryAfter: number, result?: T]> => {
+      if (quota.maxPending != null && (await countPending()) >= quota.maxPending) return [MAX_PENDING_RETRY_AFTER];
+
+      const [retryAfter, reservation] = await this.reserveSubmissionQuota(kind, user, problem, quota);
+      if (retryAfter) return [retryAfter];
+
+      let result: T = null;
+      try {
+        result = await submit();
+      } finally {
+        if (!(result != null && isSubmitted(result))) await this.releaseSubmissionQuota(reservation);
+      }
+      return [null, result];
+    };
+
+    // The pending requests are counted before submitting, so the user's requests are serialized to check it
+    if (quota.maxPending == null) return await reserveAndSubmit();
+    return await this.lockService.lock(`SubmissionQuota_${kind}_${user.id}`, reserveAndSubmit);
+  }
+
+  /**
+   * Run `submit` with a submission counted against the user's quota, which is released if nothing is submitted (e.g.
+   * the file is not uploaded yet or an error is thrown). Users with `ManageProblem` privilege are not limited.
+   *
+   * @return The seconds to wait before submitting if the quota is exceeded, or the result of `submit`.
+   */
+  async submitWithQuota<T extends { submissionId?: number }>(
+    user: UserEntity,
+    problem: ProblemEntity,
+    submit: () => Promise<T>
+  ): Promise<[retryAfter: number, result?: T]> {
+    return await this.runWithQuota(
+      "submission",
+      user,
+      problem,
+      async () => await this.submissionRepository.countBy({ submitterId: user.id, status: SubmissionStatus.Pending }),
+      submit,
+      result => result.submissionId != null
+    );
+  }
+
+  /**
+   * Run `createCustomTest` with a custom test counted against the user's quota, separately from the submissions. The
+   * quota is released if no custom test is created (e.g. the content is invalid or an error is thrown).
+   *
+   * @return The seconds to wait before testing if the quota is exceeded, or the result of `createCustomTest`.
+   */
+  async createCustomTestWithQuota<T extends [unknown, string]>(
+    user: UserEntity,
+    problem: ProblemEntity,
+    createCustomTest: () => Promise<T>
+  ): Promise<[retryAfter: number, result?: T]> {
+    return await this.runWithQuota(
+      "custom-test",
+      user,
+      problem,
+      async () => await this.customTestService.countPendingCustomTests(user),
+      createCustomTest,
+      ([, taskId]) => taskId != null
+    );
+  }
+}
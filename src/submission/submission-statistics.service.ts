@@ -11,6 +11,8 @@ import { SubmissionEntity } from "./submission.entity";
 import { SubmissionStatus } from "./submission-status.enum";
 import { SubmissionService } from "./submission.service";
 
+import { ProblemAnalyticsDto } from "@/problem/dto";
+
 // Along with submission statistics, this file also provide the submission score statistics
 
 export enum SubmissionStatisticsType {
@@ -52,6 +54,11 @@ const REDIS_KEY_SUBMISSION_STATISTICS = "submission-statistics:%d:%s";
 
 const REDIS_KEY_SUBMISSION_SCORE_STATISTICS = "submission-score-statistics:%d";
 
+const REDIS_KEY_PROBLEM_ANALYTICS = "problem-analytics:%d";
+
+// Scores 0 ~ 9, 10 ~ 19, ..., 90 ~ 99 and 100
+const SCORE_HISTOGRAM_BUCKETS = 11;
+
 // Only top 100 users' submissions will be in the statistics
 const SUBMISSION_STATISTICS_TOP_COUNT = 100;
 
@@ -162,6 +169,138 @@ export class SubmissionStatisticsService {
     return result;
   }
 
+  /**
+   * Return the distributions of a problem's finished submissions and how many attempts the submitters took to get
+   * accepted.
+   */
+  async queryProblemAnalytics(problem: ProblemEntity): Promise<ProblemAnalyticsDto> {
+    const key = REDIS_KEY_PROBLEM_ANALYTICS.format(problem.id);
+    const cachedResult = await this.parseFromRedis<ProblemAnalyticsDto>(key);
+    if (cachedResult) return cachedResult;
+
+    const parameters = {
+      problemId: problem.id,
+      pending: SubmissionStatus.Pending,
+      accepted: SubmissionStatus.Accepted
+    };
+    const queryFinishedSubmissions = () =>
+      this.connection
+        .createQueryBuilder()
+        .from(SubmissionEntity, "submission")
+        .where("submission.problemId = :problemId")
+        .andWhere("submission.status != :pending")
+        .setParameters(parameters);
+
+    const [statusRows, scoreRows, languageRows, dailyRows, firstTryRow, attemptsRows] = await Promise.all([
+      queryFinishedSubmissions()
+        .select("submission.status", "status")
+        .addSelect("COUNT(*)", "count")
+        .groupBy("submission.status")
+        .orderBy("count", "DESC")
+        .getRawMany<{ status: SubmissionStatus; count: string }>(),
+      queryFinishedSubmissions()
+        .select("FLOOR(submission.score / 10)", "bucket")
+        .addSelect("COUNT(*)", "count")
+        .andWhere("submission.score IS NOT NULL")
+        .groupBy("bucket")
+        .getRawMany<{ bucket: string; count: string }>(),
+      queryFinishedSubmissions()
+        .select("submission.codeLanguage", "codeLanguage")
+        .addSelect("COUNT(*)", "submissionCount")
+        .addSelect("SUM(submission.status = :accepted)", "acceptedSubmissionCount")
+        .andWhere("submission.codeLanguage IS NOT NULL")
+        .groupBy("submission.codeLanguage")
+        .orderBy("submissionCount", "DESC")
+        .getRawMany<{ codeLanguage: string; submissionCount: string; acceptedSubmissionCount: string }>(),
+      queryFinishedSubmissions()
+        .select("DATE_FORMAT(submission.submitTime, '%Y-%m-%d')", "date")
+        .addSelect("COUNT(*)", "submissionCount")
+        .addSelect("SUM(submission.status = :accepted)", "acceptedSubmissionCount")
+        .groupBy("date")
+        .orderBy("date", "ASC")
+        .getRawMany<{ date: string; submissionCount: string; acceptedSubmissionCount: string }>(),
+      // Join each submitter's first finished submission
+      this.connection
+        .createQueryBuilder()
+        .select("COUNT(*)", "submitterCount")
+        .addSelect("SUM(submission.status = :accepted)", "firstTryAcceptedCount")
+        .from(
+          queryBuilder =>
+            queryBuilder
+              .select("MIN(s.id)", "firstId")
+              .from(SubmissionEntity, "s")
+              .where("s.problemId = :problemId")
+              .andWhere("s.status != :pending")
+              .groupBy("s.submitterId"),
+          "firstSubmission"
+        )
+        .innerJoin(SubmissionEntity, "submission", "submission.id = firstSubmission.firstId")
+        .setParameters(parameters)
+        .getRawOne<{ submitterCount: string; firstTryAcceptedCount: string }>(),
+      // Count each accepted submitter's finished submissions before the first accepted one
+      this.connection
+        .createQueryBuilder()
+        .select("COUNT(*) - 1", "attempts")
+        .from(
+          queryBuilder =>
+            queryBuilder
+              .select("s.submitterId", "submitterId")
+              .addSelect("MIN(s.id)", "firstAcceptedId")
+              .from(SubmissionEntity, "s")
+              .where("s.problemId = :problemId")
+              .andWhere("s.status = :accepted")
+              .groupBy("s.submitterId"),
+          "firstAccepted"
+        )
+        .innerJoin(
+          SubmissionEntity,
+          "submission",
+          "submission.submitterId = firstAccepted.submitterId AND submission.problemId = :problemId " +
+            "AND submission.status != :pending AND submission.id <= firstAccepted.firstAcceptedId"
+        )
+        .groupBy("firstAccepted.submitterId")
+        .orderBy("attempts", "ASC")
+        .setParameters(parameters)
+        .getRawMany<{ attempts: string }>()
+    ]);
+
+    const scoreHistogram = new Array(SCORE_HISTOGRAM_BUCKETS).fill(0);
+    for (const row of scoreRows) {
+      const bucket = Math.min(Math.max(Number(row.bucket), 0), SCORE_HISTOGRAM_BUCKETS - 1);
+      scoreHistogram[bucket] += Number(row.count);
+    }
+
+    const submitterCount = Number(firstTryRow.submitterCount);
+    const attempts = attemptsRows.map(row => Number(row.attempts));
+    const middle = Math.floor(attempts.length / 2);
+
+    const result: ProblemAnalyticsDto = {
+      statusDistribution: statusRows.map(row => ({ status: row.status, count: Number(row.count) })),
+      scoreHistogram,
+      languageBreakdown: languageRows.map(row => ({
+        codeLanguage: row.codeLanguage,
+        submissionCount: Number(row.submissionCount),
+        acceptedSubmissionCount: Number(row.acceptedSubmissionCount)
+      })),
+      submissionsOverTime: dailyRows.map(row => ({
+        date: row.date,
+        submissionCount: Number(row.submissionCount),
+        acceptedSubmissionCount: Number(row.acceptedSubmissionCount)
+      })),
+      firstTryAcceptanceRate: submitterCount === 0 ? null : Number(firstTryRow.firstTryAcceptedCount) / submitterCount,
+      medianAttemptsBeforeAccepted:
+        attempts.length === 0
+          ? null
+          : attempts.length % 2 === 1
+          ? attempts[middle]
+          : (attempts[middle - 1] + attempts[middle]) / 2
+    };
+
+    await this.redisService.cacheSet(key, JSON.stringify(result));
+
+    return result;
+  }
+
   /**
    * This function is called after a submission's updated, to determine which caches of statistics should be purged.
    *
@@ -173,6 +312,11 @@ export class SubmissionStatisticsService {
       await this.redisService.cacheDelete(REDIS_KEY_SUBMISSION_SCORE_STATISTICS.format(oldSubmission.problemId));
     }
 
+    // Problem analytics, a new submission is counted when it's finished
+    if (!submission || oldSubmission.status !== submission.status || oldSubmission.score !== submission.score) {
+      await this.redisService.cacheDelete(REDIS_KEY_PROBLEM_ANALYTICS.format(oldSubmission.problemId));
+    }
+
     // Submission statistics
     if (
       oldSubmission.status !== SubmissionStatus.Accepted &&
@@ -231,7 +375,8 @@ export class SubmissionStatisticsService {
       ...Object.values(SubmissionStatisticsType).map(type =>
         this.redisService.cacheDelete(REDIS_KEY_SUBMISSION_STATISTICS.format(problemId, type))
       ),
-      this.redisService.cacheDelete(REDIS_KEY_SUBMISSION_SCORE_STATISTICS.format(problemId))
+      this.redisService.cacheDelete(REDIS_KEY_SUBMISSION_SCORE_STATISTICS.format(problemId)),
+      this.redisService.cacheDelete(REDIS_KEY_PROBLEM_ANALYTICS.format(problemId))
     ]);
   }
 }
@@ -0,0 +1,46 @@
+import { Entity, PrimaryGeneratedColumn, Index, ManyToOne, Column, JoinColumn } from "typeorm";
+
+import { ProblemEntity } from "@/problem/problem.entity";
+
+// Aggregated from the finished submissions judged against the same judge data revision, keyed by the testcase's files
+@Entity("submission_testcase_statistics")
+@Index(["problemId", "inputFile", "outputFile"], { unique: true })
+export class SubmissionTestcaseStatisticsEntity {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @ManyToOne(() => ProblemEntity, { onDelete: "CASCADE" })
+  @JoinColumn()
+  problem: Promise<ProblemEntity>;
+
+  @Column()
+  problemId: number;
+
+  // The statistics are reset when a submission judged against a newer revision finishes
+  @Column({ type: "integer" })
+  judgeDataRevision: number;
+
+  // Empty string if the problem type doesn't have input or output files
+  @Column({ type: "varchar", length: 256 })
+  inputFile: string;
+
+  @Column({ type: "varchar", length: 256 })
+  outputFile: string;
+
+  @Column({ type: "integer" })
+  submissionCount: number;
+
+  @Column({ type: "integer" })
+  failedSubmissionCount: number;
+
+  // The submissions failed on this testcase before any other testcases
+  @Column({ type: "integer" })
+  firstFailedSubmissionCount: number;
+
+  @Column({ type: "integer" })
+  acceptedSubmissionCount: number;
+
+  // Not decreased when an accepted submission is rejudged or deleted
+  @Column({ type: "integer", nullable: true })
+  maxTimeUsedByAccepted: number;
+}
@@ -0,0 +1,171 @@
+import { Injectable, Inject, forwardRef } from "@nestjs/common";
+import { InjectRepository } from "@nestjs/typeorm";
+
+import { Repository } from "typeorm";
+
+import { logger } from "@/logger";
+import { LockService } from "@/redis/lock.service";
+import { ProblemEntity } from "@/problem/problem.entity";
+import { ProblemService } from "@/problem/problem.service";
+
+import { SubmissionEntity } from "./submission.entity";
+import { SubmissionStatus } from "./submission-status.enum";
+import { SubmissionProgress } from "./submission-progress.interface";
+import { SubmissionTestcaseStatisticsEntity } from "./submission-testcase-statistics.entity";
+
+// The common fields of all problem types' testcase results
+interface SubmissionTestcaseResultCommon {
+  testcaseInfo?: {
+    inputFile?: string;
+    outputFile?: string;
+  };
+  status?: string;
+  time?: number;
+}
+
+interface SubmissionTestcaseStatisticsItem {
+  inputFile: string;
+  outputFile: string;
+  failed: boolean;
+  firstFailed: boolean;
+  time: number;
+}
+
+// Don't let the judge system's failures affect the statistics
+const IGNORED_SUBMISSION_STATUSES = [
+  SubmissionStatus.SystemError,
+  SubmissionStatus.JudgementFailed,
+  SubmissionStatus.Canceled
+];
+
+@Injectable()
+export class SubmissionTestcaseStatisticsService {
+  constructor(
+    @InjectRepository(SubmissionTestcaseStatisticsEntity)
+    private readonly submissionTestcaseStatisticsRepository: Repository<SubmissionTestcaseStatisticsEntity>,
+    @Inject(forwardRef(() => ProblemService))
+    private readonly problemService: ProblemService,
+    private readonly lockService: LockService
+  ) {}
+
+  /**
+   * Get the testcases in the subtasks of a finished result, in judge order. Samples and skipped testcases are ignored.
+   */
+  private getTestcaseStatisticsItems(result: SubmissionProgress): SubmissionTestcaseStatisticsItem[] {
+    if (!result || !result.subtasks || !result.testcaseResult || IGNORED_SUBMISSION_STATUSES.includes(result.status))
+      return [];
+
+    const items: SubmissionTestcaseStatisticsItem[] = [];
+    const visitedHashes = new Set<string>();
+    let failedBefore = false;
+    for (const subtask of result.subtasks) {
+      for (const { testcaseHash } of subtask.testcases) {
+        if (!testcaseHash || visitedHashes.has(testcaseHash)) continue;
+        visitedHashes.add(testcaseHash);
+
+        const testcaseResult = result.testcaseResult[testcaseHash] as SubmissionTestcaseResultCommon;
+        if (!testcaseResult || !testcaseResult.testcaseInfo || !testcaseResult.status) continue;
+
+        const failed = testcaseResult.status !== "Accepted";
+        items.push({
+          inputFile: testcaseResult.testcaseInfo.inputFile || "",
+          outputFile: testcaseResult.testcaseInfo.outputFile || "",
+          failed,
+          firstFailed: failed && !failedBefore,
+          time: testcaseResult.time
+        });
+        failedBefore ||= failed;
+      }
+    }
+
+    return items;
+  }
+
+  /**
+   * Add (`delta = 1`) or remove (`delta = -1`) a submission's result to / from its problem's testcase statistics.
+   */
+  private async updateTestcaseStatistics(
+    submission: SubmissionEntity,
+    result: SubmissionProgress,
+    delta: 1 | -1
+  ): Promise<void> {
+    const items = this.getTestcaseStatisticsItems(result);
+    if (items.length === 0) return;
+
+    const accepted = result.status === SubmissionStatus.Accepted;
+    await this.lockService.lock(`SubmissionTestcaseStatistics_${submission.problemId}`, async () => {
+      const rows = await this.submissionTestcaseStatisticsRepository.findBy({ problemId: submission.problemId });
+      const rowMap = new Map(rows.map(row => [`${row.inputFile}\n${row.outputFile}`, row]));
+
+      const updatedRows: SubmissionTestcaseStatisticsEntity[] = [];
+      for (const item of items) {
+        let row = rowMap.get(`${item.inputFile}\n${item.outputFile}`);
+
+        // Results judged against outdated judge data are not counted
+        if (row && row.judgeDataRevision > submission.judgeDataRevision) continue;
+        if ((!row || row.judgeDataRevision < submission.judgeDataRevision) && delta < 0) continue;
+
+        if (!row) {
+          row = new SubmissionTestcaseStatisticsEntity();
+          row.problemId = submission.problemId;
+          row.inputFile = item.inputFile;
+          row.outputFile = item.outputFile;
+        }
+        if (row.judgeDataRevision !== submission.judgeDataRevision) {
+          row.judgeDataRevision = submission.judgeDataRevision;
+          row.submissionCount = 0;
+          row.failedSubmissionCount = 0;
+          row.firstFailedSubmissionCount = 0;
+          row.acceptedSubmissionCount = 0;
+          row.maxTimeUsedByAccepted = null;
+        }
+
+        row.submissionCount += delta;
+        if (item.failed) row.failedSubmissionCount += delta;
+        if (item.firstFailed) row.firstFailedSubmissionCount += delta;
+        if (accepted) {
+          row.acceptedSubmissionCount += delta;
+          if (delta > 0 && item.time != null)
+            row.maxTimeUsedByAccepted = Math.max(row.maxTimeUsedByAccepted ?? 0, item.time);
+        }
+
+        updatedRows.push(row);
+      }
+
+      await this.submissionTestcaseStatisticsRepository.save(updatedRows);
+    });
+  }
+
+  /**
+   * Called after a submission is finished with its result.
+   */
+  async onSubmissionFinished(submission: SubmissionEntity, result: SubmissionProgress): Promise<void> {
+    await this.updateTestcaseStatistics(submission, result, 1).catch(e =>
+      logger.error(`Failed to update testcase statistics with submission ${submission.id}: ${e}`)
+    );
+  }
+
+  /**
+   * Called before a submission's finished result is cleared, i.e. the submission is being rejudged or deleted.
+   */
+  async onSubmissionResultRemoved(submission: SubmissionEntity, result: SubmissionProgress): Promise<void> {
+    await this.updateTestcaseStatistics(submission, result, -1).catch(e =>
+      logger.error(`Failed to update testcase statistics with submission ${submission.id}: ${e}`)
+    );
+  }
+
+  /**
+   * Get the statistics of the testcases in the problem's current judge data.
+   */
+  async getProblemTestcaseStatistics(problem: ProblemEntity): Promise<SubmissionTestcaseStatisticsEntity[]> {
+    return await this.submissionTestcaseStatisticsRepository.find({
+      where: {
+        problemId: problem.id,
+        judgeDataRevision: await this.problemService.getProblemJudgeDataRevision(problem)
+      },
+      order: {
+        id: "ASC"
+      }
+    });
+  }
+}
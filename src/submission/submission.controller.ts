@@ -1,4 +1,4 @@
-import { Controller, Post, Body, BadRequestException } from "@nestjs/common";
+import { Controller, Post, Body, Get, BadRequestException } from "@nestjs/common";
 import { ApiOperation, ApiBearerAuth, ApiTags } from "@nestjs/swagger";
 
 import { Recaptcha } from "@nestlab/google-recaptcha";
@@ -13,12 +13,23 @@ import { ProblemEntity } from "@/problem/problem.entity";
 import { AuditLogObjectType, AuditService } from "@/audit/audit.service";
 import { MinioSignFor, FileService } from "@/file/file.service";
 import { ProblemTypeFactoryService } from "@/problem-type/problem-type-factory.service";
+import { ContestService } from "@/contest/contest.service";
+import { JudgeQueueService } from "@/judge/judge-queue.service";
+import { GroupService } from "@/group/group.service";
 
 import { SubmissionStatus } from "./submission-status.enum";
+import { SubmissionQuerySortBy } from "./submission-query-sort-by.enum";
 import { SubmissionStatisticsService } from "./submission-statistics.service";
 import { SubmissionProgressService } from "./submission-progress.service";
 import { SubmissionProgressGateway, SubmissionProgressSubscriptionType } from "./submission-progress.gateway";
 import { SubmissionPermissionType, SubmissionService } from "./submission.service";
+import { CUSTOM_TEST_SUPPORTED_PROBLEM_TYPES, CustomTestService } from "./custom-test.service";
+import { CustomTestProgressGateway } from "./custom-test-progress.gateway";
+import { RejudgeJobService } from "./rejudge-job.service";
+import { SubmissionExportService } from "./submission-export.service";
+import { SubmissionExportJobStatus } from "./submission-export-job-status.enum";
+import { SubmissionQuotaService } from "./submission-quota.service";
+import { unifiedLineDiff } from "./line-diff";
 
 import {
   SubmitRequestDto,
@@ -31,6 +42,9 @@ import {
   GetSubmissionDetailRequestDto,
   GetSubmissionDetailResponseDto,
   GetSubmissionDetailResponseError,
+  DiffSubmissionsRequestDto,
+  DiffSubmissionsResponseDto,
+  DiffSubmissionsResponseError,
   DownloadSubmissionFileRequestDto,
   DownloadSubmissionFileResponseDto,
   DownloadSubmissionFileResponseError,
@@ -40,6 +54,18 @@ import {
   RejudgeSubmissionRequestDto,
   RejudgeSubmissionResponseDto,
   RejudgeSubmissionResponseError,
+  BulkRejudgeSubmissionsRequestDto,
+  BulkRejudgeSubmissionsResponseDto,
+  BulkRejudgeSubmissionsResponseError,
+  GetRejudgeJobRequestDto,
+  GetRejudgeJobResponseDto,
+  GetRejudgeJobResponseError,
+  ExportSubmissionsRequestDto,
+  ExportSubmissionsResponseDto,
+  ExportSubmissionsResponseError,
+  GetSubmissionExportJobRequestDto,
+  GetSubmissionExportJobResponseDto,
+  GetSubmissionExportJobResponseError,
   CancelSubmissionRequestDto,
   CancelSubmissionResponseDto,
   CancelSubmissionResponseError,
@@ -48,7 +74,12 @@ import {
   SetSubmissionPublicResponseError,
   DeleteSubmissionRequestDto,
   DeleteSubmissionResponseDto,
-  DeleteSubmissionResponseError
+  DeleteSubmissionResponseError,
+  CustomTestRequestDto,
+  CustomTestResponseDto,
+  CustomTestResponseError,
+  GetPendingSubmissionQueuePositionsResponseDto,
+  GetPendingSubmissionQueuePositionsResponseError
 } from "./dto";
 
 @ApiTags("Submission")
@@ -65,7 +96,15 @@ export class SubmissionController {
     private readonly submissionProgressService: SubmissionProgressService,
     private readonly submissionStatisticsService: SubmissionStatisticsService,
     private readonly auditService: AuditService,
-    private readonly fileService: FileService
+    private readonly fileService: FileService,
+    private readonly contestService: ContestService,
+    private readonly customTestService: CustomTestService,
+    private readonly customTestProgressGateway: CustomTestProgressGateway,
+    private readonly judgeQueueService: JudgeQueueService,
+    private readonly rejudgeJobService: RejudgeJobService,
+    private readonly submissionExportService: SubmissionExportService,
+    private readonly submissionQuotaService: SubmissionQuotaService,
+    private readonly groupService: GroupService
   ) {}
 
   @Recaptcha()
@@ -81,14 +120,35 @@ export class SubmissionController {
         error: SubmitResponseError.PERMISSION_DENIED
       };
 
+    const contest = request.contestId && (await this.contestService.findContestById(request.contestId));
+    if (request.contestId && !contest)
+      return {
+        error: SubmitResponseError.NO_SUCH_CONTEST
+      };
+
     return await this.problemService.lockProblemById<SubmitResponseDto>(request.problemId, "Read", async problem => {
       if (!problem)
         return {
           error: SubmitResponseError.NO_SUCH_PROBLEM
         };
 
+      if (contest) {
+        // Registered participants can submit to the contest's problems during the contest
+        if (!this.contestService.isContestRunning(contest))
+          return {
+            error: SubmitResponseError.CONTEST_NOT_RUNNING
+          };
+
+        if (
+          !(await this.contestService.userIsRegistered(currentUser, contest)) ||
+          !(await this.contestService.problemIsInContest(contest, problem))
+        )
+          return {
+            error: SubmitResponseError.PERMISSION_DENIED
+          };
+      }
       // TODO: add "submit" permission
-      if (!(await this.problemService.userHasPermission(currentUser, problem, ProblemPermissionType.View)))
+      else if (!(await this.problemService.userHasPermission(currentUser, problem, ProblemPermissionType.View)))
         return {
           error: SubmitResponseError.PERMISSION_DENIED
         };
@@ -99,30 +159,102 @@ export class SubmissionController {
           error: SubmitResponseError.PERMISSION_DENIED
         };
 
-      const [validationError, fileErrorOrUploadRequest, submission] = await this.submissionService.createSubmission(
+      const [retryAfter, response] = await this.submissionQuotaService.submitWithQuota(
         currentUser,
         problem,
-        request.content,
-        request.uploadInfo
+        async (): Promise<SubmitResponseDto> => {
+          const [validationError, fileErrorOrUploadRequest, submission] = await this.submissionService.createSubmission(
+            currentUser,
+            problem,
+            request.content,
+            request.uploadInfo,
+            contest
+          );
+
+          if (validationError && validationError.length > 0) throw new BadRequestException(validationError);
+
+          // If file upload is required
+          if (typeof fileErrorOrUploadRequest === "string")
+            return {
+              error: fileErrorOrUploadRequest as SubmitResponseError
+            };
+          else if (fileErrorOrUploadRequest)
+            return {
+              signedUploadRequest: fileErrorOrUploadRequest
+            };
+
+          // Submitted successfully
+          return {
+            submissionId: submission.id
+          };
+        }
       );
-
-      if (validationError && validationError.length > 0) throw new BadRequestException(validationError);
-
-      // If file upload is required
-      if (typeof fileErrorOrUploadRequest === "string")
+      if (retryAfter)
         return {
-          error: fileErrorOrUploadRequest as SubmitResponseError
-        };
-      else if (fileErrorOrUploadRequest)
-        return {
-          signedUploadRequest: fileErrorOrUploadRequest
+          error: SubmitResponseError.SUBMISSION_QUOTA_EXCEEDED,
+          retryAfter
         };
 
-      // Submitted successfully
+      return response;
+    });
+  }
+
+  @Recaptcha()
+  @ApiOperation({
+    summary: "Run code with custom input in the judge environment of a problem.",
+    description: "Recaptcha required. The result is sent via the custom test progress WebSocket gateway."
+  })
+  @ApiBearerAuth()
+  @Post("customTest")
+  async customTest(
+    @CurrentUser() currentUser: UserEntity,
+    @Body() request: CustomTestRequestDto
+  ): Promise<CustomTestResponseDto> {
+    if (!currentUser)
       return {
-        submissionId: submission.id
+        error: CustomTestResponseError.PERMISSION_DENIED
       };
-    });
+
+    const problem = await this.problemService.findProblemById(request.problemId);
+    if (!problem)
+      return {
+        error: CustomTestResponseError.NO_SUCH_PROBLEM
+      };
+
+    // Participants of the problem's contests can test their code against it
+    if (
+      !(await this.problemService.userHasPermission(currentUser, problem, ProblemPermissionType.View, undefined, true))
+    )
+      return {
+        error: CustomTestResponseError.PERMISSION_DENIED
+      };
+
+    if (!CUSTOM_TEST_SUPPORTED_PROBLEM_TYPES.includes(problem.type))
+      return {
+        error: CustomTestResponseError.PROBLEM_TYPE_NOT_SUPPORTED
+      };
+
+    if (Buffer.byteLength(request.input) > this.configService.config.resourceLimit.customTestInputSize)
+      return {
+        error: CustomTestResponseError.INPUT_TOO_LARGE
+      };
+
+    const [retryAfter, [validationError, taskId] = []] = await this.submissionQuotaService.createCustomTestWithQuota(
+      currentUser,
+      problem,
+      async () => await this.customTestService.createCustomTest(currentUser, problem, request.content, request.input)
+    );
+    if (retryAfter)
+      return {
+        error: CustomTestResponseError.CUSTOM_TEST_QUOTA_EXCEEDED,
+        retryAfter
+      };
+    if (validationError && validationError.length > 0) throw new BadRequestException(validationError);
+
+    return {
+      taskId,
+      progressSubscriptionKey: this.customTestProgressGateway.encodeSubscription({ taskId })
+    };
   }
 
   @ApiOperation({
@@ -134,15 +266,24 @@ export class SubmissionController {
     @CurrentUser() currentUser: UserEntity,
     @Body() request: QuerySubmissionRequestDto
   ): Promise<QuerySubmissionResponseDto> {
-    let filterProblem: ProblemEntity = null;
+    let filterProblems: ProblemEntity[] = null;
     if (request.problemId || request.problemDisplayId) {
-      filterProblem = request.problemId
+      const filterProblem = request.problemId
         ? await this.problemService.findProblemById(request.problemId)
         : await this.problemService.findProblemByDisplayId(request.problemDisplayId);
       if (!filterProblem)
         return {
           error: QuerySubmissionResponseError.NO_SUCH_PROBLEM
         };
+      filterProblems = [filterProblem];
+    } else if (request.problemIds && request.problemIds.length > 0) {
+      filterProblems = await Promise.all(
+        Array.from(new Set(request.problemIds)).map(problemId => this.problemService.findProblemById(problemId))
+      );
+      if (filterProblems.some(problem => !problem))
+        return {
+          error: QuerySubmissionResponseError.NO_SUCH_PROBLEM
+        };
     }
 
     let filterSubmitter: UserEntity = null;
@@ -154,22 +295,76 @@ export class SubmissionController {
         };
     }
 
+    let filterGroupMemberIds: number[] = null;
+    if (request.groupId) {
+      if (!currentUser)
+        return {
+          error: QuerySubmissionResponseError.PERMISSION_DENIED
+        };
+
+      const group = await this.groupService.findGroupById(request.groupId);
+      if (!group)
+        return {
+          error: QuerySubmissionResponseError.NO_SUCH_GROUP
+        };
+
+      // Only the group's members could list the group's members, as well as filtering with them
+      filterGroupMemberIds = (await this.groupService.getGroupMemberList(group)).map(membership => membership.userId);
+      if (
+        !filterGroupMemberIds.includes(currentUser.id) &&
+        !(await this.userPrivilegeService.userHasPrivilege(currentUser, UserPrivilegeType.ManageUserGroup))
+      )
+        return {
+          error: QuerySubmissionResponseError.PERMISSION_DENIED
+        };
+    }
+
+    let filterSubmitterIds = filterGroupMemberIds;
+    if (filterSubmitter)
+      filterSubmitterIds =
+        !filterGroupMemberIds || filterGroupMemberIds.includes(filterSubmitter.id) ? [filterSubmitter.id] : [];
+
     const hasManageProblemPrivilege = await this.userPrivilegeService.userHasPrivilege(
       currentUser,
       UserPrivilegeType.ManageProblem
     );
     const hasViewProblemPermission =
       hasManageProblemPrivilege ||
-      (filterProblem &&
-        (await this.problemService.userHasPermission(currentUser, filterProblem, ProblemPermissionType.View)));
+      (filterProblems &&
+        (
+          await Promise.all(
+            filterProblems.map(problem =>
+              this.problemService.userHasPermission(currentUser, problem, ProblemPermissionType.View)
+            )
+          )
+        ).every(hasPermission => hasPermission));
     const isSubmissionsOwned = filterSubmitter && currentUser && filterSubmitter.id === currentUser.id;
     const queryResult = await this.submissionService.querySubmissions(
-      filterProblem ? filterProblem.id : null,
-      filterSubmitter ? filterSubmitter.id : null,
-      request.codeLanguage,
-      request.status,
+      {
+        problemIds: filterProblems && filterProblems.map(problem => problem.id),
+        submitterIds: filterSubmitterIds,
+        codeLanguages: request.codeLanguage
+          ? [request.codeLanguage]
+          : request.codeLanguages && request.codeLanguages.length > 0
+          ? request.codeLanguages
+          : null,
+        statuses: request.status
+          ? [request.status]
+          : request.statuses && request.statuses.length > 0
+          ? request.statuses
+          : null,
+        submitTimeFrom: request.submitTimeFrom ? new Date(request.submitTimeFrom) : null,
+        submitTimeTo: request.submitTimeTo ? new Date(request.submitTimeTo) : null,
+        scoreFrom: request.scoreFrom,
+        scoreTo: request.scoreTo,
+        // Contestants shouldn't see the others' submissions before the contest ends
+        hideUnfinishedContestSubmissions: !hasManageProblemPrivilege,
+        currentUserId: currentUser?.id
+      },
+      request.sortBy || SubmissionQuerySortBy.Id,
       request.minId,
       request.maxId,
+      request.skipCount,
       !(hasManageProblemPrivilege || hasViewProblemPermission || isSubmissionsOwned),
       request.takeCount > this.configService.config.queryLimit.submissions
         ? this.configService.config.queryLimit.submissions
@@ -177,9 +372,10 @@ export class SubmissionController {
     );
 
     const submissionMetas: SubmissionMetaDto[] = new Array(queryResult.result.length);
-    const [problems, submitters] = await Promise.all([
+    const [problems, submitters, judgedAgainstOutdatedData] = await Promise.all([
       this.problemService.findProblemsByExistingIds(queryResult.result.map(submission => submission.problemId)),
-      this.userService.findUsersByExistingIds(queryResult.result.map(submission => submission.submitterId))
+      this.userService.findUsersByExistingIds(queryResult.result.map(submission => submission.submitterId)),
+      this.submissionService.areSubmissionsJudgedAgainstOutdatedData(queryResult.result)
     ]);
     const pendingSubmissionIds: number[] = [];
     await Promise.all(
@@ -199,7 +395,8 @@ export class SubmissionController {
           problemTitle: await this.problemService.getProblemLocalizedTitle(problems[i], titleLocale),
           submitter: await this.userService.getUserMeta(submitters[i], currentUser),
           timeUsed: submission.timeUsed,
-          memoryUsed: submission.memoryUsed
+          memoryUsed: submission.memoryUsed,
+          judgedAgainstOutdatedData: judgedAgainstOutdatedData[i]
         };
 
         // For progress reporting
@@ -227,7 +424,8 @@ export class SubmissionController {
               submissionIds: pendingSubmissionIds
             }),
       hasSmallerId: queryResult.hasSmallerId,
-      hasLargerId: queryResult.hasLargerId
+      hasLargerId: queryResult.hasLargerId,
+      hasMore: queryResult.hasMore
     };
   }
 
@@ -321,7 +519,11 @@ export class SubmissionController {
         problemTitle: await this.problemService.getProblemLocalizedTitle(problem, titleLocale),
         submitter: await this.userService.getUserMeta(submitter, currentUser),
         timeUsed: submission.timeUsed,
-        memoryUsed: submission.memoryUsed
+        memoryUsed: submission.memoryUsed,
+        judgedAgainstOutdatedData: await this.submissionService.isSubmissionJudgedAgainstOutdatedData(
+          submission,
+          problem
+        )
       },
       content: submissionDetail.content,
       progress: progress || submissionDetail.result,
@@ -338,6 +540,82 @@ export class SubmissionController {
     };
   }
 
+  @ApiOperation({
+    summary: "Compare the code, options and testcase results of two submissions.",
+    description: "For problems with answer files, the file lists in the answer archives are compared."
+  })
+  @ApiBearerAuth()
+  @Post("diffSubmissions")
+  async diffSubmissions(
+    @CurrentUser() currentUser: UserEntity,
+    @Body() request: DiffSubmissionsRequestDto
+  ): Promise<DiffSubmissionsResponseDto> {
+    const submissions = await this.submissionService.findSubmissionsByExistingIds([
+      request.submissionId1,
+      request.submissionId2
+    ]);
+    if (submissions.some(submission => !submission))
+      return {
+        error: DiffSubmissionsResponseError.NO_SUCH_SUBMISSION
+      };
+
+    const hasPrivilege = await this.userPrivilegeService.userHasPrivilege(currentUser, UserPrivilegeType.ManageProblem);
+    const problems = await this.problemService.findProblemsByExistingIds(
+      submissions.map(submission => submission.problemId)
+    );
+    for (const [i, submission] of submissions.entries())
+      if (
+        // eslint-disable-next-line no-await-in-loop
+        !(await this.submissionService.userHasPermission(
+          currentUser,
+          submission,
+          SubmissionPermissionType.View,
+          problems[i],
+          hasPrivilege
+        ))
+      )
+        return {
+          error: DiffSubmissionsResponseError.PERMISSION_DENIED
+        };
+
+    const [submissionDetail1, submissionDetail2] = await Promise.all(
+      submissions.map(submission => this.submissionService.getSubmissionDetail(submission))
+    );
+    const [name1, name2] = submissions.map(submission => `submission-${submission.id}`);
+
+    // The code is diffed separately, other fields in content are options (e.g. code language and compile options)
+    const { code: code1, ...options1 } = submissionDetail1.content as { code?: unknown };
+    const { code: code2, ...options2 } = submissionDetail2.content as { code?: unknown };
+    const codeDiff =
+      typeof code1 === "string" && typeof code2 === "string" ? unifiedLineDiff(code1, code2, name1, name2) : null;
+    const contentOptionsDiff = unifiedLineDiff(
+      JSON.stringify(options1, null, 2),
+      JSON.stringify(options2, null, 2),
+      name1,
+      name2
+    );
+
+    const withAnswerFiles =
+      submissionDetail1.fileUuid &&
+      submissionDetail2.fileUuid &&
+      problems.every(problem => this.problemTypeFactoryService.type(problem.type).shouldUploadAnswerFile());
+
+    const [submissionMeta1, submissionMeta2] = await this.submissionService.getSubmissionBasicMetas(submissions);
+    return {
+      submission1: submissionMeta1,
+      submission2: submissionMeta2,
+      codeDiff,
+      contentOptionsDiff,
+      testcases: this.submissionService.compareSubmissionTestcaseResults(
+        submissionDetail1.result,
+        submissionDetail2.result
+      ),
+      answerFiles: withAnswerFiles
+        ? await this.submissionService.compareSubmissionAnswerFiles(submissionDetail1, submissionDetail2)
+        : null
+    };
+  }
+
   @ApiOperation({
     summary: "Get the meta, content and result of a submission."
   })
@@ -417,9 +695,11 @@ export class SubmissionController {
     ]);
 
     const submissionMetas: SubmissionMetaDto[] = new Array(submissions.length);
-    const submitters = await this.userService.findUsersByExistingIds(
-      submissions.map(submission => submission.submitterId)
-    );
+    const [submitters, judgedAgainstOutdatedData, problemMeta] = await Promise.all([
+      this.userService.findUsersByExistingIds(submissions.map(submission => submission.submitterId)),
+      this.submissionService.areSubmissionsJudgedAgainstOutdatedData(submissions),
+      this.problemService.getProblemMeta(problem)
+    ]);
 
     await Promise.all(
       submissions.map(async (submission, i) => {
@@ -431,11 +711,12 @@ export class SubmissionController {
           score: submission.score,
           status: submission.status,
           submitTime: submission.submitTime,
-          problem: await this.problemService.getProblemMeta(problem),
+          problem: problemMeta,
           problemTitle,
           submitter: await this.userService.getUserMeta(submitters[i], currentUser),
           timeUsed: submission.timeUsed,
-          memoryUsed: submission.memoryUsed
+          memoryUsed: submission.memoryUsed,
+          judgedAgainstOutdatedData: judgedAgainstOutdatedData[i]
         };
       })
     );
@@ -487,6 +768,180 @@ export class SubmissionController {
     return {};
   }
 
+  @ApiOperation({
+    summary: "Rejudge all submissions of a problem matching the filter as a rejudge job.",
+    description: "With dry run, only the number of matched submissions is returned."
+  })
+  @ApiBearerAuth()
+  @Post("bulkRejudgeSubmissions")
+  async bulkRejudgeSubmissions(
+    @CurrentUser() currentUser: UserEntity,
+    @Body() request: BulkRejudgeSubmissionsRequestDto
+  ): Promise<BulkRejudgeSubmissionsResponseDto> {
+    if (!currentUser)
+      return {
+        error: BulkRejudgeSubmissionsResponseError.PERMISSION_DENIED
+      };
+
+    const problem = await this.problemService.findProblemById(request.problemId);
+    if (!problem)
+      return {
+        error: BulkRejudgeSubmissionsResponseError.NO_SUCH_PROBLEM
+      };
+
+    if (!(await this.problemService.userHasPermission(currentUser, problem, ProblemPermissionType.Modify)))
+      return {
+        error: BulkRejudgeSubmissionsResponseError.PERMISSION_DENIED
+      };
+
+    if (request.dryRun)
+      return {
+        matchedCount: await this.rejudgeJobService.countMatchedSubmissions(problem, request.filter),
+        jobId: null
+      };
+
+    const result = await this.rejudgeJobService.createRejudgeJob(currentUser, problem, request.filter);
+    if (result === "TOO_MANY_SUBMISSIONS")
+      return {
+        error: BulkRejudgeSubmissionsResponseError.TOO_MANY_SUBMISSIONS
+      };
+
+    const [job, matchedCount] = result;
+
+    await this.auditService.log("submission.bulk_rejudge", AuditLogObjectType.Problem, problem.id, {
+      jobId: job.id,
+      filter: request.filter,
+      matchedCount
+    });
+
+    return {
+      matchedCount,
+      jobId: job.id
+    };
+  }
+
+  @ApiOperation({
+    summary: "Get the progress and result-change report of a rejudge job."
+  })
+  @ApiBearerAuth()
+  @Post("getRejudgeJob")
+  async getRejudgeJob(
+    @CurrentUser() currentUser: UserEntity,
+    @Body() request: GetRejudgeJobRequestDto
+  ): Promise<GetRejudgeJobResponseDto> {
+    if (request.changedSubmissionsTakeCount > this.configService.config.queryLimit.rejudgeJobChangedSubmissions)
+      return {
+        error: GetRejudgeJobResponseError.TAKE_TOO_MANY
+      };
+
+    const job = await this.rejudgeJobService.findRejudgeJobById(request.jobId);
+    if (!job)
+      return {
+        error: GetRejudgeJobResponseError.NO_SUCH_REJUDGE_JOB
+      };
+
+    const problem = await this.problemService.findProblemById(job.problemId);
+    if (!(await this.problemService.userHasPermission(currentUser, problem, ProblemPermissionType.Modify)))
+      return {
+        error: GetRejudgeJobResponseError.PERMISSION_DENIED
+      };
+
+    const [creator, progress, report] = await Promise.all([
+      job.creatorId && this.userService.findUserById(job.creatorId),
+      this.rejudgeJobService.getRejudgeJobProgress(job),
+      this.rejudgeJobService.getRejudgeJobReport(
+        job,
+        request.changedSubmissionsSkipCount,
+        request.changedSubmissionsTakeCount
+      )
+    ]);
+
+    return {
+      problemId: job.problemId,
+      creator: creator && (await this.userService.getUserMeta(creator, currentUser)),
+      filter: job.filter,
+      createTime: job.createTime,
+      finishTime: job.finishTime,
+      progress,
+      report
+    };
+  }
+
+  @ApiOperation({
+    summary: "Export a user's or group's submissions the current user could view to a ZIP archive in background."
+  })
+  @ApiBearerAuth()
+  @Post("exportSubmissions")
+  async exportSubmissions(
+    @CurrentUser() currentUser: UserEntity,
+    @Body() request: ExportSubmissionsRequestDto
+  ): Promise<ExportSubmissionsResponseDto> {
+    if (!currentUser)
+      return {
+        error: ExportSubmissionsResponseError.PERMISSION_DENIED
+      };
+
+    if (!request.filter.submitterId && !request.filter.groupId)
+      return {
+        error: ExportSubmissionsResponseError.EMPTY_FILTER
+      };
+
+    const matchedCount = await this.submissionExportService.countMatchedSubmissions(request.filter);
+    if (matchedCount == null)
+      return {
+        error: ExportSubmissionsResponseError.NO_SUCH_GROUP
+      };
+
+    if (matchedCount > this.configService.config.queryLimit.exportSubmissions)
+      return {
+        error: ExportSubmissionsResponseError.TOO_MANY_SUBMISSIONS
+      };
+
+    const job = await this.submissionExportService.createSubmissionExportJob(currentUser, request.filter);
+    if (job === "ALREADY_HAS_RUNNING_JOB")
+      return {
+        error: ExportSubmissionsResponseError.ALREADY_HAS_RUNNING_JOB
+      };
+
+    return {
+      matchedCount,
+      jobId: job.id
+    };
+  }
+
+  @ApiOperation({
+    summary: "Get the status and download link of a submission export job created by the current user."
+  })
+  @ApiBearerAuth()
+  @Post("getSubmissionExportJob")
+  async getSubmissionExportJob(
+    @CurrentUser() currentUser: UserEntity,
+    @Body() request: GetSubmissionExportJobRequestDto
+  ): Promise<GetSubmissionExportJobResponseDto> {
+    const job = await this.submissionExportService.findSubmissionExportJobById(request.jobId);
+    if (!job)
+      return {
+        error: GetSubmissionExportJobResponseError.NO_SUCH_SUBMISSION_EXPORT_JOB
+      };
+
+    if (!currentUser || currentUser.id !== job.creatorId)
+      return {
+        error: GetSubmissionExportJobResponseError.PERMISSION_DENIED
+      };
+
+    return {
+      filter: job.filter,
+      status: job.status,
+      submissionCount: job.submissionCount,
+      createTime: job.createTime,
+      finishTime: job.finishTime,
+      downloadUrl:
+        job.status === SubmissionExportJobStatus.Finished
+          ? await this.submissionExportService.getSubmissionExportJobDownloadUrl(job)
+          : null
+    };
+  }
+
   @ApiOperation({
     summary:
       "Cancel a submission if it is running. Cancel a non-running submission will result in not error and no effect."
@@ -524,6 +979,30 @@ export class SubmissionController {
     return {};
   }
 
+  @ApiOperation({
+    summary: "Get the current user's pending submissions' positions in judge queue."
+  })
+  @ApiBearerAuth()
+  @Get("getPendingSubmissionQueuePositions")
+  async getPendingSubmissionQueuePositions(
+    @CurrentUser() currentUser: UserEntity
+  ): Promise<GetPendingSubmissionQueuePositionsResponseDto> {
+    if (!currentUser)
+      return {
+        error: GetPendingSubmissionQueuePositionsResponseError.PERMISSION_DENIED
+      };
+
+    const [positions, queueLength] = await Promise.all([
+      this.submissionService.getUserPendingSubmissionQueuePositions(currentUser),
+      this.judgeQueueService.getQueueLength()
+    ]);
+
+    return {
+      positions: positions.map(([submissionId, position]) => ({ submissionId, position })),
+      queueLength
+    };
+  }
+
   @ApiOperation({
     summary: "Set if a submission is public or not."
   })
@@ -2,6 +2,7 @@ import { Entity, PrimaryGeneratedColumn, Index, ManyToOne, Column, JoinColumn, O
 
 import { UserEntity } from "@/user/user.entity";
 import { ProblemEntity } from "@/problem/problem.entity";
+import { ContestEntity } from "@/contest/contest.entity";
 
 import { SubmissionStatus } from "./submission-status.enum";
 import { SubmissionDetailEntity } from "./submission-detail.entity";
@@ -16,6 +17,11 @@ import { SubmissionDetailEntity } from "./submission-detail.entity";
 @Index(["problemId", "submitterId"])
 @Index(["submitterId", "status"])
 @Index(["submitTime", "submitterId"])
+@Index(["problemId", "submitTime"])
+@Index(["submitterId", "submitTime"])
+@Index(["problemId", "status", "timeUsed"])
+@Index(["problemId", "status", "memoryUsed"])
+@Index(["contestId", "submitterId"])
 export class SubmissionEntity {
   @PrimaryGeneratedColumn()
   id: number;
@@ -58,6 +64,10 @@ export class SubmissionEntity {
   @Column({ type: "integer", nullable: true })
   totalOccupiedTime: number;
 
+  // The problem's judge data revision when the submission is sent to judge, refer to ProblemJudgeInfoEntity
+  @Column({ type: "integer", default: 0 })
+  judgeDataRevision: number;
+
   @Column({ type: "datetime" })
   @Index()
   submitTime: Date;
@@ -78,6 +88,15 @@ export class SubmissionEntity {
   @Index()
   submitterId: number;
 
+  // The contest in which the submission is submitted, `null` for submissions out of contests
+  @ManyToOne(() => ContestEntity, { onDelete: "SET NULL", nullable: true })
+  @JoinColumn()
+  contest?: Promise<ContestEntity>;
+
+  @Column({ nullable: true })
+  @Index()
+  contestId?: number;
+
   @OneToOne(() => SubmissionDetailEntity, submissionDetail => submissionDetail.submission)
   detail: Promise<SubmissionDetailEntity>;
 }
@@ -9,6 +9,9 @@ import { UserModule } from "@/user/user.module";
 import { AuditModule } from "@/audit/audit.module";
 import { FileModule } from "@/file/file.module";
 import { MetricsModule } from "@/metrics/metrics.module";
+import { ContestModule } from "@/contest/contest.module";
+import { ClusterModule } from "@/cluster/cluster.module";
+import { GroupModule } from "@/group/group.module";
 
 import { SubmissionEntity } from "./submission.entity";
 import { SubmissionDetailEntity } from "./submission-detail.entity";
@@ -17,11 +20,25 @@ import { SubmissionController } from "./submission.controller";
 import { SubmissionProgressService } from "./submission-progress.service";
 import { SubmissionProgressGateway } from "./submission-progress.gateway";
 import { SubmissionStatisticsService } from "./submission-statistics.service";
+import { CustomTestService } from "./custom-test.service";
+import { CustomTestProgressGateway } from "./custom-test-progress.gateway";
+import { RejudgeJobEntity } from "./rejudge-job.entity";
+import { RejudgeJobSubmissionEntity } from "./rejudge-job-submission.entity";
+import { RejudgeJobService } from "./rejudge-job.service";
+import { SubmissionExportJobEntity } from "./submission-export-job.entity";
+import { SubmissionExportService } from "./submission-export.service";
+import { SubmissionQuotaService } from "./submission-quota.service";
+import { SubmissionTestcaseStatisticsEntity } from "./submission-testcase-statistics.entity";
+import { SubmissionTestcaseStatisticsService } from "./submission-testcase-statistics.service";
 
 @Module({
   imports: [
     TypeOrmModule.forFeature([SubmissionEntity]),
     TypeOrmModule.forFeature([SubmissionDetailEntity]),
+    TypeOrmModule.forFeature([RejudgeJobEntity]),
+    TypeOrmModule.forFeature([RejudgeJobSubmissionEntity]),
+    TypeOrmModule.forFeature([SubmissionExportJobEntity]),
+    TypeOrmModule.forFeature([SubmissionTestcaseStatisticsEntity]),
     forwardRef(() => RedisModule),
     forwardRef(() => ProblemModule),
     forwardRef(() => ProblemTypeModule),
@@ -29,10 +46,24 @@ import { SubmissionStatisticsService } from "./submission-statistics.service";
     forwardRef(() => UserModule),
     forwardRef(() => AuditModule),
     forwardRef(() => FileModule),
-    forwardRef(() => MetricsModule)
+    forwardRef(() => MetricsModule),
+    forwardRef(() => ContestModule),
+    forwardRef(() => GroupModule),
+    ClusterModule
+  ],
+  providers: [
+    SubmissionService,
+    SubmissionProgressService,
+    SubmissionProgressGateway,
+    SubmissionStatisticsService,
+    CustomTestService,
+    CustomTestProgressGateway,
+    RejudgeJobService,
+    SubmissionExportService,
+    SubmissionQuotaService,
+    SubmissionTestcaseStatisticsService
   ],
-  providers: [SubmissionService, SubmissionProgressService, SubmissionProgressGateway, SubmissionStatisticsService],
   controllers: [SubmissionController],
-  exports: [SubmissionService]
+  exports: [SubmissionService, RejudgeJobService, SubmissionStatisticsService, SubmissionTestcaseStatisticsService]
 })
 export class SubmissionModule {}
@@ -1,7 +1,9 @@
+import { createHash } from "crypto";
+
 import { Injectable, Inject, forwardRef } from "@nestjs/common";
 import { InjectRepository, InjectDataSource } from "@nestjs/typeorm";
 
-import { Repository, DataSource, QueryBuilder } from "typeorm";
+import { Repository, DataSource, QueryBuilder, Brackets, In } from "typeorm";
 import { ValidationError } from "class-validator";
 import { v4 as uuid } from "uuid";
 import moment from "moment-timezone";
@@ -17,7 +19,7 @@ import {
   JudgeTask,
   JudgeTaskExtraInfo
 } from "@/judge/judge-queue.service";
-import { JudgeTaskService } from "@/judge/judge-task-service.interface";
+import { JudgeTaskService, JudgeTaskQueueInfo } from "@/judge/judge-task-service.interface";
 import { ProblemFileType } from "@/problem/problem-file.entity";
 import { ProblemJudgeInfo } from "@/problem/problem-judge-info.interface";
 import { UserService } from "@/user/user.service";
@@ -30,8 +32,11 @@ import { MinioSignFor, FileService } from "@/file/file.service";
 import { ConfigService } from "@/config/config.service";
 import { FileEntity } from "@/file/file.entity";
 import { UserPrivilegeService, UserPrivilegeType } from "@/user/user-privilege.service";
+import { ContestEntity } from "@/contest/contest.entity";
+import { ContestService } from "@/contest/contest.service";
 
 import { MetricsService } from "@/metrics/metrics.service";
+import { RedisService } from "@/redis/redis.service";
 
 import { SubmissionProgress, SubmissionProgressType } from "./submission-progress.interface";
 import { SubmissionContent } from "./submission-content.interface";
@@ -40,10 +45,19 @@ import { SubmissionStatisticsService } from "./submission-statistics.service";
 import { SubmissionEntity } from "./submission.entity";
 import { SubmissionDetailEntity } from "./submission-detail.entity";
 import { SubmissionStatus } from "./submission-status.enum";
+import { RejudgeJobService } from "./rejudge-job.service";
+import { SubmissionQueryFilter } from "./submission-query-filter.interface";
+import { SubmissionQuerySortBy } from "./submission-query-sort-by.enum";
+import { SubmissionTestcaseStatisticsService } from "./submission-testcase-statistics.service";
 
 import { FileUploadInfoDto, SignedFileUploadRequestDto } from "@/file/dto";
 
-import { SubmissionBasicMetaDto } from "./dto";
+import {
+  SubmissionBasicMetaDto,
+  SubmissionTestcaseBriefResultDto,
+  SubmissionTestcaseComparisonDto,
+  SubmissionAnswerFileComparisonDto
+} from "./dto";
 
 export enum SubmissionPermissionType {
   View = "View",
@@ -53,6 +67,9 @@ export enum SubmissionPermissionType {
   Delete = "Delete"
 }
 
+// The finished result of a submission, keyed by its judge fingerprint
+const REDIS_KEY_SUBMISSION_JUDGE_RESULT = "submission-judge-result:%s";
+
 interface SubmissionTaskExtraInfo extends JudgeTaskExtraInfo {
   problemType: ProblemType;
   judgeInfo: ProblemJudgeInfo;
@@ -133,7 +150,13 @@ export class SubmissionService implements JudgeTaskService<SubmissionProgress, S
     private readonly configService: ConfigService,
     @Inject(forwardRef(() => UserPrivilegeService))
     private readonly userPrivilegeService: UserPrivilegeService,
-    private readonly metricsService: MetricsService
+    private readonly metricsService: MetricsService,
+    @Inject(forwardRef(() => ContestService))
+    private readonly contestService: ContestService,
+    @Inject(forwardRef(() => RejudgeJobService))
+    private readonly rejudgeJobService: RejudgeJobService,
+    private readonly redisService: RedisService,
+    private readonly submissionTestcaseStatisticsService: SubmissionTestcaseStatisticsService
   ) {
     this.judgeQueueService.registerTaskType(JudgeTaskType.Submission, this);
 
@@ -148,6 +171,10 @@ export class SubmissionService implements JudgeTaskService<SubmissionProgress, S
     this.metricsService.histogram.BUCKETS_TIME_10M_30
   );
 
+  private readonly metricSubmissionJudgeResultReused = this.metricsService.counter(
+    "syzoj_ng_submission_judge_result_reused_total"
+  );
+
   async findSubmissionById(submissionId: number): Promise<SubmissionEntity> {
     return await this.submissionRepository.findOneBy({
       id: submissionId
@@ -176,10 +203,10 @@ export class SubmissionService implements JudgeTaskService<SubmissionProgress, S
     hasPrivilege?: boolean
   ): Promise<boolean> {
     switch (type) {
-      // Everyone can read a public submission
+      // Everyone can read a public submission, except the submissions of a contest before it ends
       // Submitter and those who has the Modify permission of the submission's problem can View a non-public submission
       case SubmissionPermissionType.View:
-        if (submission.isPublic) return true;
+        if (submission.isPublic && !(await this.isSubmissionInRunningContest(submission))) return true;
         if (!user) return false;
         if (user.id === submission.submitterId) return true;
         return await this.problemService.userHasPermission(
@@ -226,16 +253,19 @@ export class SubmissionService implements JudgeTaskService<SubmissionProgress, S
     }
   }
 
+  /**
+   * Submissions are sorted by ID descendingly with `minId` / `maxId` as the cursor, or sorted by time / memory used
+   * ascendingly with `skipCount` as the offset (submissions without time / memory used are excluded).
+   */
   async querySubmissions(
-    problemId: number,
-    submitterId: number,
-    codeLanguage: string,
-    status: SubmissionStatus,
+    filter: SubmissionQueryFilter,
+    sortBy: SubmissionQuerySortBy,
     minId: number,
     maxId: number,
+    skipCount: number,
     publicOnly: boolean,
     takeCount: number
-  ): Promise<{ result: SubmissionEntity[]; hasSmallerId: boolean; hasLargerId: boolean }> {
+  ): Promise<{ result: SubmissionEntity[]; hasSmallerId: boolean; hasLargerId: boolean; hasMore: boolean }> {
     const queryBuilder = this.submissionRepository.createQueryBuilder();
 
     if (publicOnly) {
@@ -244,30 +274,73 @@ export class SubmissionService implements JudgeTaskService<SubmissionProgress, S
       });
     }
 
-    if (problemId) {
-      queryBuilder.andWhere("problemId = :problemId", {
-        problemId
+    const filterIn = (column: string, values: unknown[]) => {
+      if (!values) return;
+      if (values.length === 0) queryBuilder.andWhere("0 = 1");
+      else if (values.length === 1) queryBuilder.andWhere(`${column} = :${column}`, { [column]: values[0] });
+      else queryBuilder.andWhere(`${column} IN (:...${column}s)`, { [`${column}s`]: values });
+    };
+    filterIn("problemId", filter.problemIds);
+    filterIn("submitterId", filter.submitterIds);
+    filterIn("codeLanguage", filter.codeLanguages);
+    filterIn("status", filter.statuses);
+
+    if (filter.submitTimeFrom) {
+      queryBuilder.andWhere("submitTime >= :submitTimeFrom", {
+        submitTimeFrom: filter.submitTimeFrom
       });
     }
 
-    if (submitterId) {
-      queryBuilder.andWhere("submitterId = :submitterId", {
-        submitterId
+    if (filter.submitTimeTo) {
+      queryBuilder.andWhere("submitTime <= :submitTimeTo", {
+        submitTimeTo: filter.submitTimeTo
       });
     }
 
-    if (codeLanguage) {
-      queryBuilder.andWhere("codeLanguage = :codeLanguage", {
-        codeLanguage
+    if (filter.scoreFrom != null) {
+      queryBuilder.andWhere("score >= :scoreFrom", {
+        scoreFrom: filter.scoreFrom
       });
     }
 
-    if (status) {
-      queryBuilder.andWhere("status = :status", {
-        status
+    if (filter.scoreTo != null) {
+      queryBuilder.andWhere("score <= :scoreTo", {
+        scoreTo: filter.scoreTo
       });
     }
 
+    if (filter.hideUnfinishedContestSubmissions) {
+      queryBuilder.andWhere(
+        new Brackets(brackets =>
+          brackets
+            .where("contestId IS NULL")
+            .orWhere("submitterId = :currentUserId", { currentUserId: filter.currentUserId ?? null })
+            .orWhere(
+              `NOT EXISTS (SELECT 1 FROM contest WHERE contest.id = ${queryBuilder.alias}.contestId AND contest.endTime > :now)`,
+              { now: new Date() }
+            )
+        )
+      );
+    }
+
+    if (sortBy === SubmissionQuerySortBy.TimeUsed || sortBy === SubmissionQuerySortBy.MemoryUsed) {
+      const column = sortBy === SubmissionQuerySortBy.TimeUsed ? "timeUsed" : "memoryUsed";
+      const result = await queryBuilder
+        .andWhere(`${column} IS NOT NULL`)
+        .orderBy(column, "ASC")
+        .addOrderBy("id", "ASC")
+        .skip(skipCount || 0)
+        .take(takeCount + 1)
+        .getMany();
+
+      return {
+        result: result.slice(0, takeCount),
+        hasSmallerId: false,
+        hasLargerId: false,
+        hasMore: result.length > takeCount
+      };
+    }
+
     const queryBuilderWithoutPagination = queryBuilder.clone();
 
     let reversed = false;
@@ -295,7 +368,8 @@ export class SubmissionService implements JudgeTaskService<SubmissionProgress, S
       return {
         result: [],
         hasSmallerId: false,
-        hasLargerId: false
+        hasLargerId: false,
+        hasMore: false
       };
 
     const largestId = result[0].id;
@@ -313,7 +387,8 @@ export class SubmissionService implements JudgeTaskService<SubmissionProgress, S
     return {
       result,
       hasSmallerId: !!hasSmallerId,
-      hasLargerId: !!hasLargerId
+      hasLargerId: !!hasLargerId,
+      hasMore: false
     };
   }
 
@@ -324,7 +399,8 @@ export class SubmissionService implements JudgeTaskService<SubmissionProgress, S
     submitter: UserEntity,
     problem: ProblemEntity,
     content: SubmissionContent,
-    uploadInfo: FileUploadInfoDto
+    uploadInfo: FileUploadInfoDto,
+    contest?: ContestEntity
   ): Promise<
     [
       errors: ValidationError[],
@@ -374,6 +450,7 @@ export class SubmissionService implements JudgeTaskService<SubmissionProgress, S
       submission.submitTime = new Date();
       submission.problemId = problem.id;
       submission.submitterId = submitter.id;
+      submission.contestId = contest?.id ?? null;
       await transactionalEntityManager.save(submission);
 
       const submissionDetail = new SubmissionDetailEntity();
@@ -402,7 +479,64 @@ export class SubmissionService implements JudgeTaskService<SubmissionProgress, S
     return [null, fileUploadErrorOrRequest, null];
   }
 
-  async getSubmissionBasicMeta(submission: SubmissionEntity): Promise<SubmissionBasicMetaDto> {
+  private async isSubmissionInRunningContest(submission: SubmissionEntity): Promise<boolean> {
+    if (!submission.contestId) return false;
+    const contest = await this.contestService.findContestById(submission.contestId);
+    return contest && !this.contestService.isContestEnded(contest);
+  }
+
+  /**
+   * A judged submission is outdated if the problem's judge info or testdata is changed after it's sent to judge.
+   */
+  async isSubmissionJudgedAgainstOutdatedData(submission: SubmissionEntity, problem?: ProblemEntity): Promise<boolean> {
+    if (submission.taskId || submission.status === SubmissionStatus.Canceled) return false;
+
+    const judgeDataRevision = await this.problemService.getProblemJudgeDataRevision(
+      problem ?? (await this.problemService.findProblemById(submission.problemId))
+    );
+    return submission.judgeDataRevision < judgeDataRevision;
+  }
+
+  /**
+   * The batch version of `isSubmissionJudgedAgainstOutdatedData`, the judge data revision of each problem is queried
+   * once.
+   */
+  async areSubmissionsJudgedAgainstOutdatedData(submissions: SubmissionEntity[]): Promise<boolean[]> {
+    const judgeDataRevisions = await this.problemService.getProblemJudgeDataRevisions(
+      submissions.map(submission => submission.problemId)
+    );
+    return submissions.map(
+      submission =>
+        !submission.taskId &&
+        submission.status !== SubmissionStatus.Canceled &&
+        submission.judgeDataRevision < judgeDataRevisions.get(submission.problemId)
+    );
+  }
+
+  /**
+   * Get the basic metas of the submissions in batch. `null` is returned for each `null` submission.
+   */
+  async getSubmissionBasicMetas(submissions: SubmissionEntity[]): Promise<SubmissionBasicMetaDto[]> {
+    const existingSubmissions = submissions.filter(submission => submission);
+    const judgedAgainstOutdatedData = await this.areSubmissionsJudgedAgainstOutdatedData(existingSubmissions);
+    const metas = new Map(
+      await Promise.all(
+        existingSubmissions.map(
+          async (submission, i) =>
+            [submission, await this.getSubmissionBasicMeta(submission, judgedAgainstOutdatedData[i])] as const
+        )
+      )
+    );
+    return submissions.map(submission => (submission ? metas.get(submission) : null));
+  }
+
+  /**
+   * @param judgedAgainstOutdatedData Queried if not provided.
+   */
+  async getSubmissionBasicMeta(
+    submission: SubmissionEntity,
+    judgedAgainstOutdatedData?: boolean
+  ): Promise<SubmissionBasicMetaDto> {
     return {
       id: submission.id,
       isPublic: submission.isPublic,
@@ -412,7 +546,10 @@ export class SubmissionService implements JudgeTaskService<SubmissionProgress, S
       status: submission.status,
       submitTime: submission.submitTime,
       timeUsed: submission.timeUsed,
-      memoryUsed: submission.memoryUsed
+      memoryUsed: submission.memoryUsed,
+      contestId: submission.contestId,
+      judgedAgainstOutdatedData:
+        judgedAgainstOutdatedData ?? (await this.isSubmissionJudgedAgainstOutdatedData(submission))
     };
   }
 
@@ -473,6 +610,153 @@ export class SubmissionService implements JudgeTaskService<SubmissionProgress, S
     return result;
   }
 
+  /**
+   * Align the testcases of two submissions by their positions in samples and subtasks.
+   */
+  compareSubmissionTestcaseResults(
+    progress1: SubmissionProgress,
+    progress2: SubmissionProgress
+  ): SubmissionTestcaseComparisonDto[] {
+    type TestcaseProgressReference = SubmissionProgress["samples"][number];
+    const getBriefResult = (
+      progress: SubmissionProgress,
+      testcase: TestcaseProgressReference
+    ): SubmissionTestcaseBriefResultDto => {
+      const result = testcase?.testcaseHash && progress.testcaseResult?.[testcase.testcaseHash];
+      if (!result) return null;
+
+      // Not all problem types measure time and memory
+      const { status, score, time, memory } = result as Partial<SubmissionTestcaseBriefResultDto>;
+      return { status, score, time: time ?? null, memory: memory ?? null };
+    };
+
+    const compare = (
+      subtaskIndex: number,
+      testcases1: TestcaseProgressReference[],
+      testcases2: TestcaseProgressReference[]
+    ): SubmissionTestcaseComparisonDto[] =>
+      Array.from({ length: Math.max(testcases1.length, testcases2.length) }, (_, testcaseIndex) => ({
+        subtaskIndex,
+        testcaseIndex,
+        result1: getBriefResult(progress1, testcases1[testcaseIndex]),
+        result2: getBriefResult(progress2, testcases2[testcaseIndex])
+      }));
+
+    const subtasks1 = progress1?.subtasks || [];
+    const subtasks2 = progress2?.subtasks || [];
+    return [
+      ...compare(null, progress1?.samples || [], progress2?.samples || []),
+      ...Array.from({ length: Math.max(subtasks1.length, subtasks2.length) }, (_, subtaskIndex) =>
+        compare(subtaskIndex, subtasks1[subtaskIndex]?.testcases || [], subtasks2[subtaskIndex]?.testcases || [])
+      ).flat()
+    ];
+  }
+
+  /**
+   * Compare the file lists in the answer archives of two submissions.
+   *
+   * @return `null` if any of the answer files is not a valid archive.
+   */
+  async compareSubmissionAnswerFiles(
+    submissionDetail1: SubmissionDetailEntity,
+    submissionDetail2: SubmissionDetailEntity
+  ): Promise<SubmissionAnswerFileComparisonDto[]> {
+    const [files1, files2] = await Promise.all(
+      [submissionDetail1, submissionDetail2].map(submissionDetail =>
+        this.fileService.listZipArchiveFiles(submissionDetail.fileUuid)
+      )
+    );
+    if (!files1 || !files2) return null;
+
+    const fileMap1 = new Map(files1.map(file => [file.path, file]));
+    const fileMap2 = new Map(files2.map(file => [file.path, file]));
+    return Array.from(new Set([...fileMap1.keys(), ...fileMap2.keys()]))
+      .sort()
+      .map(filename => {
+        const file1 = fileMap1.get(filename);
+        const file2 = fileMap2.get(filename);
+        return {
+          filename,
+          size1: file1?.size ?? null,
+          size2: file2?.size ?? null,
+          changed: !file1 || !file2 || file1.size !== file2.size || file1.crc32 !== file2.crc32
+        };
+      });
+  }
+
+  /**
+   * The fingerprint identifies everything sent to judge clients, so submissions with the same fingerprint are judged
+   * with the same result (if the checker is deterministic).
+   *
+   * @return `null` if the submission's result shouldn't be reused.
+   */
+  private async getJudgeFingerprint(problem: ProblemEntity, submissionDetail: SubmissionDetailEntity): Promise<string> {
+    if (!this.configService.config.preference.serverSideOnly.reuseJudgeResults) return null;
+
+    // An answer file is uploaded for each submission, it's not worth to compare its content
+    if (this.problemTypeFactoryService.type(problem.type).shouldUploadAnswerFile()) return null;
+
+    if (!(await this.problemService.getProblemJudgeResultReuse(problem))) return null;
+
+    const [preprocessedJudgeInfo] = await this.problemService.getProblemPreprocessedJudgeInfo(problem);
+    const testData = await this.problemService.getProblemFiles(problem, ProblemFileType.TestData);
+    return createHash("sha256")
+      .update(
+        JSON.stringify({
+          problemType: problem.type,
+          submissionContent: submissionDetail.content,
+          judgeInfo: preprocessedJudgeInfo,
+          samples:
+            preprocessedJudgeInfo && (preprocessedJudgeInfo as { runSamples?: boolean }).runSamples
+              ? (await this.problemService.getProblemSamples(problem)).slice(
+                  0,
+                  this.configService.config.resourceLimit.problemSamplesToRun
+                )
+              : null,
+          testData: testData
+            .map(problemFile => [problemFile.filename, problemFile.uuid])
+            .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+        })
+      )
+      .digest("hex");
+  }
+
+  private async getReusableJudgeResult(
+    problem: ProblemEntity,
+    submissionDetail: SubmissionDetailEntity
+  ): Promise<SubmissionProgress> {
+    const fingerprint = await this.getJudgeFingerprint(problem, submissionDetail);
+    if (!fingerprint) return null;
+
+    const result = await this.redisService.cacheGet(REDIS_KEY_SUBMISSION_JUDGE_RESULT.format(fingerprint));
+    if (!result) return null;
+
+    // The reused submission doesn't occupy any judge time
+    return { ...JSON.parse(result), totalOccupiedTime: 0 };
+  }
+
+  private async saveReusableJudgeResult(
+    submission: SubmissionEntity,
+    problem: ProblemEntity,
+    progress: SubmissionProgress
+  ): Promise<void> {
+    // Failures of the judge system may not happen again
+    if (
+      [SubmissionStatus.SystemError, SubmissionStatus.JudgementFailed, SubmissionStatus.Canceled].includes(
+        progress.status
+      )
+    )
+      return;
+
+    // The judge data may be changed after the submission is sent to judge
+    if (await this.isSubmissionJudgedAgainstOutdatedData(submission, problem)) return;
+
+    const fingerprint = await this.getJudgeFingerprint(problem, await this.getSubmissionDetail(submission));
+    if (!fingerprint) return;
+
+    await this.redisService.cacheSet(REDIS_KEY_SUBMISSION_JUDGE_RESULT.format(fingerprint), JSON.stringify(progress));
+  }
+
   /**
    * @param submission Must be locked (or just created, ID not exposed to user).
    */
@@ -490,6 +774,24 @@ export class SubmissionService implements JudgeTaskService<SubmissionProgress, S
     submission.memoryUsed = null;
     await this.submissionRepository.save(submission);
 
+    const problem = await this.problemService.findProblemById(submission.problemId);
+    const [judgeInfo] = await this.problemService.getProblemJudgeInfo(problem);
+    const submissionDetail = await this.getSubmissionDetail(submission);
+
+    // Finish the submission with the result of an identical submission, without sending it to judge
+    const reusableResult = await this.getReusableJudgeResult(problem, submissionDetail);
+    if (reusableResult) {
+      submission.judgeDataRevision = await this.problemService.getProblemJudgeDataRevision(problem);
+      await this.onSubmissionUpdated(oldSubmission, submission);
+      await this.onSubmissionFinished(submission, problem, reusableResult, true);
+      await this.submissionProgressService.emitSubmissionEvent(
+        submission.id,
+        SubmissionEventType.Progress,
+        reusableResult
+      );
+      return;
+    }
+
     const [
       userPendingCount,
       userOccupiedTimeRecently,
@@ -542,6 +844,11 @@ export class SubmissionService implements JudgeTaskService<SubmissionProgress, S
       ];
     })();
 
+    // Only the judge clients with all required code languages (and arch, tags) could judge the submission
+    const requirements = this.problemTypeFactoryService
+      .type(problem.type)
+      .getJudgeTaskRequirements(judgeInfo, submissionDetail.content);
+
     await this.judgeQueueService.pushTask(
       submission.taskId,
       JudgeTaskType.Submission,
@@ -552,22 +859,33 @@ export class SubmissionService implements JudgeTaskService<SubmissionProgress, S
         avgEveryUsersOccupiedTimeRecently,
         stdEveryUsersOccupiedTimeRecently,
         isRejudge ? JudgeTaskPriorityType.Medium : JudgeTaskPriorityType.High
-      )
+      ),
+      requirements
     );
 
     await this.onSubmissionUpdated(oldSubmission, submission);
   }
 
-  async rejudgeSubmission(submission: SubmissionEntity): Promise<void> {
+  /**
+   * @param beforeJudge Called with the locked submission before it's rejudged.
+   */
+  async rejudgeSubmission(
+    submission: SubmissionEntity,
+    beforeJudge?: (submission: SubmissionEntity) => Promise<void>
+  ): Promise<void> {
     // eslint-disable-next-line @typescript-eslint/no-shadow
     await this.lockSubmission(submission, true, async submission => {
       if (!submission) return;
 
-      await this.judgeSubmission(submission, true);
+      if (beforeJudge) await beforeJudge(submission);
 
+      // The result may be set in judgeSubmission if reused, so clear the old result first
       const submissionDetail = await this.getSubmissionDetail(submission);
+      await this.submissionTestcaseStatisticsService.onSubmissionResultRemoved(submission, submissionDetail.result);
       submissionDetail.result = null;
       await this.submissionDetailRepository.save(submissionDetail);
+
+      await this.judgeSubmission(submission, true);
     });
   }
 
@@ -625,8 +943,11 @@ export class SubmissionService implements JudgeTaskService<SubmissionProgress, S
         await this.submissionProgressService.emitSubmissionEvent(submission.id, SubmissionEventType.Deleted);
       }
 
+      await this.rejudgeJobService.onSubmissionDeleted(submission);
+
       await this.connection.transaction("READ COMMITTED", async transactionalEntityManager => {
         const submissionDetail = await this.getSubmissionDetail(submission);
+        await this.submissionTestcaseStatisticsService.onSubmissionResultRemoved(submission, submissionDetail.result);
         if (submissionDetail.fileUuid)
           deleteFileActually = await this.fileService.deleteFile(submissionDetail.fileUuid, transactionalEntityManager);
 
@@ -650,6 +971,9 @@ export class SubmissionService implements JudgeTaskService<SubmissionProgress, S
   private async onSubmissionUpdated(oldSubmission: SubmissionEntity, submission: SubmissionEntity): Promise<void> {
     await this.submissionStatisticsService.onSubmissionUpdated(oldSubmission, submission);
 
+    // The judge task is finished or canceled
+    if (oldSubmission.taskId && !submission.taskId) await this.rejudgeJobService.onSubmissionJudged(submission);
+
     const oldAccepted = oldSubmission.status === SubmissionStatus.Accepted;
     const newAccepted = submission.status === SubmissionStatus.Accepted;
     if (!oldAccepted && newAccepted) {
@@ -667,7 +991,8 @@ export class SubmissionService implements JudgeTaskService<SubmissionProgress, S
   private async onSubmissionFinished(
     submission: SubmissionEntity,
     problem: ProblemEntity,
-    progress: SubmissionProgress
+    progress: SubmissionProgress,
+    reused = false
   ): Promise<void> {
     const oldSubmission = { ...submission };
 
@@ -679,7 +1004,11 @@ export class SubmissionService implements JudgeTaskService<SubmissionProgress, S
     submission.score = progress.score;
     submission.totalOccupiedTime = progress.totalOccupiedTime;
 
-    this.metricSubmissionJudgeTime.observe(submission.totalOccupiedTime);
+    if (reused) this.metricSubmissionJudgeResultReused.inc();
+    else {
+      this.metricSubmissionJudgeTime.observe(submission.totalOccupiedTime);
+      await this.saveReusableJudgeResult(submission, problem, progress);
+    }
 
     const timeAndMemory = this.problemTypeFactoryService
       .type(problem.type)
@@ -694,6 +1023,8 @@ export class SubmissionService implements JudgeTaskService<SubmissionProgress, S
 
     logger.log(`Submission ${submission.id} finished with status ${submission.status}`);
 
+    await this.submissionTestcaseStatisticsService.onSubmissionFinished(submission, progress);
+
     await this.onSubmissionUpdated(oldSubmission, submission);
   }
 
@@ -727,6 +1058,30 @@ export class SubmissionService implements JudgeTaskService<SubmissionProgress, S
     return true;
   }
 
+  async onTaskFailed(taskId: string, systemMessage: string): Promise<void> {
+    await this.onTaskProgress(taskId, {
+      progressType: SubmissionProgressType.Finished,
+      status: SubmissionStatus.SystemError,
+      score: 0,
+      totalOccupiedTime: 0,
+      systemMessage
+    });
+  }
+
+  async getTasksQueueInfo(taskIds: string[]): Promise<Map<string, JudgeTaskQueueInfo>> {
+    const submissions = await this.submissionRepository.findBy({ taskId: In(taskIds) });
+    return new Map(
+      submissions.map(submission => [
+        submission.taskId,
+        {
+          submissionId: submission.id,
+          problemId: submission.problemId,
+          userId: submission.submitterId
+        }
+      ])
+    );
+  }
+
   async getTaskToBeSentToJudgeByTaskId(taskId: string, priotity: number): Promise<JudgeTask<SubmissionTaskExtraInfo>> {
     try {
       const submission = await this.findSubmissionByTaskId(taskId);
@@ -735,8 +1090,12 @@ export class SubmissionService implements JudgeTaskService<SubmissionProgress, S
       const submissionDetail = await this.getSubmissionDetail(submission);
 
       const problem = await this.problemService.findProblemById(submission.problemId);
+
+      // Read the revision first, so a change during reading judge data results in a false positive of outdated flag
+      const judgeDataRevision = await this.problemService.getProblemJudgeDataRevision(problem);
       const [preprocessedJudgeInfo] = await this.problemService.getProblemPreprocessedJudgeInfo(problem);
       const testData = await this.problemService.getProblemFiles(problem, ProblemFileType.TestData);
+      await this.submissionRepository.update({ id: submission.id, taskId }, { judgeDataRevision });
 
       const problemTypeService = this.problemTypeFactoryService.type(problem.type);
 
@@ -832,6 +1191,91 @@ export class SubmissionService implements JudgeTaskService<SubmissionProgress, S
     return new Map(submissions.map(submission => [submission.problemId, submission]));
   }
 
+  /**
+   * Submissions failed to compile or judge are not counted as attempts.
+   *
+   * @return userId -> whether the user solved the problem and the number of rejected submissions before the first
+   * accepted one (or all rejected submissions if not solved).
+   */
+  async getProblemUserAttempts(
+    problem: ProblemEntity
+  ): Promise<Map<number, { accepted: boolean; rejectedCount: number }>> {
+    const parameters = {
+      problemId: problem.id,
+      accepted: SubmissionStatus.Accepted,
+      statuses: [
+        SubmissionStatus.Pending,
+        SubmissionStatus.ConfigurationError,
+        SubmissionStatus.SystemError,
+        SubmissionStatus.Canceled,
+        SubmissionStatus.CompilationError,
+        SubmissionStatus.JudgementFailed
+      ]
+    };
+
+    // Find each user's first accepted submission, then count the rejected ones before it
+    const queryResult: { submitterId: string; firstAcceptedId: string; rejectedCount: string }[] = await this.connection
+      .createQueryBuilder()
+      .select("attempt.submitterId", "submitterId")
+      .addSelect("attempt.firstAcceptedId", "firstAcceptedId")
+      .addSelect(
+        "SUM(submission.status != :accepted AND (attempt.firstAcceptedId IS NULL OR submission.id < attempt.firstAcceptedId))",
+        "rejectedCount"
+      )
+      .from(
+        queryBuilder =>
+          queryBuilder
+            .select("submitterId")
+            .addSelect("MIN(CASE WHEN status = :accepted THEN id END)", "firstAcceptedId")
+            .from(SubmissionEntity, "submission")
+            .where("problemId = :problemId AND status NOT IN (:...statuses)", parameters)
+            .groupBy("submitterId"),
+        "attempt"
+      )
+      .innerJoin(
+        SubmissionEntity,
+        "submission",
+        "submission.submitterId = attempt.submitterId AND submission.problemId = :problemId AND submission.status NOT IN (:...statuses)"
+      )
+      .groupBy("attempt.submitterId")
+      .addGroupBy("attempt.firstAcceptedId")
+      .setParameters(parameters)
+      .getRawMany();
+
+    return new Map(
+      queryResult.map(result => [
+        Number(result.submitterId),
+        { accepted: result.firstAcceptedId != null, rejectedCount: Number(result.rejectedCount) }
+      ])
+    );
+  }
+
+  /**
+   * @param submitterIds `null` to get the submissions of all users.
+   * @return The IDs of each user's latest accepted submission to the problem, submitted in the time range.
+   */
+  async getProblemLatestAcceptedSubmissionIds(
+    problem: ProblemEntity,
+    submitterIds: number[],
+    submitTimeFrom: Date,
+    submitTimeTo: Date
+  ): Promise<number[]> {
+    if (submitterIds && submitterIds.length === 0) return [];
+
+    const queryBuilder = this.submissionRepository
+      .createQueryBuilder()
+      .select("MAX(id)", "id")
+      .where("problemId = :problemId", { problemId: problem.id })
+      .andWhere("status = :status", { status: SubmissionStatus.Accepted })
+      .groupBy("submitterId");
+    if (submitterIds) queryBuilder.andWhere("submitterId IN (:...submitterIds)", { submitterIds });
+    if (submitTimeFrom) queryBuilder.andWhere("submitTime >= :submitTimeFrom", { submitTimeFrom });
+    if (submitTimeTo) queryBuilder.andWhere("submitTime <= :submitTimeTo", { submitTimeTo });
+
+    const queryResult: { id: string }[] = await queryBuilder.getRawMany();
+    return queryResult.map(result => Number(result.id));
+  }
+
   async problemHasAnySubmission(problem: ProblemEntity): Promise<boolean> {
     return (
       (await this.submissionRepository.countBy({
@@ -840,6 +1284,27 @@ export class SubmissionService implements JudgeTaskService<SubmissionProgress, S
     );
   }
 
+  /**
+   * @return The user's pending submissions' 1-based positions in judge queue. Running submissions are not included.
+   */
+  async getUserPendingSubmissionQueuePositions(user: UserEntity): Promise<[submissionId: number, position: number][]> {
+    const pendingSubmissions = await this.submissionRepository
+      .createQueryBuilder()
+      .select()
+      .where("submitterId = :submitterId", { submitterId: user.id })
+      .andWhere("taskId IS NOT NULL")
+      .getMany();
+    if (pendingSubmissions.length === 0) return [];
+
+    const positions = await this.judgeQueueService.getTaskPositions(
+      pendingSubmissions.map(submission => submission.taskId)
+    );
+    return pendingSubmissions
+      .filter(submission => positions.has(submission.taskId))
+      .map(submission => [submission.id, positions.get(submission.taskId)] as [number, number])
+      .sort(([, positionA], [, positionB]) => positionA - positionB);
+  }
+
   /**
    * Cancel pending submissions when a problem is deleted.
    */
@@ -0,0 +1,19 @@
+import { ApiProperty } from "@nestjs/swagger";
+
+import { IsString, Length, MaxLength } from "class-validator";
+
+export class ApplyRatingStandingsRequestDto {
+  @ApiProperty({ description: "Recorded in each user's rating history, e.g. the name of the contest." })
+  @IsString()
+  @Length(1, 255)
+  reason: string;
+
+  @ApiProperty({
+    description:
+      "The content of the standings file in CSV format, each line contains a username and a rank. " +
+      "Users with the same rank are tied. A header line is allowed."
+  })
+  @IsString()
+  @MaxLength(10 * 1024 * 1024)
+  standings: string;
+}
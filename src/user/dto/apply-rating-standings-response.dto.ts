@@ -0,0 +1,26 @@
+import { ApiProperty } from "@nestjs/swagger";
+
+import { UserRatingChangeDto } from "./user-rating-change.dto";
+
+export enum ApplyRatingStandingsResponseError {
+  PERMISSION_DENIED = "PERMISSION_DENIED",
+  INVALID_STANDINGS = "INVALID_STANDINGS",
+  NO_SUCH_USER = "NO_SUCH_USER",
+  DUPLICATE_USER = "DUPLICATE_USER",
+  TOO_FEW_PARTICIPANTS = "TOO_FEW_PARTICIPANTS",
+  TOO_MANY_PARTICIPANTS = "TOO_MANY_PARTICIPANTS"
+}
+
+export class ApplyRatingStandingsResponseDto {
+  @ApiProperty({ enum: ApplyRatingStandingsResponseError })
+  error?: ApplyRatingStandingsResponseError;
+
+  @ApiProperty({ description: "The line number of the invalid line, for `INVALID_STANDINGS`." })
+  errorLine?: number;
+
+  @ApiProperty({ description: "For `NO_SUCH_USER` and `DUPLICATE_USER`." })
+  errorUsername?: string;
+
+  @ApiProperty({ type: [UserRatingChangeDto] })
+  ratingChanges?: UserRatingChangeDto[];
+}
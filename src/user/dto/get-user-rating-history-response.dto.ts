@@ -0,0 +1,15 @@
+import { ApiProperty } from "@nestjs/swagger";
+
+import { UserRatingChangeDto } from "./user-rating-change.dto";
+
+export enum GetUserRatingHistoryResponseError {
+  NO_SUCH_USER = "NO_SUCH_USER"
+}
+
+export class GetUserRatingHistoryResponseDto {
+  @ApiProperty({ enum: GetUserRatingHistoryResponseError })
+  error?: GetUserRatingHistoryResponseError;
+
+  @ApiProperty({ type: [UserRatingChangeDto] })
+  ratingHistory?: UserRatingChangeDto[];
+}
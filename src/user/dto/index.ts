@@ -41,3 +41,11 @@ export * from "./update-user-self-email-response.dto";
 
 export * from "./query-audit-logs-request.dto";
 export * from "./query-audit-logs-response.dto";
+
+export * from "./user-rating-change.dto";
+export * from "./get-user-rating-history-request.dto";
+export * from "./get-user-rating-history-response.dto";
+export * from "./set-user-rating-request.dto";
+export * from "./set-user-rating-response.dto";
+export * from "./apply-rating-standings-request.dto";
+export * from "./apply-rating-standings-response.dto";
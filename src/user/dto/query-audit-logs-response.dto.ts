@@ -11,7 +11,7 @@ export enum QueryAuditLogsResponseError {
 }
 
 export class QueryAuditLogsResponseItemDto {
-  @ApiProperty()
+  @ApiProperty({ description: "`null` for events not triggered by a user." })
   user: UserMetaDto;
 
   @ApiProperty()
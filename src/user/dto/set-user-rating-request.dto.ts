@@ -0,0 +1,20 @@
+import { ApiProperty } from "@nestjs/swagger";
+
+import { IsInt, IsString, Length, Min, Max } from "class-validator";
+
+export class SetUserRatingRequestDto {
+  @ApiProperty()
+  @IsInt()
+  userId: number;
+
+  @ApiProperty()
+  @IsInt()
+  @Min(0)
+  @Max(10000)
+  rating: number;
+
+  @ApiProperty()
+  @IsString()
+  @Length(1, 255)
+  reason: string;
+}
@@ -0,0 +1,11 @@
+import { ApiProperty } from "@nestjs/swagger";
+
+export enum SetUserRatingResponseError {
+  PERMISSION_DENIED = "PERMISSION_DENIED",
+  NO_SUCH_USER = "NO_SUCH_USER"
+}
+
+export class SetUserRatingResponseDto {
+  @ApiProperty({ enum: SetUserRatingResponseError })
+  error?: SetUserRatingResponseError;
+}
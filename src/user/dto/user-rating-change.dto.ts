@@ -0,0 +1,26 @@
+import { ApiProperty } from "@nestjs/swagger";
+
+import { UserRatingChangeSource } from "../user-rating-change.entity";
+
+export class UserRatingChangeDto {
+  @ApiProperty()
+  userId: number;
+
+  @ApiProperty()
+  delta: number;
+
+  @ApiProperty()
+  newRating: number;
+
+  @ApiProperty()
+  reason: string;
+
+  @ApiProperty({ enum: UserRatingChangeSource })
+  source: UserRatingChangeSource;
+
+  @ApiProperty({ description: "The rank in the standings, null for manual changes." })
+  rank: number;
+
+  @ApiProperty()
+  changeTime: Date;
+}
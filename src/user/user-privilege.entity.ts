@@ -10,6 +10,7 @@ export enum UserPrivilegeType {
   ManageProblem = "ManageProblem",
   ManageContest = "ManageContest",
   ManageDiscussion = "ManageDiscussion",
+  ManageJudgeQueue = "ManageJudgeQueue",
 
   // Other privileges
   SkipRecaptcha = "SkipRecaptcha"
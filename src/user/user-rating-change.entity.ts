@@ -0,0 +1,47 @@
+import { Entity, PrimaryGeneratedColumn, Column, Index, ManyToOne, JoinColumn } from "typeorm";
+
+import { UserEntity } from "./user.entity";
+
+export enum UserRatingChangeSource {
+  // Set by an admin
+  Manual = "Manual",
+
+  // Computed from an uploaded standings file
+  Standings = "Standings"
+}
+
+@Entity("user_rating_change")
+@Index(["userId", "changeTime"])
+export class UserRatingChangeEntity {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @ManyToOne(() => UserEntity, {
+    onDelete: "CASCADE"
+  })
+  @JoinColumn()
+  user: Promise<UserEntity>;
+
+  @Column()
+  userId: number;
+
+  @Column({ type: "integer" })
+  delta: number;
+
+  @Column({ type: "integer" })
+  newRating: number;
+
+  // e.g. the name of the contest
+  @Column({ type: "varchar", length: 255 })
+  reason: string;
+
+  @Column({ type: "enum", enum: UserRatingChangeSource })
+  source: UserRatingChangeSource;
+
+  // The rank in the standings, null for manual changes
+  @Column({ type: "integer", nullable: true })
+  rank: number;
+
+  @Column({ type: "datetime" })
+  changeTime: Date;
+}
@@ -0,0 +1,225 @@
+import { Injectable, forwardRef, Inject } from "@nestjs/common";
+import { InjectRepository, InjectDataSource } from "@nestjs/typeorm";
+
+import { Repository, DataSource } from "typeorm";
+
+import { LockService } from "@/redis/lock.service";
+
+import { UserEntity } from "./user.entity";
+import { UserService } from "./user.service";
+import { UserRatingChangeEntity, UserRatingChangeSource } from "./user-rating-change.entity";
+
+import { UserRatingChangeDto } from "./dto";
+
+// A user who has never been rated is stored with a rating of 0, but is treated as having this rating when computing the
+// deltas of both rated rounds and manual settings
+export const INITIAL_USER_RATING = 1500;
+
+export interface RatingStandingsItem {
+  username: string;
+  rank: number;
+}
+
+// The probability that a user with rating a beats a user with rating b
+function winProbability(a: number, b: number): number {
+  return 1 / (1 + 10 ** ((b - a) / 400));
+}
+
+/**
+ * Compute the rating changes of a round with Codeforces' algorithm. Each participant's expected place (seed) is
+ * computed from the ratings, and the rating is moved halfway to the one whose seed matches the geometric mean of the
+ * seed and the actual place. The changes are then adjusted to make the sum slightly negative, to avoid inflation.
+ *
+ * @param ranks Participants with the same rank are tied.
+ */
+function computeRatingDeltas(ratings: number[], ranks: number[]): number[] {
+  const n = ratings.length;
+
+  // A tie takes the lowest place of the tied participants
+  const sortedRanks = [...ranks].sort((a, b) => a - b);
+  const places = ranks.map(rank => {
+    let low = 0;
+    let high = n;
+    while (low < high) {
+      const mid = Math.floor((low + high) / 2);
+      if (sortedRanks[mid] <= rank) low = mid + 1;
+      else high = mid;
+    }
+    return low;
+  });
+
+  // Participants with the same rating contribute the same to a seed
+  const ratingCounts = new Map<number, number>();
+  for (const rating of ratings) ratingCounts.set(rating, (ratingCounts.get(rating) || 0) + 1);
+  const getSeed = (rating: number, excludedRating: number) => {
+    let seed = 1 - winProbability(excludedRating, rating);
+    for (const [otherRating, count] of ratingCounts) seed += count * winProbability(otherRating, rating);
+    return seed;
+  };
+
+  const deltas = ratings.map((rating, i) => {
+    const expectedPlace = Math.sqrt(places[i] * getSeed(rating, rating));
+
+    // The seed decreases as the rating increases
+    let low = 1;
+    let high = 8000;
+    while (high - low > 1) {
+      const mid = Math.trunc((low + high) / 2);
+      if (getSeed(mid, rating) < expectedPlace) high = mid;
+      else low = mid;
+    }
+
+    return Math.trunc((low - rating) / 2);
+  });
+
+  const totalDelta = deltas.reduce((sum, delta) => sum + delta, 0);
+  const increment = Math.trunc(-totalDelta / n) - 1;
+  for (let i = 0; i < n; i++) deltas[i] += increment;
+
+  // Keep the total change of the top rated participants non-positive
+  const topCount = Math.min(n, 4 * Math.round(Math.sqrt(n)));
+  const topTotalDelta = ratings
+    .map((rating, i) => [rating, deltas[i]])
+    .sort(([a], [b]) => b - a)
+    .slice(0, topCount)
+    .reduce((sum, [, delta]) => sum + delta, 0);
+  const topIncrement = Math.min(Math.max(Math.trunc(-topTotalDelta / topCount), -10), 0);
+  for (let i = 0; i < n; i++) deltas[i] += topIncrement;
+
+  return deltas;
+}
+
+@Injectable()
+export class UserRatingService {
+  constructor(
+    @InjectDataSource()
+    private readonly connection: DataSource,
+    @InjectRepository(UserRatingChangeEntity)
+    private readonly userRatingChangeRepository: Repository<UserRatingChangeEntity>,
+    @Inject(forwardRef(() => UserService))
+    private readonly userService: UserService,
+    @Inject(forwardRef(() => LockService))
+    private readonly lockService: LockService
+  ) {}
+
+  getRatingChangeDto(ratingChange: UserRatingChangeEntity): UserRatingChangeDto {
+    return {
+      userId: ratingChange.userId,
+      delta: ratingChange.delta,
+      newRating: ratingChange.newRating,
+      reason: ratingChange.reason,
+      source: ratingChange.source,
+      rank: ratingChange.rank,
+      changeTime: ratingChange.changeTime
+    };
+  }
+
+  async getUserRatingHistory(user: UserEntity): Promise<UserRatingChangeEntity[]> {
+    return await this.userRatingChangeRepository.find({
+      where: {
+        userId: user.id
+      },
+      order: {
+        changeTime: "ASC",
+        id: "ASC"
+      }
+    });
+  }
+
+  /**
+   * Parse a standings file in CSV format, each line contains a username and a rank. A header line is skipped.
+   *
+   * @return The 1-based number of the first invalid line.
+   */
+  parseRatingStandings(csv: string): [standings: RatingStandingsItem[], errorLine: number] {
+    const standings: RatingStandingsItem[] = [];
+    let isFirstLine = true;
+    for (const [i, line] of csv.split(/\r?\n/).entries()) {
+      if (!line.trim()) continue;
+
+      const [username, rankString, ...rest] = line.split(",").map(field => field.trim().replace(/^"(.*)"$/, "$1"));
+      const rank = Number(rankString);
+      if (!username || !Number.isSafeInteger(rank) || rank < 1 || rest.length > 0) {
+        if (isFirstLine) {
+          isFirstLine = false;
+          continue;
+        }
+        return [null, i + 1];
+      }
+
+      isFirstLine = false;
+      standings.push({ username, rank });
+    }
+
+    return [standings, null];
+  }
+
+  /**
+   * Apply the rating changes of a round to the participants.
+   *
+   * @param participants Participants with the same rank are tied.
+   */
+  async applyRatingRound(
+    participants: [user: UserEntity, rank: number][],
+    reason: string
+  ): Promise<UserRatingChangeEntity[]> {
+    return await this.lockService.lock("UserRating", async () => {
+      // Read the latest ratings in the lock
+      const users = await this.userService.findUsersByExistingIds(participants.map(([user]) => user.id));
+      const ranks = participants.map(([, rank]) => rank);
+      const oldRatings = users.map(user => user.rating || INITIAL_USER_RATING);
+      const deltas = computeRatingDeltas(oldRatings, ranks);
+
+      const changeTime = new Date();
+      const ratingChanges = users.map((user, i) => {
+        const ratingChange = new UserRatingChangeEntity();
+        ratingChange.userId = user.id;
+        ratingChange.newRating = Math.max(1, oldRatings[i] + deltas[i]);
+        ratingChange.delta = ratingChange.newRating - oldRatings[i];
+        ratingChange.reason = reason;
+        ratingChange.source = UserRatingChangeSource.Standings;
+        ratingChange.rank = ranks[i];
+        ratingChange.changeTime = changeTime;
+        return ratingChange;
+      });
+
+      await this.connection.transaction("READ COMMITTED", async transactionalEntityManager => {
+        for (const ratingChange of ratingChanges) {
+          /* eslint-disable no-await-in-loop */
+          await transactionalEntityManager.update(
+            UserEntity,
+            { id: ratingChange.userId },
+            { rating: ratingChange.newRating }
+          );
+          await transactionalEntityManager.save(ratingChange);
+          /* eslint-enable no-await-in-loop */
+        }
+      });
+
+      return ratingChanges;
+    });
+  }
+
+  async setUserRating(user: UserEntity, newRating: number, reason: string): Promise<UserRatingChangeEntity> {
+    return await this.lockService.lock("UserRating", async () => {
+      const { rating } = await this.userService.findUserById(user.id);
+
+      const ratingChange = new UserRatingChangeEntity();
+      ratingChange.userId = user.id;
+      ratingChange.delta = newRating - (rating || INITIAL_USER_RATING);
+      ratingChange.newRating = newRating;
+      ratingChange.reason = reason;
+      ratingChange.source = UserRatingChangeSource.Manual;
+      ratingChange.rank = null;
+      ratingChange.changeTime = new Date();
+
+      await this.connection.transaction("READ COMMITTED", async transactionalEntityManager => {
+        await transactionalEntityManager.update(UserEntity, { id: user.id }, { rating: newRating });
+        await transactionalEntityManager.save(ratingChange);
+      });
+
+      user.rating = newRating;
+      return ratingChange;
+    });
+  }
+}
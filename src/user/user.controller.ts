@@ -13,6 +13,7 @@ import { UserEntity } from "./user.entity";
 import { UserService } from "./user.service";
 import { UserPrivilegeService } from "./user-privilege.service";
 import { UserPrivilegeType } from "./user-privilege.entity";
+import { UserRatingService } from "./user-rating.service";
 
 import {
   GetUserMetaResponseDto,
@@ -52,7 +53,16 @@ import {
   UpdateUserSelfEmailResponseError,
   QueryAuditLogsRequestDto,
   QueryAuditLogsResponseDto,
-  QueryAuditLogsResponseError
+  QueryAuditLogsResponseError,
+  GetUserRatingHistoryRequestDto,
+  GetUserRatingHistoryResponseDto,
+  GetUserRatingHistoryResponseError,
+  SetUserRatingRequestDto,
+  SetUserRatingResponseDto,
+  SetUserRatingResponseError,
+  ApplyRatingStandingsRequestDto,
+  ApplyRatingStandingsResponseDto,
+  ApplyRatingStandingsResponseError
 } from "./dto";
 
 @ApiTags("User")
@@ -67,7 +77,8 @@ export class UserController {
     private readonly submissionService: SubmissionService,
     private readonly auditService: AuditService,
     private readonly authIpLocationService: AuthIpLocationService,
-    private readonly userMigrationService: UserMigrationService
+    private readonly userMigrationService: UserMigrationService,
+    private readonly userRatingService: UserRatingService
   ) {}
 
   @Get("searchUser")
@@ -512,10 +523,13 @@ export class UserController {
     return {
       results: await Promise.all(
         results.map(async result => ({
-          user: await this.userService.getUserMeta(
-            result.userId === user?.id ? user : await this.userService.findUserById(result.userId),
-            currentUser
-          ),
+          user:
+            result.userId == null
+              ? null
+              : await this.userService.getUserMeta(
+                  result.userId === user?.id ? user : await this.userService.findUserById(result.userId),
+                  currentUser
+                ),
           ip: result.ip,
           ipLocation: this.authIpLocationService.query(result.ip),
           time: result.time,
@@ -616,4 +630,125 @@ export class UserController {
       error
     };
   }
+
+  @Post("getUserRatingHistory")
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: "Get a user's rating changes in chronological order."
+  })
+  async getUserRatingHistory(
+    @Body() request: GetUserRatingHistoryRequestDto
+  ): Promise<GetUserRatingHistoryResponseDto> {
+    const user = await this.userService.findUserById(request.userId);
+    if (!user)
+      return {
+        error: GetUserRatingHistoryResponseError.NO_SUCH_USER
+      };
+
+    const ratingChanges = await this.userRatingService.getUserRatingHistory(user);
+    return {
+      ratingHistory: ratingChanges.map(ratingChange => this.userRatingService.getRatingChangeDto(ratingChange))
+    };
+  }
+
+  @Post("setUserRating")
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: "Manually set a user's rating."
+  })
+  async setUserRating(
+    @CurrentUser() currentUser: UserEntity,
+    @Body() request: SetUserRatingRequestDto
+  ): Promise<SetUserRatingResponseDto> {
+    if (!(await this.userPrivilegeService.userHasPrivilege(currentUser, UserPrivilegeType.ManageUser)))
+      return {
+        error: SetUserRatingResponseError.PERMISSION_DENIED
+      };
+
+    const user = await this.userService.findUserById(request.userId);
+    if (!user)
+      return {
+        error: SetUserRatingResponseError.NO_SUCH_USER
+      };
+
+    const ratingChange = await this.userRatingService.setUserRating(user, request.rating, request.reason);
+
+    await this.auditService.log("user.set_rating", AuditLogObjectType.User, user.id, {
+      oldRating: ratingChange.newRating - ratingChange.delta,
+      newRating: ratingChange.newRating,
+      reason: ratingChange.reason
+    });
+
+    return {};
+  }
+
+  @Post("applyRatingStandings")
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: "Apply a rating round to the users in a standings file.",
+    description: "The rating changes are computed with a Codeforces-like algorithm. Requires ManageUser privilege."
+  })
+  async applyRatingStandings(
+    @CurrentUser() currentUser: UserEntity,
+    @Body() request: ApplyRatingStandingsRequestDto
+  ): Promise<ApplyRatingStandingsResponseDto> {
+    if (!(await this.userPrivilegeService.userHasPrivilege(currentUser, UserPrivilegeType.ManageUser)))
+      return {
+        error: ApplyRatingStandingsResponseError.PERMISSION_DENIED
+      };
+
+    const [standings, errorLine] = this.userRatingService.parseRatingStandings(request.standings);
+    if (!standings)
+      return {
+        error: ApplyRatingStandingsResponseError.INVALID_STANDINGS,
+        errorLine
+      };
+
+    if (standings.length < 2)
+      return {
+        error: ApplyRatingStandingsResponseError.TOO_FEW_PARTICIPANTS
+      };
+
+    if (standings.length > this.configService.config.queryLimit.ratingStandingsParticipants)
+      return {
+        error: ApplyRatingStandingsResponseError.TOO_MANY_PARTICIPANTS
+      };
+
+    const users = await this.userService.findUsersByUsernames(standings.map(({ username }) => username));
+    const participants: [user: UserEntity, rank: number][] = [];
+    const userIds = new Set<number>();
+    for (const [i, user] of users.entries()) {
+      if (!user)
+        return {
+          error: ApplyRatingStandingsResponseError.NO_SUCH_USER,
+          errorUsername: standings[i].username
+        };
+
+      if (userIds.has(user.id))
+        return {
+          error: ApplyRatingStandingsResponseError.DUPLICATE_USER,
+          errorUsername: standings[i].username
+        };
+
+      userIds.add(user.id);
+      participants.push([user, standings[i].rank]);
+    }
+
+    const ratingChanges = await this.userRatingService.applyRatingRound(participants, request.reason);
+
+    await Promise.all(
+      ratingChanges.map(ratingChange =>
+        this.auditService.log("user.apply_rating_standings", AuditLogObjectType.User, ratingChange.userId, {
+          oldRating: ratingChange.newRating - ratingChange.delta,
+          newRating: ratingChange.newRating,
+          rank: ratingChange.rank,
+          reason: ratingChange.reason
+        })
+      )
+    );
+
+    return {
+      ratingChanges: ratingChanges.map(ratingChange => this.userRatingService.getRatingChangeDto(ratingChange))
+    };
+  }
 }
@@ -11,8 +11,10 @@ import { UserEntity } from "./user.entity";
 import { UserPrivilegeEntity } from "./user-privilege.entity";
 import { UserInformationEntity } from "./user-information.entity";
 import { UserPreferenceEntity } from "./user-preference.entity";
+import { UserRatingChangeEntity } from "./user-rating-change.entity";
 import { UserService } from "./user.service";
 import { UserPrivilegeService } from "./user-privilege.service";
+import { UserRatingService } from "./user-rating.service";
 import { UserController } from "./user.controller";
 
 @Module({
@@ -21,14 +23,15 @@ import { UserController } from "./user.controller";
     TypeOrmModule.forFeature([UserPrivilegeEntity]),
     TypeOrmModule.forFeature([UserInformationEntity]),
     TypeOrmModule.forFeature([UserPreferenceEntity]),
+    TypeOrmModule.forFeature([UserRatingChangeEntity]),
     forwardRef(() => AuthModule),
     forwardRef(() => SubmissionModule),
     forwardRef(() => RedisModule),
     forwardRef(() => AuditModule),
     forwardRef(() => MigrationModule)
   ],
-  providers: [UserService, UserPrivilegeService],
+  providers: [UserService, UserPrivilegeService, UserRatingService],
   controllers: [UserController],
-  exports: [UserService, UserPrivilegeService]
+  exports: [UserService, UserPrivilegeService, UserRatingService]
 })
 export class UserModule {}
@@ -3,7 +3,7 @@ import crypto from "crypto";
 import { Injectable, forwardRef, Inject } from "@nestjs/common";
 import { InjectRepository, InjectDataSource } from "@nestjs/typeorm";
 
-import { Repository, DataSource, Like, MoreThan, EntityManager } from "typeorm";
+import { Repository, DataSource, Like, MoreThan, EntityManager, In } from "typeorm";
 
 import { escapeLike } from "@/database/database.utils";
 import { LockService } from "@/redis/lock.service";
@@ -85,6 +85,19 @@ export class UserService {
     });
   }
 
+  /**
+   * Find users by their usernames with one query. Usernames are matched case-insensitively like the database does.
+   *
+   * @return The users in the order of the usernames, `undefined` for the ones not found.
+   */
+  async findUsersByUsernames(usernames: string[]): Promise<UserEntity[]> {
+    if (usernames.length === 0) return [];
+    const uniqueUsernames = Array.from(new Set(usernames));
+    const records = await this.userRepository.findBy({ username: In(uniqueUsernames) });
+    const map = Object.fromEntries(records.map(record => [record.username.toLowerCase(), record]));
+    return usernames.map(username => map[username.toLowerCase()]);
+  }
+
   async findUserByEmail(email: string): Promise<UserEntity> {
     return await this.userRepository.findOneBy({
       email